@@ -1,9 +1,29 @@
 import { query, SDKMessage, SDKAssistantMessage, SDKResultMessage, SDKSystemMessage, SDKPartialAssistantMessage } from "@anthropic-ai/claude-agent-sdk";
 import { App } from "obsidian";
 import type ClaudeCodePlugin from "../main";
-import { ChatMessage, ToolCall, AgentEvents, SubagentProgress, ErrorType } from "../types";
+import { ChatMessage, ToolCall, AgentEvents, SubagentProgress, ErrorType, PermissionMode } from "../types";
 import { createObsidianMcpServer, ObsidianMcpServerInstance } from "./ObsidianMcpServer";
 import { logger } from "../utils/Logger";
+import {
+  buildToolDescription,
+  buildDenialMessage,
+  getToolRiskLevel,
+  isSystemTool,
+} from "../utils/permissions";
+import {
+  evaluatePermission,
+  describeRule,
+  describeDecisionReason,
+  type PermissionContext,
+} from "../utils/permissionRules";
+import { suggestCommandPatterns, isPatternApprovable } from "../utils/bashCommands";
+import { resolveVaultPath } from "../utils/pathUtils";
+import type { PermissionApproval } from "../views/PermissionModal";
+import { summarizeToolInput, type PermissionAuditSource } from "../utils/auditLog";
+import { getActiveApprovals, stampApprovals } from "../utils/approvals";
+import { buildModeDenialMessage, toSdkPermissionMode } from "../utils/permissionModes";
+import { groupMcpToolsByServer } from "../utils/mcpTools";
+import { hasEditPreview } from "../utils/diff";
 import { spawn, ChildProcess } from "child_process";
 
 // Type for content blocks from the SDK.
@@ -58,6 +78,10 @@ export class AgentController {
 
   // Permission memory for "remember this session".
   private approvedTools: Set<string> = new Set();
+  private approvedCommands: string[] = [];
+
+  // Permission mode of the conversation shown in the owning view.
+  private permissionMode: PermissionMode = "default";
 
   // Subagent tracking: maps SDK subagentId to our toolCallId.
   private pendingSubagents: Map<string, string> = new Map();
@@ -69,7 +93,15 @@ export class AgentController {
     this.plugin = plugin;
     this.app = plugin.app;
     this.vaultPath = this.getVaultPath();
-    this.obsidianMcp = createObsidianMcpServer(this.app, this.vaultPath);
+    this.obsidianMcp = createObsidianMcpServer(this.app, this.vaultPath, {
+      backupFile: (file, id) => this.plugin.deletionLog.backup(file, id),
+      onFileDeleted: (file) => this.events.onFileDeleted?.(file),
+      searchNotes: (options) => this.plugin.searchIndex.search(options),
+      semanticSearch: (options) => this.plugin.semanticIndex.search(options),
+      findSimilarNotes: (path, limit) => this.plugin.semanticIndex.findSimilar(path, limit),
+      rebuildSemanticIndex: (force) => this.plugin.semanticIndex.update(force),
+      getSemanticIndexStats: () => this.plugin.semanticIndex.stats(),
+    });
   }
 
   private getVaultPath(): string {
@@ -355,6 +387,9 @@ export class AgentController {
           // Resume session if available.
           resume: this.sessionId ?? undefined,
 
+          // Plan mode is enforced by the SDK as well as by handlePermission.
+          permissionMode: toSdkPermissionMode(this.permissionMode),
+
           // Permission handling.
           canUseTool: async (toolName, input) => {
             return this.handlePermission(toolName, input);
@@ -372,6 +407,7 @@ export class AgentController {
           this.sessionId = message.session_id;
           logger.info("AgentController", `Session initialized: ${this.sessionId}`);
           logger.info("AgentController", `Available tools: ${message.tools.join(", ")}`);
+          await this.recordDiscoveredMcpTools(message.tools);
         } else if (message.type === "stream_event") {
           // Handle streaming partial messages for real-time UI updates.
           this.handleStreamEvent(message, messageId);
@@ -581,123 +617,225 @@ export class AgentController {
     }
   }
 
+  // Remember each user MCP server's tool names so they can be classified in settings.
+  private async recordDiscoveredMcpTools(toolNames: string[]) {
+    const servers = this.plugin.settings.mcpServers || [];
+    const groups = groupMcpToolsByServer(toolNames, servers);
+
+    let changed = false;
+    for (const server of servers) {
+      const tools = groups.get(server.id);
+      // Keep the last known list for servers that didn't start this time.
+      if (!tools) continue;
+      if (JSON.stringify(tools) !== JSON.stringify(server.discoveredTools ?? [])) {
+        server.discoveredTools = tools;
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      await this.plugin.saveSettings();
+      logger.info("AgentController", "Updated discovered MCP tools");
+    }
+  }
+
+  // Build the permission policy context from settings and session approvals.
+  private buildPermissionContext(): PermissionContext {
+    const settings = this.plugin.settings;
+    return {
+      rules: settings.permissionRules || [],
+      autoApproveVaultWrites: settings.autoApproveVaultWrites,
+      requireBashApproval: settings.requireBashApproval,
+      // Expired approvals are ignored here and removed from settings on the next load.
+      alwaysAllowedTools: getActiveApprovals(
+        settings.alwaysAllowedTools,
+        settings.alwaysAllowedToolsGrantedAt,
+        settings.approvalExpiryDays
+      ),
+      allowedCommands: getActiveApprovals(
+        settings.allowedBashCommands || [],
+        settings.allowedBashCommandsGrantedAt,
+        settings.approvalExpiryDays
+      ),
+      sessionApprovedCommands: this.approvedCommands,
+      protectedFolders: settings.protectedFolders || [],
+      scratchFolders: settings.scratchFolders || [],
+      sessionApprovedTools: this.approvedTools,
+      vaultPath: this.vaultPath,
+      mode: this.permissionMode,
+      mcpServers: settings.mcpServers || [],
+    };
+  }
+
   // Handle permission requests.
   private async handlePermission(
     toolName: string,
     input: any
   ): Promise<{ behavior: "allow"; updatedInput: any } | { behavior: "deny"; message: string }> {
-    // Auto-approve read-only operations.
-    const readOnlyTools = [
-      "Read",
-      "Glob",
-      "Grep",
-      "LS",
-      "mcp__obsidian__get_active_file",
-      "mcp__obsidian__get_vault_stats",
-      "mcp__obsidian__get_recent_files",
-      "mcp__obsidian__list_commands",
-    ];
-
-    if (readOnlyTools.includes(toolName)) {
+    const decision = evaluatePermission(toolName, input, this.buildPermissionContext());
+    const detail = describeDecisionReason(decision);
+
+    if (decision.effect === "allow") {
+      this.auditPermission(toolName, input, "allow", decision.source, detail);
       return { behavior: "allow", updatedInput: input };
     }
 
-    // Auto-approve Obsidian UI tools (safe operations).
-    const obsidianUiTools = [
-      "mcp__obsidian__open_file",
-      "mcp__obsidian__show_notice",
-      "mcp__obsidian__reveal_in_explorer",
-      "mcp__obsidian__execute_command",
-      "mcp__obsidian__create_note",
-    ];
+    if (decision.source === "mode" && decision.mode) {
+      logger.info("AgentController", `Denied ${toolName} in ${decision.mode} mode`);
+      this.auditPermission(toolName, input, "deny", decision.source, detail);
+      return { behavior: "deny", message: buildModeDenialMessage(toolName, decision.mode) };
+    }
 
-    if (obsidianUiTools.includes(toolName)) {
-      return { behavior: "allow", updatedInput: input };
+    if (decision.source === "mcp-server" && decision.mcpServer) {
+      logger.info("AgentController", `Denied ${toolName} by MCP server settings`, { server: decision.mcpServer });
+      this.auditPermission(toolName, input, "deny", decision.source, detail);
+      return {
+        behavior: "deny",
+        message: `Denied: ${toolName} is disabled in the ${decision.mcpServer} MCP server settings`,
+      };
     }
 
-    // Check if tool is in the always-allowed list (persistent setting).
-    if (this.plugin.settings.alwaysAllowedTools.includes(toolName)) {
-      return { behavior: "allow", updatedInput: input };
+    if (decision.source === "vault-boundary") {
+      logger.info("AgentController", `Denied ${toolName} outside the vault`, { path: input?.file_path ?? input?.path });
+      this.auditPermission(toolName, input, "deny", decision.source, detail);
+      return { behavior: "deny", message: "Denied: the target path resolves outside the vault" };
     }
 
-    // Check settings for file write operations.
-    const writeTools = ["Write", "Edit", "MultiEdit"];
-    if (writeTools.includes(toolName)) {
-      if (this.plugin.settings.autoApproveVaultWrites) {
-        return { behavior: "allow", updatedInput: input };
-      }
-      // Check if already approved for this session.
-      if (this.approvedTools.has(toolName)) {
-        return { behavior: "allow", updatedInput: input };
-      }
-      // Show permission modal for writes.
-      const result = await this.showPermissionModal(toolName, input, "medium");
-      if (result.approved) {
-        await this.handlePermissionChoice(toolName, result.choice);
-        return { behavior: "allow", updatedInput: input };
-      }
-      return { behavior: "deny", message: "User denied file write permission" };
+    if (decision.effect === "deny") {
+      const reason = decision.rule ? describeRule(decision.rule) : toolName;
+      logger.info("AgentController", `Denied ${toolName} by permission rule`, { rule: decision.rule });
+      this.auditPermission(toolName, input, "deny", decision.source, detail);
+      return { behavior: "deny", message: `Denied by permission rule: ${reason}` };
     }
 
-    // Check settings for bash commands.
-    if (toolName === "Bash") {
-      if (!this.plugin.settings.requireBashApproval) {
-        return { behavior: "allow", updatedInput: input };
-      }
-      // Check if already approved for this session.
-      if (this.approvedTools.has("Bash")) {
-        return { behavior: "allow", updatedInput: input };
-      }
-      // Show permission modal for bash.
-      const result = await this.showPermissionModal(toolName, input, "high");
-      if (result.approved) {
-        await this.handlePermissionChoice("Bash", result.choice);
-        return { behavior: "allow", updatedInput: input };
+    // Ask the user.
+    const risk = getToolRiskLevel(toolName, this.plugin.settings.mcpServers || []);
+    const file = hasEditPreview(toolName) ? await this.readFileForPreview(input) : undefined;
+    const result = await this.showPermissionModal(toolName, input, risk === "none" ? "low" : risk, detail, file);
+    if (result.approved) {
+      // Input edited in the modal must still pass deny rules.
+      const updatedInput = result.updatedInput ?? input;
+      if (result.updatedInput) {
+        const recheck = evaluatePermission(toolName, updatedInput, this.buildPermissionContext());
+        if (recheck.effect === "deny") {
+          const reason = recheck.rule ? describeRule(recheck.rule) : toolName;
+          this.auditPermission(toolName, updatedInput, "deny", recheck.source, describeDecisionReason(recheck), true);
+          return { behavior: "deny", message: `Denied by permission rule: ${reason}` };
+        }
+        logger.info("AgentController", `User edited ${toolName} input before approving`);
       }
-      return { behavior: "deny", message: "User denied bash command permission" };
-    }
 
-    // Auto-approve Task/subagent tools (they'll request their own permissions).
-    if (toolName === "Task") {
-      return { behavior: "allow", updatedInput: input };
+      await this.handlePermissionChoice(toolName, result.choice, result.commandPatterns, updatedInput);
+      this.auditPermission(toolName, updatedInput, "allow", "modal", `Approved (${result.choice})`, !!result.updatedInput);
+      return { behavior: "allow", updatedInput };
     }
 
-    // Default: allow other tools (web search, etc.).
-    return { behavior: "allow", updatedInput: input };
+    this.auditPermission(
+      toolName,
+      input,
+      "deny",
+      "modal",
+      result.feedback ? `Denied: ${result.feedback}` : "Denied"
+    );
+    return { behavior: "deny", message: buildDenialMessage(toolName, result.feedback) };
+  }
+
+  // Report a permission decision for the audit log.
+  private auditPermission(
+    toolName: string,
+    input: any,
+    decision: "allow" | "deny",
+    source: PermissionAuditSource,
+    detail?: string,
+    edited?: boolean
+  ) {
+    this.events.onPermissionDecision?.({
+      timestamp: Date.now(),
+      toolName,
+      input: summarizeToolInput(input ?? {}),
+      decision,
+      source,
+      ...(detail ? { detail } : {}),
+      ...(edited ? { edited } : {}),
+    });
   }
 
   // Handle the user's permission choice (session vs always).
-  private async handlePermissionChoice(toolName: string, choice: "once" | "session" | "always") {
+  // Bash approvals remember command patterns instead of the whole tool. Without patterns, or for a
+  // command using command substitution (which no pattern can allow), they count as "once".
+  private async handlePermissionChoice(
+    toolName: string,
+    choice: "once" | "session" | "always",
+    commandPatterns: string[] | undefined,
+    input: any
+  ) {
+    if (isSystemTool(toolName)) {
+      const patterns = commandPatterns ?? [];
+      if (choice === "once") return;
+      if (patterns.length === 0 || !isPatternApprovable(String(input?.command ?? ""))) {
+        logger.info("AgentController", `Approved ${toolName} once: no command patterns to remember`);
+        return;
+      }
+
+      if (choice === "session") {
+        for (const pattern of patterns) {
+          if (!this.approvedCommands.includes(pattern)) this.approvedCommands.push(pattern);
+        }
+      } else {
+        const settings = this.plugin.settings;
+        const allowed = settings.allowedBashCommands || [];
+        const added = patterns.filter((pattern) => !allowed.includes(pattern));
+        if (added.length > 0) {
+          settings.allowedBashCommands = [...allowed, ...added];
+          settings.allowedBashCommandsGrantedAt = stampApprovals(added, settings.allowedBashCommandsGrantedAt);
+          await this.plugin.saveSettings();
+          logger.info("AgentController", "Added command patterns to allowlist", { patterns: added });
+        }
+      }
+      return;
+    }
+
     if (choice === "session") {
       this.approvedTools.add(toolName);
     } else if (choice === "always") {
       // Add to persistent settings.
-      if (!this.plugin.settings.alwaysAllowedTools.includes(toolName)) {
-        this.plugin.settings.alwaysAllowedTools.push(toolName);
+      const settings = this.plugin.settings;
+      if (!settings.alwaysAllowedTools.includes(toolName)) {
+        settings.alwaysAllowedTools = [...settings.alwaysAllowedTools, toolName];
+        settings.alwaysAllowedToolsGrantedAt = stampApprovals([toolName], settings.alwaysAllowedToolsGrantedAt);
         await this.plugin.saveSettings();
         logger.info("AgentController", `Added ${toolName} to always-allowed tools`);
       }
     }
   }
 
+  // Read the current content of a file write's target for the diff preview (null if it doesn't exist).
+  // A file that exists but can't be read is flagged, so the preview warns rather than showing a new file.
+  private async readFileForPreview(input: any): Promise<{ content: string | null; unreadable: boolean }> {
+    const relative = typeof input?.file_path === "string" ? resolveVaultPath(input.file_path, this.vaultPath) : null;
+    if (!relative) return { content: null, unreadable: false };
+    try {
+      const adapter = this.app.vault.adapter;
+      if (!(await adapter.exists(relative))) return { content: null, unreadable: false };
+      return { content: await adapter.read(relative), unreadable: false };
+    } catch (error) {
+      logger.warn("AgentController", "Could not read file for diff preview", { path: relative, error: String(error) });
+      return { content: null, unreadable: true };
+    }
+  }
+
   // Show a permission modal and wait for user response.
   private showPermissionModal(
     toolName: string,
     input: any,
-    risk: "low" | "medium" | "high"
-  ): Promise<{ approved: boolean; choice: "once" | "session" | "always" }> {
+    risk: "low" | "medium" | "high",
+    reason?: string,
+    file?: { content: string | null; unreadable: boolean }
+  ): Promise<{ approved: false; feedback?: string } | ({ approved: true } & PermissionApproval)> {
     return new Promise((resolve) => {
       const { PermissionModal } = require("../views/PermissionModal");
 
-      // Build a description based on the tool.
-      let description = `Claude wants to use the ${toolName} tool.`;
-      if (toolName === "Edit" || toolName === "Write") {
-        const filePath = input.file_path || input.path || "a file";
-        description = `Claude wants to ${toolName.toLowerCase()} the file: ${filePath}`;
-      } else if (toolName === "Bash") {
-        const command = input.command || "";
-        description = `Claude wants to run a shell command: ${command.slice(0, 100)}${command.length > 100 ? "..." : ""}`;
-      }
+      const description = buildToolDescription(toolName, input);
 
       const modal = new PermissionModal(
         this.app,
@@ -706,9 +844,13 @@ export class AgentController {
           toolInput: input,
           description,
           risk,
+          reason,
+          commandPatterns: isSystemTool(toolName) ? suggestCommandPatterns(input?.command || "") : undefined,
+          fileContent: file?.content,
+          fileUnreadable: file?.unreadable,
         },
-        (choice: "once" | "session" | "always") => resolve({ approved: true, choice }),  // onApprove
-        () => resolve({ approved: false, choice: "once" })  // onDeny
+        (approval: PermissionApproval) => resolve({ approved: true, ...approval }),  // onApprove
+        (feedback?: string) => resolve({ approved: false, feedback })  // onDeny
       );
       modal.open();
     });
@@ -836,6 +978,41 @@ export class AgentController {
     }
   }
 
+  // Set the permission mode used for tool calls from now on.
+  setPermissionMode(mode: PermissionMode) {
+    if (mode !== this.permissionMode) {
+      logger.info("AgentController", "Permission mode changed", { from: this.permissionMode, to: mode });
+    }
+    this.permissionMode = mode;
+  }
+
+  // Get the current permission mode.
+  getPermissionMode(): PermissionMode {
+    return this.permissionMode;
+  }
+
+  // Get the tools and command patterns approved for this session.
+  getSessionApprovals(): { tools: string[]; commands: string[] } {
+    return { tools: Array.from(this.approvedTools), commands: [...this.approvedCommands] };
+  }
+
+  // Revoke a single session approval.
+  revokeSessionApproval(kind: "tool" | "command", value: string) {
+    if (kind === "tool") {
+      this.approvedTools.delete(value);
+    } else {
+      this.approvedCommands = this.approvedCommands.filter((pattern) => pattern !== value);
+    }
+    logger.info("AgentController", "Revoked session approval", { kind, value });
+  }
+
+  // Forget all session approvals.
+  clearSessionApprovals() {
+    this.approvedTools.clear();
+    this.approvedCommands = [];
+    logger.info("AgentController", "Cleared session approvals");
+  }
+
   // Clear conversation history (starts a new session).
   clearHistory() {
     this.sessionId = null;
@@ -0,0 +1,164 @@
+import { TFile, arrayBufferToBase64, loadPdfJs, type App } from "obsidian";
+import { logger } from "../utils/Logger";
+import {
+  getImageMimeType,
+  fitImageSize,
+  parsePageRanges,
+  joinPdfTextItems,
+  type PdfPageText,
+} from "../utils/attachments";
+
+// Largest image sent to Claude: 5 MB once base64 encoded, the API's limit per image.
+const MAX_IMAGE_BYTES = Math.floor((5 * 1024 * 1024 * 3) / 4);
+
+// Longest side of an image sent to Claude. Larger images are scaled down, as the API would do anyway.
+const MAX_IMAGE_EDGE = 1568;
+
+// Quality of images re-encoded as JPEG.
+const JPEG_QUALITY = 0.85;
+
+/**
+ * An image ready to send to Claude as an image content block.
+ */
+export interface ImageAttachment {
+  // Base64 encoded image data.
+  data: string;
+  mimeType: string;
+  // Size of the file in the vault, and of the data sent.
+  size: number;
+  sentSize: number;
+  // Dimensions sent, when the image could be decoded.
+  width?: number;
+  height?: number;
+  resized: boolean;
+}
+
+/**
+ * Text extracted from a PDF.
+ */
+export interface PdfText {
+  pageCount: number;
+  pages: PdfPageText[];
+}
+
+// Image data to send, with its dimensions when it could be decoded.
+interface ScaledImage {
+  data: ArrayBuffer;
+  mimeType: string;
+  width?: number;
+  height?: number;
+}
+
+// Reads attachments so Claude can see them: images as base64, scaled down when large, and the text layer of PDFs.
+// Images are decoded with the browser's image decoder and PDFs with the copy of pdf.js that ships with Obsidian.
+export class AttachmentReader {
+  private app: App;
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  /**
+   * Read an image for Claude, scaling it down if it is larger than Claude views images.
+   * Returns an error message for files that aren't a supported image or are too large.
+   */
+  async readImage(file: TFile): Promise<ImageAttachment | string> {
+    const mimeType = getImageMimeType(file.extension);
+    if (!mimeType) return `Not an image Claude can view (png, jpg, gif or webp): ${file.path}`;
+
+    const buffer = await this.app.vault.readBinary(file);
+    let image: ScaledImage = { data: buffer, mimeType };
+    try {
+      image = await this.scaleImage(buffer, mimeType);
+    } catch (e) {
+      // Send the file as it is if the browser can't decode it; Claude may still read it.
+      logger.warn("AttachmentReader", "Failed to decode image", { path: file.path, error: String(e) });
+    }
+
+    if (image.data.byteLength > MAX_IMAGE_BYTES) {
+      return `Image is too large to send (${Math.round(image.data.byteLength / 1024)} KB): ${file.path}`;
+    }
+    return {
+      data: arrayBufferToBase64(image.data),
+      mimeType: image.mimeType,
+      size: buffer.byteLength,
+      sentSize: image.data.byteLength,
+      width: image.width,
+      height: image.height,
+      resized: image.data !== buffer,
+    };
+  }
+
+  /**
+   * Extract the text of a PDF's pages, all of them or those in a range such as "1-3, 5".
+   * Stops after the page that brings the text past maxChars. Returns an error message on failure.
+   */
+  async readPdfText(file: TFile, pageRange: string | undefined, maxChars: number): Promise<PdfText | string> {
+    if (file.extension.toLowerCase() !== "pdf") return `Not a PDF: ${file.path}`;
+
+    const buffer = await this.app.vault.readBinary(file);
+    let pdf: any;
+    try {
+      const pdfjs = await loadPdfJs();
+      pdf = await pdfjs.getDocument({ data: new Uint8Array(buffer) }).promise;
+    } catch (e) {
+      logger.warn("AttachmentReader", "Failed to open PDF", { path: file.path, error: String(e) });
+      return `Failed to open PDF: ${file.path}`;
+    }
+
+    try {
+      const pageCount: number = pdf.numPages;
+      const selected = pageRange ? parsePageRanges(pageRange, pageCount) : null;
+      if (typeof selected === "string") return selected;
+
+      const pages: PdfPageText[] = [];
+      let length = 0;
+      for (const number of selected ?? Array.from({ length: pageCount }, (_, i) => i + 1)) {
+        if (length >= maxChars) break;
+        const page = await pdf.getPage(number);
+        const content = await page.getTextContent();
+        const text = joinPdfTextItems(content.items);
+        pages.push({ page: number, text });
+        length += text.length;
+      }
+      return { pageCount, pages };
+    } catch (e) {
+      logger.warn("AttachmentReader", "Failed to read PDF text", { path: file.path, error: String(e) });
+      return `Failed to read PDF text: ${file.path}`;
+    } finally {
+      await pdf.destroy?.();
+    }
+  }
+
+  // Decode an image to get its size, and scale it down if it is larger than Claude views or can be sent.
+  // Returns the original data when it already fits. PNGs stay PNGs to keep transparency unless still too large.
+  private async scaleImage(buffer: ArrayBuffer, mimeType: string): Promise<ScaledImage> {
+    const bitmap = await createImageBitmap(new Blob([buffer], { type: mimeType }));
+    try {
+      const size = fitImageSize(bitmap.width, bitmap.height, MAX_IMAGE_EDGE);
+      const fits = size.width === bitmap.width && size.height === bitmap.height;
+      if (fits && buffer.byteLength <= MAX_IMAGE_BYTES) return { data: buffer, mimeType, ...size };
+
+      const canvas = document.createElement("canvas");
+      canvas.width = size.width;
+      canvas.height = size.height;
+      canvas.getContext("2d")?.drawImage(bitmap, 0, 0, size.width, size.height);
+
+      let type = mimeType === "image/png" ? "image/png" : "image/jpeg";
+      let blob = await toBlob(canvas, type);
+      if (blob && blob.size > MAX_IMAGE_BYTES && type !== "image/jpeg") {
+        type = "image/jpeg";
+        blob = await toBlob(canvas, type);
+      }
+      if (!blob) throw new Error("Failed to encode scaled image");
+      return { data: await blob.arrayBuffer(), mimeType: type, ...size };
+    } finally {
+      bitmap.close();
+    }
+  }
+}
+
+// Encode a canvas as an image blob.
+function toBlob(canvas: HTMLCanvasElement, type: string): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, type, JPEG_QUALITY));
+}
@@ -1,6 +1,6 @@
 import type { MessageParam } from "@anthropic-ai/sdk/resources/messages";
 import type ClaudeCodePlugin from "../main";
-import { Conversation, ChatMessage } from "../types";
+import { Conversation, ChatMessage, PermissionMode } from "../types";
 import { logger } from "../utils/Logger";
 
 // Storage directory name within the vault.
@@ -299,6 +299,14 @@ export class ConversationManager {
     }
   }
 
+  // Update the permission mode for the current conversation.
+  async updatePermissionMode(mode: PermissionMode) {
+    if (this.currentConversation) {
+      this.currentConversation.permissionMode = mode;
+      await this.saveConversation(this.currentConversation);
+    }
+  }
+
   // Add a message to a specific conversation by ID (for background streaming support).
   async addMessageToConversation(
     conversationId: string,
@@ -0,0 +1,212 @@
+import type { TFile } from "obsidian";
+import type ClaudeCodePlugin from "../main";
+import { logger } from "../utils/Logger";
+import {
+  parseDeletionLog,
+  serializeDeletionEvent,
+  serializeDeletionLog,
+  planDeletionLogPrune,
+  getRestorableFiles,
+  getRestorePath,
+  type DeletedFile,
+} from "../utils/deletions";
+
+// Storage location within the vault (shared with ConversationManager).
+const STORAGE_DIR = ".obsidian-claude-code";
+const DELETIONS_DIR = "deletions";
+const BACKUP_DIR = "backups";
+
+// Files larger than this are trashed without a backup copy.
+const MAX_BACKUP_BYTES = 50 * 1024 * 1024;
+
+// Deletions can be restored for 30 days; older log entries and their backups are removed.
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Most deletions kept in a conversation's log. Older ones are removed with their backups.
+const MAX_LOG_ENTRIES = 200;
+
+/**
+ * Result of restoring a conversation's deleted files.
+ */
+export interface RestoreResult {
+  restored: { from: string; to: string }[];
+  failed: { path: string; error: string }[];
+}
+
+// Files deleted by the agent, one JSON Lines file per conversation, with backup copies for restoring.
+export class DeletionLog {
+  private plugin: ClaudeCodePlugin;
+  private initialized = false;
+
+  // Serializes appends so concurrent deletions are written in order.
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(plugin: ClaudeCodePlugin) {
+    this.plugin = plugin;
+  }
+
+  // Create the log and backup directories if they don't exist.
+  private async initialize() {
+    if (this.initialized) return;
+
+    const adapter = this.plugin.app.vault.adapter;
+    const dirs = [STORAGE_DIR, `${STORAGE_DIR}/${DELETIONS_DIR}`, `${STORAGE_DIR}/${DELETIONS_DIR}/${BACKUP_DIR}`];
+    for (const dir of dirs) {
+      try {
+        if (!(await adapter.exists(dir))) {
+          await adapter.mkdir(dir);
+        }
+      } catch (e) {
+        // Folder may already exist, ignore error.
+      }
+    }
+
+    this.initialized = true;
+  }
+
+  private getLogPath(conversationId: string): string {
+    return `${STORAGE_DIR}/${DELETIONS_DIR}/${conversationId}.jsonl`;
+  }
+
+  // Run a change to the logs after the ones already queued.
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.writeQueue = this.writeQueue.then(task);
+    return this.writeQueue;
+  }
+
+  // Append a line to a conversation's log.
+  private append(conversationId: string, line: string): Promise<void> {
+    return this.enqueue(async () => {
+      try {
+        await this.initialize();
+        const adapter = this.plugin.app.vault.adapter;
+        const path = this.getLogPath(conversationId);
+        if (await adapter.exists(path)) {
+          await adapter.append(path, line);
+        } else {
+          await adapter.write(path, line);
+        }
+      } catch (e) {
+        logger.error("DeletionLog", "Failed to write deletion log", { error: String(e) });
+      }
+    });
+  }
+
+  // Drop expired and excess entries from a log and remove their backups. An emptied log is removed.
+  private async pruneLog(path: string): Promise<void> {
+    const adapter = this.plugin.app.vault.adapter;
+    try {
+      if (!(await adapter.exists(path))) return;
+      const files = parseDeletionLog(await adapter.read(path));
+      const { kept, dropped } = planDeletionLogPrune(files, Date.now(), RETENTION_MS, MAX_LOG_ENTRIES);
+      if (dropped.length === 0) return;
+
+      for (const file of dropped) {
+        if (file.backupPath && (await adapter.exists(file.backupPath))) {
+          await adapter.remove(file.backupPath);
+        }
+      }
+      if (kept.length > 0) {
+        await adapter.write(path, serializeDeletionLog(kept));
+      } else {
+        await adapter.remove(path);
+      }
+      logger.info("DeletionLog", "Pruned deletion log", { path, dropped: dropped.length });
+    } catch (e) {
+      logger.error("DeletionLog", "Failed to prune deletion log", { path, error: String(e) });
+    }
+  }
+
+  // Remove deletions past the retention period from every log, with their backups. Run on load.
+  prune(): Promise<void> {
+    return this.enqueue(async () => {
+      const adapter = this.plugin.app.vault.adapter;
+      const dir = `${STORAGE_DIR}/${DELETIONS_DIR}`;
+      try {
+        if (!(await adapter.exists(dir))) return;
+        const { files } = await adapter.list(dir);
+        for (const path of files.filter((file) => file.endsWith(".jsonl"))) {
+          await this.pruneLog(path);
+        }
+      } catch (e) {
+        logger.error("DeletionLog", "Failed to list deletion logs", { error: String(e) });
+      }
+    });
+  }
+
+  // Save a copy of a file before it is trashed. Returns the backup path, or null if it wasn't saved.
+  async backup(file: TFile, id: string): Promise<string | null> {
+    if (file.stat.size > MAX_BACKUP_BYTES) {
+      logger.warn("DeletionLog", "File too large to back up", { path: file.path, size: file.stat.size });
+      return null;
+    }
+
+    try {
+      await this.initialize();
+      const backupPath = `${STORAGE_DIR}/${DELETIONS_DIR}/${BACKUP_DIR}/${id}`;
+      const data = await this.plugin.app.vault.readBinary(file);
+      await this.plugin.app.vault.adapter.writeBinary(backupPath, data);
+      return backupPath;
+    } catch (e) {
+      logger.error("DeletionLog", "Failed to back up file", { path: file.path, error: String(e) });
+      return null;
+    }
+  }
+
+  // Record a deletion in its conversation's log, trimming the log if it grows past its limit.
+  async record(file: DeletedFile): Promise<void> {
+    await this.append(file.conversationId, serializeDeletionEvent({ type: "deleted", ...file }));
+    await this.enqueue(() => this.pruneLog(this.getLogPath(file.conversationId)));
+  }
+
+  // Read the files deleted in a conversation, oldest first.
+  async getDeletedFiles(conversationId: string): Promise<DeletedFile[]> {
+    await this.writeQueue;
+
+    const adapter = this.plugin.app.vault.adapter;
+    const path = this.getLogPath(conversationId);
+    try {
+      if (!(await adapter.exists(path))) return [];
+      return parseDeletionLog(await adapter.read(path));
+    } catch (error) {
+      logger.error("DeletionLog", "Failed to read deletion log", { error: String(error), path });
+      return [];
+    }
+  }
+
+  // Restore every file deleted in a conversation that hasn't been restored yet.
+  // Files whose original path is taken again are restored next to it with a "(restored)" suffix.
+  async restoreAll(conversationId: string): Promise<RestoreResult> {
+    const vault = this.plugin.app.vault;
+    const result: RestoreResult = { restored: [], failed: [] };
+
+    for (const file of getRestorableFiles(await this.getDeletedFiles(conversationId))) {
+      try {
+        const backupPath = file.backupPath!;
+        if (!(await vault.adapter.exists(backupPath))) {
+          result.failed.push({ path: file.path, error: "Backup copy is missing" });
+          continue;
+        }
+
+        const to = getRestorePath(file.path, (path) => vault.getAbstractFileByPath(path) !== null);
+        const folder = to.substring(0, to.lastIndexOf("/"));
+        if (folder && !vault.getAbstractFileByPath(folder)) {
+          await vault.createFolder(folder);
+        }
+
+        await vault.createBinary(to, await vault.adapter.readBinary(backupPath));
+        await vault.adapter.remove(backupPath);
+        await this.append(
+          conversationId,
+          serializeDeletionEvent({ type: "restored", id: file.id, restoredAt: Date.now(), restoredTo: to })
+        );
+        result.restored.push({ from: file.path, to });
+      } catch (error) {
+        logger.error("DeletionLog", "Failed to restore file", { path: file.path, error: String(error) });
+        result.failed.push({ path: file.path, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,73 @@
+import { requestUrl } from "obsidian";
+import type { ClaudeCodeSettings } from "../types";
+import { hashEmbedding, normalizeVector, parseEmbeddingResponse, HASH_EMBEDDING_DIMENSIONS } from "../utils/embeddings";
+
+// Texts sent per embeddings request.
+const HTTP_BATCH_SIZE = 32;
+
+/**
+ * Turns text into unit vectors for semantic search.
+ */
+export interface EmbeddingProvider {
+  // Identifies the provider and model. A stored index made by a different one is rebuilt.
+  readonly id: string;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+// Offline embeddings from hashed words: deterministic and instant, but lexical rather than semantic.
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly id = `local-hash-${HASH_EMBEDDING_DIMENSIONS}`;
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map((text) => hashEmbedding(text));
+  }
+}
+
+// Embeddings from an OpenAI-compatible /embeddings endpoint, such as OpenAI, Ollama or LM Studio.
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private endpoint: string;
+  private model: string;
+  private apiKey: string;
+
+  constructor(endpoint: string, model: string, apiKey: string) {
+    this.endpoint = endpoint;
+    this.model = model;
+    this.apiKey = apiKey;
+    this.id = `http:${endpoint}#${model}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const vectors: Float32Array[] = [];
+    for (let start = 0; start < texts.length; start += HTTP_BATCH_SIZE) {
+      const batch = texts.slice(start, start + HTTP_BATCH_SIZE);
+      const response = await requestUrl({
+        url: this.endpoint,
+        method: "POST",
+        contentType: "application/json",
+        headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+        body: JSON.stringify({ model: this.model, input: batch }),
+        throw: false,
+      });
+      if (response.status >= 400) {
+        throw new Error(`Embedding request failed with status ${response.status}: ${response.text.slice(0, 200)}`);
+      }
+      const parsed = parseEmbeddingResponse(response.json, batch.length);
+      if (typeof parsed === "string") throw new Error(parsed);
+      vectors.push(...parsed.map((vector) => normalizeVector(vector)));
+    }
+    return vectors;
+  }
+}
+
+// Create the embedding provider chosen in settings.
+export function createEmbeddingProvider(settings: ClaudeCodeSettings): EmbeddingProvider {
+  if (settings.embeddingProvider === "http" && settings.embeddingEndpoint.trim()) {
+    return new HttpEmbeddingProvider(
+      settings.embeddingEndpoint.trim(),
+      settings.embeddingModel.trim(),
+      settings.embeddingApiKey
+    );
+  }
+  return new HashEmbeddingProvider();
+}
@@ -1,18 +1,550 @@
 import { tool, createSdkMcpServer } from "@anthropic-ai/claude-agent-sdk";
 import { z } from "zod";
-import { App, Notice, TFile, TFolder, Command } from "obsidian";
-import { execFile } from "child_process";
-import { promisify } from "util";
+import { App, Notice, TFile, TFolder, Command, FileView, MarkdownView, getLinkpath, moment } from "obsidian";
+import {
+  getBacklinks,
+  getOutgoingLinks,
+  getUnresolvedTargets,
+  getNeighborhood,
+} from "../utils/linkGraph";
+import {
+  getTypedProperties,
+  collectTags,
+  collectAliases,
+  planPropertyUpdate,
+  applyPropertyUpdate,
+  matchesPropertyFilters,
+  PROPERTY_FILTER_OPS,
+  type PropertyChange,
+} from "../utils/frontmatter";
+import {
+  parseQueryDate,
+  runNoteQuery,
+  formatNoteQueryTable,
+  NOTE_FIELDS,
+  type NoteRecord,
+} from "../utils/noteQuery";
+import {
+  buildHeadingPaths,
+  readSection,
+  editSection,
+  SECTION_EDIT_OPERATIONS,
+  type SectionAddress,
+} from "../utils/noteSections";
+import { planRename, planMove } from "../utils/fileMoves";
+import { getTrashLocation, type DeletedFile } from "../utils/deletions";
+import {
+  CANVAS_NODE_TYPES,
+  CANVAS_SIDES,
+  parseCanvas,
+  serializeCanvas,
+  addToCanvas,
+  layoutCanvas,
+  summarizeCanvas,
+  createCanvasId,
+  type CanvasNodeInput,
+} from "../utils/canvas";
+import {
+  NOTE_PERIODS,
+  resolvePeriodicNoteConfig,
+  getPeriodicNotePath,
+  parseDateArgument,
+  findDatedNotes,
+  formatNotesContext,
+  type NotePeriod,
+  type PeriodicNoteConfig,
+} from "../utils/periodicNotes";
+import {
+  renderTemplateVariables,
+  getTemplateFolders,
+  listTemplates,
+  findTemplate,
+  hasTemplaterSyntax,
+  hasTemplateVariables,
+  type TemplateVariables,
+} from "../utils/templates";
+import {
+  validateTag,
+  normalizeTag,
+  buildTagTree,
+  findTagNode,
+  matchesTagQuery,
+  renameInlineTags,
+  planFrontmatterTagRename,
+  applyFrontmatterTagRename,
+  type TagRename,
+  type TagLineChange,
+} from "../utils/tags";
+import { isPathInFolder, normalizeVaultPath } from "../utils/pathUtils";
+import type { NoteSearchOptions, NoteSearchResult } from "./VaultSearchIndex";
+import type { SemanticSearchOptions, SemanticHit, SemanticIndexStats } from "./SemanticIndex";
+import { VaultHealthCheck } from "./VaultHealthCheck";
+import { AttachmentReader } from "./AttachmentReader";
+import { HEALTH_CHECKS, formatVaultHealthMarkdown } from "../utils/vaultHealth";
+import { getImageMimeType, formatPdfText } from "../utils/attachments";
+import { orderSelection, getPointAfter, getSurroundingLines, type EditorPoint } from "../utils/editor";
 
-const execFileAsync = promisify(execFile);
+// Limits for link graph traversal.
+const MAX_NEIGHBORHOOD_DEPTH = 5;
+const MAX_NEIGHBORHOOD_NODES = 500;
+
+// Limit on notes changed by one update_properties call.
+const MAX_PROPERTY_UPDATE_NOTES = 500;
+
+// Limit on rows returned by one query_notes call.
+const MAX_QUERY_ROWS = 500;
+
+// Limit on files renamed or moved by one bulk call.
+const MAX_BULK_MOVES = 100;
+
+// Limit on nodes added to a canvas by one call.
+const MAX_CANVAS_NODES = 200;
+
+// Limits for get_recent_daily_notes.
+const MAX_RECENT_DAILY_NOTES = 31;
+const DEFAULT_DAILY_NOTE_CHARS = 4000;
+
+// Limits of search_notes results.
+const MAX_SEARCH_RESULTS = 50;
+const DEFAULT_SEARCH_RESULTS = 10;
+const MAX_SEARCH_SNIPPETS = 10;
+
+// Limits of semantic_search and find_similar_notes results.
+const MAX_SEMANTIC_RESULTS = 30;
+const DEFAULT_SEMANTIC_RESULTS = 5;
+
+// Limits of find_notes_by_tag results, and of notes listed in a tag rename report.
+const MAX_TAG_RESULTS = 500;
+const DEFAULT_TAG_RESULTS = 100;
+const MAX_LISTED_TAG_CHANGES = 100;
+
+// Limits of items listed per section of a vault_health report.
+const MAX_HEALTH_ITEMS = 500;
+const DEFAULT_HEALTH_ITEMS = 50;
+
+// Limits of images returned by one read_note_images call, and of text returned by read_pdf_text.
+const MAX_NOTE_IMAGES = 10;
+const DEFAULT_NOTE_IMAGES = 5;
+const MAX_PDF_CHARS = 100000;
+const DEFAULT_PDF_CHARS = 20000;
+
+// Lines of context around the selection returned by get_editor_selection.
+const DEFAULT_EDITOR_CONTEXT_LINES = 5;
+const MAX_EDITOR_CONTEXT_LINES = 50;
+
+// Schema for a property condition, shared by update_properties and query_notes.
+const propertyFilterSchema = z.object({
+  key: z.string().describe("Property name"),
+  op: z.enum(PROPERTY_FILTER_OPS),
+  value: z
+    .union([z.string(), z.number(), z.boolean()])
+    .optional()
+    .describe("Value to compare with (not needed for exists/missing)"),
+});
+
+// Schema for a canvas node to add. Content fields depend on the type.
+const canvasNodeSchema = z.object({
+  id: z.string().optional().describe("Id for the node, so edges in the same call can refer to it"),
+  type: z.enum(CANVAS_NODE_TYPES),
+  text: z.string().optional().describe("Markdown for text nodes"),
+  file: z.string().optional().describe("Vault path (or link text) for file nodes"),
+  subpath: z.string().optional().describe("Heading or block in the file, e.g. '#Summary'"),
+  url: z.string().optional().describe("URL for link nodes"),
+  label: z.string().optional().describe("Label for group nodes"),
+  color: z.string().optional().describe("Preset '1'-'6' (red, orange, yellow, green, cyan, purple) or a hex color"),
+  x: z.number().optional(),
+  y: z.number().optional(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  near: z.string().optional().describe("Id of a node to place this one next to (when x and y are omitted)"),
+});
+
+// Schema for a canvas edge between node ids.
+const canvasEdgeSchema = z.object({
+  from: z.string().describe("Source node id"),
+  to: z.string().describe("Target node id"),
+  label: z.string().optional(),
+  color: z.string().optional(),
+  fromSide: z.enum(CANVAS_SIDES).optional(),
+  toSide: z.enum(CANVAS_SIDES).optional(),
+});
 
 // Type for the MCP server instance.
 export type ObsidianMcpServerInstance = ReturnType<typeof createSdkMcpServer>;
 
+// Callbacks the server uses to keep deleted files restorable and to search the plugin's indexes.
+export interface ObsidianMcpServerHooks {
+  // Save a copy of a file before it is trashed; returns the backup path, or null if it wasn't saved.
+  backupFile?: (file: TFile, id: string) => Promise<string | null>;
+  // Called after a file is trashed (the view adds the conversation ID).
+  onFileDeleted?: (file: Omit<DeletedFile, "conversationId">) => void;
+  // Search the full-text index; returns an error message for an invalid query.
+  searchNotes?: (options: NoteSearchOptions) => Promise<NoteSearchResult | string>;
+  // Search the semantic index; these return an error message on failure.
+  semanticSearch?: (options: SemanticSearchOptions) => Promise<SemanticHit[] | string>;
+  findSimilarNotes?: (path: string, limit: number) => Promise<SemanticHit[] | string>;
+  // Embed changed notes (every note if force is set); throws if the embedding provider fails.
+  rebuildSemanticIndex?: (force: boolean) => Promise<SemanticIndexStats>;
+  getSemanticIndexStats?: () => Promise<SemanticIndexStats>;
+}
+
+// Wrap a value as a JSON text tool result.
+function jsonResult(value: unknown) {
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify(value, null, 2) }],
+  };
+}
+
+// Wrap a message as a text tool result.
+function textResult(text: string) {
+  return {
+    content: [{ type: "text" as const, text }],
+  };
+}
+
+// Find a note by vault path, path without extension, or link text (e.g. "Project Alpha").
+function resolveNoteFile(app: App, path: string): TFile | null {
+  const file = app.vault.getAbstractFileByPath(path);
+  if (file instanceof TFile) return file;
+
+  const withExtension = app.vault.getAbstractFileByPath(`${path}.md`);
+  if (withExtension instanceof TFile) return withExtension;
+
+  return app.metadataCache.getFirstLinkpathDest(path, "");
+}
+
+// Find a file by vault path or path without extension, for write tools.
+// Link text isn't resolved, so the file written is always the one the permission policy checked.
+function resolveVaultFile(app: App, path: string): TFile | null {
+  const file = app.vault.getAbstractFileByPath(path);
+  if (file instanceof TFile) return file;
+
+  const withExtension = app.vault.getAbstractFileByPath(`${path}.md`);
+  return withExtension instanceof TFile ? withExtension : null;
+}
+
+// Find the note editor the user last worked in. The chat view usually has focus while Claude runs,
+// so this is the most recent leaf outside the sidebars rather than the active one.
+function getRecentMarkdownView(app: App): MarkdownView | null {
+  const view = app.workspace.getMostRecentLeaf()?.view;
+  return view instanceof MarkdownView && view.file ? view : null;
+}
+
+// Get the editor for an edit to the note at path, or an error message if that note isn't open in editing view.
+// Edits name the note so the permission policy checks the file that actually changes.
+function getEditorViewForPath(app: App, path: string): MarkdownView | string {
+  const view = getRecentMarkdownView(app);
+  if (!view) return "No note is open in an editor";
+  const file = resolveVaultFile(app, path);
+  if (!file || view.file !== file) {
+    return `The editor shows ${view.file?.path}, not ${path}; call get_editor_selection to see which note is open`;
+  }
+  if (view.getMode() !== "source") return `${file.path} is in reading view; the user needs to switch to editing view`;
+  return view;
+}
+
+// Report an editor position with a one-based line, as the other tools do.
+function toResultPoint(point: EditorPoint) {
+  return { line: point.line + 1, ch: point.ch };
+}
+
+// Build a section address from tool arguments, or an error message if it isn't exactly one of heading and block.
+function toSectionAddress(args: { heading?: string; block?: string }): SectionAddress | string {
+  if (args.heading && args.block) return "Provide either heading or block, not both";
+  if (args.heading) return { heading: args.heading };
+  if (args.block) return { block: args.block };
+  return "Provide a heading path or a block id";
+}
+
+// A completed rename or move, with the notes that linked to the file.
+interface MoveResult {
+  from: string;
+  to: string;
+  linkingNotes: string[];
+}
+
+// Rename or move a file with fileManager.renameFile, which updates links to it.
+// Returns an error message if the file doesn't exist or the destination is taken.
+async function renameWithLinks(
+  app: App,
+  path: string,
+  plan: (file: TFile) => string | { to: string }
+): Promise<MoveResult | string> {
+  const file = resolveVaultFile(app, path);
+  if (!file) return `File not found: ${path}`;
+  const planned = plan(file);
+  if (typeof planned === "string") return planned;
+
+  const from = file.path;
+  const to = planned.to;
+  if (to === from) return `${from} is already at ${to}`;
+  if (app.vault.getAbstractFileByPath(to)) return `Destination already exists: ${to}`;
+
+  const folder = to.substring(0, to.lastIndexOf("/"));
+  if (folder && !app.vault.getAbstractFileByPath(folder)) {
+    await app.vault.createFolder(folder);
+  }
+
+  const linkingNotes = getBacklinks(app.metadataCache.resolvedLinks, from).map((link) => link.path);
+  await app.fileManager.renameFile(file, to);
+  return { from, to, linkingNotes };
+}
+
+// Whether Obsidian updates links when files are renamed ("Automatically update internal links").
+function updatesLinksOnRename(app: App): boolean {
+  return (app.vault as any).getConfig?.("alwaysUpdateLinks") !== false;
+}
+
+// Describe the link updates for a number of linking notes.
+function describeLinkUpdates(app: App, count: number): string {
+  if (count === 0) return "No notes link to it.";
+  const notes = count === 1 ? "1 note" : `${count} notes`;
+  return updatesLinksOnRename(app)
+    ? `Updated links in ${notes}.`
+    : `${notes} link to it; links were not updated because "Automatically update internal links" is off.`;
+}
+
+// Run a bulk rename or move and summarize it.
+async function renameAllWithLinks(
+  app: App,
+  mapping: Record<string, string>,
+  plan: (file: TFile, target: string) => string | { to: string }
+) {
+  const entries = Object.entries(mapping);
+  if (entries.length === 0) return textResult("Mapping is empty");
+  if (entries.length > MAX_BULK_MOVES) {
+    return textResult(`${entries.length} files given; split the mapping into calls of at most ${MAX_BULK_MOVES}`);
+  }
+
+  const moved: { from: string; to: string; linkingNotes: number }[] = [];
+  const errors: { path: string; error: string }[] = [];
+  const linkingNotes = new Set<string>();
+  for (const [path, target] of entries) {
+    try {
+      const result = await renameWithLinks(app, path, (file) => plan(file, target));
+      if (typeof result === "string") {
+        errors.push({ path, error: result });
+        continue;
+      }
+      result.linkingNotes.forEach((note) => linkingNotes.add(note));
+      moved.push({ from: result.from, to: result.to, linkingNotes: result.linkingNotes.length });
+    } catch (error) {
+      errors.push({ path, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return jsonResult({
+    moved,
+    linkingNotesUpdated: updatesLinksOnRename(app) ? linkingNotes.size : 0,
+    ...(errors.length > 0 && { errors }),
+  });
+}
+
+// Find a canvas by vault path or path without .canvas.
+function resolveCanvasFile(app: App, path: string): TFile | null {
+  const file = app.vault.getAbstractFileByPath(path);
+  if (file instanceof TFile) return file.extension === "canvas" ? file : null;
+
+  const withExtension = app.vault.getAbstractFileByPath(`${path}.canvas`);
+  return withExtension instanceof TFile ? withExtension : null;
+}
+
+// Point file nodes at vault paths, resolving link text. Returns the file references that don't resolve.
+function resolveCanvasFileNodes(app: App, nodes: CanvasNodeInput[]): string[] {
+  const missing: string[] = [];
+  for (const node of nodes) {
+    if (node.type !== "file" || !node.file) continue;
+    const file = resolveNoteFile(app, node.file);
+    if (file) node.file = file.path;
+    else missing.push(node.file);
+  }
+  return missing;
+}
+
+// Read a period's note settings from the core Daily notes plugin and the Periodic Notes plugin, if enabled.
+function getPeriodicNoteConfig(app: App, period: NotePeriod): PeriodicNoteConfig {
+  const dailyNotes = (app as any).internalPlugins?.getPluginById?.("daily-notes");
+  const dailyOptions = dailyNotes?.enabled ? dailyNotes.instance?.options : undefined;
+  const periodicSettings = (app as any).plugins?.getPlugin?.("periodic-notes")?.settings;
+  return resolvePeriodicNoteConfig(period, dailyOptions, periodicSettings);
+}
+
+// Work out the date of a periodic note: a date argument shifted by a number of periods, at the period's start.
+function getPeriodDate(period: NotePeriod, date: string | undefined, offset: number | undefined) {
+  const parsed = parseDateArgument(date ?? "today");
+  if (!parsed) return `Invalid date: ${date}; use today, yesterday, tomorrow or YYYY-MM-DD`;
+
+  const base = "date" in parsed ? moment(parsed.date, "YYYY-MM-DD", true) : moment().add(parsed.offsetDays, "day");
+  if (!base.isValid()) return `Invalid date: ${date}`;
+  base.add(offset ?? 0, period);
+  return period === "day" ? base : base.startOf(period);
+}
+
+// Create a periodic note from its template, unless it exists. Returns the note and any problem with the template,
+// or an error message if the template couldn't be applied.
+async function ensurePeriodicNote(
+  app: App,
+  config: PeriodicNoteConfig,
+  date: ReturnType<typeof moment>
+): Promise<{ file: TFile; created: boolean; warning?: string } | string> {
+  const path = getPeriodicNotePath(config, date.format(config.format));
+  const existing = app.vault.getAbstractFileByPath(path);
+  if (existing instanceof TFile) return { file: existing, created: false };
+
+  const template = config.template ? resolveNoteFile(app, config.template) : null;
+  if (template) {
+    const file = await createFromTemplate(app, path, template, {
+      formatDate: (format, shift) => date.clone().add(shift?.amount ?? 0, shift?.unit as any).format(format),
+      dateFormat: config.format,
+      timeFormat: getTemplateSettings(app).timeFormat,
+    });
+    return typeof file === "string" ? file : { file, created: true };
+  }
+
+  await ensureParentFolder(app, path);
+  const warning = config.template ? `Template not found: ${config.template}` : undefined;
+  return { file: await app.vault.create(path, ""), created: true, warning };
+}
+
+// Create the folder a new file goes in, if it doesn't exist.
+async function ensureParentFolder(app: App, path: string) {
+  const folder = path.substring(0, path.lastIndexOf("/"));
+  if (folder && !app.vault.getAbstractFileByPath(folder)) {
+    await app.vault.createFolder(folder);
+  }
+}
+
+// Read the template folders and date formats of the core Templates plugin and Templater, and Templater itself.
+function getTemplateSettings(app: App) {
+  const core = (app as any).internalPlugins?.getPluginById?.("templates");
+  const coreOptions = core?.enabled ? core.instance?.options : undefined;
+  const templater = (app as any).plugins?.getPlugin?.("templater-obsidian");
+  return {
+    folders: getTemplateFolders(coreOptions, templater?.settings),
+    dateFormat: (coreOptions?.dateFormat as string) || "YYYY-MM-DD",
+    timeFormat: (coreOptions?.timeFormat as string) || "HH:mm",
+    // Templater's internal API, when the plugin is enabled.
+    templater: templater?.templater as
+      | { create_new_note_from_template?: (...args: unknown[]) => Promise<TFile | undefined> }
+      | undefined,
+  };
+}
+
+// Create a note from a template. Templates with Templater commands go through Templater when it is installed;
+// core variables ({{date}}, {{title}}, ...) are then filled in. Returns an error message if Templater fails.
+async function createFromTemplate(
+  app: App,
+  path: string,
+  template: TFile,
+  variables: Omit<TemplateVariables, "title">
+): Promise<TFile | string> {
+  const title = path.slice(path.lastIndexOf("/") + 1).replace(/\.md$/i, "");
+  const raw = await app.vault.read(template);
+  const { templater } = getTemplateSettings(app);
+  await ensureParentFolder(app, path);
+
+  if (templater?.create_new_note_from_template && hasTemplaterSyntax(raw)) {
+    const folderPath = path.substring(0, path.lastIndexOf("/"));
+    const folder = folderPath ? app.vault.getAbstractFileByPath(folderPath) : app.vault.getRoot();
+    // Templater always creates a markdown file, and picks another name if this one is taken.
+    const target = folderPath ? `${folderPath}/${title}.md` : `${title}.md`;
+    if (app.vault.getAbstractFileByPath(target)) return `File already exists: ${target}`;
+    const file = await templater.create_new_note_from_template(template, folder, title, false);
+    if (!(file instanceof TFile)) {
+      return `Templater couldn't create the note from ${template.path}; see its error notice`;
+    }
+    if (hasTemplateVariables(await app.vault.read(file))) {
+      await app.vault.process(file, (data) => renderTemplateVariables(data, { ...variables, title }));
+    }
+    return file;
+  }
+
+  return app.vault.create(path, renderTemplateVariables(raw, { ...variables, title }));
+}
+
+// Collect what query_notes knows about a note from the metadata cache.
+function buildNoteRecord(app: App, file: TFile): NoteRecord {
+  const cache = app.metadataCache.getFileCache(file);
+  const { position: _position, ...properties } = cache?.frontmatter ?? {};
+  return {
+    path: file.path,
+    name: file.basename,
+    folder: file.parent?.path ?? "",
+    tags: collectTags(properties, (cache?.tags ?? []).map((tag) => tag.tag)),
+    properties,
+    created: file.stat.ctime,
+    modified: file.stat.mtime,
+  };
+}
+
+// Get a note's tags from its tags property and inline #tags in the metadata cache.
+function getNoteTags(app: App, file: TFile): string[] {
+  const cache = app.metadataCache.getFileCache(file);
+  return collectTags(cache?.frontmatter, (cache?.tags ?? []).map((tag) => tag.tag));
+}
+
+// Rename tags in the tags property and inline #tags of every note using them, optionally only within a folder.
+// A dry run reads each note and reports the changes without writing.
+async function renameTagsInVault(app: App, renames: TagRename[], folder: string, dryRun: boolean) {
+  for (const tag of renames.flatMap((rename) => [rename.from, rename.to])) {
+    const error = validateTag(tag);
+    if (error) return error;
+  }
+  const sources = renames.map((rename) => rename.from);
+  const files = app.vault.getMarkdownFiles().filter((file) => {
+    if (folder && !isPathInFolder(file.path, folder)) return false;
+    return matchesTagQuery(getNoteTags(app, file), { any: sources });
+  });
+
+  const changed: { path: string; properties?: PropertyChange[]; lines?: TagLineChange[] }[] = [];
+  const errors: { path: string; error: string }[] = [];
+  for (const file of files) {
+    let properties = planFrontmatterTagRename(app.metadataCache.getFileCache(file)?.frontmatter, renames);
+    let lines: TagLineChange[] = [];
+    try {
+      if (dryRun) {
+        lines = renameInlineTags(await app.vault.cachedRead(file), renames).changes;
+      } else {
+        if (properties.length > 0) {
+          await app.fileManager.processFrontMatter(file, (frontmatter) => {
+            properties = applyFrontmatterTagRename(frontmatter, renames);
+          });
+        }
+        await app.vault.process(file, (data) => {
+          const result = renameInlineTags(data, renames);
+          lines = result.changes;
+          return result.content;
+        });
+      }
+    } catch (error) {
+      errors.push({ path: file.path, error: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+    if (properties.length > 0 || lines.length > 0) {
+      changed.push({
+        path: file.path,
+        ...(properties.length > 0 && { properties }),
+        ...(lines.length > 0 && { lines }),
+      });
+    }
+  }
+
+  return {
+    dryRun,
+    renames: renames.map((rename) => `#${normalizeTag(rename.from)} → #${normalizeTag(rename.to)}`),
+    matched: files.length,
+    changed: changed.length,
+    notes: changed.slice(0, MAX_LISTED_TAG_CHANGES),
+    ...(changed.length > MAX_LISTED_TAG_CHANGES && { notListed: changed.length - MAX_LISTED_TAG_CHANGES }),
+    ...(errors.length > 0 && { errors }),
+  };
+}
+
 // Create the Obsidian MCP server with custom tools.
 export function createObsidianMcpServer(
   app: App,
-  vaultPath: string
+  vaultPath: string,
+  hooks: ObsidianMcpServerHooks = {}
 ): ObsidianMcpServerInstance {
   return createSdkMcpServer({
     name: "obsidian",
@@ -115,6 +647,134 @@ export function createObsidianMcpServer(
         }
       ),
 
+      tool(
+        "get_editor_selection",
+        "Get the text selected in the note editor the user last worked in, with the cursor position and the lines around it. Use this when the user refers to highlighted text or \"here\" (e.g. \"rewrite this paragraph\"). Lines are 1-based. If nothing is selected, selection is null and the context is around the cursor.",
+        {
+          contextLines: z
+            .number()
+            .int()
+            .min(0)
+            .max(MAX_EDITOR_CONTEXT_LINES)
+            .optional()
+            .describe(`Lines of context before and after the selection (default ${DEFAULT_EDITOR_CONTEXT_LINES})`),
+        },
+        async (args) => {
+          const view = getRecentMarkdownView(app);
+          if (!view) return textResult("No note is open in an editor");
+
+          const editor = view.editor;
+          const { from, to } = orderSelection(editor.getCursor("anchor"), editor.getCursor("head"));
+          const selected = editor.somethingSelected() ? editor.getRange(from, to) : "";
+          const context = getSurroundingLines(
+            editor.getValue(),
+            from,
+            to,
+            args.contextLines ?? DEFAULT_EDITOR_CONTEXT_LINES
+          );
+          const selectionCount = editor.listSelections().length;
+
+          return jsonResult({
+            path: view.file?.path,
+            mode: view.getMode() === "source" ? "editing" : "reading",
+            cursor: toResultPoint(editor.getCursor("head")),
+            selection: selected ? { text: selected, from: toResultPoint(from), to: toResultPoint(to) } : null,
+            ...(selectionCount > 1 && { otherSelections: selectionCount - 1 }),
+            context,
+          });
+        }
+      ),
+
+      tool(
+        "replace_selection",
+        "Replace the text selected in the note editor with new text. The change goes through the editor, so the user can undo it with Ctrl/Cmd+Z, and the new text stays selected. Call get_editor_selection first and pass the selected text as expectedSelection, so the edit is refused if the user has changed the selection since.",
+        {
+          path: z.string().describe("Path of the note open in the editor, as returned by get_editor_selection"),
+          text: z.string().describe("Replacement text"),
+          expectedSelection: z
+            .string()
+            .optional()
+            .describe("The selected text you read; the edit is refused if the selection no longer matches"),
+        },
+        async (args) => {
+          const view = getEditorViewForPath(app, args.path);
+          if (typeof view === "string") return textResult(view);
+
+          const editor = view.editor;
+          if (!editor.somethingSelected()) return textResult("Nothing is selected; use insert_at_cursor to add text");
+          const { from, to } = orderSelection(editor.getCursor("anchor"), editor.getCursor("head"));
+          if (args.expectedSelection !== undefined && editor.getRange(from, to) !== args.expectedSelection) {
+            return textResult("The selection has changed; call get_editor_selection again");
+          }
+
+          editor.replaceRange(args.text, from, to);
+          const end = getPointAfter(from, args.text);
+          editor.setSelection(from, end);
+          return textResult(`Replaced the selection in ${view.file?.path} (lines ${from.line + 1}-${end.line + 1})`);
+        }
+      ),
+
+      tool(
+        "insert_at_cursor",
+        "Insert text at the cursor in the note editor, leaving the cursor after it. The change goes through the editor, so the user can undo it with Ctrl/Cmd+Z. If text is selected, it is inserted where the cursor is (the end the user dragged to) without replacing the selection.",
+        {
+          path: z.string().describe("Path of the note open in the editor, as returned by get_editor_selection"),
+          text: z.string().describe("Text to insert"),
+        },
+        async (args) => {
+          const view = getEditorViewForPath(app, args.path);
+          if (typeof view === "string") return textResult(view);
+
+          const editor = view.editor;
+          const cursor = editor.getCursor("head");
+          editor.replaceRange(args.text, cursor);
+          editor.setCursor(getPointAfter(cursor, args.text));
+          return textResult(`Inserted ${args.text.length} characters at line ${cursor.line + 1} of ${view.file?.path}`);
+        }
+      ),
+
+      tool(
+        "list_open_tabs",
+        "List every open tab, grouped by pane (tab group), with the file it shows. location is main, left-sidebar, right-sidebar or window (a popout window). recent marks the tab the user last worked in outside the sidebars.",
+        {},
+        async () => {
+          const workspace = app.workspace;
+          const recent = workspace.getMostRecentLeaf();
+          const panes = new Map<unknown, { pane: number; location: string; tabs: unknown[] }>();
+
+          workspace.iterateAllLeaves((leaf) => {
+            let pane = panes.get(leaf.parent);
+            if (!pane) {
+              const root = leaf.getRoot();
+              const location =
+                root === workspace.rootSplit
+                  ? "main"
+                  : root === workspace.leftSplit
+                    ? "left-sidebar"
+                    : root === workspace.rightSplit
+                      ? "right-sidebar"
+                      : "window";
+              pane = { pane: panes.size + 1, location, tabs: [] };
+              panes.set(leaf.parent, pane);
+            }
+
+            // Tabs that haven't been shown yet hold a placeholder view, so fall back to the saved view state.
+            const state = leaf.getViewState();
+            const view = leaf.view;
+            const path = view instanceof FileView ? view.file?.path : state.state?.file;
+            pane.tabs.push({
+              title: leaf.getDisplayText(),
+              viewType: state.type,
+              ...(typeof path === "string" && { path }),
+              ...(state.pinned && { pinned: true }),
+              ...(leaf === recent && { recent: true }),
+            });
+          });
+
+          return jsonResult({ panes: Array.from(panes.values()) });
+        }
+      ),
+
       // Get information about the currently active file.
       tool(
         "get_active_file",
@@ -158,10 +818,10 @@ export function createObsidianMcpServer(
         }
       ),
 
-      // Rebuild the vault search index.
+      // Rebuild the semantic search index.
       tool(
         "rebuild_vault_index",
-        "Rebuild the semantic search index for the vault. Use when search seems stale or after bulk changes to notes.",
+        "Update the semantic search index used by semantic_search and find_similar_notes. Notes are re-embedded automatically when they change, so use this only when results seem stale, after bulk changes outside Obsidian, or with force to start over.",
         {
           force: z
             .boolean()
@@ -173,30 +833,16 @@ export function createObsidianMcpServer(
             .describe("Only show index statistics without rebuilding"),
         },
         async (args) => {
-          const pythonPath = `${vaultPath}/.claude/venv/bin/python`;
-          const scriptPath = `${vaultPath}/.claude/skills/vault-search/scripts/index.py`;
-
-          const scriptArgs = ["--vault-path", vaultPath];
-          if (args.force) scriptArgs.push("--rebuild");
-          if (args.stats) scriptArgs.push("--stats");
-
+          if (!hooks.rebuildSemanticIndex || !hooks.getSemanticIndexStats) {
+            return textResult("Semantic search isn't available");
+          }
           try {
-            const { stdout, stderr } = await execFileAsync(pythonPath, [
-              scriptPath,
-              ...scriptArgs,
-            ]);
-            return {
-              content: [{ type: "text" as const, text: stdout || stderr }],
-            };
-          } catch (error: any) {
-            return {
-              content: [
-                {
-                  type: "text" as const,
-                  text: `Error: ${error.stderr || error.message}`,
-                },
-              ],
-            };
+            const stats = args.stats
+              ? await hooks.getSemanticIndexStats()
+              : await hooks.rebuildSemanticIndex(args.force ?? false);
+            return jsonResult(stats);
+          } catch (error) {
+            return textResult(`Error: ${error instanceof Error ? error.message : String(error)}`);
           }
         }
       ),
@@ -253,7 +899,7 @@ export function createObsidianMcpServer(
       // Create a new note with optional template.
       tool(
         "create_note",
-        "Create a new note in the vault. Optionally apply a template or specify initial content.",
+        "Create a new note in the vault. Optionally apply one of the user's templates (core Templates variables like {{date}} and {{title}} are filled in, and Templater templates run through Templater) or specify initial content.",
         {
           path: z
             .string()
@@ -263,7 +909,11 @@ export function createObsidianMcpServer(
           content: z
             .string()
             .optional()
-            .describe("Initial content for the note"),
+            .describe("Initial content for the note (added below the template when both are given)"),
+          template: z
+            .string()
+            .optional()
+            .describe("Template to apply: its name (e.g. 'Meeting'), path in the templates folder, or vault path. See list_templates."),
           openAfterCreate: z
             .boolean()
             .optional()
@@ -280,6 +930,16 @@ export function createObsidianMcpServer(
             };
           }
 
+          // Resolve the template before creating anything.
+          let template: TFile | null = null;
+          if (args.template) {
+            const paths = app.vault.getMarkdownFiles().map((file) => file.path);
+            const found = findTemplate(paths, getTemplateSettings(app).folders, args.template);
+            if (typeof found === "string") return textResult(found);
+            template = resolveVaultFile(app, found.path);
+            if (!template) return textResult(`Template not found: ${args.template}`);
+          }
+
           // Create parent folders if needed.
           const folderPath = args.path.substring(
             0,
@@ -293,7 +953,27 @@ export function createObsidianMcpServer(
           }
 
           // Create the file.
-          const file = await app.vault.create(args.path, args.content || "");
+          let file: TFile;
+          if (template) {
+            const settings = getTemplateSettings(app);
+            const now = moment();
+            const created = await createFromTemplate(app, args.path, template, {
+              formatDate: (format, shift) => now.clone().add(shift?.amount ?? 0, shift?.unit as any).format(format),
+              dateFormat: settings.dateFormat,
+              timeFormat: settings.timeFormat,
+            });
+            if (typeof created === "string") return textResult(created);
+            file = created;
+
+            const extra = args.content;
+            if (extra) {
+              await app.vault.process(file, (data) =>
+                data.trim() ? `${data.replace(/\s*$/, "")}\n\n${extra}` : extra
+              );
+            }
+          } else {
+            file = await app.vault.create(args.path, args.content || "");
+          }
 
           // Open if requested.
           if (args.openAfterCreate !== false) {
@@ -303,12 +983,31 @@ export function createObsidianMcpServer(
 
           return {
             content: [
-              { type: "text" as const, text: `Created note: ${args.path}` },
+              {
+                type: "text" as const,
+                text: `Created note: ${file.path}${template ? ` from template ${template.path}` : ""}`,
+              },
             ],
           };
         }
       ),
 
+      // List the templates create_note can apply.
+      tool(
+        "list_templates",
+        "List the user's templates (notes in the core Templates and Templater template folders), with the name to pass to create_note's template parameter. Also reports whether Templater is installed.",
+        {},
+        async () => {
+          const settings = getTemplateSettings(app);
+          const paths = app.vault.getMarkdownFiles().map((file) => file.path);
+          return jsonResult({
+            folders: settings.folders,
+            templater: settings.templater !== undefined,
+            templates: listTemplates(paths, settings.folders),
+          });
+        }
+      ),
+
       // Navigate to a folder in the file explorer.
       tool(
         "reveal_in_explorer",
@@ -417,6 +1116,1052 @@ export function createObsidianMcpServer(
           };
         }
       ),
+
+      // Link graph tools. Backlinks are derived from resolvedLinks, which covers every note.
+      tool(
+        "get_backlinks",
+        "List the notes that link to a note, with how many times each links to it. Use this to answer 'what links to X'.",
+        {
+          path: z.string().describe("Note path, path without .md, or link text"),
+          limit: z
+            .number()
+            .optional()
+            .describe("Maximum number of notes to return (default: 100)"),
+        },
+        async (args) => {
+          const file = resolveNoteFile(app, args.path);
+          if (!file) return textResult(`Note not found: ${args.path}`);
+
+          const backlinks = getBacklinks(app.metadataCache.resolvedLinks, file.path);
+          const limit = args.limit ?? 100;
+          return jsonResult({
+            path: file.path,
+            total: backlinks.length,
+            backlinks: backlinks.slice(0, limit),
+          });
+        }
+      ),
+
+      tool(
+        "get_outgoing_links",
+        "List the notes a note links to, plus any links in it that don't resolve to a file.",
+        {
+          path: z.string().describe("Note path, path without .md, or link text"),
+        },
+        async (args) => {
+          const file = resolveNoteFile(app, args.path);
+          if (!file) return textResult(`Note not found: ${args.path}`);
+
+          return jsonResult({
+            path: file.path,
+            links: getOutgoingLinks(app.metadataCache.resolvedLinks, file.path),
+            unresolved: getOutgoingLinks(app.metadataCache.unresolvedLinks, file.path),
+          });
+        }
+      ),
+
+      tool(
+        "get_unresolved_links",
+        "List links that point to notes that don't exist. With a path, lists that note's unresolved links; otherwise lists missing targets across the vault, most referenced first.",
+        {
+          path: z
+            .string()
+            .optional()
+            .describe("Limit to links from this note"),
+          limit: z
+            .number()
+            .optional()
+            .describe("Maximum number of targets to return (default: 100)"),
+        },
+        async (args) => {
+          const unresolved = app.metadataCache.unresolvedLinks;
+          if (args.path) {
+            const file = resolveNoteFile(app, args.path);
+            if (!file) return textResult(`Note not found: ${args.path}`);
+            return jsonResult({ path: file.path, unresolved: getOutgoingLinks(unresolved, file.path) });
+          }
+
+          const targets = getUnresolvedTargets(unresolved);
+          const limit = args.limit ?? 100;
+          return jsonResult({ total: targets.length, targets: targets.slice(0, limit) });
+        }
+      ),
+
+      tool(
+        "get_link_neighborhood",
+        "Get the notes within N link hops of a note and the links between them. Use this to explore how a topic connects to the rest of the vault.",
+        {
+          path: z.string().describe("Note path, path without .md, or link text"),
+          depth: z
+            .number()
+            .optional()
+            .describe(`Number of hops to follow (default: 2, max: ${MAX_NEIGHBORHOOD_DEPTH})`),
+          maxNodes: z
+            .number()
+            .optional()
+            .describe(`Maximum number of notes to return (default: 50, max: ${MAX_NEIGHBORHOOD_NODES})`),
+          direction: z
+            .enum(["outgoing", "incoming", "both"])
+            .optional()
+            .describe("Which links to follow (default: both)"),
+        },
+        async (args) => {
+          const file = resolveNoteFile(app, args.path);
+          if (!file) return textResult(`Note not found: ${args.path}`);
+
+          const neighborhood = getNeighborhood(app.metadataCache.resolvedLinks, file.path, {
+            depth: Math.min(Math.max(args.depth ?? 2, 1), MAX_NEIGHBORHOOD_DEPTH),
+            maxNodes: Math.min(Math.max(args.maxNodes ?? 50, 1), MAX_NEIGHBORHOOD_NODES),
+            direction: args.direction,
+          });
+          return jsonResult({ path: file.path, ...neighborhood });
+        }
+      ),
+
+      tool(
+        "vault_health",
+        "Check the vault for things to tidy: orphan notes (no links in or out), broken links with where they appear, notes with duplicate titles or near-identical content, empty and stub notes, and attachments nothing links to. Use format 'markdown' for a report with clickable links that can be saved as a note.",
+        {
+          folder: z.string().optional().describe("Only report notes and attachments in this folder"),
+          checks: z
+            .array(z.enum(HEALTH_CHECKS))
+            .optional()
+            .describe("Checks to run (default: all)"),
+          limit: z
+            .number()
+            .optional()
+            .describe(`Maximum items listed per section (default: ${DEFAULT_HEALTH_ITEMS}, max: ${MAX_HEALTH_ITEMS})`),
+          stubWords: z
+            .number()
+            .optional()
+            .describe("Notes with fewer words than this are reported as stubs (default: 10)"),
+          similarity: z
+            .number()
+            .optional()
+            .describe("Minimum share of shared text (0.5-1) for notes to count as near-duplicates (default: 0.8)"),
+          format: z
+            .enum(["json", "markdown"])
+            .optional()
+            .describe("Return a JSON report or a markdown note (default: json)"),
+        },
+        async (args) => {
+          const folder = normalizeVaultPath(args.folder ?? "");
+          if (folder && !(app.vault.getAbstractFileByPath(folder) instanceof TFolder)) {
+            return textResult(`Folder not found: ${folder}`);
+          }
+
+          const report = await new VaultHealthCheck(app).run({
+            folder,
+            checks: args.checks,
+            limit: Math.min(Math.max(args.limit ?? DEFAULT_HEALTH_ITEMS, 1), MAX_HEALTH_ITEMS),
+            stubWords: Math.max(args.stubWords ?? 10, 1),
+            similarity: Math.min(Math.max(args.similarity ?? 0.8, 0.5), 1),
+          });
+          return args.format === "markdown" ? textResult(formatVaultHealthMarkdown(report)) : jsonResult(report);
+        }
+      ),
+
+      // Property tools. Updates go through processFrontMatter so the YAML stays valid.
+      tool(
+        "read_note_metadata",
+        "Read a note's properties (frontmatter) with their types, plus its tags, aliases and headings. Prefer this over reading the raw YAML.",
+        {
+          path: z.string().describe("Note path, path without .md, or link text"),
+        },
+        async (args) => {
+          const file = resolveNoteFile(app, args.path);
+          if (!file) return textResult(`Note not found: ${args.path}`);
+
+          const cache = app.metadataCache.getFileCache(file);
+          const frontmatter = cache?.frontmatter;
+          return jsonResult({
+            path: file.path,
+            properties: getTypedProperties(frontmatter),
+            tags: collectTags(frontmatter, (cache?.tags ?? []).map((tag) => tag.tag)),
+            aliases: collectAliases(frontmatter),
+            headings: (cache?.headings ?? []).map((heading) => ({
+              heading: heading.heading,
+              level: heading.level,
+              line: heading.position.start.line + 1,
+            })),
+          });
+        }
+      ),
+
+      tool(
+        "update_properties",
+        "Set or remove properties (frontmatter keys) on notes without editing YAML by hand. Select notes by path, by a property query, or both (the query then filters the paths). Use dryRun to preview the changes first.",
+        {
+          paths: z
+            .array(z.string())
+            .optional()
+            .describe("Notes to update (path or path without .md)"),
+          where: z
+            .array(propertyFilterSchema)
+            .optional()
+            .describe("Update every note matching all of these conditions"),
+          set: z
+            .record(z.any())
+            .optional()
+            .describe("Properties to set, e.g. {\"status\": \"done\", \"tags\": [\"project\"]}"),
+          unset: z
+            .array(z.string())
+            .optional()
+            .describe("Properties to remove"),
+          dryRun: z
+            .boolean()
+            .optional()
+            .describe("Report what would change without writing (default: false)"),
+        },
+        async (args) => {
+          if (!args.paths?.length && !args.where?.length) {
+            return textResult("Provide paths or a where query to select notes");
+          }
+          const update = { set: args.set, unset: args.unset };
+          if (Object.keys(update.set ?? {}).length === 0 && (update.unset ?? []).length === 0) {
+            return textResult("Nothing to update: provide set or unset");
+          }
+
+          const notFound: string[] = [];
+          let files: TFile[];
+          if (args.paths?.length) {
+            files = [];
+            for (const path of args.paths) {
+              const file = resolveVaultFile(app, path);
+              if (file?.extension === "md") files.push(file);
+              else notFound.push(path);
+            }
+          } else {
+            files = app.vault.getMarkdownFiles();
+          }
+          if (args.where?.length) {
+            const where = args.where;
+            files = files.filter((file) =>
+              matchesPropertyFilters(app.metadataCache.getFileCache(file)?.frontmatter, where)
+            );
+          }
+
+          if (files.length > MAX_PROPERTY_UPDATE_NOTES) {
+            return textResult(
+              `${files.length} notes match; narrow the selection to at most ${MAX_PROPERTY_UPDATE_NOTES} notes per call`
+            );
+          }
+
+          const updated: { path: string; changes: PropertyChange[] }[] = [];
+          const errors: { path: string; error: string }[] = [];
+          for (const file of files) {
+            // Skip notes the update wouldn't change so they aren't rewritten.
+            const planned = planPropertyUpdate(app.metadataCache.getFileCache(file)?.frontmatter, update);
+            if (planned.length === 0) continue;
+            if (args.dryRun) {
+              updated.push({ path: file.path, changes: planned });
+              continue;
+            }
+
+            try {
+              let changes: PropertyChange[] = [];
+              await app.fileManager.processFrontMatter(file, (frontmatter) => {
+                changes = applyPropertyUpdate(frontmatter, update);
+              });
+              if (changes.length > 0) updated.push({ path: file.path, changes });
+            } catch (error) {
+              errors.push({ path: file.path, error: error instanceof Error ? error.message : String(error) });
+            }
+          }
+
+          return jsonResult({
+            dryRun: args.dryRun ?? false,
+            matched: files.length,
+            changed: updated.length,
+            notes: updated,
+            ...(notFound.length > 0 && { notFound }),
+            ...(errors.length > 0 && { errors }),
+          });
+        }
+      ),
+
+      tool(
+        "list_tags",
+        "List the tags used in the vault as a tree (#project/alpha is nested under #project), with how often each is used. count is uses of exactly that tag; total includes its subtags. Tags written in several cases are merged and their other spellings listed as variants, which often need cleaning up.",
+        {
+          prefix: z
+            .string()
+            .optional()
+            .describe("Only list this tag and its subtags, e.g. 'project'"),
+          sortBy: z
+            .enum(["name", "count"])
+            .optional()
+            .describe("Sort by name or by total uses (default: name)"),
+        },
+        async (args) => {
+          // getTags() is undocumented: it counts every use of each tag, keyed with the leading #.
+          const counts: Record<string, number> = (app.metadataCache as any).getTags?.() ?? {};
+          const tree = buildTagTree(counts, args.sortBy ?? "name");
+          if (args.prefix) {
+            const node = findTagNode(tree, args.prefix);
+            if (!node) return textResult(`Tag not found: #${normalizeTag(args.prefix)}`);
+            return jsonResult(node);
+          }
+          const distinct = new Set(Object.keys(counts).map((tag) => tag.toLowerCase()));
+          return jsonResult({ tags: distinct.size, tree });
+        }
+      ),
+
+      tool(
+        "find_notes_by_tag",
+        "Find notes by tag with AND/OR/NOT logic, e.g. all: ['project'], any: ['urgent', 'blocked'], none: ['archived']. Subtags match their parents (#project/alpha matches 'project'). Returns each note's path and tags.",
+        {
+          all: z.array(z.string()).optional().describe("Notes must have every one of these tags"),
+          any: z.array(z.string()).optional().describe("Notes must have at least one of these tags"),
+          none: z.array(z.string()).optional().describe("Notes must have none of these tags"),
+          folder: z.string().optional().describe("Only notes in this folder (and its subfolders)"),
+          limit: z
+            .number()
+            .int()
+            .min(1)
+            .max(MAX_TAG_RESULTS)
+            .optional()
+            .describe(`Maximum notes to return (default ${DEFAULT_TAG_RESULTS})`),
+        },
+        async (args) => {
+          if (!args.all?.length && !args.any?.length) {
+            return textResult("Provide tags in all or any to search for");
+          }
+          const folder = normalizeVaultPath(args.folder ?? "");
+          const notes: { path: string; tags: string[] }[] = [];
+          for (const file of app.vault.getMarkdownFiles()) {
+            if (folder && !isPathInFolder(file.path, folder)) continue;
+            const tags = getNoteTags(app, file);
+            if (matchesTagQuery(tags, { all: args.all, any: args.any, none: args.none })) {
+              notes.push({ path: file.path, tags });
+            }
+          }
+          notes.sort((a, b) => a.path.localeCompare(b.path));
+          return jsonResult({ total: notes.length, notes: notes.slice(0, args.limit ?? DEFAULT_TAG_RESULTS) });
+        }
+      ),
+
+      tool(
+        "rename_tag",
+        "Rename a tag across the vault, in both inline #tags and the tags property. Subtags move with it (#project/alpha becomes #work/alpha when renaming #project to #work). Tags in code are left alone. Renaming onto an existing tag merges them. Run with dryRun first: it reports every line and property that would change.",
+        {
+          from: z.string().describe("Tag to rename, e.g. 'project' or '#project'"),
+          to: z.string().describe("New tag name"),
+          folder: z.string().optional().describe("Only rename in notes in this folder (and its subfolders)"),
+          dryRun: z
+            .boolean()
+            .optional()
+            .describe("Report what would change without writing (default: false)"),
+        },
+        async (args) => {
+          if (normalizeTag(args.from) === normalizeTag(args.to)) {
+            return textResult("The new tag is the same as the old one");
+          }
+          const result = await renameTagsInVault(
+            app,
+            [{ from: args.from, to: args.to }],
+            normalizeVaultPath(args.folder ?? ""),
+            args.dryRun ?? false
+          );
+          return typeof result === "string" ? textResult(result) : jsonResult(result);
+        }
+      ),
+
+      tool(
+        "merge_tags",
+        "Merge several tags into one across the vault, e.g. #todo, #to-do and #tasks into #task, in both inline #tags and the tags property. Subtags move with them, and a note listing several of them in its tags property keeps one. Run with dryRun first: it reports every line and property that would change.",
+        {
+          tags: z.array(z.string()).min(1).describe("Tags to merge"),
+          into: z.string().describe("Tag to merge them into (it may be new or one of the tags)"),
+          folder: z.string().optional().describe("Only merge in notes in this folder (and its subfolders)"),
+          dryRun: z
+            .boolean()
+            .optional()
+            .describe("Report what would change without writing (default: false)"),
+        },
+        async (args) => {
+          // Spellings of the target in another case are merged too.
+          const renames = args.tags
+            .filter((tag) => normalizeTag(tag) !== normalizeTag(args.into))
+            .map((tag) => ({ from: tag, to: args.into }));
+          if (renames.length === 0) return textResult("Nothing to merge: list tags other than the target");
+          const result = await renameTagsInVault(
+            app,
+            renames,
+            normalizeVaultPath(args.folder ?? ""),
+            args.dryRun ?? false
+          );
+          return typeof result === "string" ? textResult(result) : jsonResult(result);
+        }
+      ),
+
+      tool(
+        "search_notes",
+        `Full-text search of the vault's notes, ranked by relevance (BM25). Matches in note names, aliases, headings and tags rank above matches in the body. Returns each note's path, score, where it matched and the best matching lines with their line numbers and matches in **bold**. Prefer this over Grep for finding notes about a topic. Query syntax: words must all match; OR (or |) for either; -word or NOT word to exclude; "quoted phrase"; prefix* for word starts; parentheses to group, e.g. 'budget (2024 OR 2025) -draft'.`,
+        {
+          query: z.string().describe("Search query"),
+          folder: z.string().optional().describe("Only search notes in this folder (and its subfolders)"),
+          tags: z
+            .array(z.string())
+            .optional()
+            .describe("Only search notes with all of these tags (subtags match), e.g. ['project']"),
+          limit: z
+            .number()
+            .int()
+            .min(1)
+            .max(MAX_SEARCH_RESULTS)
+            .optional()
+            .describe(`Maximum notes to return (default ${DEFAULT_SEARCH_RESULTS})`),
+          snippets: z
+            .number()
+            .int()
+            .min(0)
+            .max(MAX_SEARCH_SNIPPETS)
+            .optional()
+            .describe("Matching lines to show per note (default 3)"),
+        },
+        async (args) => {
+          if (!hooks.searchNotes) return textResult("Full-text search isn't available");
+
+          const result = await hooks.searchNotes({
+            query: args.query,
+            folder: args.folder,
+            tags: args.tags,
+            limit: args.limit ?? DEFAULT_SEARCH_RESULTS,
+            snippets: args.snippets ?? 3,
+          });
+          if (typeof result === "string") return textResult(result);
+          if (result.hits.length === 0) return textResult(`No notes match: ${args.query}`);
+          return jsonResult({ query: args.query, ...result });
+        }
+      ),
+
+      tool(
+        "semantic_search",
+        "Find notes by meaning rather than exact words, e.g. \"what have I written about burnout\" finding notes on stress and rest. Returns the closest notes with a similarity score (higher is closer) and the section that matched, with its heading, line and an excerpt. Use search_notes for exact words or phrases. The index updates itself as notes change.",
+        {
+          query: z.string().describe("What to look for, in natural language"),
+          folder: z.string().optional().describe("Only search notes in this folder (and its subfolders)"),
+          limit: z
+            .number()
+            .int()
+            .min(1)
+            .max(MAX_SEMANTIC_RESULTS)
+            .optional()
+            .describe(`Maximum notes to return (default ${DEFAULT_SEMANTIC_RESULTS})`),
+        },
+        async (args) => {
+          if (!hooks.semanticSearch) return textResult("Semantic search isn't available");
+          const result = await hooks.semanticSearch({
+            query: args.query,
+            folder: args.folder,
+            limit: args.limit ?? DEFAULT_SEMANTIC_RESULTS,
+          });
+          if (typeof result === "string") return textResult(result);
+          if (result.length === 0) return textResult("No notes are indexed yet");
+          return jsonResult({ query: args.query, results: result });
+        }
+      ),
+
+      tool(
+        "find_similar_notes",
+        "Find the notes closest in meaning to a note as a whole, e.g. to suggest links or spot duplicates. Returns each note's similarity score (higher is closer) and its section closest to the note.",
+        {
+          path: z.string().describe("Path or link text of the note"),
+          limit: z
+            .number()
+            .int()
+            .min(1)
+            .max(MAX_SEMANTIC_RESULTS)
+            .optional()
+            .describe(`Maximum notes to return (default ${DEFAULT_SEMANTIC_RESULTS})`),
+        },
+        async (args) => {
+          if (!hooks.findSimilarNotes) return textResult("Semantic search isn't available");
+          const file = resolveNoteFile(app, args.path);
+          if (!file) return textResult(`Note not found: ${args.path}`);
+
+          const result = await hooks.findSimilarNotes(file.path, args.limit ?? DEFAULT_SEMANTIC_RESULTS);
+          if (typeof result === "string") return textResult(result);
+          return jsonResult({ path: file.path, similar: result });
+        }
+      ),
+
+      tool(
+        "query_notes",
+        `Find notes by folder, tags, property conditions and created/modified dates, like a Dataview table. Returns a markdown table sorted and limited as requested. Fields can be properties or any of: ${NOTE_FIELDS.join(", ")}.`,
+        {
+          folder: z
+            .string()
+            .optional()
+            .describe("Only notes in this folder (including subfolders)"),
+          tags: z
+            .array(z.string())
+            .optional()
+            .describe("Only notes with all of these tags (subtags match too)"),
+          where: z
+            .array(propertyFilterSchema)
+            .optional()
+            .describe("Only notes matching all of these property conditions"),
+          createdAfter: z
+            .string()
+            .optional()
+            .describe("Created on or after this date (ISO date, 'today', or days ago like '7d')"),
+          createdBefore: z
+            .string()
+            .optional()
+            .describe("Created before this date"),
+          modifiedAfter: z
+            .string()
+            .optional()
+            .describe("Modified on or after this date (ISO date, 'today', or days ago like '7d')"),
+          modifiedBefore: z
+            .string()
+            .optional()
+            .describe("Modified before this date"),
+          sortBy: z
+            .string()
+            .optional()
+            .describe("Field to sort by (default: path)"),
+          sortDirection: z
+            .enum(["asc", "desc"])
+            .optional()
+            .describe("Sort direction (default: asc)"),
+          limit: z
+            .number()
+            .optional()
+            .describe(`Maximum number of rows (default: 50, max: ${MAX_QUERY_ROWS})`),
+          fields: z
+            .array(z.string())
+            .optional()
+            .describe("Columns to show besides path (default: the fields used in where and sortBy)"),
+        },
+        async (args) => {
+          const dates: Record<string, number | undefined> = {};
+          for (const key of ["createdAfter", "createdBefore", "modifiedAfter", "modifiedBefore"] as const) {
+            const value = args[key];
+            if (value === undefined) continue;
+            const time = parseQueryDate(value);
+            if (time === null) return textResult(`Invalid date for ${key}: ${value}`);
+            dates[key] = time;
+          }
+
+          const notes = app.vault.getMarkdownFiles().map((file) => buildNoteRecord(app, file));
+          const result = runNoteQuery(notes, {
+            folder: args.folder,
+            tags: args.tags,
+            where: args.where,
+            ...dates,
+            sortBy: args.sortBy,
+            sortDirection: args.sortDirection,
+            limit: Math.min(args.limit ?? 50, MAX_QUERY_ROWS),
+            fields: args.fields,
+          });
+          return textResult(formatNoteQueryTable(result));
+        }
+      ),
+
+      // Section tools. Sections are addressed by heading path or block id instead of exact strings.
+      tool(
+        "get_note_outline",
+        "Get a note's outline: its headings (with the heading path to pass to read_section and edit_section) and its block ids.",
+        {
+          path: z.string().describe("Note path, path without .md, or link text"),
+        },
+        async (args) => {
+          const file = resolveNoteFile(app, args.path);
+          if (!file) return textResult(`Note not found: ${args.path}`);
+
+          const cache = app.metadataCache.getFileCache(file);
+          const headings = (cache?.headings ?? []).map((heading) => ({ text: heading.heading, level: heading.level }));
+          const paths = buildHeadingPaths(headings);
+          return jsonResult({
+            path: file.path,
+            headings: (cache?.headings ?? []).map((heading, index) => ({
+              heading: paths[index],
+              level: heading.level,
+              line: heading.position.start.line + 1,
+            })),
+            blocks: Object.values(cache?.blocks ?? {})
+              .map((block) => ({ id: `^${block.id}`, line: block.position.start.line + 1 }))
+              .sort((a, b) => a.line - b.line),
+          });
+        }
+      ),
+
+      tool(
+        "read_section",
+        "Read one section of a note: everything under a heading (including subheadings), or a block with an id.",
+        {
+          path: z.string().describe("Note path, path without .md, or link text"),
+          heading: z
+            .string()
+            .optional()
+            .describe("Heading path, e.g. '## Tasks > ### Today' or 'Tasks > Today'"),
+          block: z
+            .string()
+            .optional()
+            .describe("Block id, e.g. '^abc123'"),
+        },
+        async (args) => {
+          const file = resolveNoteFile(app, args.path);
+          if (!file) return textResult(`Note not found: ${args.path}`);
+          const address = toSectionAddress(args);
+          if (typeof address === "string") return textResult(address);
+
+          const result = readSection(await app.vault.cachedRead(file), address);
+          if (typeof result === "string") return textResult(result);
+          return jsonResult({
+            path: file.path,
+            startLine: result.section.start + 1,
+            content: result.text,
+          });
+        }
+      ),
+
+      tool(
+        "edit_section",
+        "Edit one section of a note, addressed by heading path or block id, without matching exact text. Operations: replace (the content below the heading, or the block), prepend (right below the heading), append (at the end of the section), insertBefore, insertAfter.",
+        {
+          path: z.string().describe("Note path or path without .md"),
+          heading: z
+            .string()
+            .optional()
+            .describe("Heading path, e.g. '## Tasks > ### Today' or 'Tasks > Today'"),
+          block: z
+            .string()
+            .optional()
+            .describe("Block id, e.g. '^abc123'"),
+          operation: z.enum(SECTION_EDIT_OPERATIONS).describe("How to apply the content"),
+          content: z.string().describe("Markdown to write"),
+        },
+        async (args) => {
+          const file = resolveVaultFile(app, args.path);
+          if (!file) return textResult(`Note not found: ${args.path}`);
+          const address = toSectionAddress(args);
+          if (typeof address === "string") return textResult(address);
+
+          // Locate the section in the content being written so the edit is atomic.
+          let error: string | undefined;
+          let startLine = 0;
+          await app.vault.process(file, (data) => {
+            const result = editSection(data, address, args.operation, args.content);
+            if (typeof result === "string") {
+              error = result;
+              return data;
+            }
+            startLine = result.section.start + 1;
+            return result.content;
+          });
+
+          if (error) return textResult(error);
+          const target = "heading" in address ? address.heading : address.block;
+          return textResult(`Applied ${args.operation} to ${target} (line ${startLine}) in ${file.path}`);
+        }
+      ),
+
+      // Rename and move tools. fileManager.renameFile updates links, unlike moving files with Bash.
+      tool(
+        "rename_file",
+        "Rename a note or file in place, updating every link to it. Always use this instead of Bash mv.",
+        {
+          path: z.string().describe("Path of the file to rename"),
+          newName: z.string().describe("New file name, without folder (the extension is kept if omitted)"),
+        },
+        async (args) => {
+          const result = await renameWithLinks(app, args.path, (file) => planRename(file.path, args.newName));
+          if (typeof result === "string") return textResult(result);
+          const links = describeLinkUpdates(app, result.linkingNotes.length);
+          return textResult(`Renamed ${result.from} to ${result.to}. ${links}`);
+        }
+      ),
+
+      tool(
+        "move_file",
+        "Move a note or file to another folder, updating every link to it. Creates the folder if needed. Always use this instead of Bash mv.",
+        {
+          path: z.string().describe("Path of the file to move"),
+          folder: z.string().describe("Destination folder relative to the vault root ('' for the root)"),
+        },
+        async (args) => {
+          const result = await renameWithLinks(app, args.path, (file) => ({ to: planMove(file.path, args.folder) }));
+          if (typeof result === "string") return textResult(result);
+          const links = describeLinkUpdates(app, result.linkingNotes.length);
+          return textResult(`Moved ${result.from} to ${result.to}. ${links}`);
+        }
+      ),
+
+      tool(
+        "rename_files",
+        `Rename several files at once, updating links. Takes a mapping from path to new name (max ${MAX_BULK_MOVES}).`,
+        {
+          mapping: z
+            .record(z.string())
+            .describe("Map of file path to new file name, e.g. {\"Inbox/a.md\": \"Meeting notes\"}"),
+        },
+        async (args) => renameAllWithLinks(app, args.mapping, (file, newName) => planRename(file.path, newName))
+      ),
+
+      tool(
+        "move_files",
+        `Move several files at once, updating links. Takes a mapping from path to destination folder (max ${MAX_BULK_MOVES}).`,
+        {
+          mapping: z
+            .record(z.string())
+            .describe("Map of file path to destination folder, e.g. {\"Inbox/a.md\": \"Projects/Alpha\"}"),
+        },
+        async (args) => renameAllWithLinks(app, args.mapping, (file, folder) => ({ to: planMove(file.path, folder) }))
+      ),
+
+      // Delete a file to the trash. A backup copy is kept so the deletion can be undone from the command palette.
+      tool(
+        "delete_file",
+        "Move a note or file to the trash, following the user's \"Deleted files\" setting (system trash or the vault's .trash folder). Deletions can be restored with the \"Restore Files Deleted in This Conversation\" command. Always use this instead of Bash rm. Folders can't be deleted.",
+        {
+          path: z.string().describe("Path of the file to delete (path or path without .md)"),
+        },
+        async (args) => {
+          const file = resolveVaultFile(app, args.path);
+          if (!file) {
+            return textResult(
+              app.vault.getAbstractFileByPath(args.path) instanceof TFolder
+                ? `${args.path} is a folder; only files can be deleted`
+                : `File not found: ${args.path}`
+            );
+          }
+
+          const id = `del-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+          const backupPath = (await hooks.backupFile?.(file, id)) ?? null;
+          const trash = getTrashLocation((app.vault as any).getConfig?.("trashOption"));
+          await app.vault.trash(file, trash === "system");
+          hooks.onFileDeleted?.({ id, path: file.path, deletedAt: Date.now(), trash, backupPath });
+
+          const where = trash === "system" ? "the system trash" : "the vault's .trash folder";
+          const undo = backupPath
+            ? "The user can restore it with the \"Restore Files Deleted in This Conversation\" command."
+            : `No backup copy was kept, so it can only be recovered from ${where}.`;
+          return textResult(`Moved ${file.path} to ${where}. ${undo}`);
+        }
+      ),
+
+      // Attachment tools. Images go to Claude as image content blocks, PDFs as their text layer.
+      tool(
+        "read_note_images",
+        "View the images embedded in a note (![[image.png]] or ![](image.png)), in the order they appear, or a single image file. Large images are scaled down. Other attachments are listed with how to read them, such as PDFs with read_pdf_text.",
+        {
+          path: z.string().describe("Note path, path without .md, or link text; or the path of an image"),
+          limit: z
+            .number()
+            .optional()
+            .describe(`Maximum number of images to return (default: ${DEFAULT_NOTE_IMAGES}, max: ${MAX_NOTE_IMAGES})`),
+        },
+        async (args) => {
+          const file = resolveNoteFile(app, args.path);
+          if (!file) return textResult(`File not found: ${args.path}`);
+          const limit = Math.min(Math.max(args.limit ?? DEFAULT_NOTE_IMAGES, 1), MAX_NOTE_IMAGES);
+
+          // Resolve each embed the way Obsidian does from this note, keeping the first of repeated images.
+          const embeds: { embed: string; line?: number; target: TFile | null }[] = [];
+          if (file.extension === "md") {
+            for (const embed of app.metadataCache.getFileCache(file)?.embeds ?? []) {
+              const target = app.metadataCache.getFirstLinkpathDest(getLinkpath(embed.link), file.path);
+              if (target && embeds.some((item) => item.target === target)) continue;
+              embeds.push({ embed: embed.original, line: embed.position.start.line + 1, target });
+            }
+          } else {
+            embeds.push({ embed: file.path, target: file });
+          }
+
+          const reader = new AttachmentReader(app);
+          const images: Record<string, unknown>[] = [];
+          const skipped: { embed: string; path?: string; reason: string }[] = [];
+          const content: ({ type: "text"; text: string } | { type: "image"; data: string; mimeType: string })[] = [];
+          for (const { embed, line, target } of embeds) {
+            if (!target) {
+              skipped.push({ embed, reason: "Not found" });
+              continue;
+            }
+            // Embedded notes and canvases are text; Read them instead.
+            if (target.extension === "md" || target.extension === "canvas") continue;
+            if (!getImageMimeType(target.extension)) {
+              const reason = target.extension.toLowerCase() === "pdf" ? "PDF: use read_pdf_text" : "Not an image";
+              skipped.push({ embed, path: target.path, reason });
+              continue;
+            }
+            if (images.length >= limit) {
+              skipped.push({ embed, path: target.path, reason: `Over the limit of ${limit} images` });
+              continue;
+            }
+
+            const image = await reader.readImage(target);
+            if (typeof image === "string") {
+              skipped.push({ embed, path: target.path, reason: image });
+              continue;
+            }
+            images.push({
+              path: target.path,
+              line,
+              size: image.size,
+              width: image.width,
+              height: image.height,
+              resized: image.resized || undefined,
+            });
+            content.push(
+              { type: "text", text: `Image ${images.length}: ${target.path}` },
+              { type: "image", data: image.data, mimeType: image.mimeType }
+            );
+          }
+
+          if (images.length === 0 && skipped.length === 0) return textResult(`No attachments embedded in ${file.path}`);
+          const summary = { path: file.path, images, skipped: skipped.length > 0 ? skipped : undefined };
+          return { content: [{ type: "text" as const, text: JSON.stringify(summary, null, 2) }, ...content] };
+        }
+      ),
+
+      tool(
+        "read_pdf_text",
+        "Extract the text of a PDF in the vault, page by page. Use pages to read part of a long PDF. Scanned PDFs without a text layer have no text to extract.",
+        {
+          path: z.string().describe("PDF path or link text"),
+          pages: z.string().optional().describe("Pages to read, e.g. '1-3, 5' or '10-' (default: all)"),
+          maxChars: z
+            .number()
+            .optional()
+            .describe(`Maximum characters to return (default: ${DEFAULT_PDF_CHARS}, max: ${MAX_PDF_CHARS})`),
+        },
+        async (args) => {
+          const file = resolveNoteFile(app, args.path);
+          if (!file) return textResult(`File not found: ${args.path}`);
+          const maxChars = Math.min(Math.max(args.maxChars ?? DEFAULT_PDF_CHARS, 1000), MAX_PDF_CHARS);
+
+          const result = await new AttachmentReader(app).readPdfText(file, args.pages, maxChars);
+          if (typeof result === "string") return textResult(result);
+          if (result.pages.every((page) => !page.text)) {
+            return textResult(`No text found in ${file.path}. It may be scanned images without a text layer.`);
+          }
+          return textResult(formatPdfText(file.path, result.pageCount, result.pages, maxChars));
+        }
+      ),
+
+      // Canvas tools. Canvases are JSON Canvas files; every write is validated against the spec first.
+      tool(
+        "read_canvas",
+        "Read a canvas (.canvas) as nodes and edges: each node's id, type (text, file, link, group), content (text, file path, URL or group label), position, size, color and containing group, and the edges between node ids.",
+        {
+          path: z.string().describe("Canvas path (with or without .canvas)"),
+        },
+        async (args) => {
+          const file = resolveCanvasFile(app, args.path);
+          if (!file) return textResult(`Canvas not found: ${args.path}`);
+          const canvas = parseCanvas(await app.vault.cachedRead(file));
+          if (typeof canvas === "string") return textResult(canvas);
+          return jsonResult({ path: file.path, ...summarizeCanvas(canvas) });
+        }
+      ),
+
+      tool(
+        "add_canvas_nodes",
+        "Add nodes and edges to an existing canvas. Nodes without x and y are placed without overlapping, next to their 'near' node or below the canvas. Edges connect node ids: existing ones from read_canvas, or ids you give new nodes in the same call. Edge sides are picked from node positions when omitted.",
+        {
+          path: z.string().describe("Canvas path (with or without .canvas)"),
+          nodes: z.array(canvasNodeSchema).optional().describe("Nodes to add"),
+          edges: z.array(canvasEdgeSchema).optional().describe("Edges to add"),
+        },
+        async (args) => {
+          const file = resolveCanvasFile(app, args.path);
+          if (!file) return textResult(`Canvas not found: ${args.path}`);
+          const nodes: CanvasNodeInput[] = (args.nodes ?? []).map((node) => ({ ...node }));
+          const edges = args.edges ?? [];
+          if (nodes.length === 0 && edges.length === 0) return textResult("Nothing to add: provide nodes or edges");
+          if (nodes.length > MAX_CANVAS_NODES) {
+            return textResult(`${nodes.length} nodes given; add at most ${MAX_CANVAS_NODES} per call`);
+          }
+          const missing = resolveCanvasFileNodes(app, nodes);
+
+          // Parse and validate inside process() so the nodes are added to the current content.
+          let error: string | undefined;
+          let added: { nodeIds: string[]; edgeIds: string[] } = { nodeIds: [], edgeIds: [] };
+          await app.vault.process(file, (data) => {
+            const canvas = parseCanvas(data);
+            const result = typeof canvas === "string" ? canvas : addToCanvas(canvas, nodes, edges);
+            if (typeof result === "string") {
+              error = result;
+              return data;
+            }
+            added = result;
+            return serializeCanvas(result.canvas);
+          });
+
+          if (error) return textResult(error);
+          return jsonResult({
+            path: file.path,
+            addedNodes: added.nodeIds,
+            addedEdges: added.edgeIds,
+            ...(missing.length > 0 && { missingFiles: missing }),
+          });
+        }
+      ),
+
+      tool(
+        "create_canvas",
+        "Create a canvas that maps notes and the relationships between them. Each note becomes a file node; relationships become labeled arrows, laid out in layers that flow left to right (or top to bottom) so related notes sit next to each other.",
+        {
+          path: z.string().describe("Path for the new canvas (.canvas is added if missing)"),
+          notes: z.array(z.string()).describe("Notes to include (path, path without .md, or link text)"),
+          relationships: z
+            .array(
+              z.object({
+                from: z.string().describe("A note from the notes list"),
+                to: z.string().describe("A note from the notes list"),
+                label: z.string().optional().describe("Edge label, e.g. 'supports'"),
+              })
+            )
+            .optional()
+            .describe("Arrows between notes"),
+          direction: z
+            .enum(["right", "down"])
+            .optional()
+            .describe("Layout direction (default: right)"),
+        },
+        async (args) => {
+          const path = args.path.endsWith(".canvas") ? args.path : `${args.path}.canvas`;
+          if (app.vault.getAbstractFileByPath(path)) return textResult(`File already exists: ${path}`);
+          const notes = Array.from(new Set(args.notes));
+          if (notes.length === 0) return textResult("Provide at least one note");
+          if (notes.length > MAX_CANVAS_NODES) {
+            return textResult(`${notes.length} notes given; a canvas can be created with at most ${MAX_CANVAS_NODES}`);
+          }
+
+          const taken = new Set<string>();
+          const ids = new Map<string, string>();
+          const nodes = notes.map((note) => {
+            const id = createCanvasId(taken);
+            taken.add(id);
+            ids.set(note, id);
+            return { id, type: "file" as const, file: note };
+          });
+          const missing = resolveCanvasFileNodes(app, nodes);
+
+          const relationships = args.relationships ?? [];
+          const unknown = relationships.flatMap((link) => [link.from, link.to]).find((note) => !ids.has(note));
+          if (unknown !== undefined) {
+            return textResult(`Relationship refers to a note not in the notes list: ${unknown}`);
+          }
+          const edges = relationships.map((link) => ({ ...link, from: ids.get(link.from)!, to: ids.get(link.to)! }));
+
+          const canvas = layoutCanvas(nodes, edges, args.direction);
+          if (typeof canvas === "string") return textResult(canvas);
+
+          const folder = path.substring(0, path.lastIndexOf("/"));
+          if (folder && !app.vault.getAbstractFileByPath(folder)) {
+            await app.vault.createFolder(folder);
+          }
+          await app.vault.create(path, serializeCanvas(canvas));
+
+          const summary = `Created ${path} with ${canvas.nodes.length} notes and ${canvas.edges.length} relationships.`;
+          if (missing.length === 0) return textResult(summary);
+          return textResult(`${summary} Notes not found in the vault: ${missing.join(", ")}`);
+        }
+      ),
+
+      // Daily and periodic notes, following the core Daily notes and Periodic Notes plugin settings.
+      tool(
+        "get_periodic_note",
+        "Find the daily, weekly, monthly, quarterly or yearly note for a date, using the user's Daily notes / Periodic Notes settings (folder and name format). Returns its path, whether it exists, and its content if it does.",
+        {
+          period: z.enum(NOTE_PERIODS).optional().describe("Note period (default: day)"),
+          date: z.string().optional().describe("today (default), yesterday, tomorrow, or YYYY-MM-DD"),
+          offset: z.number().int().optional().describe("Periods to shift by, e.g. -1 for last week's note"),
+        },
+        async (args) => {
+          const period = args.period ?? "day";
+          const date = getPeriodDate(period, args.date, args.offset);
+          if (typeof date === "string") return textResult(date);
+
+          const config = getPeriodicNoteConfig(app, period);
+          const path = getPeriodicNotePath(config, date.format(config.format));
+          const file = app.vault.getAbstractFileByPath(path);
+          return jsonResult({
+            period,
+            date: date.format("YYYY-MM-DD"),
+            path,
+            exists: file instanceof TFile,
+            settings: config.source,
+            ...(file instanceof TFile && { content: await app.vault.cachedRead(file) }),
+          });
+        }
+      ),
+
+      tool(
+        "create_periodic_note",
+        "Create the daily, weekly, monthly, quarterly or yearly note for a date in the user's configured folder and name format, filled in from their configured template (like Obsidian's \"Open today's daily note\"). Returns the existing note if it was already created. Use this instead of create_note for daily notes.",
+        {
+          period: z.enum(NOTE_PERIODS).optional().describe("Note period (default: day)"),
+          date: z.string().optional().describe("today (default), yesterday, tomorrow, or YYYY-MM-DD"),
+          offset: z.number().int().optional().describe("Periods to shift by, e.g. 1 for next month's note"),
+          open: z.boolean().optional().describe("Open the note after creating it (default: false)"),
+        },
+        async (args) => {
+          const period = args.period ?? "day";
+          const date = getPeriodDate(period, args.date, args.offset);
+          if (typeof date === "string") return textResult(date);
+
+          const config = getPeriodicNoteConfig(app, period);
+          const result = await ensurePeriodicNote(app, config, date);
+          if (typeof result === "string") return textResult(result);
+          if (args.open) await app.workspace.getLeaf(false).openFile(result.file);
+
+          const status = result.created ? `Created ${result.file.path}` : `${result.file.path} already exists`;
+          const template = result.created && config.template && !result.warning ? ` from ${config.template}` : "";
+          return textResult(`${status}${template}.${result.warning ? ` ${result.warning}.` : ""}`);
+        }
+      ),
+
+      tool(
+        "get_recent_daily_notes",
+        `Read the last N daily notes (up to today, newest first) as one document, for context such as "what did I work on this week". Notes are found by the daily note folder and name format. Max ${MAX_RECENT_DAILY_NOTES} notes.`,
+        {
+          count: z
+            .number()
+            .int()
+            .min(1)
+            .max(MAX_RECENT_DAILY_NOTES)
+            .optional()
+            .describe("Number of notes (default: 7)"),
+          maxCharsPerNote: z
+            .number()
+            .int()
+            .min(100)
+            .optional()
+            .describe(`Cut each note to this many characters (default: ${DEFAULT_DAILY_NOTE_CHARS})`),
+        },
+        async (args) => {
+          const config = getPeriodicNoteConfig(app, "day");
+          const endOfToday = moment().endOf("day").valueOf();
+          const notes = findDatedNotes(
+            app.vault.getMarkdownFiles().map((file) => file.path),
+            config,
+            (name) => {
+              const date = moment(name, config.format, true);
+              return date.isValid() ? date.valueOf() : null;
+            }
+          )
+            .filter((note) => note.date <= endOfToday)
+            .slice(0, args.count ?? 7);
+
+          const contents = [];
+          for (const note of notes) {
+            const file = app.vault.getAbstractFileByPath(note.path);
+            if (!(file instanceof TFile)) continue;
+            contents.push({
+              path: note.path,
+              label: moment(note.date).format("YYYY-MM-DD dddd"),
+              content: await app.vault.cachedRead(file),
+            });
+          }
+          return textResult(formatNotesContext(contents, args.maxCharsPerNote ?? DEFAULT_DAILY_NOTE_CHARS));
+        }
+      ),
     ],
   });
 }
@@ -0,0 +1,103 @@
+import type ClaudeCodePlugin from "../main";
+import { logger } from "../utils/Logger";
+import {
+  parseAuditLog,
+  serializeAuditEntry,
+  formatAuditLogMarkdown,
+  type PermissionAuditEntry,
+} from "../utils/auditLog";
+
+// Storage location within the vault (shared with ConversationManager).
+const STORAGE_DIR = ".obsidian-claude-code";
+const AUDIT_DIR = "audit";
+
+// Append-only permission audit log, one JSON Lines file per conversation.
+export class PermissionAuditLog {
+  private plugin: ClaudeCodePlugin;
+  private initialized = false;
+
+  // Serializes appends so concurrent decisions are written in order.
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(plugin: ClaudeCodePlugin) {
+    this.plugin = plugin;
+  }
+
+  // Create the audit directory if it doesn't exist.
+  private async initialize() {
+    if (this.initialized) return;
+
+    const adapter = this.plugin.app.vault.adapter;
+    for (const dir of [STORAGE_DIR, `${STORAGE_DIR}/${AUDIT_DIR}`]) {
+      try {
+        if (!(await adapter.exists(dir))) {
+          await adapter.mkdir(dir);
+        }
+      } catch (e) {
+        // Folder may already exist, ignore error.
+      }
+    }
+
+    this.initialized = true;
+  }
+
+  private getLogPath(conversationId: string): string {
+    return `${STORAGE_DIR}/${AUDIT_DIR}/${conversationId}.jsonl`;
+  }
+
+  // Append an entry to its conversation's log.
+  record(entry: PermissionAuditEntry): Promise<void> {
+    this.writeQueue = this.writeQueue.then(async () => {
+      try {
+        await this.initialize();
+        const adapter = this.plugin.app.vault.adapter;
+        const path = this.getLogPath(entry.conversationId);
+        const line = serializeAuditEntry(entry);
+
+        if (await adapter.exists(path)) {
+          await adapter.append(path, line);
+        } else {
+          await adapter.write(path, line);
+        }
+      } catch (e) {
+        logger.error("PermissionAuditLog", "Failed to record audit entry", { error: String(e) });
+      }
+    });
+    return this.writeQueue;
+  }
+
+  // Read all entries for a conversation, oldest first.
+  async getEntries(conversationId: string): Promise<PermissionAuditEntry[]> {
+    // Wait for pending writes so the viewer sees the latest decisions.
+    await this.writeQueue;
+
+    const adapter = this.plugin.app.vault.adapter;
+    const path = this.getLogPath(conversationId);
+
+    try {
+      if (!(await adapter.exists(path))) return [];
+      return parseAuditLog(await adapter.read(path));
+    } catch (error) {
+      logger.error("PermissionAuditLog", "Failed to read audit log", { error: String(error), path });
+      return [];
+    }
+  }
+
+  // Export a conversation's log as a markdown note at the vault root. Returns the note path.
+  async exportToNote(conversationId: string, title: string): Promise<string> {
+    const entries = await this.getEntries(conversationId);
+    const vault = this.plugin.app.vault;
+
+    const date = new Date().toISOString().slice(0, 10);
+    const safeTitle = title.replace(/[\\/:*?"<>|#^[\]]/g, "").trim() || conversationId;
+    const baseName = `Permission audit - ${safeTitle} - ${date}`;
+
+    let path = `${baseName}.md`;
+    for (let i = 2; await vault.adapter.exists(path); i++) {
+      path = `${baseName} ${i}.md`;
+    }
+
+    await vault.create(path, formatAuditLogMarkdown(entries, title));
+    return path;
+  }
+}
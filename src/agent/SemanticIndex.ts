@@ -0,0 +1,338 @@
+import { TFile } from "obsidian";
+import type ClaudeCodePlugin from "../main";
+import { logger } from "../utils/Logger";
+import { isPathInFolder, normalizeVaultPath } from "../utils/pathUtils";
+import {
+  chunkNote,
+  cosineSimilarity,
+  averageVectors,
+  encodeVector,
+  decodeVector,
+  parseStoredIndex,
+  type NoteChunk,
+  type StoredSemanticIndex,
+} from "../utils/embeddings";
+import { createEmbeddingProvider, type EmbeddingProvider } from "./EmbeddingProvider";
+
+// Index file in the plugin's folder.
+const INDEX_FILE = "semantic-index.json";
+
+// Characters per chunk before a section is split.
+const MAX_CHUNK_CHARS = 1500;
+
+// Chunks embedded per provider call, across notes.
+const EMBED_BATCH_CHUNKS = 64;
+
+// Characters of the matching section shown in a result.
+const EXCERPT_CHARS = 300;
+
+// Delay after the last vault change before changed notes are embedded in the background.
+const BACKGROUND_UPDATE_DELAY_MS = 30_000;
+
+/**
+ * Options of a semantic search.
+ */
+export interface SemanticSearchOptions {
+  query: string;
+  folder?: string;
+  limit: number;
+}
+
+/**
+ * A note found by meaning, with its closest section.
+ */
+export interface SemanticHit {
+  path: string;
+  score: number;
+  heading: string;
+  // One-based line of the section.
+  line: number;
+  excerpt: string;
+}
+
+/**
+ * Size of the index and, after an update, what it changed.
+ */
+export interface SemanticIndexStats {
+  provider: string;
+  notes: number;
+  chunks: number;
+  indexed?: number;
+  removed?: number;
+  ms?: number;
+}
+
+interface IndexedChunk {
+  heading: string;
+  line: number;
+  lineCount: number;
+  vector: Float32Array;
+}
+
+interface IndexedNote {
+  mtime: number;
+  size: number;
+  chunks: IndexedChunk[];
+  // Average of the chunk vectors, for comparing whole notes.
+  vector: Float32Array;
+}
+
+// Embeddings of the vault's notes, chunked by heading and saved in the plugin's folder.
+// Notes are re-embedded when their modification time or size changes, so only changed notes cost anything.
+export class SemanticIndex {
+  private plugin: ClaudeCodePlugin;
+  private notes = new Map<string, IndexedNote>();
+  // Provider of the loaded vectors, or null before the index is first used.
+  private providerId: string | null = null;
+
+  // Serializes updates so concurrent searches don't embed the same notes twice.
+  private updateQueue: Promise<unknown> = Promise.resolve();
+
+  // Notes changed since the last update, and the timer that embeds them.
+  private stale = new Set<string>();
+  private updateTimer: number | null = null;
+
+  constructor(plugin: ClaudeCodePlugin) {
+    this.plugin = plugin;
+  }
+
+  // Listen for vault changes. Once the index has been used, changes are embedded in the background.
+  registerEvents() {
+    const plugin = this.plugin;
+    const vault = plugin.app.vault;
+    plugin.registerEvent(vault.on("create", (file) => this.onChange(file.path)));
+    plugin.registerEvent(vault.on("modify", (file) => this.onChange(file.path)));
+    plugin.registerEvent(vault.on("delete", (file) => this.onChange(file.path)));
+    plugin.registerEvent(vault.on("rename", (file, oldPath) => this.onChange(file.path, oldPath)));
+    plugin.register(() => {
+      if (this.updateTimer !== null) window.clearTimeout(this.updateTimer);
+    });
+  }
+
+  private onChange(...paths: string[]) {
+    paths.forEach((path) => this.stale.add(path));
+    if (this.providerId === null) return;
+
+    if (this.updateTimer !== null) window.clearTimeout(this.updateTimer);
+    this.updateTimer = window.setTimeout(() => {
+      this.updateTimer = null;
+      this.update().catch((e) => logger.warn("SemanticIndex", "Background update failed", { error: String(e) }));
+    }, BACKGROUND_UPDATE_DELAY_MS);
+  }
+
+  private getIndexPath(): string {
+    return `${this.plugin.manifest.dir}/${INDEX_FILE}`;
+  }
+
+  // Load the saved vectors of a provider. Switching providers starts over, since their vectors can't be compared.
+  private async load(provider: EmbeddingProvider) {
+    if (this.providerId === provider.id) return;
+    this.notes.clear();
+    this.providerId = provider.id;
+
+    const adapter = this.plugin.app.vault.adapter;
+    const path = this.getIndexPath();
+    try {
+      if (!(await adapter.exists(path))) return;
+      const stored = parseStoredIndex(await adapter.read(path), provider.id);
+      if (!stored) return;
+      for (const [notePath, note] of Object.entries(stored.notes)) {
+        const chunks = note.chunks.map((chunk) => ({ ...chunk, vector: decodeVector(chunk.vector) }));
+        this.notes.set(notePath, { ...note, chunks, vector: averageVectors(chunks.map((chunk) => chunk.vector)) });
+      }
+    } catch (e) {
+      logger.warn("SemanticIndex", "Failed to load semantic index", { path, error: String(e) });
+    }
+  }
+
+  private async save() {
+    const stored: StoredSemanticIndex = { version: 1, provider: this.providerId ?? "", notes: {} };
+    for (const [path, note] of this.notes) {
+      stored.notes[path] = {
+        mtime: note.mtime,
+        size: note.size,
+        chunks: note.chunks.map((chunk) => ({ ...chunk, vector: encodeVector(chunk.vector) })),
+      };
+    }
+    try {
+      await this.plugin.app.vault.adapter.write(this.getIndexPath(), JSON.stringify(stored));
+    } catch (e) {
+      logger.error("SemanticIndex", "Failed to save semantic index", { error: String(e) });
+    }
+  }
+
+  /**
+   * Embed notes that are new or changed since the last update and drop deleted ones. force re-embeds every note.
+   * Throws if the embedding provider fails; notes embedded before the failure are kept.
+   */
+  update(force = false): Promise<SemanticIndexStats> {
+    const run = this.updateQueue.then(() => this.runUpdate(force));
+    this.updateQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async runUpdate(force: boolean): Promise<SemanticIndexStats> {
+    const started = Date.now();
+    const provider = createEmbeddingProvider(this.plugin.settings);
+    await this.load(provider);
+    if (force) this.notes.clear();
+
+    const files = this.plugin.app.vault.getMarkdownFiles();
+    const present = new Set(files.map((file) => file.path));
+    let removed = 0;
+    for (const path of Array.from(this.notes.keys())) {
+      if (!present.has(path)) {
+        this.notes.delete(path);
+        removed++;
+      }
+    }
+
+    const stale = this.stale;
+    this.stale = new Set();
+    const changed = files.filter((file) => {
+      const note = this.notes.get(file.path);
+      return !note || stale.has(file.path) || note.mtime !== file.stat.mtime || note.size !== file.stat.size;
+    });
+
+    let indexed = 0;
+    let batch: { file: TFile; chunks: NoteChunk[] }[] = [];
+    const embedBatch = async () => {
+      const texts = batch.flatMap(({ file, chunks }) =>
+        chunks.map((chunk) => [file.basename, chunk.heading, chunk.text].filter(Boolean).join("\n"))
+      );
+      const vectors = texts.length > 0 ? await provider.embed(texts) : [];
+      let offset = 0;
+      for (const { file, chunks } of batch) {
+        const indexedChunks = chunks.map((chunk, i) => ({
+          heading: chunk.heading,
+          line: chunk.line,
+          lineCount: chunk.lineCount,
+          vector: vectors[offset + i],
+        }));
+        offset += chunks.length;
+        this.notes.set(file.path, {
+          mtime: file.stat.mtime,
+          size: file.stat.size,
+          chunks: indexedChunks,
+          vector: averageVectors(indexedChunks.map((chunk) => chunk.vector)),
+        });
+      }
+      indexed += batch.length;
+      batch = [];
+    };
+
+    try {
+      let pending = 0;
+      for (const file of changed) {
+        const chunks = chunkNote(await this.plugin.app.vault.cachedRead(file), MAX_CHUNK_CHARS);
+        batch.push({ file, chunks });
+        pending += chunks.length;
+        if (pending >= EMBED_BATCH_CHUNKS) {
+          await embedBatch();
+          pending = 0;
+        }
+      }
+      await embedBatch();
+    } catch (e) {
+      // Notes not embedded yet are picked up by the next update.
+      changed.forEach((file) => this.stale.add(file.path));
+      throw e;
+    } finally {
+      if (indexed > 0 || removed > 0 || force) await this.save();
+    }
+
+    if (indexed > 0) logger.info("SemanticIndex", "Updated semantic index", { indexed, removed });
+    return { ...this.getStats(), indexed, removed, ms: Date.now() - started };
+  }
+
+  /**
+   * Size of the index, loading it if needed.
+   */
+  async stats(): Promise<SemanticIndexStats> {
+    await this.load(createEmbeddingProvider(this.plugin.settings));
+    return this.getStats();
+  }
+
+  private getStats(): SemanticIndexStats {
+    let chunks = 0;
+    for (const note of this.notes.values()) chunks += note.chunks.length;
+    return { provider: this.providerId ?? "", notes: this.notes.size, chunks };
+  }
+
+  /**
+   * Find the notes whose sections are closest in meaning to a query. Returns an error message on failure.
+   */
+  async search(options: SemanticSearchOptions): Promise<SemanticHit[] | string> {
+    const query = options.query.trim();
+    if (!query) return "Query is empty";
+
+    let queryVector: Float32Array;
+    try {
+      await this.update();
+      [queryVector] = await createEmbeddingProvider(this.plugin.settings).embed([query]);
+    } catch (e) {
+      return `Semantic search failed: ${e instanceof Error ? e.message : String(e)}`;
+    }
+
+    const folder = normalizeVaultPath(options.folder ?? "");
+    const matches: { path: string; score: number; chunk: IndexedChunk }[] = [];
+    for (const [path, note] of this.notes) {
+      if (folder && !isPathInFolder(path, folder)) continue;
+      const best = this.closestChunk(note, queryVector);
+      if (best) matches.push({ path, ...best });
+    }
+    matches.sort((a, b) => b.score - a.score);
+    return Promise.all(matches.slice(0, options.limit).map((match) => this.toHit(match)));
+  }
+
+  /**
+   * Find the notes closest in meaning to a note as a whole. Returns an error message on failure.
+   */
+  async findSimilar(path: string, limit: number): Promise<SemanticHit[] | string> {
+    try {
+      await this.update();
+    } catch (e) {
+      return `Semantic search failed: ${e instanceof Error ? e.message : String(e)}`;
+    }
+
+    const source = this.notes.get(path);
+    if (!source || source.chunks.length === 0) return `Note has no text to compare: ${path}`;
+
+    const matches: { path: string; score: number; chunk: IndexedChunk }[] = [];
+    for (const [otherPath, note] of this.notes) {
+      if (otherPath === path || note.chunks.length === 0) continue;
+      const best = this.closestChunk(note, source.vector);
+      if (best) matches.push({ path: otherPath, score: cosineSimilarity(source.vector, note.vector), chunk: best.chunk });
+    }
+    matches.sort((a, b) => b.score - a.score);
+    return Promise.all(matches.slice(0, limit).map((match) => this.toHit(match)));
+  }
+
+  // The chunk of a note closest to a vector.
+  private closestChunk(note: IndexedNote, vector: Float32Array): { score: number; chunk: IndexedChunk } | null {
+    let best: { score: number; chunk: IndexedChunk } | null = null;
+    for (const chunk of note.chunks) {
+      const score = cosineSimilarity(vector, chunk.vector);
+      if (!best || score > best.score) best = { score, chunk };
+    }
+    return best;
+  }
+
+  private async toHit(match: { path: string; score: number; chunk: IndexedChunk }): Promise<SemanticHit> {
+    const { chunk } = match;
+    let excerpt = "";
+    const file = this.plugin.app.vault.getAbstractFileByPath(match.path);
+    if (file instanceof TFile) {
+      const lines = (await this.plugin.app.vault.cachedRead(file)).split("\n");
+      excerpt = lines.slice(chunk.line, chunk.line + chunk.lineCount).join("\n").trim();
+      if (excerpt.length > EXCERPT_CHARS) excerpt = `${excerpt.slice(0, EXCERPT_CHARS)}…`;
+    }
+    return {
+      path: match.path,
+      score: Math.round(match.score * 1000) / 1000,
+      heading: chunk.heading,
+      line: chunk.line + 1,
+      excerpt,
+    };
+  }
+}
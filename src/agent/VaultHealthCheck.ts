@@ -0,0 +1,237 @@
+import { TFile, getLinkpath, type App } from "obsidian";
+import { logger } from "../utils/Logger";
+import { parseCanvas } from "../utils/canvas";
+import type { LinkMap } from "../utils/linkGraph";
+import { isPathInFolder, normalizeVaultPath } from "../utils/pathUtils";
+import {
+  HEALTH_CHECKS,
+  findOrphans,
+  findUnreferencedFiles,
+  groupBrokenLinks,
+  findDuplicateTitles,
+  findSimilarNotes,
+  countWords,
+  minHashSignature,
+  formatVaultHealthMarkdown,
+  type HealthCheck,
+  type BrokenLinkSource,
+  type StubNote,
+  type VaultHealthReport,
+} from "../utils/vaultHealth";
+
+// Property marking report notes, whose links to the notes they list shouldn't count in later reports.
+const REPORT_PROPERTY = "vault-health-report";
+
+// Notes need at least this many words to be compared for similar content, so short stubs don't all match.
+const MIN_SIMILARITY_WORDS = 50;
+
+/**
+ * Options of a health report.
+ */
+export interface VaultHealthOptions {
+  folder?: string;
+  // Checks to run; all of them if left out.
+  checks?: HealthCheck[];
+  // Most items listed per section.
+  limit: number;
+  // Notes with fewer words than this are stubs.
+  stubWords: number;
+  // Lowest estimated similarity (0 to 1) for two notes to be reported as similar.
+  similarity: number;
+}
+
+/**
+ * Default options, used by the command.
+ */
+export const DEFAULT_VAULT_HEALTH_OPTIONS: VaultHealthOptions = { limit: 100, stubWords: 10, similarity: 0.8 };
+
+// Finds what needs tidying in the vault: orphan notes, broken links, duplicates, empty notes and unused attachments.
+// Links come from the metadata cache; note text is read only for the duplicate and empty note checks.
+export class VaultHealthCheck {
+  private app: App;
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  /**
+   * Build the health report. Notes and attachments outside the folder aren't reported,
+   * but links from anywhere in the vault count.
+   */
+  async run(options: VaultHealthOptions): Promise<VaultHealthReport> {
+    const started = Date.now();
+    const { vault, metadataCache } = this.app;
+    const checks = new Set<HealthCheck>(options.checks?.length ? options.checks : HEALTH_CHECKS);
+    const folder = normalizeVaultPath(options.folder ?? "");
+    const inScope = (path: string) => !folder || isPathInFolder(path, folder);
+
+    const files = vault.getFiles().filter((file) => !this.isReport(file));
+    const notes = files.filter((file) => file.extension === "md" && inScope(file.path));
+    const attachments = files.filter(
+      (file) => file.extension !== "md" && file.extension !== "canvas" && inScope(file.path)
+    );
+    // Links from earlier reports are left out, so listing a note doesn't stop it being an orphan.
+    const resolved: LinkMap = {};
+    for (const file of files) {
+      const links = metadataCache.resolvedLinks[file.path];
+      if (links) resolved[file.path] = links;
+    }
+    const limit = <T>(items: T[]) => items.slice(0, options.limit);
+
+    const report: VaultHealthReport = {
+      generated: new Date().toISOString().slice(0, 16).replace("T", " "),
+      folder,
+      summary: { notes: notes.length, attachments: attachments.length },
+    };
+
+    const needsCanvases = checks.has("orphans") || checks.has("unusedAttachments");
+    const canvasReferences = needsCanvases ? await this.getCanvasReferences(files) : new Set<string>();
+
+    if (checks.has("orphans")) {
+      const orphans = findOrphans(
+        notes.map((note) => note.path),
+        resolved,
+        canvasReferences
+      );
+      report.summary.orphans = orphans.length;
+      report.orphans = limit(orphans);
+    }
+
+    if (checks.has("brokenLinks")) {
+      const brokenLinks = groupBrokenLinks(notes.flatMap((note) => this.getBrokenLinks(note)));
+      report.summary.brokenLinks = brokenLinks.length;
+      report.brokenLinks = limit(brokenLinks);
+    }
+
+    if (checks.has("duplicates")) {
+      const duplicateTitles = findDuplicateTitles(notes.map((note) => note.path));
+      report.summary.duplicateTitles = duplicateTitles.length;
+      report.duplicateTitles = limit(duplicateTitles);
+    }
+
+    if (checks.has("duplicates") || checks.has("emptyNotes")) {
+      const signatures: { path: string; signature: Uint32Array }[] = [];
+      const emptyNotes: string[] = [];
+      const stubNotes: StubNote[] = [];
+      for (const note of notes) {
+        let content: string;
+        try {
+          content = await vault.cachedRead(note);
+        } catch (e) {
+          logger.warn("VaultHealthCheck", "Failed to read note", { path: note.path, error: String(e) });
+          continue;
+        }
+        if (checks.has("emptyNotes")) {
+          const words = countWords(content);
+          if (words === 0) emptyNotes.push(note.path);
+          else if (words < options.stubWords) stubNotes.push({ path: note.path, words });
+        }
+        if (checks.has("duplicates")) {
+          const signature = minHashSignature(content, MIN_SIMILARITY_WORDS);
+          if (signature) signatures.push({ path: note.path, signature });
+        }
+      }
+
+      if (checks.has("duplicates")) {
+        const similarNotes = findSimilarNotes(signatures, options.similarity);
+        report.summary.similarNotes = similarNotes.length;
+        report.similarNotes = limit(similarNotes);
+      }
+      if (checks.has("emptyNotes")) {
+        emptyNotes.sort();
+        stubNotes.sort((a, b) => a.words - b.words || a.path.localeCompare(b.path));
+        report.summary.emptyNotes = emptyNotes.length;
+        report.summary.stubNotes = stubNotes.length;
+        report.emptyNotes = limit(emptyNotes);
+        report.stubNotes = limit(stubNotes);
+      }
+    }
+
+    if (checks.has("unusedAttachments")) {
+      const unused = new Set(
+        findUnreferencedFiles(
+          attachments.map((file) => file.path),
+          resolved,
+          canvasReferences
+        )
+      );
+      const unusedAttachments = attachments
+        .filter((file) => unused.has(file.path))
+        .map((file) => ({ path: file.path, size: file.stat.size }))
+        .sort((a, b) => b.size - a.size || a.path.localeCompare(b.path));
+      report.summary.unusedAttachments = unusedAttachments.length;
+      report.unusedAttachments = limit(unusedAttachments);
+    }
+
+    logger.info("VaultHealthCheck", "Built vault health report", { notes: notes.length, ms: Date.now() - started });
+    return report;
+  }
+
+  /**
+   * Write the health report as a markdown note at the vault root and return its path.
+   * The note is marked with a property so later reports skip it.
+   */
+  async exportToNote(options: VaultHealthOptions): Promise<string> {
+    const report = await this.run(options);
+    const vault = this.app.vault;
+
+    const baseName = `Vault health - ${report.generated.slice(0, 10)}`;
+    let path = `${baseName}.md`;
+    for (let i = 2; await vault.adapter.exists(path); i++) {
+      path = `${baseName} ${i}.md`;
+    }
+
+    await vault.create(path, `---\n${REPORT_PROPERTY}: true\n---\n${formatVaultHealthMarkdown(report)}`);
+    return path;
+  }
+
+  // Check whether a file is an earlier health report.
+  private isReport(file: TFile): boolean {
+    if (file.extension !== "md") return false;
+    return this.app.metadataCache.getFileCache(file)?.frontmatter?.[REPORT_PROPERTY] === true;
+  }
+
+  // Find where a note links to targets that don't exist, by line for links in the text.
+  private getBrokenLinks(note: TFile): (BrokenLinkSource & { target: string })[] {
+    const targets = this.app.metadataCache.unresolvedLinks[note.path];
+    if (!targets || Object.keys(targets).length === 0) return [];
+    const isBroken = (link: string) => Object.prototype.hasOwnProperty.call(targets, getLinkpath(link));
+
+    const cache = this.app.metadataCache.getFileCache(note);
+    const found: (BrokenLinkSource & { target: string })[] = [];
+    for (const link of [...(cache?.links ?? []), ...(cache?.embeds ?? [])]) {
+      if (!isBroken(link.link)) continue;
+      const line = link.position.start.line + 1;
+      found.push({ target: getLinkpath(link.link), path: note.path, line, link: link.original });
+    }
+    for (const link of cache?.frontmatterLinks ?? []) {
+      if (!isBroken(link.link)) continue;
+      found.push({ target: getLinkpath(link.link), path: note.path, property: link.key, link: link.original });
+    }
+
+    // Fall back to the link map alone if the cache has no positions for a target.
+    const located = new Set(found.map((link) => link.target));
+    for (const target of Object.keys(targets)) {
+      if (!located.has(target)) found.push({ target, path: note.path, link: target });
+    }
+    return found.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+  }
+
+  // Collect the files canvases show as file nodes, which resolvedLinks doesn't include.
+  private async getCanvasReferences(files: TFile[]): Promise<Set<string>> {
+    const referenced = new Set<string>();
+    for (const file of files) {
+      if (file.extension !== "canvas") continue;
+      try {
+        const canvas = parseCanvas(await this.app.vault.cachedRead(file));
+        if (typeof canvas === "string") continue;
+        for (const node of canvas.nodes) {
+          if (node.type === "file" && node.file) referenced.add(node.file);
+        }
+      } catch (e) {
+        logger.warn("VaultHealthCheck", "Failed to read canvas", { path: file.path, error: String(e) });
+      }
+    }
+    return referenced;
+  }
+}
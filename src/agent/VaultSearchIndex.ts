@@ -0,0 +1,197 @@
+import { TFile, type App, type Plugin, type TAbstractFile } from "obsidian";
+import { logger } from "../utils/Logger";
+import { collectAliases, collectTags } from "../utils/frontmatter";
+import { hasTag } from "../utils/noteQuery";
+import { isPathInFolder, normalizeVaultPath } from "../utils/pathUtils";
+import {
+  SEARCH_FIELDS,
+  SearchIndex,
+  parseSearchQuery,
+  queryHasPhrases,
+  matchesQuery,
+  buildSnippets,
+  type SearchDocument,
+  type SearchField,
+  type SearchSnippet,
+} from "../utils/textSearch";
+
+// Most notes read per search to check phrases and build snippets.
+const MAX_NOTES_READ = 300;
+
+/**
+ * Options of a full-text search.
+ */
+export interface NoteSearchOptions {
+  query: string;
+  folder?: string;
+  tags?: string[];
+  limit: number;
+  snippets: number;
+}
+
+/**
+ * A note found by a full-text search.
+ */
+export interface NoteSearchHit {
+  path: string;
+  score: number;
+  matchedIn: SearchField[];
+  snippets: SearchSnippet[];
+}
+
+/**
+ * Result of a full-text search. total is left out when phrases are checked note by note and so isn't known.
+ */
+export interface NoteSearchResult {
+  total?: number;
+  hits: NoteSearchHit[];
+}
+
+// Full-text index of the vault's markdown notes, built on the first search and kept up to date from vault events.
+export class VaultSearchIndex {
+  private app: App;
+  private index = new SearchIndex();
+  private building: Promise<void> | null = null;
+
+  // Notes changed since they were indexed. They are reindexed at the next search rather than on every keystroke,
+  // which also gives the metadata cache time to catch up.
+  private stale = new Set<string>();
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  // Listen for vault changes. Events before the first search are recorded and handled by the initial build.
+  registerEvents(plugin: Plugin) {
+    const { vault, metadataCache } = this.app;
+    plugin.registerEvent(vault.on("create", (file) => this.markStale(file)));
+    plugin.registerEvent(vault.on("modify", (file) => this.markStale(file)));
+    plugin.registerEvent(metadataCache.on("changed", (file) => this.markStale(file)));
+    plugin.registerEvent(vault.on("delete", (file) => this.removePath(file.path)));
+    plugin.registerEvent(
+      vault.on("rename", (file, oldPath) => {
+        this.removePath(oldPath);
+        this.markStale(file);
+      })
+    );
+  }
+
+  /**
+   * Search the vault. Returns an error message if the query is invalid.
+   */
+  async search(options: NoteSearchOptions): Promise<NoteSearchResult | string> {
+    const query = parseSearchQuery(options.query);
+    if (typeof query === "string") return query;
+
+    await this.ensureIndexed();
+
+    const folder = normalizeVaultPath(options.folder ?? "");
+    const tags = options.tags ?? [];
+    const matches = this.index.search(query, (path) => {
+      if (folder && !isPathInFolder(path, folder)) return false;
+      return tags.length === 0 || tags.every((tag) => hasTag(this.getTags(path), tag));
+    });
+
+    // Phrases are only approximated by the index, so each candidate is checked against its text.
+    const checkPhrases = queryHasPhrases(query);
+    const hits: NoteSearchHit[] = [];
+    let read = 0;
+    for (const match of matches) {
+      if (hits.length >= options.limit || read >= MAX_NOTES_READ) break;
+      const file = this.app.vault.getAbstractFileByPath(match.path);
+      if (!(file instanceof TFile)) continue;
+
+      read++;
+      const content = await this.app.vault.cachedRead(file);
+      if (checkPhrases) {
+        const document = this.toDocument(file, content);
+        if (!matchesQuery(query, SEARCH_FIELDS.map((field) => document[field]))) continue;
+      }
+      hits.push({
+        path: match.path,
+        score: Math.round(match.score * 100) / 100,
+        matchedIn: match.fields,
+        snippets: buildSnippets(content, query, options.snippets),
+      });
+    }
+
+    return checkPhrases ? { hits } : { total: matches.length, hits };
+  }
+
+  private markStale(file: TAbstractFile) {
+    if (file instanceof TFile) {
+      if (file.extension === "md") this.stale.add(file.path);
+      return;
+    }
+    // A renamed folder: reindex the notes now inside it.
+    for (const note of this.app.vault.getMarkdownFiles()) {
+      if (isPathInFolder(note.path, file.path)) this.stale.add(note.path);
+    }
+  }
+
+  // Forget a file, or every note in a folder.
+  private removePath(path: string) {
+    for (const indexed of this.index.paths()) {
+      if (isPathInFolder(indexed, path)) this.index.remove(indexed);
+    }
+    for (const pending of Array.from(this.stale)) {
+      if (isPathInFolder(pending, path)) this.stale.delete(pending);
+    }
+  }
+
+  // Build the index if it hasn't been built, then reindex notes changed since the last search.
+  private async ensureIndexed() {
+    if (!this.building) {
+      this.building = this.build().catch((e) => {
+        // Let the next search retry.
+        this.building = null;
+        throw e;
+      });
+    }
+    await this.building;
+
+    const paths = Array.from(this.stale);
+    this.stale.clear();
+    for (const path of paths) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile && file.extension === "md") await this.indexFile(file);
+      else this.index.remove(path);
+    }
+  }
+
+  private async build() {
+    const started = Date.now();
+    const files = this.app.vault.getMarkdownFiles();
+    for (const file of files) {
+      this.stale.delete(file.path);
+      await this.indexFile(file);
+    }
+    logger.info("VaultSearchIndex", "Built search index", { notes: files.length, ms: Date.now() - started });
+  }
+
+  private async indexFile(file: TFile) {
+    try {
+      this.index.set(this.toDocument(file, await this.app.vault.cachedRead(file)));
+    } catch (e) {
+      logger.warn("VaultSearchIndex", "Failed to index note", { path: file.path, error: String(e) });
+    }
+  }
+
+  // Split a note into the indexed fields. Frontmatter is left out of the body; aliases count as the title.
+  private toDocument(file: TFile, content: string): SearchDocument {
+    const cache = this.app.metadataCache.getFileCache(file);
+    const frontmatterEnd = cache?.frontmatterPosition?.end.offset;
+    return {
+      path: file.path,
+      title: [file.basename, ...collectAliases(cache?.frontmatter)].join("\n"),
+      headings: (cache?.headings ?? []).map((heading) => heading.heading).join("\n"),
+      tags: this.getTags(file.path).join("\n"),
+      body: frontmatterEnd !== undefined ? content.slice(frontmatterEnd) : content,
+    };
+  }
+
+  private getTags(path: string): string[] {
+    const cache = this.app.metadataCache.getCache(path);
+    return collectTags(cache?.frontmatter, (cache?.tags ?? []).map((tag) => tag.tag));
+  }
+}
@@ -1,21 +1,41 @@
 import { Plugin, WorkspaceLeaf, Notice, ItemView } from "obsidian";
 import { ClaudeCodeSettings, DEFAULT_SETTINGS, CHAT_VIEW_TYPE } from "./types";
 import { ChatView } from "./views/ChatView";
+import { PermissionAuditModal } from "./views/PermissionAuditModal";
+import { PermissionAuditLog } from "./agent/PermissionAuditLog";
+import { DeletionLog } from "./agent/DeletionLog";
+import { VaultSearchIndex } from "./agent/VaultSearchIndex";
+import { SemanticIndex } from "./agent/SemanticIndex";
+import { VaultHealthCheck, DEFAULT_VAULT_HEALTH_OPTIONS } from "./agent/VaultHealthCheck";
 import { ClaudeCodeSettingTab } from "./settings/SettingsTab";
 import { logger } from "./utils/Logger";
+import { pruneExpiredApprovals, stampApprovals } from "./utils/approvals";
 
 export default class ClaudeCodePlugin extends Plugin {
   settings: ClaudeCodeSettings = DEFAULT_SETTINGS;
+  auditLog!: PermissionAuditLog;
+  deletionLog!: DeletionLog;
+  searchIndex!: VaultSearchIndex;
+  semanticIndex!: SemanticIndex;
   private readonly MAX_CHAT_WINDOWS = 5;
 
   async onload() {
     await this.loadSettings();
+    this.auditLog = new PermissionAuditLog(this);
+    this.deletionLog = new DeletionLog(this);
+    this.searchIndex = new VaultSearchIndex(this.app);
+    this.searchIndex.registerEvents(this);
+    this.semanticIndex = new SemanticIndex(this);
+    this.semanticIndex.registerEvents();
 
     // Initialize logger with vault path.
     const vaultPath = this.getVaultPath();
     logger.setLogPath(vaultPath);
     logger.info("Plugin", "Claude Code plugin loading", { vaultPath });
 
+    await this.pruneExpiredApprovals();
+    await this.deletionLog.prune();
+
     // Register the chat view.
     this.registerView(CHAT_VIEW_TYPE, (leaf) => new ChatView(leaf, this));
 
@@ -60,6 +80,51 @@ export default class ClaudeCodePlugin extends Plugin {
       },
     });
 
+    // Add command to view the permission audit log for the current conversation.
+    this.addCommand({
+      id: "show-permission-audit-log",
+      name: "Show Permission Audit Log",
+      callback: () => {
+        this.showPermissionAuditLog();
+      },
+    });
+
+    // Add command to export the permission audit log as a note.
+    this.addCommand({
+      id: "export-permission-audit-log",
+      name: "Export Permission Audit Log to Note",
+      callback: () => {
+        this.exportPermissionAuditLog();
+      },
+    });
+
+    // Add command to write a vault health report note.
+    this.addCommand({
+      id: "create-vault-health-report",
+      name: "Create Vault Health Report",
+      callback: () => {
+        this.createVaultHealthReport();
+      },
+    });
+
+    // Add command to view and revoke session approvals of the current chat window.
+    this.addCommand({
+      id: "show-session-approvals",
+      name: "Show Session Approvals",
+      callback: () => {
+        this.showSessionApprovals();
+      },
+    });
+
+    // Add command to restore the files Claude deleted in the current conversation.
+    this.addCommand({
+      id: "restore-deleted-files",
+      name: "Restore Files Deleted in This Conversation",
+      callback: () => {
+        this.restoreDeletedFiles();
+      },
+    });
+
     // Register settings tab.
     this.addSettingTab(new ClaudeCodeSettingTab(this.app, this));
 
@@ -88,6 +153,34 @@ export default class ClaudeCodePlugin extends Plugin {
     await this.saveData(this.settings);
   }
 
+  // Remove "Always allow" approvals older than the configured expiry.
+  // Tools approved before grant times were recorded are stamped now so they expire too.
+  async pruneExpiredApprovals() {
+    const settings = this.settings;
+    const previousTimes = settings.alwaysAllowedToolsGrantedAt || {};
+    const toolTimes = stampApprovals(settings.alwaysAllowedTools, previousTimes);
+    const tools = pruneExpiredApprovals(settings.alwaysAllowedTools, toolTimes, settings.approvalExpiryDays);
+    const commands = pruneExpiredApprovals(
+      settings.allowedBashCommands,
+      settings.allowedBashCommandsGrantedAt,
+      settings.approvalExpiryDays
+    );
+
+    const expired = [...tools.expired, ...commands.expired];
+    const stamped = Object.keys(toolTimes).length !== Object.keys(previousTimes).length;
+    if (expired.length === 0 && !stamped) return;
+
+    settings.alwaysAllowedTools = tools.kept;
+    settings.alwaysAllowedToolsGrantedAt = tools.grantedAt;
+    settings.allowedBashCommands = commands.kept;
+    settings.allowedBashCommandsGrantedAt = commands.grantedAt;
+    await this.saveSettings();
+
+    if (expired.length > 0) {
+      logger.info("Plugin", "Removed expired permission approvals", { expired });
+    }
+  }
+
   // Get existing chat leaf if any.
   getExistingChatLeaf(): WorkspaceLeaf | null {
     const leaves = this.app.workspace.getLeavesOfType(CHAT_VIEW_TYPE);
@@ -190,6 +283,90 @@ export default class ClaudeCodePlugin extends Plugin {
     }
   }
 
+  // Get the conversation of the active chat view, or of the first chat view.
+  private getActiveConversation(): { id: string; title: string } | null {
+    const activeView = this.app.workspace.getActiveViewOfType(ChatView);
+    const view = activeView ?? this.getExistingChatLeaf()?.view;
+    if (!(view instanceof ChatView)) return null;
+
+    const conv = view.getCurrentConversation();
+    return conv ? { id: conv.id, title: conv.title } : null;
+  }
+
+  // Open the session approvals of the active chat view, or of the first chat view.
+  showSessionApprovals() {
+    const view = this.app.workspace.getActiveViewOfType(ChatView) ?? this.getExistingChatLeaf()?.view;
+    if (!(view instanceof ChatView)) {
+      new Notice("Open a chat window to view its session approvals");
+      return;
+    }
+    view.showSessionApprovals();
+  }
+
+  // Open the permission audit log viewer for the current conversation.
+  showPermissionAuditLog() {
+    const conv = this.getActiveConversation();
+    if (!conv) {
+      new Notice("Open a conversation to view its permission audit log");
+      return;
+    }
+    new PermissionAuditModal(this.app, this.auditLog, conv.id, conv.title, () =>
+      this.exportPermissionAuditLog()
+    ).open();
+  }
+
+  // Export the current conversation's permission audit log as a markdown note and open it.
+  async exportPermissionAuditLog() {
+    const conv = this.getActiveConversation();
+    if (!conv) {
+      new Notice("Open a conversation to export its permission audit log");
+      return;
+    }
+
+    try {
+      const path = await this.auditLog.exportToNote(conv.id, conv.title);
+      await this.app.workspace.openLinkText(path, "", true);
+      new Notice(`Exported permission audit log to ${path}`);
+    } catch (error) {
+      logger.error("Plugin", "Failed to export permission audit log", { error: String(error) });
+      new Notice("Failed to export permission audit log");
+    }
+  }
+
+  // Write a vault health report as a note and open it.
+  async createVaultHealthReport() {
+    new Notice("Checking vault health...");
+    try {
+      const path = await new VaultHealthCheck(this.app).exportToNote(DEFAULT_VAULT_HEALTH_OPTIONS);
+      await this.app.workspace.openLinkText(path, "", true);
+      new Notice(`Created vault health report ${path}`);
+    } catch (error) {
+      logger.error("Plugin", "Failed to create vault health report", { error: String(error) });
+      new Notice("Failed to create vault health report");
+    }
+  }
+
+  // Restore the files deleted by delete_file in the current conversation.
+  async restoreDeletedFiles() {
+    const conv = this.getActiveConversation();
+    if (!conv) {
+      new Notice("Open a conversation to restore its deleted files");
+      return;
+    }
+
+    const result = await this.deletionLog.restoreAll(conv.id);
+    if (result.restored.length === 0 && result.failed.length === 0) {
+      new Notice("No deleted files to restore in this conversation");
+      return;
+    }
+
+    const renamed = result.restored.filter((file) => file.from !== file.to);
+    const lines = [`Restored ${result.restored.length} ${result.restored.length === 1 ? "file" : "files"}`];
+    for (const file of renamed) lines.push(`${file.from} → ${file.to} (original path is taken)`);
+    for (const file of result.failed) lines.push(`Failed: ${file.path} (${file.error})`);
+    new Notice(lines.join("\n"), renamed.length > 0 || result.failed.length > 0 ? 10000 : undefined);
+  }
+
   // Check if authentication is configured (API key or env vars).
   isApiKeyConfigured(): boolean {
     return !!(
@@ -1,6 +1,22 @@
-import { App, PluginSettingTab, Setting, Modal, TextComponent, ButtonComponent } from "obsidian";
+import { App, PluginSettingTab, Setting, Modal, TextComponent, ButtonComponent, Notice } from "obsidian";
 import type ClaudeCodePlugin from "../main";
-import { McpServerConfig } from "../types";
+import { EmbeddingProviderType, McpRiskLevel, McpServerConfig, McpToolSettings, PermissionEffect, PermissionRule } from "../types";
+import { describeRule } from "../utils/permissionRules";
+import { normalizeVaultPath } from "../utils/pathUtils";
+import { describeApprovalAge, pruneExpiredApprovals } from "../utils/approvals";
+import { DEFAULT_MCP_APPROVAL, DEFAULT_MCP_RISK } from "../utils/mcpTools";
+
+// Options for MCP server and tool approval and risk selectors.
+const MCP_APPROVAL_OPTIONS: [string, string][] = [
+  ["allow", "Allow"],
+  ["ask", "Ask"],
+  ["deny", "Deny"],
+];
+const MCP_RISK_OPTIONS: [string, string][] = [
+  ["low", "Low risk"],
+  ["medium", "Medium risk"],
+  ["high", "High risk"],
+];
 
 export class ClaudeCodeSettingTab extends PluginSettingTab {
   plugin: ClaudeCodePlugin;
@@ -126,30 +142,120 @@ export class ClaudeCodeSettingTab extends PluginSettingTab {
         })
       );
 
-    // Always-allowed tools section.
-    if (this.plugin.settings.alwaysAllowedTools.length > 0) {
-      const alwaysAllowedEl = containerEl.createDiv({ cls: "claude-code-always-allowed" });
-      alwaysAllowedEl.createEl("h4", { text: "Always Allowed Tools" });
-      alwaysAllowedEl.createEl("p", {
-        text: "These tools have been permanently approved. Click to remove.",
-        cls: "setting-item-description",
+    new Setting(containerEl)
+      .setName("Allowed commands")
+      .setDesc(
+        "Command patterns that run without approval, one per line (e.g. git *). " +
+          "Each part of a compound command (&&, ;, |) must match a pattern."
+      )
+      .addTextArea((text) => {
+        text
+          .setPlaceholder("git *\npython .claude/skills/*")
+          .setValue(this.plugin.settings.allowedBashCommands.join("\n"))
+          .onChange(async (value) => {
+            const commands = value
+              .split("\n")
+              .map((line) => line.trim())
+              .filter((line) => line.length > 0);
+            this.plugin.settings.allowedBashCommands = commands;
+            // Forget grant times of removed patterns so re-adding one by hand doesn't expire it.
+            this.plugin.settings.allowedBashCommandsGrantedAt = pruneExpiredApprovals(
+              commands,
+              this.plugin.settings.allowedBashCommandsGrantedAt,
+              0
+            ).grantedAt;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 3;
       });
 
-      const toolsList = alwaysAllowedEl.createDiv({ cls: "claude-code-tools-list" });
-      for (const tool of this.plugin.settings.alwaysAllowedTools) {
-        const toolChip = toolsList.createDiv({ cls: "claude-code-tool-chip" });
-        toolChip.createSpan({ text: tool });
-        const removeBtn = toolChip.createEl("button", { text: "×", cls: "claude-code-tool-chip-remove" });
-        removeBtn.addEventListener("click", async () => {
-          this.plugin.settings.alwaysAllowedTools = this.plugin.settings.alwaysAllowedTools.filter(
-            (t) => t !== tool
+    // Always-allowed tools section.
+    const alwaysAllowedEl = containerEl.createDiv({ cls: "claude-code-always-allowed" });
+    alwaysAllowedEl.createEl("h4", { text: "Always Allowed Tools" });
+    alwaysAllowedEl.createEl("p", {
+      text: "Tools approved with \"Always allow\". Revoke a tool to be asked again.",
+      cls: "setting-item-description",
+    });
+
+    const alwaysAllowed = this.plugin.settings.alwaysAllowedTools;
+    if (alwaysAllowed.length === 0) {
+      alwaysAllowedEl.createDiv({ cls: "claude-code-approvals-empty", text: "No tools are always allowed." });
+    } else {
+      for (const tool of alwaysAllowed) {
+        new Setting(alwaysAllowedEl)
+          .setName(tool)
+          .setDesc(
+            describeApprovalAge(
+              this.plugin.settings.alwaysAllowedToolsGrantedAt?.[tool],
+              this.plugin.settings.approvalExpiryDays
+            )
+          )
+          .addButton((btn) =>
+            btn.setButtonText("Revoke").onClick(async () => {
+              await this.revokeAlwaysAllowed([tool]);
+            })
           );
-          await this.plugin.saveSettings();
-          this.display(); // Re-render settings.
-        });
       }
+
+      new Setting(alwaysAllowedEl).addButton((btn) =>
+        btn
+          .setButtonText("Revoke all")
+          .setWarning()
+          .onClick(async () => {
+            await this.revokeAlwaysAllowed([...alwaysAllowed]);
+          })
+      );
     }
 
+    new Setting(containerEl)
+      .setName("Expire approvals after (days)")
+      .setDesc(
+        "Remove \"Always allow\" approvals for tools and commands after this many days. 0 keeps them forever. " +
+          "Commands typed into the allowlist above never expire."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("0")
+          .setValue(String(this.plugin.settings.approvalExpiryDays))
+          .onChange(async (value) => {
+            const days = parseInt(value, 10);
+            this.plugin.settings.approvalExpiryDays = isNaN(days) || days < 0 ? 0 : days;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Write scopes.
+    new Setting(containerEl)
+      .setName("Protected folders")
+      .setDesc("Vault-relative folders that always require approval for writes, even if otherwise allowed. One per line.")
+      .addTextArea((text) => {
+        text
+          .setPlaceholder("Templates\nArchive")
+          .setValue(this.plugin.settings.protectedFolders.join("\n"))
+          .onChange(async (value) => {
+            this.plugin.settings.protectedFolders = this.parseFolderList(value);
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 3;
+      });
+
+    new Setting(containerEl)
+      .setName("Scratch folders")
+      .setDesc("Vault-relative folders where writes never require approval. One per line.")
+      .addTextArea((text) => {
+        text
+          .setPlaceholder("Scratch")
+          .setValue(this.plugin.settings.scratchFolders.join("\n"))
+          .onChange(async (value) => {
+            this.plugin.settings.scratchFolders = this.parseFolderList(value);
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 3;
+      });
+
+    // Permission rules section.
+    this.displayPermissionRules(containerEl);
+
     // Agent SDK Section.
     containerEl.createEl("h3", { text: "Agent Settings" });
 
@@ -185,6 +291,9 @@ export class ClaudeCodeSettingTab extends PluginSettingTab {
           })
       );
 
+    // Semantic search section.
+    this.displaySemanticSearch(containerEl);
+
     // MCP Servers Section.
     containerEl.createEl("h3", { text: "MCP Servers" });
 
@@ -239,6 +348,8 @@ export class ClaudeCodeSettingTab extends PluginSettingTab {
         const detailsEl = infoEl.createDiv({ cls: "claude-code-mcp-server-details" });
         detailsEl.createEl("code", { text: `${server.command} ${server.args.join(" ")}` });
 
+        this.displayMcpServerPermissions(infoEl, server);
+
         // Actions.
         const actionsEl = serverEl.createDiv({ cls: "claude-code-mcp-server-actions" });
 
@@ -314,6 +425,383 @@ Args: -y @anthropic-ai/mcp-server-sqlite /path/to/database.db`,
       text: "Features: Built-in tools (Read, Write, Bash, Grep), skill loading from .claude/skills/, Obsidian-specific tools (open files, run commands), and semantic vault search.",
     });
   }
+
+  // Render approval and risk selectors for an MCP server and each of its discovered tools.
+  private displayMcpServerPermissions(containerEl: HTMLElement, server: McpServerConfig) {
+    const permissionsEl = containerEl.createDiv({ cls: "claude-code-mcp-permissions" });
+
+    const serverRow = permissionsEl.createDiv({ cls: "claude-code-mcp-permission-row" });
+    serverRow.createSpan({ text: "All tools", cls: "claude-code-mcp-tool-name" });
+    this.createMcpSelect(serverRow, MCP_APPROVAL_OPTIONS, server.approval ?? DEFAULT_MCP_APPROVAL, async (value) => {
+      server.approval = value as PermissionEffect;
+      await this.plugin.saveSettings();
+    });
+    this.createMcpSelect(serverRow, MCP_RISK_OPTIONS, server.risk ?? DEFAULT_MCP_RISK, async (value) => {
+      server.risk = value as McpRiskLevel;
+      await this.plugin.saveSettings();
+    });
+
+    const tools = server.discoveredTools ?? [];
+    const details = permissionsEl.createEl("details");
+    details.createEl("summary", {
+      text: tools.length > 0 ? `Tools (${tools.length} discovered)` : "Tools",
+    });
+
+    if (tools.length === 0) {
+      details.createDiv({
+        cls: "setting-item-description",
+        text: "Tools are listed here after a chat starts with this server enabled.",
+      });
+      return;
+    }
+
+    // Per-tool overrides; "default" follows the server setting.
+    for (const tool of tools) {
+      const row = details.createDiv({ cls: "claude-code-mcp-permission-row" });
+      row.createEl("code", { text: tool, cls: "claude-code-mcp-tool-name" });
+      const overrides = server.tools?.[tool] ?? {};
+
+      this.createMcpSelect(
+        row,
+        [["", "Server default"], ...MCP_APPROVAL_OPTIONS],
+        overrides.approval ?? "",
+        async (value) => {
+          await this.updateMcpToolSettings(server, tool, {
+            approval: (value || undefined) as PermissionEffect | undefined,
+          });
+        }
+      );
+      this.createMcpSelect(row, [["", "Server default"], ...MCP_RISK_OPTIONS], overrides.risk ?? "", async (value) => {
+        await this.updateMcpToolSettings(server, tool, { risk: (value || undefined) as McpRiskLevel | undefined });
+      });
+    }
+  }
+
+  private createMcpSelect(
+    containerEl: HTMLElement,
+    options: [string, string][],
+    value: string,
+    onChange: (value: string) => Promise<void>
+  ) {
+    const select = containerEl.createEl("select", { cls: "dropdown" });
+    for (const [optionValue, label] of options) {
+      select.createEl("option", { value: optionValue, text: label });
+    }
+    select.value = value;
+    select.addEventListener("change", () => onChange(select.value));
+  }
+
+  // Update a tool's overrides, dropping empty entries.
+  private async updateMcpToolSettings(server: McpServerConfig, tool: string, update: McpToolSettings) {
+    const tools = { ...(server.tools ?? {}) };
+    const merged = { ...tools[tool], ...update };
+    if (!merged.approval) delete merged.approval;
+    if (!merged.risk) delete merged.risk;
+
+    if (Object.keys(merged).length > 0) {
+      tools[tool] = merged;
+    } else {
+      delete tools[tool];
+    }
+    server.tools = tools;
+    await this.plugin.saveSettings();
+  }
+
+  // Parse a one-folder-per-line textarea into normalized vault-relative folders.
+  private parseFolderList(value: string): string[] {
+    return value
+      .split("\n")
+      .map((line) => normalizeVaultPath(line))
+      .filter((folder) => folder.length > 0);
+  }
+
+  // Remove tools from the always-allowed list and re-render.
+  private async revokeAlwaysAllowed(tools: string[]) {
+    const settings = this.plugin.settings;
+    settings.alwaysAllowedTools = settings.alwaysAllowedTools.filter((t) => !tools.includes(t));
+    const grantedAt = { ...(settings.alwaysAllowedToolsGrantedAt ?? {}) };
+    for (const tool of tools) delete grantedAt[tool];
+    settings.alwaysAllowedToolsGrantedAt = grantedAt;
+    await this.plugin.saveSettings();
+    this.display();
+  }
+
+  // Render the embedding provider settings used by semantic_search and find_similar_notes.
+  private displaySemanticSearch(containerEl: HTMLElement): void {
+    containerEl.createEl("h3", { text: "Semantic Search" });
+
+    new Setting(containerEl)
+      .setName("Embedding provider")
+      .setDesc(
+        "Local embeddings work offline but only match shared words. An embeddings endpoint " +
+          "(OpenAI, Ollama, LM Studio) matches by meaning. Changing it rebuilds the index."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("local", "Local (offline)")
+          .addOption("http", "Embeddings endpoint")
+          .setValue(this.plugin.settings.embeddingProvider)
+          .onChange(async (value) => {
+            this.plugin.settings.embeddingProvider = value as EmbeddingProviderType;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.embeddingProvider === "http") {
+      new Setting(containerEl)
+        .setName("Endpoint")
+        .setDesc("URL of an OpenAI-compatible /embeddings endpoint")
+        .addText((text) =>
+          text
+            .setPlaceholder("http://localhost:11434/v1/embeddings")
+            .setValue(this.plugin.settings.embeddingEndpoint)
+            .onChange(async (value) => {
+              this.plugin.settings.embeddingEndpoint = value;
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Model")
+        .setDesc("Embedding model, e.g. nomic-embed-text or text-embedding-3-small")
+        .addText((text) =>
+          text
+            .setPlaceholder("nomic-embed-text")
+            .setValue(this.plugin.settings.embeddingModel)
+            .onChange(async (value) => {
+              this.plugin.settings.embeddingModel = value;
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("API key")
+        .setDesc("Sent as a bearer token; leave empty for local servers")
+        .addText((text) =>
+          text.setValue(this.plugin.settings.embeddingApiKey).onChange(async (value) => {
+            this.plugin.settings.embeddingApiKey = value;
+            await this.plugin.saveSettings();
+          })
+        )
+        .then((setting) => {
+          const inputEl = setting.controlEl.querySelector("input");
+          if (inputEl) {
+            inputEl.type = "password";
+          }
+        });
+    }
+
+    new Setting(containerEl)
+      .setName("Rebuild index")
+      .setDesc("Re-embed every note. Changed notes are re-embedded automatically.")
+      .addButton((button) =>
+        button.setButtonText("Rebuild").onClick(async () => {
+          button.setDisabled(true);
+          try {
+            const stats = await this.plugin.semanticIndex.update(true);
+            new Notice(`Semantic index rebuilt: ${stats.notes} notes, ${stats.chunks} sections`);
+          } catch (e) {
+            new Notice(`Semantic index rebuild failed: ${e instanceof Error ? e.message : String(e)}`);
+          } finally {
+            button.setDisabled(false);
+          }
+        })
+      );
+  }
+
+  // Render the ordered permission rules list.
+  private displayPermissionRules(containerEl: HTMLElement) {
+    const rulesEl = containerEl.createDiv({ cls: "claude-code-permission-rules" });
+    rulesEl.createEl("h4", { text: "Permission Rules" });
+    rulesEl.createEl("p", {
+      text: "Rules are checked top to bottom before the settings above. The first matching rule decides whether a tool call is allowed, asks for approval, or is denied.",
+      cls: "setting-item-description",
+    });
+
+    new Setting(rulesEl)
+      .setName("Add rule")
+      .setDesc("Match by tool name glob, optionally narrowed by a vault path glob or a Bash command prefix")
+      .addButton((button) =>
+        button
+          .setButtonText("+ Add Rule")
+          .setCta()
+          .onClick(() => {
+            const modal = new PermissionRuleModal(this.app, null, async (rule) => {
+              if (!this.plugin.settings.permissionRules) {
+                this.plugin.settings.permissionRules = [];
+              }
+              this.plugin.settings.permissionRules.push(rule);
+              await this.plugin.saveSettings();
+              this.display();
+            });
+            modal.open();
+          })
+      );
+
+    const rules = this.plugin.settings.permissionRules || [];
+    rules.forEach((rule, index) => {
+      const ruleEl = rulesEl.createDiv({ cls: "claude-code-permission-rule-item" });
+
+      // Enable/disable toggle.
+      const toggleEl = ruleEl.createEl("input", { type: "checkbox" });
+      toggleEl.checked = rule.enabled;
+      toggleEl.addEventListener("change", async () => {
+        rule.enabled = toggleEl.checked;
+        await this.plugin.saveSettings();
+      });
+
+      ruleEl.createSpan({
+        text: rule.effect.toUpperCase(),
+        cls: `claude-code-permission-rule-effect effect-${rule.effect}`,
+      });
+      ruleEl.createEl("code", { text: describeRule(rule), cls: "claude-code-permission-rule-summary" });
+
+      const actionsEl = ruleEl.createDiv({ cls: "claude-code-permission-rule-actions" });
+
+      const upBtn = actionsEl.createEl("button", { text: "↑", attr: { "aria-label": "Move up" } });
+      upBtn.disabled = index === 0;
+      upBtn.addEventListener("click", () => this.moveRule(index, -1));
+
+      const downBtn = actionsEl.createEl("button", { text: "↓", attr: { "aria-label": "Move down" } });
+      downBtn.disabled = index === rules.length - 1;
+      downBtn.addEventListener("click", () => this.moveRule(index, 1));
+
+      const editBtn = actionsEl.createEl("button", { text: "Edit" });
+      editBtn.addEventListener("click", () => {
+        const modal = new PermissionRuleModal(this.app, rule, async (updated) => {
+          Object.assign(rule, updated);
+          await this.plugin.saveSettings();
+          this.display();
+        });
+        modal.open();
+      });
+
+      const deleteBtn = actionsEl.createEl("button", { text: "Delete", cls: "mod-warning" });
+      deleteBtn.addEventListener("click", async () => {
+        this.plugin.settings.permissionRules = rules.filter((r) => r.id !== rule.id);
+        await this.plugin.saveSettings();
+        this.display();
+      });
+    });
+  }
+
+  // Swap a rule with its neighbour to change evaluation order.
+  private async moveRule(index: number, direction: -1 | 1) {
+    const rules = this.plugin.settings.permissionRules;
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    await this.plugin.saveSettings();
+    this.display();
+  }
+}
+
+// Modal for adding/editing a permission rule.
+class PermissionRuleModal extends Modal {
+  private rule: PermissionRule | null;
+  private onSave: (rule: PermissionRule) => void;
+
+  // Form fields.
+  private toolInput!: TextComponent;
+  private pathInput!: TextComponent;
+  private commandInput!: TextComponent;
+  private effect: PermissionEffect;
+
+  constructor(app: App, rule: PermissionRule | null, onSave: (rule: PermissionRule) => void) {
+    super(app);
+    this.rule = rule;
+    this.onSave = onSave;
+    this.effect = rule?.effect ?? "ask";
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl("h2", { text: this.rule ? "Edit Permission Rule" : "Add Permission Rule" });
+
+    new Setting(contentEl)
+      .setName("Tool")
+      .setDesc("Tool name glob (e.g., Edit, Bash, mcp__obsidian__*, *)")
+      .addText((text) => {
+        this.toolInput = text;
+        text.setPlaceholder("Edit").setValue(this.rule?.tool || "");
+      });
+
+    new Setting(contentEl)
+      .setName("Path")
+      .setDesc("Optional vault-relative path glob (e.g., Projects/**, Journal/*.md)")
+      .addText((text) => {
+        this.pathInput = text;
+        text.setPlaceholder("Projects/**").setValue(this.rule?.path || "");
+      });
+
+    new Setting(contentEl)
+      .setName("Command prefix")
+      .setDesc("Optional Bash command prefix (e.g., rm -rf, git push)")
+      .addText((text) => {
+        this.commandInput = text;
+        text.setPlaceholder("rm -rf").setValue(this.rule?.commandPrefix || "");
+      });
+
+    new Setting(contentEl)
+      .setName("Effect")
+      .setDesc("What to do when the rule matches")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("allow", "Allow")
+          .addOption("ask", "Ask")
+          .addOption("deny", "Deny")
+          .setValue(this.effect)
+          .onChange((value) => {
+            this.effect = value as PermissionEffect;
+          })
+      );
+
+    // Buttons.
+    const buttonEl = contentEl.createDiv({ cls: "claude-code-modal-buttons" });
+    buttonEl.style.display = "flex";
+    buttonEl.style.justifyContent = "flex-end";
+    buttonEl.style.gap = "8px";
+    buttonEl.style.marginTop = "16px";
+
+    const cancelBtn = buttonEl.createEl("button", { text: "Cancel" });
+    cancelBtn.addEventListener("click", () => this.close());
+
+    const saveBtn = buttonEl.createEl("button", { text: "Save", cls: "mod-cta" });
+    saveBtn.addEventListener("click", () => this.save());
+  }
+
+  private save() {
+    const tool = this.toolInput.getValue().trim();
+    const path = this.pathInput.getValue().trim();
+    const commandPrefix = this.commandInput.getValue().trim();
+
+    // Validation.
+    if (!tool) {
+      new (require("obsidian").Notice)("Tool pattern is required");
+      return;
+    }
+
+    const rule: PermissionRule = {
+      id: this.rule?.id || `rule-${Date.now()}`,
+      tool,
+      path: path || undefined,
+      commandPrefix: commandPrefix || undefined,
+      effect: this.effect,
+      enabled: this.rule?.enabled ?? true,
+    };
+
+    this.onSave(rule);
+    this.close();
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
 }
 
 // Modal for adding/editing MCP server configuration.
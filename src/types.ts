@@ -1,4 +1,6 @@
 import { ItemView } from "obsidian";
+import type { PermissionAuditEntry } from "./utils/auditLog";
+import type { DeletedFile } from "./utils/deletions";
 
 // View type constant for registration.
 export const CHAT_VIEW_TYPE = "claude-code-chat-view";
@@ -16,6 +18,20 @@ export interface ClaudeCodeSettings {
 
   // Persistent permission approvals (tools that are always allowed).
   alwaysAllowedTools: string[];
+  // Bash command patterns that run without approval (e.g. "git *").
+  allowedBashCommands: string[];
+  // When each "Always allow" approval was granted (ms since epoch), keyed by tool name or command pattern.
+  alwaysAllowedToolsGrantedAt: Record<string, number>;
+  allowedBashCommandsGrantedAt: Record<string, number>;
+  // Days before "Always allow" approvals expire (0 = never).
+  approvalExpiryDays: number;
+
+  // Ordered permission rules (first match wins, checked before the defaults above).
+  permissionRules: PermissionRule[];
+
+  // Write scopes (vault-relative folders). Protected folders always prompt; scratch folders never prompt.
+  protectedFolders: string[];
+  scratchFolders: string[];
 
   // UI Preferences.
   sidebarWidth: number;
@@ -28,8 +44,17 @@ export interface ClaudeCodeSettings {
 
   // MCP Server configurations.
   mcpServers: McpServerConfig[];
+
+  // Semantic search embeddings: "local" hashes words offline; "http" calls an OpenAI-compatible embeddings API.
+  embeddingProvider: EmbeddingProviderType;
+  embeddingEndpoint: string;
+  embeddingModel: string;
+  embeddingApiKey: string;
 }
 
+// Where semantic search embeddings come from.
+export type EmbeddingProviderType = "local" | "http";
+
 // Default settings values.
 export const DEFAULT_SETTINGS: ClaudeCodeSettings = {
   apiKey: "",
@@ -38,10 +63,21 @@ export const DEFAULT_SETTINGS: ClaudeCodeSettings = {
   autoApproveVaultWrites: true,  // Default to auto-approve for better UX.
   requireBashApproval: true,
   alwaysAllowedTools: [],
+  allowedBashCommands: [],
+  alwaysAllowedToolsGrantedAt: {},
+  allowedBashCommandsGrantedAt: {},
+  approvalExpiryDays: 0,
+  permissionRules: [],
+  protectedFolders: [],
+  scratchFolders: [],
   sidebarWidth: 400,
   maxBudgetPerSession: 10.0,
   maxTurns: 50,
   mcpServers: [],
+  embeddingProvider: "local",
+  embeddingEndpoint: "http://localhost:11434/v1/embeddings",
+  embeddingModel: "nomic-embed-text",
+  embeddingApiKey: "",
 };
 
 // Error classification for retry and display logic.
@@ -106,6 +142,8 @@ export interface Conversation {
     totalTokens: number;
     totalCostUsd: number;
   };
+  // Permission mode selected for this conversation (defaults to "default").
+  permissionMode?: PermissionMode;
 }
 
 // Context that can be attached to a message.
@@ -129,6 +167,12 @@ export interface AgentEvents {
   onSubagentStart?: (toolCallId: string, subagentType: string, subagentId: string) => void;
   onSubagentStop?: (toolCallId: string, success: boolean, error?: string) => void;
   onSubagentProgress?: (toolCallId: string, message: string) => void;
+
+  // Permission decisions, for the audit log (the view adds the conversation ID).
+  onPermissionDecision?: (entry: Omit<PermissionAuditEntry, "conversationId">) => void;
+
+  // Files deleted by delete_file, for the deletion log (the view adds the conversation ID).
+  onFileDeleted?: (file: Omit<DeletedFile, "conversationId">) => void;
 }
 
 // Permission request for tool approval.
@@ -137,6 +181,37 @@ export interface PermissionRequest {
   toolInput: Record<string, unknown>;
   description: string;
   risk: "low" | "medium" | "high";
+  // Why the request needs approval (matching rule or write scope), if not a default.
+  reason?: string;
+  // Suggested command patterns to remember for Bash approvals.
+  commandPatterns?: string[];
+  // Current content of the file a write tool targets (null if it doesn't exist), for the diff preview.
+  fileContent?: string | null;
+  // Set when the target file exists but couldn't be read, so the preview warns instead of diffing.
+  fileUnreadable?: boolean;
+}
+
+// Per-conversation permission mode.
+// "plan" and "readOnly" deny every tool that could change the vault; "acceptEdits" auto-approves file edits.
+export type PermissionMode = "default" | "acceptEdits" | "plan" | "readOnly";
+
+// What a permission rule does when it matches a tool call.
+export type PermissionEffect = "allow" | "ask" | "deny";
+
+// User-defined permission rule.
+export interface PermissionRule {
+  // Unique identifier for this rule.
+  id: string;
+  // Tool name glob (e.g., "Edit", "mcp__obsidian__*", "*").
+  tool: string;
+  // Optional vault-relative path glob matched against the tool's file path (e.g., "Projects/**").
+  path?: string;
+  // Optional prefix matched against Bash commands (e.g., "rm -rf").
+  commandPrefix?: string;
+  // Decision to apply when the rule matches.
+  effect: PermissionEffect;
+  // Whether this rule is active.
+  enabled: boolean;
 }
 
 // Slash command definition.
@@ -161,6 +236,23 @@ export interface McpServerConfig {
   env?: Record<string, string>;
   // Whether this server is enabled.
   enabled: boolean;
+  // Approval for this server's tools when no rule matches (defaults to "ask").
+  approval?: PermissionEffect;
+  // Risk shown in the permission modal for this server's tools (defaults to "medium").
+  risk?: McpRiskLevel;
+  // Per-tool overrides, keyed by tool name without the mcp__<server>__ prefix.
+  tools?: Record<string, McpToolSettings>;
+  // Tool names (without prefix) reported by the SDK the last time the server started.
+  discoveredTools?: string[];
+}
+
+// Risk level of an MCP tool, shown in the permission modal.
+export type McpRiskLevel = "low" | "medium" | "high";
+
+// Per-tool approval and risk overrides for an MCP server.
+export interface McpToolSettings {
+  approval?: PermissionEffect;
+  risk?: McpRiskLevel;
 }
 
 // File suggestion for autocomplete.
@@ -0,0 +1,116 @@
+// Pure utility functions for persistent permission approvals.
+// Approvals made with "Always allow" record when they were granted so they can expire.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Result of removing expired approvals from a list.
+ */
+export interface PrunedApprovals {
+  kept: string[];
+  expired: string[];
+  grantedAt: Record<string, number>;
+}
+
+/**
+ * Timestamp at which an approval expires, or null if it never does.
+ * Approvals without a grant time (added by hand) and an expiry of 0 days never expire.
+ */
+export function getApprovalExpiry(grantedAt: number | undefined, expiryDays: number): number | null {
+  if (grantedAt === undefined || !(expiryDays > 0)) return null;
+  return grantedAt + expiryDays * DAY_MS;
+}
+
+/**
+ * Check if an approval has expired.
+ */
+export function isApprovalExpired(grantedAt: number | undefined, expiryDays: number, now = Date.now()): boolean {
+  const expiresAt = getApprovalExpiry(grantedAt, expiryDays);
+  return expiresAt !== null && now >= expiresAt;
+}
+
+/**
+ * Filter a list of approvals down to the ones that are still active.
+ */
+export function getActiveApprovals(
+  values: string[],
+  grantedAt: Record<string, number> | undefined,
+  expiryDays: number,
+  now = Date.now()
+): string[] {
+  return values.filter((value) => !isApprovalExpired(grantedAt?.[value], expiryDays, now));
+}
+
+/**
+ * Split approvals into kept and expired, dropping grant times for removed entries.
+ */
+export function pruneExpiredApprovals(
+  values: string[],
+  grantedAt: Record<string, number> | undefined,
+  expiryDays: number,
+  now = Date.now()
+): PrunedApprovals {
+  const kept: string[] = [];
+  const expired: string[] = [];
+  const nextGrantedAt: Record<string, number> = {};
+
+  for (const value of values) {
+    const time = grantedAt?.[value];
+    if (isApprovalExpired(time, expiryDays, now)) {
+      expired.push(value);
+      continue;
+    }
+    kept.push(value);
+    if (time !== undefined) nextGrantedAt[value] = time;
+  }
+
+  return { kept, expired, grantedAt: nextGrantedAt };
+}
+
+/**
+ * Record grant times for approvals that don't have one yet.
+ * Returns a new map; existing grant times are kept.
+ */
+export function stampApprovals(
+  values: string[],
+  grantedAt: Record<string, number> | undefined,
+  now = Date.now()
+): Record<string, number> {
+  const next = { ...(grantedAt ?? {}) };
+  for (const value of values) {
+    if (next[value] === undefined) next[value] = now;
+  }
+  return next;
+}
+
+// Format a duration in whole days, hours or minutes.
+function formatDuration(ms: number): string {
+  const minutes = Math.max(1, Math.round(ms / 60000));
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? "" : "s"}`;
+  const days = Math.round(hours / 24);
+  return `${days} day${days === 1 ? "" : "s"}`;
+}
+
+/**
+ * Describe when an approval was granted and when it expires.
+ * Examples: "Approved 3 days ago, expires in 27 days", "Never expires".
+ */
+export function describeApprovalAge(grantedAt: number | undefined, expiryDays: number, now = Date.now()): string {
+  const parts: string[] = [];
+  if (grantedAt !== undefined) {
+    parts.push(now - grantedAt < 60000 ? "Approved just now" : `Approved ${formatDuration(now - grantedAt)} ago`);
+  }
+
+  const expiresAt = getApprovalExpiry(grantedAt, expiryDays);
+  if (expiresAt === null) {
+    parts.push(parts.length > 0 ? "never expires" : "Never expires");
+  } else if (expiresAt <= now) {
+    parts.push("expired");
+  } else {
+    parts.push(`expires in ${formatDuration(expiresAt - now)}`);
+  }
+
+  return parts.join(", ");
+}
@@ -0,0 +1,106 @@
+// Pure utility functions for reading attachments: image types and sizes, PDF page ranges and text.
+// Decoding images and PDFs needs the browser and Obsidian's pdf.js, so that lives in the agent layer.
+
+/**
+ * Image types Claude can view, by file extension.
+ */
+export const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+};
+
+/**
+ * A text item of a PDF page, as returned by pdf.js getTextContent().
+ */
+export interface PdfTextItem {
+  str?: string;
+  // Set on the last item of a line.
+  hasEOL?: boolean;
+}
+
+/**
+ * Text of one PDF page. Pages are numbered from 1.
+ */
+export interface PdfPageText {
+  page: number;
+  text: string;
+}
+
+/**
+ * Get the MIME type of an image Claude can view, or null for other files.
+ */
+export function getImageMimeType(extension: string): string | null {
+  return IMAGE_MIME_TYPES[extension.toLowerCase()] ?? null;
+}
+
+/**
+ * Scale image dimensions down so the longest side is at most maxEdge, keeping the aspect ratio.
+ * Images that already fit are returned unchanged.
+ */
+export function fitImageSize(width: number, height: number, maxEdge: number): { width: number; height: number } {
+  const longest = Math.max(width, height);
+  if (longest <= maxEdge) return { width, height };
+  const scale = maxEdge / longest;
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/**
+ * Parse a page selection such as "1-3, 5, 8-" into sorted page numbers.
+ * Returns an error message if a part isn't a page or range within the document.
+ */
+export function parsePageRanges(spec: string, pageCount: number): number[] | string {
+  const pages = new Set<number>();
+  for (const part of spec.split(",").map((item) => item.trim())) {
+    if (!part) continue;
+    const match = part.match(/^(\d+)?\s*(-)?\s*(\d+)?$/);
+    if (!match || (!match[1] && !match[3])) return `Invalid page range: ${part}`;
+
+    const start = match[1] ? parseInt(match[1], 10) : 1;
+    const end = match[2] ? (match[3] ? parseInt(match[3], 10) : pageCount) : start;
+    if (start < 1 || end < start) return `Invalid page range: ${part}`;
+    if (start > pageCount) return `Page ${start} is past the end of the document (${pageCount} pages)`;
+    for (let page = start; page <= Math.min(end, pageCount); page++) pages.add(page);
+  }
+  if (pages.size === 0) return "No pages selected";
+  return Array.from(pages).sort((a, b) => a - b);
+}
+
+/**
+ * Join the text items of a PDF page into lines, dropping trailing spaces and runs of blank lines.
+ */
+export function joinPdfTextItems(items: PdfTextItem[]): string {
+  const text = items.map((item) => (item.str ?? "") + (item.hasEOL ? "\n" : "")).join("");
+  return text
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Format extracted PDF pages as one document with a header per page. Text past maxChars is cut,
+ * with a note of the page to continue from.
+ */
+export function formatPdfText(path: string, pageCount: number, pages: PdfPageText[], maxChars: number): string {
+  const parts: string[] = [];
+  let length = 0;
+  for (const { page, text } of pages) {
+    const part = `--- Page ${page} ---\n${text || "(no text)"}`;
+    if (length + part.length > maxChars) {
+      parts.push(
+        part.slice(0, Math.max(0, maxChars - length)).trimEnd(),
+        `[Truncated at ${maxChars} characters. Continue with pages: "${page}-"]`
+      );
+      break;
+    }
+    parts.push(part);
+    length += part.length;
+  }
+
+  const header = `${path} (${pageCount} ${pageCount === 1 ? "page" : "pages"})`;
+  return [header, "", parts.filter((part) => part).join("\n\n")].join("\n");
+}
@@ -0,0 +1,169 @@
+// Pure utility functions for the permission audit log.
+// PermissionAuditLog persists entries; these helpers summarize, parse, filter and export them.
+
+import type { PermissionDecisionSource } from "./permissionRules";
+import { getToolInputPath, getToolInputCommand } from "./permissionRules";
+
+/**
+ * Where an audited decision came from: the policy, or the user in the permission modal.
+ */
+export type PermissionAuditSource = PermissionDecisionSource | "modal";
+
+/**
+ * A single allow/deny decision recorded in the audit log.
+ */
+export interface PermissionAuditEntry {
+  timestamp: number;
+  conversationId: string;
+  toolName: string;
+  // Short summary of the tool input (path, command, or truncated JSON).
+  input: string;
+  decision: "allow" | "deny";
+  source: PermissionAuditSource;
+  // Matching rule or scope, the modal choice, or the user's feedback.
+  detail?: string;
+  // True if the user edited the input before approving.
+  edited?: boolean;
+}
+
+/**
+ * Filter options for the audit log viewer.
+ */
+export interface AuditLogFilter {
+  decision?: "allow" | "deny";
+  source?: PermissionAuditSource;
+  // Case-insensitive match on tool name, input or detail.
+  text?: string;
+}
+
+const MAX_SUMMARY_LENGTH = 200;
+
+function truncate(text: string, max = MAX_SUMMARY_LENGTH): string {
+  return text.length > max ? text.slice(0, max - 3) + "..." : text;
+}
+
+/**
+ * Summarize a tool input for the audit log.
+ * Prefers the file path or command; otherwise uses truncated JSON.
+ */
+export function summarizeToolInput(input: Record<string, unknown>): string {
+  const command = getToolInputCommand(input);
+  if (command) return truncate(command.replace(/\s+/g, " "));
+
+  const path = getToolInputPath(input);
+  if (path) return truncate(path);
+
+  const json = JSON.stringify(input ?? {});
+  return truncate(json === "{}" ? "" : json);
+}
+
+/**
+ * Parse a JSON Lines audit log. Malformed lines are skipped.
+ */
+export function parseAuditLog(content: string): PermissionAuditEntry[] {
+  const entries: PermissionAuditEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line);
+      if (entry && typeof entry.toolName === "string" && typeof entry.timestamp === "number") {
+        entries.push(entry as PermissionAuditEntry);
+      }
+    } catch (e) {
+      // Skip partially written lines.
+    }
+  }
+  return entries;
+}
+
+/**
+ * Serialize an entry as a single JSON Lines record.
+ */
+export function serializeAuditEntry(entry: PermissionAuditEntry): string {
+  return JSON.stringify(entry) + "\n";
+}
+
+/**
+ * Filter audit entries by decision, source and free text.
+ */
+export function filterAuditEntries(entries: PermissionAuditEntry[], filter: AuditLogFilter): PermissionAuditEntry[] {
+  const text = filter.text?.trim().toLowerCase();
+  return entries.filter((entry) => {
+    if (filter.decision && entry.decision !== filter.decision) return false;
+    if (filter.source && entry.source !== filter.source) return false;
+    if (text) {
+      const haystack = `${entry.toolName} ${entry.input} ${entry.detail ?? ""}`.toLowerCase();
+      if (!haystack.includes(text)) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Human-readable label for an audit source.
+ */
+export function formatAuditSource(source: PermissionAuditSource): string {
+  switch (source) {
+    case "rule":
+      return "Permission rule";
+    case "scope":
+      return "Folder scope";
+    case "vault-boundary":
+      return "Vault boundary";
+    case "read-only":
+      return "Read-only tool";
+    case "obsidian-ui":
+      return "Obsidian UI tool";
+    case "always-allowed":
+      return "Always allowed";
+    case "command-allowlist":
+      return "Command allowlist";
+    case "session":
+      return "Session approval";
+    case "setting":
+      return "Setting";
+    case "mode":
+      return "Permission mode";
+    case "mcp-server":
+      return "MCP server setting";
+    case "modal":
+      return "User (prompt)";
+    default:
+      return "Default";
+  }
+}
+
+// Escape characters that would break a markdown table cell.
+function escapeCell(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+/**
+ * Format audit entries as a markdown note with a table of decisions.
+ */
+export function formatAuditLogMarkdown(entries: PermissionAuditEntry[], title: string): string {
+  const allowed = entries.filter((e) => e.decision === "allow").length;
+  const lines = [
+    `# Permission audit: ${title}`,
+    "",
+    `${entries.length} decisions (${allowed} allowed, ${entries.length - allowed} denied).`,
+    "",
+    "| Time | Tool | Input | Decision | Source | Detail |",
+    "|------|------|-------|----------|--------|--------|",
+  ];
+
+  for (const entry of entries) {
+    const detail = [entry.detail, entry.edited ? "input edited" : undefined].filter(Boolean).join("; ");
+    const cells = [
+      new Date(entry.timestamp).toISOString(),
+      entry.toolName,
+      entry.input ? "`" + entry.input.replace(/`/g, "'") + "`" : "",
+      entry.decision,
+      formatAuditSource(entry.source),
+      detail,
+    ];
+    lines.push(`| ${cells.map(escapeCell).join(" | ")} |`);
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,305 @@
+// Pure utility functions for parsing and matching Bash commands.
+// Used by the permission policy to allowlist commands by pattern.
+
+/**
+ * Split a compound shell command into its segments.
+ * Splits on `&&`, `||`, `;`, `|`, `&` and newlines outside of quotes.
+ * The `&` and `|` of redirections (`2>&1`, `<&3`, `&> log`, `>| file`) stay in their segment.
+ * Empty segments are dropped.
+ */
+export function splitCompoundCommand(command: string): string[] {
+  const segments: string[] = [];
+  let current = "";
+  let quote: "'" | '"' | null = null;
+
+  const flush = () => {
+    const trimmed = current.trim();
+    if (trimmed) segments.push(trimmed);
+    current = "";
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (quote) {
+      current += char;
+      if (char === "\\" && quote === '"' && i + 1 < command.length) {
+        current += command[++i];
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if (char === "\\" && i + 1 < command.length) {
+      current += char + command[++i];
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      current += char;
+    } else if (
+      (char === "&" && (/[<>]$/.test(current) || command[i + 1] === ">")) ||
+      (char === "|" && current.endsWith(">"))
+    ) {
+      current += char;
+    } else if (char === ";" || char === "\n" || char === "|" || char === "&") {
+      // "&&", "||" and "|&" are consumed as a single separator.
+      const next = command[i + 1];
+      if ((char === "&" || char === "|") && (next === "&" || next === "|")) i++;
+      flush();
+    } else {
+      current += char;
+    }
+  }
+
+  flush();
+  return segments;
+}
+
+/**
+ * Split a single command segment into arguments.
+ * Quotes are removed and backslash escapes are resolved.
+ */
+export function tokenizeCommand(segment: string): string[] {
+  const tokens: string[] = [];
+  let current = "";
+  let inToken = false;
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === "\\" && quote === '"' && i + 1 < segment.length) {
+        current += segment[++i];
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      if (inToken) tokens.push(current);
+      current = "";
+      inToken = false;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      inToken = true;
+    } else if (char === "\\" && i + 1 < segment.length) {
+      current += segment[++i];
+      inToken = true;
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+
+  if (inToken) tokens.push(current);
+  return tokens;
+}
+
+// Programs that run the rest of their arguments as a command, with their options that take a value.
+const COMMAND_WRAPPERS: Record<string, string[]> = {
+  sudo: ["-u", "-g", "-h", "-p", "-C", "-D", "-r", "-t", "-T", "-U"],
+  env: ["-u", "-C", "-S"],
+  command: [],
+  exec: ["-a"],
+  nohup: [],
+  nice: ["-n"],
+  time: ["-f", "-o"],
+};
+
+// Get the name of a program from its path, e.g. `rm` for `/bin/rm`.
+function programName(program: string): string {
+  return program.slice(program.lastIndexOf("/") + 1);
+}
+
+/**
+ * Get the arguments of the command a segment actually runs: leading `VAR=value` assignments and
+ * wrappers such as `sudo` and `env` (with their options) are skipped, and the program is reduced
+ * to its name. `sudo env X=1 /bin/rm -rf tmp` gives `["rm", "-rf", "tmp"]`.
+ */
+export function unwrapCommand(args: string[]): string[] {
+  let i = 0;
+  while (i < args.length) {
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(args[i])) {
+      i++;
+      continue;
+    }
+    const valueOptions = COMMAND_WRAPPERS[programName(args[i])];
+    if (!valueOptions) break;
+    i++;
+    while (i < args.length && args[i].startsWith("-")) {
+      const option = args[i++];
+      if (option === "--") break;
+      if (valueOptions.includes(option)) i++;
+    }
+  }
+
+  const [program, ...rest] = args.slice(i);
+  return program === undefined ? [] : [programName(program), ...rest];
+}
+
+/**
+ * Check if a command segment starts with a prefix such as `rm -rf`. Arguments are compared one by one,
+ * so spacing and quoting don't matter; the last prefix argument may be cut short (`rm -r` matches `rm -rf`).
+ * With unwrap, the command run through wrappers is checked too (see unwrapCommand()), so `sudo /bin/rm -rf`
+ * starts with `rm -rf`. Deny rules use this so they can't be sidestepped.
+ */
+export function commandStartsWith(segment: string, prefix: string, unwrap = false): boolean {
+  const prefixArgs = tokenizeCommand(prefix);
+  if (prefixArgs.length === 0) return false;
+  const args = tokenizeCommand(segment);
+  const candidates = unwrap ? [args, unwrapCommand(args)] : [args];
+  const last = prefixArgs.length - 1;
+  return candidates.some(
+    (candidate) =>
+      candidate.length >= prefixArgs.length &&
+      prefixArgs.every((arg, i) => (i === last ? candidate[i].startsWith(arg) : candidate[i] === arg))
+  );
+}
+
+/**
+ * Check if a command runs a nested command through `$(...)`, backticks or `<(...)`.
+ * Such commands can't be judged by their leading arguments, so they never match an allowlist.
+ */
+export function hasCommandSubstitution(command: string): boolean {
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (char === "\\" && quote !== "'") {
+      i++;
+      continue;
+    }
+    if (quote === "'") {
+      if (char === "'") quote = null;
+      continue;
+    }
+    if (char === "`") return true;
+    if (char === "$" && command[i + 1] === "(") return true;
+    if (!quote && (char === "<" || char === ">") && command[i + 1] === "(") return true;
+    if (char === '"') {
+      quote = quote ? null : '"';
+    } else if (char === "'" && !quote) {
+      quote = "'";
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Check if a command redirects output to a file (`>`, `>>`, `&>`, `>|`, `>&file`) outside of quotes.
+ * Redirections to `/dev/null` and between descriptors (`2>&1`) write nothing, so they don't count.
+ */
+export function hasFileRedirection(command: string): boolean {
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (char === "\\" && quote !== "'") {
+      i++;
+      continue;
+    }
+    if (quote) {
+      if (char === quote) quote = null;
+      continue;
+    }
+    if (char === "'" || char === '"') {
+      quote = char;
+      continue;
+    }
+    if (char !== ">" || command[i + 1] === "(") continue;
+
+    let j = i + 1;
+    if (command[j] === ">" || command[j] === "|") j++;
+    if (command[j] === "&") {
+      const descriptor = command.slice(j + 1).match(/^(\d+|-)(?=$|[\s;&|)])/);
+      if (descriptor) {
+        i = j + descriptor[0].length;
+        continue;
+      }
+      j++;
+    }
+    const target = command.slice(j).match(/^\s*([^\s;&|<>()]*)/)?.[1] ?? "";
+    if (target !== "/dev/null") return true;
+    i = j;
+  }
+
+  return false;
+}
+
+/**
+ * Check if a command can be allowed by its leading arguments, as patterns and allow rules do.
+ * Commands that run nested commands or write to files can't: neither shows in those arguments.
+ */
+export function isPatternApprovable(command: string): boolean {
+  return !hasCommandSubstitution(command) && !hasFileRedirection(command);
+}
+
+/**
+ * Check if a single argument matches a pattern argument.
+ * `*` matches any run of characters, including `/`.
+ */
+function matchArgument(pattern: string, arg: string): boolean {
+  if (!pattern.includes("*")) return pattern === arg;
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`).test(arg);
+}
+
+/**
+ * Check if a single command segment matches a pattern such as `git *` or `python .claude/skills/*`.
+ *
+ * Matching is argument-aware: each pattern argument must match the corresponding command
+ * argument, so `git *` matches `git status` but not `gitk`. A pattern whose last argument
+ * ends with `*` also accepts any trailing arguments; otherwise the argument counts must match.
+ */
+export function matchCommandPattern(pattern: string, segment: string): boolean {
+  const patternArgs = tokenizeCommand(pattern);
+  const args = tokenizeCommand(segment);
+  if (patternArgs.length === 0 || args.length === 0) return false;
+
+  const last = patternArgs[patternArgs.length - 1];
+  const openEnded = last.endsWith("*");
+
+  // A lone trailing "*" also matches no arguments at all ("git *" matches "git").
+  const required = last === "*" ? patternArgs.slice(0, -1) : patternArgs;
+  if (args.length < required.length) return false;
+  if (!openEnded && args.length !== required.length) return false;
+
+  return required.every((p, i) => matchArgument(p, args[i]));
+}
+
+/**
+ * Check if every segment of a (possibly compound) command matches at least one pattern.
+ */
+export function commandMatchesPatterns(command: string, patterns: readonly string[]): boolean {
+  if (patterns.length === 0 || !isPatternApprovable(command)) return false;
+  const segments = splitCompoundCommand(command);
+  if (segments.length === 0) return false;
+  return segments.every((segment) => patterns.some((pattern) => matchCommandPattern(pattern, segment)));
+}
+
+/**
+ * Suggest patterns that would allow a command, one per distinct program, e.g. `git *`.
+ * Commands with command substitution or file redirection get no suggestions, since no pattern can allow them.
+ */
+export function suggestCommandPatterns(command: string): string[] {
+  if (!isPatternApprovable(command)) return [];
+  const patterns: string[] = [];
+  for (const segment of splitCompoundCommand(command)) {
+    const [program] = tokenizeCommand(segment);
+    if (!program) continue;
+    const quoted = /[\s'"\\*]/.test(program) ? `"${program.replace(/(["\\])/g, "\\$1")}"` : program;
+    const pattern = `${quoted} *`;
+    if (!patterns.includes(pattern)) patterns.push(pattern);
+  }
+  return patterns;
+}
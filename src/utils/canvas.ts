@@ -0,0 +1,562 @@
+// Pure utility functions for reading, validating and laying out JSON Canvas files (.canvas).
+// Follows the JSON Canvas 1.0 spec (https://jsoncanvas.org/spec/1.0/); the canvas tools validate before writing.
+
+/**
+ * Node types defined by the spec.
+ */
+export const CANVAS_NODE_TYPES = ["text", "file", "link", "group"] as const;
+
+export type CanvasNodeType = (typeof CANVAS_NODE_TYPES)[number];
+
+/**
+ * Sides of a node an edge can attach to.
+ */
+export const CANVAS_SIDES = ["top", "right", "bottom", "left"] as const;
+
+export type CanvasSide = (typeof CANVAS_SIDES)[number];
+
+/**
+ * Edge endpoint shapes.
+ */
+export type CanvasEnd = "none" | "arrow";
+
+/**
+ * A canvas node. Which content field is set depends on the type.
+ */
+export interface CanvasNode {
+  id: string;
+  type: CanvasNodeType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // A preset ("1" to "6") or a hex color.
+  color?: string;
+  text?: string;
+  file?: string;
+  subpath?: string;
+  url?: string;
+  label?: string;
+  background?: string;
+  backgroundStyle?: "cover" | "ratio" | "repeat";
+}
+
+/**
+ * A connection between two nodes.
+ */
+export interface CanvasEdge {
+  id: string;
+  fromNode: string;
+  fromSide?: CanvasSide;
+  fromEnd?: CanvasEnd;
+  toNode: string;
+  toSide?: CanvasSide;
+  toEnd?: CanvasEnd;
+  color?: string;
+  label?: string;
+}
+
+/**
+ * The contents of a .canvas file.
+ */
+export interface CanvasData {
+  nodes: CanvasNode[];
+  edges: CanvasEdge[];
+}
+
+/**
+ * A node to add, as given to the canvas tools. Position and size are optional.
+ */
+export interface CanvasNodeInput {
+  id?: string;
+  type: CanvasNodeType;
+  text?: string;
+  file?: string;
+  subpath?: string;
+  url?: string;
+  label?: string;
+  color?: string;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  // Place the node next to this node, when no position is given.
+  near?: string;
+}
+
+/**
+ * An edge to add, as given to the canvas tools. Sides are picked from node positions when omitted.
+ */
+export interface CanvasEdgeInput {
+  from: string;
+  to: string;
+  label?: string;
+  color?: string;
+  fromSide?: CanvasSide;
+  toSide?: CanvasSide;
+}
+
+/**
+ * Size of new nodes by type, when none is given.
+ */
+export const DEFAULT_NODE_SIZES: Record<CanvasNodeType, { width: number; height: number }> = {
+  text: { width: 260, height: 120 },
+  file: { width: 400, height: 300 },
+  link: { width: 400, height: 300 },
+  group: { width: 600, height: 400 },
+};
+
+// Space kept between placed nodes.
+const NODE_GAP = 40;
+// Space between columns (or rows) of a generated layout, leaving room for edge labels.
+const LAYER_GAP = 160;
+
+const COLOR_PATTERN = /^(?:[1-6]|#[0-9a-fA-F]{6}|#[0-9a-fA-F]{3})$/;
+const BACKGROUND_STYLES = ["cover", "ratio", "repeat"];
+const ENDS = ["none", "arrow"];
+
+// Fields each node type must have as a string.
+const REQUIRED_CONTENT: Record<CanvasNodeType, string | null> = {
+  text: "text",
+  file: "file",
+  link: "url",
+  group: null,
+};
+
+/**
+ * Check canvas data against the JSON Canvas spec. Returns a list of problems, empty if valid.
+ */
+export function validateCanvas(data: unknown): string[] {
+  if (!data || typeof data !== "object" || Array.isArray(data)) return ["Canvas must be a JSON object"];
+  const { nodes = [], edges = [] } = data as { nodes?: unknown; edges?: unknown };
+  if (!Array.isArray(nodes)) return ["nodes must be an array"];
+  if (!Array.isArray(edges)) return ["edges must be an array"];
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  const checkId = (id: unknown, label: string): boolean => {
+    if (typeof id !== "string" || !id) {
+      errors.push(`${label} has no id`);
+      return false;
+    }
+    if (ids.has(id)) errors.push(`Duplicate id: ${id}`);
+    ids.add(id);
+    return true;
+  };
+  const checkColor = (color: unknown, label: string) => {
+    if (color !== undefined && (typeof color !== "string" || !COLOR_PATTERN.test(color))) {
+      errors.push(`${label}: color must be a preset from "1" to "6" or a hex color`);
+    }
+  };
+
+  const nodeIds = new Set<string>();
+  nodes.forEach((node: any, index) => {
+    const label = `Node ${typeof node?.id === "string" && node.id ? node.id : `#${index + 1}`}`;
+    if (!node || typeof node !== "object") {
+      errors.push(`Node #${index + 1} must be an object`);
+      return;
+    }
+    if (checkId(node.id, label)) nodeIds.add(node.id);
+    if (!(CANVAS_NODE_TYPES as readonly string[]).includes(node.type)) {
+      errors.push(`${label}: type must be one of ${CANVAS_NODE_TYPES.join(", ")}`);
+      return;
+    }
+    for (const field of ["x", "y", "width", "height"]) {
+      if (!Number.isInteger(node[field])) errors.push(`${label}: ${field} must be an integer`);
+    }
+    if (Number.isInteger(node.width) && node.width <= 0) errors.push(`${label}: width must be positive`);
+    if (Number.isInteger(node.height) && node.height <= 0) errors.push(`${label}: height must be positive`);
+    checkColor(node.color, label);
+
+    const content = REQUIRED_CONTENT[node.type as CanvasNodeType];
+    if (content && typeof node[content] !== "string") errors.push(`${label}: ${node.type} nodes need ${content}`);
+    if (node.type === "file" && node.subpath !== undefined) {
+      if (typeof node.subpath !== "string" || !node.subpath.startsWith("#")) {
+        errors.push(`${label}: subpath must start with #`);
+      }
+    }
+    if (node.type === "group") {
+      if (node.label !== undefined && typeof node.label !== "string") errors.push(`${label}: label must be a string`);
+      if (node.backgroundStyle !== undefined && !BACKGROUND_STYLES.includes(node.backgroundStyle)) {
+        errors.push(`${label}: backgroundStyle must be one of ${BACKGROUND_STYLES.join(", ")}`);
+      }
+    }
+  });
+
+  edges.forEach((edge: any, index) => {
+    const label = `Edge ${typeof edge?.id === "string" && edge.id ? edge.id : `#${index + 1}`}`;
+    if (!edge || typeof edge !== "object") {
+      errors.push(`Edge #${index + 1} must be an object`);
+      return;
+    }
+    checkId(edge.id, label);
+    for (const end of ["fromNode", "toNode"]) {
+      if (typeof edge[end] !== "string") errors.push(`${label}: ${end} is required`);
+      else if (!nodeIds.has(edge[end])) errors.push(`${label}: ${end} ${edge[end]} doesn't exist`);
+    }
+    for (const side of ["fromSide", "toSide"]) {
+      if (edge[side] !== undefined && !(CANVAS_SIDES as readonly string[]).includes(edge[side])) {
+        errors.push(`${label}: ${side} must be one of ${CANVAS_SIDES.join(", ")}`);
+      }
+    }
+    for (const end of ["fromEnd", "toEnd"]) {
+      if (edge[end] !== undefined && !ENDS.includes(edge[end])) {
+        errors.push(`${label}: ${end} must be none or arrow`);
+      }
+    }
+    if (edge.label !== undefined && typeof edge.label !== "string") errors.push(`${label}: label must be a string`);
+    checkColor(edge.color, label);
+  });
+
+  return errors;
+}
+
+/**
+ * Parse and validate the contents of a .canvas file. An empty file is an empty canvas.
+ * Returns an error message if the file isn't valid JSON Canvas.
+ */
+export function parseCanvas(content: string): CanvasData | string {
+  if (!content.trim()) return { nodes: [], edges: [] };
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (e) {
+    return `Canvas is not valid JSON: ${e instanceof Error ? e.message : String(e)}`;
+  }
+
+  const errors = validateCanvas(data);
+  if (errors.length > 0) return `Invalid canvas: ${errors.join("; ")}`;
+
+  const { nodes = [], edges = [] } = data as Partial<CanvasData>;
+  return { ...(data as object), nodes, edges };
+}
+
+/**
+ * Serialize canvas data the way Obsidian writes .canvas files (tab-indented JSON).
+ */
+export function serializeCanvas(data: CanvasData): string {
+  return JSON.stringify(data, null, "\t");
+}
+
+/**
+ * Create a random 16-character hex id, like the ids Obsidian gives canvas nodes and edges.
+ */
+export function createCanvasId(taken: Set<string>, random: () => number = Math.random): string {
+  for (;;) {
+    let id = "";
+    for (let i = 0; i < 16; i++) id += Math.floor(random() * 16).toString(16);
+    if (!taken.has(id)) return id;
+  }
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Check if two rectangles overlap, counting a gap around them.
+function overlaps(a: Rect, b: Rect, gap: number): boolean {
+  const horizontal = a.x < b.x + b.width + gap && b.x < a.x + a.width + gap;
+  return horizontal && a.y < b.y + b.height + gap && b.y < a.y + a.height + gap;
+}
+
+/**
+ * Find a position for a new node that doesn't overlap existing ones.
+ * Next to an anchor node, candidates start to its right and move down past each node in the way.
+ * Without one, the node goes below everything on the canvas.
+ */
+export function findFreePosition(
+  nodes: CanvasNode[],
+  size: { width: number; height: number },
+  anchor?: CanvasNode
+): { x: number; y: number } {
+  if (nodes.length === 0) return { x: 0, y: 0 };
+
+  if (!anchor) {
+    const left = Math.min(...nodes.map((node) => node.x));
+    const bottom = Math.max(...nodes.map((node) => node.y + node.height));
+    return { x: left, y: bottom + NODE_GAP * 2 };
+  }
+
+  // Try columns to the right of the anchor; in each, step down past whatever is in the way.
+  let x = anchor.x + anchor.width + NODE_GAP * 2;
+  for (let column = 0; column < 50; column++) {
+    let y = anchor.y;
+    for (let step = 0; step < 50; step++) {
+      const rect = { x, y, ...size };
+      const blocker = nodes.find((node) => overlaps(rect, node, NODE_GAP));
+      if (!blocker) return { x, y };
+      y = blocker.y + blocker.height + NODE_GAP;
+    }
+    x += size.width + NODE_GAP;
+  }
+  return findFreePosition(nodes, size);
+}
+
+/**
+ * Pick the sides an edge should attach to, facing each other along the axis the nodes are furthest apart on.
+ */
+export function pickEdgeSides(from: CanvasNode, to: CanvasNode): { fromSide: CanvasSide; toSide: CanvasSide } {
+  const dx = to.x + to.width / 2 - (from.x + from.width / 2);
+  const dy = to.y + to.height / 2 - (from.y + from.height / 2);
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    return dx >= 0 ? { fromSide: "right", toSide: "left" } : { fromSide: "left", toSide: "right" };
+  }
+  return dy >= 0 ? { fromSide: "bottom", toSide: "top" } : { fromSide: "top", toSide: "bottom" };
+}
+
+// Build a node from tool input at a given position.
+function toCanvasNode(input: CanvasNodeInput, id: string, position: { x: number; y: number }): CanvasNode {
+  const size = DEFAULT_NODE_SIZES[input.type];
+  const node: CanvasNode = {
+    id,
+    type: input.type,
+    x: Math.round(position.x),
+    y: Math.round(position.y),
+    width: Math.round(input.width ?? size.width),
+    height: Math.round(input.height ?? size.height),
+  };
+  if (input.color !== undefined) node.color = input.color;
+  if (input.type === "text") node.text = input.text;
+  if (input.type === "file") {
+    node.file = input.file;
+    if (input.subpath) node.subpath = input.subpath.startsWith("#") ? input.subpath : `#${input.subpath}`;
+  }
+  if (input.type === "link") node.url = input.url;
+  if (input.type === "group" && input.label !== undefined) node.label = input.label;
+  return node;
+}
+
+/**
+ * Add nodes and edges to a canvas. New nodes without a position are placed next to their `near` node, or
+ * below the canvas, without overlapping. Edges refer to existing node ids or the ids given to new nodes.
+ * Returns the new canvas and the ids of the added nodes and edges, or an error message; the result is validated.
+ */
+export function addToCanvas(
+  canvas: CanvasData,
+  nodeInputs: CanvasNodeInput[],
+  edgeInputs: CanvasEdgeInput[],
+  random: () => number = Math.random
+): { canvas: CanvasData; nodeIds: string[]; edgeIds: string[] } | string {
+  const nodes = [...canvas.nodes];
+  const edges = [...canvas.edges];
+  const taken = new Set([...nodes.map((node) => node.id), ...edges.map((edge) => edge.id)]);
+
+  const nodeIds: string[] = [];
+  for (const input of nodeInputs) {
+    if (input.id !== undefined && taken.has(input.id)) return `Id already in use: ${input.id}`;
+    const id = input.id ?? createCanvasId(taken, random);
+    taken.add(id);
+
+    let position: { x: number; y: number };
+    if (input.x !== undefined && input.y !== undefined) {
+      position = { x: input.x, y: input.y };
+    } else {
+      const anchor = input.near !== undefined ? nodes.find((node) => node.id === input.near) : undefined;
+      if (input.near !== undefined && !anchor) return `Node to place near not found: ${input.near}`;
+      const defaults = DEFAULT_NODE_SIZES[input.type];
+      position = findFreePosition(
+        nodes,
+        { width: input.width ?? defaults.width, height: input.height ?? defaults.height },
+        anchor
+      );
+    }
+
+    nodes.push(toCanvasNode(input, id, position));
+    nodeIds.push(id);
+  }
+
+  const edgeIds: string[] = [];
+  for (const input of edgeInputs) {
+    const from = nodes.find((node) => node.id === input.from);
+    const to = nodes.find((node) => node.id === input.to);
+    if (!from) return `Edge source not found: ${input.from}`;
+    if (!to) return `Edge target not found: ${input.to}`;
+
+    const id = createCanvasId(taken, random);
+    taken.add(id);
+    const sides = pickEdgeSides(from, to);
+    const edge: CanvasEdge = {
+      id,
+      fromNode: from.id,
+      fromSide: input.fromSide ?? sides.fromSide,
+      toNode: to.id,
+      toSide: input.toSide ?? sides.toSide,
+    };
+    if (input.label !== undefined) edge.label = input.label;
+    if (input.color !== undefined) edge.color = input.color;
+    edges.push(edge);
+    edgeIds.push(id);
+  }
+
+  const result = { ...canvas, nodes, edges };
+  const errors = validateCanvas(result);
+  if (errors.length > 0) return `Invalid canvas: ${errors.join("; ")}`;
+  return { canvas: result, nodeIds, edgeIds };
+}
+
+/**
+ * Assign each node of a graph to a layer: sources first, then each node one layer after its furthest parent.
+ * Nodes on a cycle are placed after the layers computed so far.
+ */
+export function assignLayers(ids: string[], links: { from: string; to: string }[]): Map<string, number> {
+  const incoming = new Map(ids.map((id) => [id, 0]));
+  const outgoing = new Map<string, string[]>(ids.map((id) => [id, []]));
+  for (const link of links) {
+    if (!incoming.has(link.from) || !incoming.has(link.to) || link.from === link.to) continue;
+    incoming.set(link.to, incoming.get(link.to)! + 1);
+    outgoing.get(link.from)!.push(link.to);
+  }
+
+  const layers = new Map<string, number>();
+  const remaining = new Set(ids);
+  let queue = ids.filter((id) => incoming.get(id) === 0);
+  while (remaining.size > 0) {
+    // Break a cycle by starting from the first remaining node.
+    if (queue.length === 0) {
+      const next = ids.find((id) => remaining.has(id))!;
+      layers.set(next, Math.max(layers.get(next) ?? 0, ...Array.from(layers.values()).map((layer) => layer + 1)));
+      queue = [next];
+    }
+    const nextQueue: string[] = [];
+    for (const id of queue) {
+      if (!remaining.delete(id)) continue;
+      const layer = layers.get(id) ?? 0;
+      layers.set(id, layer);
+      for (const child of outgoing.get(id)!) {
+        if (!remaining.has(child)) continue;
+        layers.set(child, Math.max(layers.get(child) ?? 0, layer + 1));
+        incoming.set(child, incoming.get(child)! - 1);
+        if (incoming.get(child) === 0) nextQueue.push(child);
+      }
+    }
+    queue = nextQueue;
+  }
+  return layers;
+}
+
+/**
+ * Build a canvas from nodes and the relationships between them, laid out in layers: each relationship
+ * points from one layer to the next, left to right ("right") or top to bottom ("down").
+ * Nodes are identified by their `id`, which must be given. Returns an error message for unknown ids.
+ */
+export function layoutCanvas(
+  nodeInputs: (CanvasNodeInput & { id: string })[],
+  relationships: CanvasEdgeInput[],
+  direction: "right" | "down" = "right",
+  random: () => number = Math.random
+): CanvasData | string {
+  const ids = nodeInputs.map((input) => input.id);
+  const unknown = relationships.flatMap((link) => [link.from, link.to]).find((id) => !ids.includes(id));
+  if (unknown !== undefined) return `Relationship refers to an unknown node: ${unknown}`;
+
+  const layers = assignLayers(ids, relationships);
+  const columns: (CanvasNodeInput & { id: string })[][] = [];
+  for (const input of nodeInputs) {
+    const layer = layers.get(input.id) ?? 0;
+    (columns[layer] ??= []).push(input);
+  }
+
+  const sizeOf = (input: CanvasNodeInput) => ({
+    width: input.width ?? DEFAULT_NODE_SIZES[input.type].width,
+    height: input.height ?? DEFAULT_NODE_SIZES[input.type].height,
+  });
+  // Along the flow, layers are as wide as their widest node; across it, nodes are stacked and centered.
+  const along = (input: CanvasNodeInput) => (direction === "right" ? sizeOf(input).width : sizeOf(input).height);
+  const across = (input: CanvasNodeInput) => (direction === "right" ? sizeOf(input).height : sizeOf(input).width);
+  const extents = columns.map((column) =>
+    column.reduce((total, input) => total + across(input), 0) + NODE_GAP * (column.length - 1)
+  );
+  const widest = Math.max(0, ...extents);
+
+  const placed: (CanvasNodeInput & { id: string; x: number; y: number })[] = [];
+  let offset = 0;
+  columns.forEach((column, index) => {
+    let cross = (widest - extents[index]) / 2;
+    for (const input of column) {
+      placed.push(direction === "right" ? { ...input, x: offset, y: cross } : { ...input, x: cross, y: offset });
+      cross += across(input) + NODE_GAP;
+    }
+    offset += Math.max(...column.map(along)) + LAYER_GAP;
+  });
+
+  // Keep the caller's order so the file reads like the input.
+  const order = new Map(ids.map((id, index) => [id, index]));
+  placed.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+
+  const result = addToCanvas({ nodes: [], edges: [] }, placed, relationships, random);
+  return typeof result === "string" ? result : result.canvas;
+}
+
+/**
+ * A compact view of a canvas node for the agent.
+ */
+export interface CanvasNodeSummary {
+  id: string;
+  type: CanvasNodeType;
+  // The text, file path, URL or group label.
+  content?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color?: string;
+  // Innermost group containing the node.
+  group?: string;
+}
+
+/**
+ * Summarize a canvas: nodes with their content and containing group, and edges between node ids.
+ */
+export function summarizeCanvas(canvas: CanvasData): {
+  nodes: CanvasNodeSummary[];
+  edges: { id: string; from: string; to: string; label?: string }[];
+} {
+  const groups = canvas.nodes.filter((node) => node.type === "group");
+  const contains = (group: CanvasNode, node: CanvasNode) =>
+    group.id !== node.id &&
+    node.x >= group.x &&
+    node.y >= group.y &&
+    node.x + node.width <= group.x + group.width &&
+    node.y + node.height <= group.y + group.height;
+
+  const nodes = canvas.nodes.map((node) => {
+    const content =
+      node.type === "text"
+        ? node.text
+        : node.type === "file"
+          ? `${node.file}${node.subpath ?? ""}`
+          : node.type === "link"
+            ? node.url
+            : node.label;
+    // The smallest enclosing group is the innermost one.
+    const group = groups
+      .filter((candidate) => contains(candidate, node))
+      .sort((a, b) => a.width * a.height - b.width * b.height)[0];
+
+    const summary: CanvasNodeSummary = {
+      id: node.id,
+      type: node.type,
+      x: node.x,
+      y: node.y,
+      width: node.width,
+      height: node.height,
+    };
+    if (content !== undefined) summary.content = content;
+    if (node.color !== undefined) summary.color = node.color;
+    if (group) summary.group = group.id;
+    return summary;
+  });
+
+  const edges = canvas.edges.map((edge) => ({
+    id: edge.id,
+    from: edge.fromNode,
+    to: edge.toNode,
+    ...(edge.label !== undefined && { label: edge.label }),
+  }));
+
+  return { nodes, edges };
+}
@@ -0,0 +1,122 @@
+// Pure utility functions for the deletion log.
+// DeletionLog persists one JSON Lines file per conversation; these helpers parse it and plan restores and pruning.
+
+/**
+ * Where a deleted file went: the system trash, or the vault's .trash folder.
+ */
+export type TrashLocation = "system" | "local";
+
+/**
+ * A file deleted by the delete_file tool.
+ */
+export interface DeletedFile {
+  id: string;
+  conversationId: string;
+  path: string;
+  deletedAt: number;
+  trash: TrashLocation;
+  // Copy of the file kept for restoring, or null if it couldn't be saved.
+  backupPath: string | null;
+  restoredAt?: number;
+  restoredTo?: string;
+}
+
+/**
+ * A line in the deletion log: a deletion, or the restore of an earlier one.
+ */
+export type DeletionEvent =
+  | ({ type: "deleted" } & Omit<DeletedFile, "restoredAt" | "restoredTo">)
+  | { type: "restored"; id: string; restoredAt: number; restoredTo: string };
+
+/**
+ * Map Obsidian's "Deleted files" option to where delete_file sends files.
+ * "Permanently delete" still uses the vault's .trash folder, so the deletion can be undone.
+ */
+export function getTrashLocation(trashOption: unknown): TrashLocation {
+  return trashOption === "system" ? "system" : "local";
+}
+
+/**
+ * Serialize an event as a single JSON Lines record.
+ */
+export function serializeDeletionEvent(event: DeletionEvent): string {
+  return JSON.stringify(event) + "\n";
+}
+
+/**
+ * Parse a JSON Lines deletion log into deleted files, oldest first, with restores applied.
+ * Malformed lines are skipped.
+ */
+export function parseDeletionLog(content: string): DeletedFile[] {
+  const files = new Map<string, DeletedFile>();
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const event = JSON.parse(line) as DeletionEvent;
+      if (event?.type === "deleted" && typeof event.path === "string") {
+        const { type: _type, ...file } = event;
+        files.set(event.id, file);
+      } else if (event?.type === "restored") {
+        const file = files.get(event.id);
+        if (file) Object.assign(file, { restoredAt: event.restoredAt, restoredTo: event.restoredTo });
+      }
+    } catch (e) {
+      // Skip partially written lines.
+    }
+  }
+  return Array.from(files.values());
+}
+
+/**
+ * Serialize deleted files back into a log, with a restore event after each restored file.
+ */
+export function serializeDeletionLog(files: DeletedFile[]): string {
+  return files
+    .map((file) => {
+      const { restoredAt, restoredTo, ...deleted } = file;
+      const line = serializeDeletionEvent({ type: "deleted", ...deleted });
+      if (restoredAt === undefined) return line;
+      return line + serializeDeletionEvent({ type: "restored", id: file.id, restoredAt, restoredTo: restoredTo ?? "" });
+    })
+    .join("");
+}
+
+/**
+ * Split a conversation's deleted files into those kept and those dropped from the log:
+ * files deleted more than maxAgeMs ago, and all but the newest maxEntries. Their backups go with them.
+ */
+export function planDeletionLogPrune(
+  files: DeletedFile[],
+  now: number,
+  maxAgeMs: number,
+  maxEntries: number
+): { kept: DeletedFile[]; dropped: DeletedFile[] } {
+  const recent = files.filter((file) => now - file.deletedAt <= maxAgeMs);
+  const kept = recent.slice(Math.max(0, recent.length - maxEntries));
+  return { kept, dropped: files.filter((file) => !kept.includes(file)) };
+}
+
+/**
+ * Get the deleted files that can still be restored: not yet restored and backed up.
+ */
+export function getRestorableFiles(files: DeletedFile[]): DeletedFile[] {
+  return files.filter((file) => file.restoredAt === undefined && file.backupPath !== null);
+}
+
+/**
+ * Pick the path to restore a file to: its original path, or "name (restored).ext" if that is taken.
+ */
+export function getRestorePath(path: string, exists: (path: string) => boolean): string {
+  if (!exists(path)) return path;
+
+  const slash = path.lastIndexOf("/");
+  const dot = path.lastIndexOf(".");
+  const hasExtension = dot > slash + 1;
+  const base = hasExtension ? path.slice(0, dot) : path;
+  const extension = hasExtension ? path.slice(dot) : "";
+
+  for (let i = 1; ; i++) {
+    const candidate = `${base} (restored${i > 1 ? ` ${i}` : ""})${extension}`;
+    if (!exists(candidate)) return candidate;
+  }
+}
@@ -0,0 +1,289 @@
+// Pure utility functions for line diffs and edit previews.
+// Used by PermissionModal to show what an Edit, MultiEdit or Write will change.
+
+/**
+ * A single line of a diff.
+ * Line numbers are 1-based; removed lines have no newLine and added lines have no oldLine.
+ */
+export interface DiffLine {
+  type: "context" | "add" | "remove";
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+/**
+ * A contiguous group of changes with surrounding context, as in a unified diff.
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+/**
+ * Diff preview for one file change (a Write, an Edit, or one edit of a MultiEdit).
+ */
+export interface DiffPreview {
+  title: string;
+  hunks: DiffHunk[];
+  // Set when the preview couldn't be computed against the current file.
+  warning?: string;
+}
+
+/**
+ * Above this many cells the LCS table is skipped and the changed region is shown as a full replacement.
+ */
+const MAX_LCS_CELLS = 2_000_000;
+
+/**
+ * Split text into lines. An empty string has no lines; a trailing newline doesn't add one.
+ */
+export function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Compute a line-by-line diff between two texts.
+ * Common leading and trailing lines are matched first, then the middle is diffed with an LCS table.
+ */
+export function computeLineDiff(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < prefix; i++) {
+    result.push({ type: "context", text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const aMid = a.slice(prefix, a.length - suffix);
+  const bMid = b.slice(prefix, b.length - suffix);
+  let oldLine = prefix + 1;
+  let newLine = prefix + 1;
+
+  for (const op of diffMiddle(aMid, bMid)) {
+    if (op.type === "context") {
+      result.push({ type: "context", text: op.text, oldLine: oldLine++, newLine: newLine++ });
+    } else if (op.type === "remove") {
+      result.push({ type: "remove", text: op.text, oldLine: oldLine++ });
+    } else {
+      result.push({ type: "add", text: op.text, newLine: newLine++ });
+    }
+  }
+
+  for (let i = 0; i < suffix; i++) {
+    result.push({ type: "context", text: a[a.length - suffix + i], oldLine: oldLine++, newLine: newLine++ });
+  }
+
+  return result;
+}
+
+/**
+ * Diff the changed middle region. Removals are emitted before additions within each change.
+ */
+function diffMiddle(a: string[], b: string[]): Array<{ type: DiffLine["type"]; text: string }> {
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...a.map((text) => ({ type: "remove" as const, text })),
+      ...b.map((text) => ({ type: "add" as const, text })),
+    ];
+  }
+
+  // lcs[i][j] is the LCS length of a[i..] and b[j..], stored row-major.
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: Array<{ type: DiffLine["type"]; text: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: "context", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      ops.push({ type: "remove", text: a[i++] });
+    } else {
+      ops.push({ type: "add", text: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: "remove", text: a[i++] });
+  while (j < b.length) ops.push({ type: "add", text: b[j++] });
+
+  return ops;
+}
+
+/**
+ * Group diff lines into hunks with the given number of context lines around each change.
+ */
+export function buildHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffLine[] = [];
+  let lastChange = -Infinity;
+
+  const flush = () => {
+    // Drop trailing context beyond the window.
+    while (current.length > 0 && current[current.length - 1].type === "context" && trailingContext(current) > context) {
+      current.pop();
+    }
+    if (current.some((line) => line.type !== "context")) hunks.push(toHunk(current));
+    current = [];
+  };
+
+  lines.forEach((line, index) => {
+    if (line.type !== "context") {
+      if (index - lastChange > 2 * context + 1 && current.length > 0) flush();
+      if (current.length === 0) {
+        // Start a new hunk with up to `context` lines of leading context.
+        for (let k = Math.max(0, index - context); k < index; k++) current.push(lines[k]);
+      }
+      current.push(line);
+      lastChange = index;
+    } else if (current.length > 0) {
+      current.push(line);
+    }
+  });
+  flush();
+
+  return hunks;
+}
+
+function trailingContext(lines: DiffLine[]): number {
+  let count = 0;
+  for (let i = lines.length - 1; i >= 0 && lines[i].type === "context"; i--) count++;
+  return count;
+}
+
+function toHunk(lines: DiffLine[]): DiffHunk {
+  const firstOld = lines.find((line) => line.oldLine !== undefined)?.oldLine;
+  const firstNew = lines.find((line) => line.newLine !== undefined)?.newLine;
+  const oldLines = lines.filter((line) => line.type !== "add").length;
+  const newLines = lines.filter((line) => line.type !== "remove").length;
+
+  // Follow the unified diff convention: an empty side starts at the line before the change.
+  const oldStart = firstOld ?? (lines.find((line) => line.newLine !== undefined)?.newLine ?? 1) - 1;
+  const newStart = firstNew ?? (firstOld ?? 1) - 1;
+
+  return { oldStart, oldLines, newStart, newLines, lines };
+}
+
+/**
+ * Format a hunk header such as "@@ -1,3 +1,4 @@".
+ */
+export function formatHunkHeader(hunk: DiffHunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+/**
+ * Apply a single Edit to file content, mirroring the Edit tool's semantics.
+ * Returns null if old_string isn't found.
+ */
+export function applyEdit(content: string, oldString: string, newString: string, replaceAll = false): string | null {
+  if (!oldString || !content.includes(oldString)) return null;
+  return replaceAll ? content.split(oldString).join(newString) : content.replace(oldString, () => newString);
+}
+
+/**
+ * Check if a tool's changes can be previewed as a diff of its target file.
+ */
+export function hasEditPreview(toolName: string): boolean {
+  return toolName === "Write" || toolName === "Edit" || toolName === "MultiEdit";
+}
+
+/**
+ * Build diff previews for a file write tool call.
+ * `currentContent` is the file's content in the vault, or null if it doesn't exist yet: new files are
+ * diffed against an empty original. Set `unreadable` when the file exists but couldn't be read.
+ * Edits that don't apply to the current content fall back to diffing old_string against new_string.
+ */
+export function buildEditPreview(
+  toolName: string,
+  input: Record<string, unknown>,
+  currentContent: string | null,
+  unreadable = false
+): DiffPreview[] {
+  const str = (value: unknown) => (typeof value === "string" ? value : "");
+
+  if (toolName === "Write") {
+    const next = str(input.content);
+    if (unreadable) {
+      return [
+        {
+          title: "Overwrite file",
+          hunks: buildHunks(computeLineDiff("", next)),
+          warning: "Current file could not be read",
+        },
+      ];
+    }
+    return [
+      {
+        title: currentContent === null ? "New file" : "Overwrite file",
+        hunks: buildHunks(computeLineDiff(currentContent ?? "", next)),
+      },
+    ];
+  }
+
+  const edits: Array<Record<string, unknown>> =
+    toolName === "MultiEdit" ? (Array.isArray(input.edits) ? input.edits : []) : toolName === "Edit" ? [input] : [];
+
+  const previews: DiffPreview[] = [];
+  let content = unreadable ? null : (currentContent ?? "");
+  // The edit whose text wasn't found. The tool rejects all the edits then, so later ones aren't applied.
+  let failed: number | null = null;
+
+  edits.forEach((edit, index) => {
+    const oldString = str(edit.old_string);
+    const newString = str(edit.new_string);
+    const title = edits.length > 1 ? `Edit ${index + 1} of ${edits.length}` : "Edit";
+    const fallback = buildHunks(computeLineDiff(oldString, newString));
+
+    if (failed !== null) {
+      previews.push({ title, hunks: fallback, warning: `Not applied: edit ${failed + 1} would fail` });
+      return;
+    }
+    if (content === null) {
+      previews.push({ title, hunks: fallback, warning: "Current file could not be read" });
+      return;
+    }
+
+    // An empty old_string fills an empty or new file.
+    const next =
+      !oldString && !content ? newString : applyEdit(content, oldString, newString, edit.replace_all === true);
+    if (next === null) {
+      const rejected = edits.length > 1 ? ", so none of the edits would be applied" : "";
+      previews.push({ title, hunks: fallback, warning: `Text to replace was not found in the file${rejected}` });
+      failed = index;
+      return;
+    }
+
+    previews.push({ title, hunks: buildHunks(computeLineDiff(content, next)) });
+    content = next;
+  });
+
+  return previews;
+}
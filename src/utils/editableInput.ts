@@ -0,0 +1,80 @@
+// Pure utility functions for editing tool input before approval.
+// Used by PermissionModal to let users tweak a command or edit before it runs.
+
+/**
+ * A tool input field the user may edit in the permission modal.
+ */
+export interface EditableField {
+  // Unique key, e.g. "command" or "edits.1.new_string".
+  key: string;
+  label: string;
+  value: string;
+  multiline: boolean;
+}
+
+/**
+ * List the fields of a tool call that can be edited before approval:
+ * the Bash command, the Write content, and the Edit/MultiEdit replacement strings.
+ */
+export function getEditableFields(toolName: string, input: Record<string, unknown>): EditableField[] {
+  const str = (value: unknown) => (typeof value === "string" ? value : "");
+
+  switch (toolName) {
+    case "Bash": {
+      // Multi-line commands, such as heredocs, need a field that keeps their newlines.
+      const command = str(input.command);
+      return [{ key: "command", label: "Command", value: command, multiline: command.includes("\n") }];
+    }
+    case "Write":
+      return [{ key: "content", label: "Content", value: str(input.content), multiline: true }];
+    case "Edit":
+      return [{ key: "new_string", label: "Replacement", value: str(input.new_string), multiline: true }];
+    case "MultiEdit": {
+      const edits = Array.isArray(input.edits) ? input.edits : [];
+      return edits.map((edit, index) => ({
+        key: `edits.${index}.new_string`,
+        label: edits.length > 1 ? `Replacement ${index + 1} of ${edits.length}` : "Replacement",
+        value: str(edit?.new_string),
+        multiline: true,
+      }));
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Return a copy of the tool input with edited field values applied.
+ * Keys that don't correspond to an editable field are ignored; the original input is not modified.
+ */
+export function applyFieldEdits(
+  toolName: string,
+  input: Record<string, unknown>,
+  values: Record<string, string>
+): Record<string, unknown> {
+  const editable = new Set(getEditableFields(toolName, input).map((field) => field.key));
+  const updated: Record<string, unknown> = { ...input };
+  if (Array.isArray(input.edits)) {
+    updated.edits = input.edits.map((edit) => (edit && typeof edit === "object" ? { ...edit } : edit));
+  }
+
+  for (const [key, value] of Object.entries(values)) {
+    if (!editable.has(key)) continue;
+    const parts = key.split(".");
+    if (parts.length === 1) {
+      updated[key] = value;
+    } else {
+      const [, index, field] = parts;
+      (updated.edits as Array<Record<string, unknown>>)[Number(index)][field] = value;
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Check if any editable field differs from the original input.
+ */
+export function hasFieldEdits(toolName: string, input: Record<string, unknown>, values: Record<string, string>): boolean {
+  return getEditableFields(toolName, input).some((field) => field.key in values && values[field.key] !== field.value);
+}
@@ -0,0 +1,67 @@
+// Pure utility functions for the editor tools.
+// Positions use the Editor API's zero-based lines and characters; tool results report one-based lines.
+
+/**
+ * A position in the editor, as in Obsidian's EditorPosition.
+ */
+export interface EditorPoint {
+  line: number;
+  ch: number;
+}
+
+/**
+ * Compare two positions: negative if a comes first, positive if b does, 0 if they are equal.
+ */
+export function comparePoints(a: EditorPoint, b: EditorPoint): number {
+  return a.line - b.line || a.ch - b.ch;
+}
+
+/**
+ * Order a selection's anchor and head, which are reversed when text was selected backwards.
+ */
+export function orderSelection(anchor: EditorPoint, head: EditorPoint): { from: EditorPoint; to: EditorPoint } {
+  return comparePoints(anchor, head) <= 0 ? { from: anchor, to: head } : { from: head, to: anchor };
+}
+
+/**
+ * Get the position at the end of text inserted at a position.
+ */
+export function getPointAfter(start: EditorPoint, text: string): EditorPoint {
+  const lines = text.split("\n");
+  if (lines.length === 1) return { line: start.line, ch: start.ch + text.length };
+  return { line: start.line + lines.length - 1, ch: lines[lines.length - 1].length };
+}
+
+/**
+ * The lines around a range of the document.
+ */
+export interface SurroundingLines {
+  // One-based number of the first line of before.
+  startLine: number;
+  // Full lines before the range's first line, and after its last line.
+  before: string;
+  after: string;
+  // The range's first and last lines in full, so a partial selection can be seen in place.
+  lines: string;
+}
+
+/**
+ * Get up to contextLines lines before and after a range, plus the lines the range covers.
+ */
+export function getSurroundingLines(
+  content: string,
+  from: EditorPoint,
+  to: EditorPoint,
+  contextLines: number
+): SurroundingLines {
+  const lines = content.split("\n");
+  const first = Math.min(Math.max(from.line, 0), lines.length - 1);
+  const last = Math.min(Math.max(to.line, first), lines.length - 1);
+  const start = Math.max(first - contextLines, 0);
+  return {
+    startLine: start + 1,
+    before: lines.slice(start, first).join("\n"),
+    after: lines.slice(last + 1, last + 1 + contextLines).join("\n"),
+    lines: lines.slice(first, last + 1).join("\n"),
+  };
+}
@@ -0,0 +1,214 @@
+// Pure utility functions for semantic search: chunking notes, local hash embeddings, similarity and storage.
+// Providers that call a model live in the agent layer; everything here works on plain text and vectors.
+
+import { findHeadings, buildHeadingPaths } from "./noteSections";
+import { tokenize } from "./textSearch";
+
+/**
+ * Dimensions of the local hash embeddings.
+ */
+export const HASH_EMBEDDING_DIMENSIONS = 512;
+
+/**
+ * A piece of a note embedded on its own: the text under one heading, split further if it is long.
+ */
+export interface NoteChunk {
+  // Heading path of the section, such as "# Project > ## Goals", or "" for text before the first heading.
+  heading: string;
+  // Zero-based first line and number of lines.
+  line: number;
+  lineCount: number;
+  text: string;
+}
+
+// Line where a note's body starts, after any frontmatter.
+function getBodyStart(lines: string[]): number {
+  if (lines[0]?.replace(/\r$/, "") !== "---") return 0;
+  const close = lines.findIndex((line, i) => i > 0 && /^(---|\.\.\.)\s*$/.test(line));
+  return close === -1 ? 0 : close + 1;
+}
+
+/**
+ * Split a note into chunks by heading. Sections longer than maxChars are split at blank lines,
+ * and paragraphs longer than that at line breaks. Chunks with no text are dropped.
+ */
+export function chunkNote(content: string, maxChars: number): NoteChunk[] {
+  const lines = content.split("\n");
+  const bodyStart = getBodyStart(lines);
+  const headings = findHeadings(content).filter((heading) => heading.line >= bodyStart);
+  const paths = buildHeadingPaths(headings);
+
+  const sections = [
+    { heading: "", start: bodyStart },
+    ...headings.map((heading, i) => ({ heading: paths[i], start: heading.line })),
+  ];
+  const chunks: NoteChunk[] = [];
+  sections.forEach((section, index) => {
+    const end = index + 1 < sections.length ? sections[index + 1].start : lines.length;
+    let pieceStart = section.start;
+    let length = 0;
+    const flush = (pieceEnd: number) => {
+      const text = lines.slice(pieceStart, pieceEnd).join("\n").trim();
+      if (text) chunks.push({ heading: section.heading, line: pieceStart, lineCount: pieceEnd - pieceStart, text });
+      pieceStart = pieceEnd;
+      length = 0;
+    };
+
+    for (let line = section.start; line < end; line++) {
+      const lineLength = lines[line].length + 1;
+      // Prefer to break before a blank line; break anywhere if a paragraph alone is too long.
+      const atParagraph = lines[line].trim() === "";
+      if (length > 0 && (length + lineLength > maxChars * 1.5 || (atParagraph && length >= maxChars))) {
+        flush(line);
+      }
+      length += lineLength;
+    }
+    flush(end);
+  });
+  return chunks;
+}
+
+/**
+ * Hash text to a 32-bit number (FNV-1a).
+ */
+export function hashText(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Scale a vector to unit length, so cosine similarity is a dot product. A zero vector is returned as is.
+ */
+export function normalizeVector(vector: ArrayLike<number>): Float32Array {
+  let sum = 0;
+  for (let i = 0; i < vector.length; i++) sum += vector[i] * vector[i];
+  const norm = Math.sqrt(sum);
+  const result = new Float32Array(vector.length);
+  if (norm === 0) return result;
+  for (let i = 0; i < vector.length; i++) result[i] = vector[i] / norm;
+  return result;
+}
+
+/**
+ * Embed text offline by hashing its words and adjacent word pairs into a fixed number of dimensions.
+ * It matches notes that share vocabulary rather than meaning, but needs no model or network.
+ */
+export function hashEmbedding(text: string, dimensions = HASH_EMBEDDING_DIMENSIONS): Float32Array {
+  const counts = new Map<string, number>();
+  const tokens = tokenize(text);
+  tokens.forEach((token, i) => {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+    if (i > 0) counts.set(`${tokens[i - 1]} ${token}`, (counts.get(`${tokens[i - 1]} ${token}`) ?? 0) + 0.5);
+  });
+
+  const vector = new Float32Array(dimensions);
+  for (const [feature, count] of counts) {
+    const hash = hashText(feature);
+    // The top bit picks the sign so unrelated features cancel out rather than pile up.
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % dimensions] += sign * (1 + Math.log(count));
+  }
+  return normalizeVector(vector);
+}
+
+/**
+ * Cosine similarity of two unit vectors (their dot product). Vectors of different lengths score 0.
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+/**
+ * Average unit vectors into one unit vector, e.g. a note's chunks into a vector for the whole note.
+ */
+export function averageVectors(vectors: ArrayLike<number>[]): Float32Array {
+  if (vectors.length === 0) return new Float32Array(0);
+  const sum = new Float32Array(vectors[0].length);
+  for (const vector of vectors) {
+    for (let i = 0; i < sum.length; i++) sum[i] += vector[i] ?? 0;
+  }
+  return normalizeVector(sum);
+}
+
+/**
+ * Encode a vector as base64 float32 data for storage.
+ */
+export function encodeVector(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString("base64");
+}
+
+/**
+ * Decode a vector stored by encodeVector().
+ */
+export function decodeVector(encoded: string): Float32Array {
+  const bytes = Buffer.from(encoded, "base64");
+  const copy = new Uint8Array(bytes.byteLength);
+  copy.set(bytes);
+  return new Float32Array(copy.buffer, 0, Math.floor(copy.byteLength / 4));
+}
+
+/**
+ * Read the vectors from an OpenAI-compatible embeddings response ({ data: [{ index, embedding }] }),
+ * in input order. Returns an error message if the response doesn't hold one vector per input.
+ */
+export function parseEmbeddingResponse(response: unknown, expected: number): number[][] | string {
+  const data = (response as { data?: unknown })?.data;
+  if (!Array.isArray(data)) return "Embedding response has no data array";
+
+  const vectors: number[][] = [];
+  for (const [position, item] of data.entries()) {
+    const embedding = (item as { embedding?: unknown })?.embedding;
+    if (!Array.isArray(embedding) || !embedding.every((value) => typeof value === "number")) {
+      return `Embedding ${position} is not a list of numbers`;
+    }
+    const index = (item as { index?: unknown }).index;
+    vectors[typeof index === "number" ? index : position] = embedding;
+  }
+  // Check by index: some() would skip the holes left by missing indexes.
+  for (let i = 0; i < Math.max(expected, vectors.length); i++) {
+    if (i >= expected || !vectors[i]) return `Expected ${expected} embeddings, got ${data.length}`;
+  }
+  return vectors;
+}
+
+/**
+ * A stored chunk: where it is in the note, and its vector.
+ */
+export interface StoredChunk {
+  heading: string;
+  line: number;
+  lineCount: number;
+  vector: string;
+}
+
+/**
+ * The semantic index as saved to disk.
+ */
+export interface StoredSemanticIndex {
+  version: 1;
+  // The provider and model that made the vectors; vectors from another one can't be compared.
+  provider: string;
+  notes: Record<string, { mtime: number; size: number; chunks: StoredChunk[] }>;
+}
+
+/**
+ * Parse a saved semantic index, or return null if it is unreadable, from an old version or from another provider.
+ */
+export function parseStoredIndex(text: string, provider: string): StoredSemanticIndex | null {
+  try {
+    const data = JSON.parse(text) as StoredSemanticIndex;
+    if (data?.version !== 1 || data.provider !== provider || typeof data.notes !== "object" || !data.notes) {
+      return null;
+    }
+    return data;
+  } catch (e) {
+    return null;
+  }
+}
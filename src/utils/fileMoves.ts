@@ -0,0 +1,75 @@
+// Pure utility functions for the rename and move tools.
+// Destinations are worked out here so the permission policy can check them before the tool runs.
+
+/**
+ * A planned rename or move.
+ */
+export interface FileMove {
+  from: string;
+  to: string;
+}
+
+/**
+ * Tools that rename or move files, and whether their target is a new name or a destination folder.
+ */
+export const FILE_MOVE_TOOLS: Record<string, "rename" | "move"> = {
+  mcp__obsidian__rename_file: "rename",
+  mcp__obsidian__rename_files: "rename",
+  mcp__obsidian__move_file: "move",
+  mcp__obsidian__move_files: "move",
+};
+
+// Characters Obsidian doesn't allow in file names.
+const INVALID_NAME_CHARACTERS = /[\\/:*?"<>|#^[\]]/;
+
+/**
+ * Work out the new path for renaming a file within its folder.
+ * The file's extension is kept when the new name doesn't include it.
+ * Returns an error message for empty names and names with path separators or characters Obsidian rejects.
+ */
+export function planRename(path: string, newName: string): string | { to: string } {
+  const name = newName.trim();
+  if (!name) return "New name is empty";
+  if (INVALID_NAME_CHARACTERS.test(name)) return `Invalid file name: ${name}`;
+
+  const slash = path.lastIndexOf("/");
+  const folder = slash === -1 ? "" : path.slice(0, slash);
+  const fileName = path.slice(slash + 1);
+  const dot = fileName.lastIndexOf(".");
+  const extension = dot > 0 ? fileName.slice(dot) : "";
+
+  const withExtension = extension && !name.toLowerCase().endsWith(extension.toLowerCase()) ? name + extension : name;
+  return { to: folder ? `${folder}/${withExtension}` : withExtension };
+}
+
+/**
+ * Work out the new path for moving a file into a folder ("" or "/" for the vault root).
+ */
+export function planMove(path: string, folder: string): string {
+  const target = folder.trim().replace(/\\/g, "/").replace(/^\/+|\/+$/g, "");
+  const fileName = path.slice(path.lastIndexOf("/") + 1);
+  return target ? `${target}/${fileName}` : fileName;
+}
+
+/**
+ * Get the renames and moves a tool call asks for, or null if the tool doesn't rename or move files.
+ * Single tools take path plus newName or folder; bulk tools take a mapping from path to new name or folder.
+ * Entries whose destination can't be worked out are returned with `to` set to the source path.
+ */
+export function getFileMoves(toolName: string, input: Record<string, unknown>): FileMove[] | null {
+  if (!Object.prototype.hasOwnProperty.call(FILE_MOVE_TOOLS, toolName)) return null;
+  const kind = FILE_MOVE_TOOLS[toolName];
+
+  const entries: [string, unknown][] =
+    input.mapping && typeof input.mapping === "object"
+      ? Object.entries(input.mapping as Record<string, unknown>)
+      : [[String(input.path ?? ""), kind === "rename" ? input.newName : input.folder]];
+
+  return entries
+    .filter(([from, target]) => from && typeof target === "string")
+    .map(([from, target]) => {
+      if (kind === "move") return { from, to: planMove(from, target as string) };
+      const plan = planRename(from, target as string);
+      return { from, to: typeof plan === "string" ? from : plan.to };
+    });
+}
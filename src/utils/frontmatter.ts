@@ -0,0 +1,268 @@
+// Pure utility functions for reading and updating note properties (YAML frontmatter).
+// Updates mutate the object passed to fileManager.processFrontMatter, which writes valid YAML.
+
+/**
+ * Property types, following the names Obsidian uses in the properties view.
+ */
+export type PropertyType = "text" | "number" | "checkbox" | "date" | "datetime" | "list" | "object" | "empty";
+
+/**
+ * A frontmatter property with its inferred type.
+ */
+export interface TypedProperty {
+  name: string;
+  type: PropertyType;
+  value: unknown;
+}
+
+/**
+ * Keys to set and unset in a note's frontmatter.
+ */
+export interface PropertyUpdate {
+  set?: Record<string, unknown>;
+  unset?: string[];
+}
+
+/**
+ * A single property change made (or planned) by an update.
+ */
+export interface PropertyChange {
+  key: string;
+  action: "set" | "unset";
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Operators for property filters, shared by update_properties and query_notes.
+ */
+export const PROPERTY_FILTER_OPS = [
+  "exists",
+  "missing",
+  "equals",
+  "notEquals",
+  "contains",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+] as const;
+
+export type PropertyFilterOp = (typeof PROPERTY_FILTER_OPS)[number];
+
+/**
+ * Condition on a property, used to select notes.
+ * "equals" matches a scalar value or a list containing it; "contains" matches a substring or list item.
+ * Comparisons (gt, gte, lt, lte) compare numbers and dates by value and other text alphabetically.
+ */
+export interface PropertyFilter {
+  key: string;
+  op: PropertyFilterOp;
+  value?: unknown;
+}
+
+// Keys Obsidian's metadata cache adds to frontmatter that aren't properties.
+const NON_PROPERTY_KEYS = new Set(["position"]);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * Infer a property's type from its value.
+ */
+export function inferPropertyType(value: unknown): PropertyType {
+  if (value === null || value === undefined) return "empty";
+  if (Array.isArray(value)) return "list";
+  if (typeof value === "boolean") return "checkbox";
+  if (typeof value === "number") return "number";
+  if (typeof value === "object") return "object";
+  const text = String(value);
+  if (DATE_PATTERN.test(text)) return "date";
+  if (DATETIME_PATTERN.test(text)) return "datetime";
+  return "text";
+}
+
+/**
+ * List a note's properties with their inferred types, in frontmatter order.
+ */
+export function getTypedProperties(frontmatter: Record<string, unknown> | undefined): TypedProperty[] {
+  if (!frontmatter) return [];
+  return Object.entries(frontmatter)
+    .filter(([name]) => !NON_PROPERTY_KEYS.has(name))
+    .map(([name, value]) => ({ name, type: inferPropertyType(value), value }));
+}
+
+// Read a property that may be a list, a single value or a comma-separated string.
+function toStringList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+  return items
+    .filter((item) => item !== null && item !== undefined)
+    .map((item) => String(item).trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Get a note's tags from the `tags` property and inline #tags, without the leading #.
+ * Duplicates are removed case-insensitively, keeping the first spelling.
+ */
+export function collectTags(frontmatter: Record<string, unknown> | undefined, inlineTags: string[] = []): string[] {
+  const fromProperties = toStringList(frontmatter?.tags ?? frontmatter?.tag).flatMap((tag) => tag.split(/\s+/));
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  for (const raw of [...fromProperties, ...inlineTags]) {
+    const tag = raw.replace(/^#/, "");
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    tags.push(tag);
+  }
+  return tags;
+}
+
+/**
+ * Get a note's aliases from the `aliases` (or legacy `alias`) property.
+ */
+export function collectAliases(frontmatter: Record<string, unknown> | undefined): string[] {
+  return toStringList(frontmatter?.aliases ?? frontmatter?.alias);
+}
+
+// Compare property values structurally (YAML values are plain JSON-like data).
+function valuesEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Work out which changes an update would make to a note's frontmatter, without modifying it.
+ * Setting a key to its current value or unsetting a missing key is not a change.
+ * A key that is both set and unset is unset.
+ */
+export function planPropertyUpdate(
+  frontmatter: Record<string, unknown> | undefined,
+  update: PropertyUpdate
+): PropertyChange[] {
+  const current = frontmatter ?? {};
+  const unset = new Set(update.unset ?? []);
+  const changes: PropertyChange[] = [];
+
+  for (const [key, value] of Object.entries(update.set ?? {})) {
+    if (unset.has(key)) continue;
+    if (key in current && valuesEqual(current[key], value)) continue;
+    const change: PropertyChange = { key, action: "set", after: value };
+    if (key in current) change.before = current[key];
+    changes.push(change);
+  }
+
+  for (const key of unset) {
+    if (key in current) changes.push({ key, action: "unset", before: current[key] });
+  }
+
+  return changes;
+}
+
+/**
+ * Apply an update to a frontmatter object in place and return the changes made.
+ * Intended to run inside fileManager.processFrontMatter().
+ */
+export function applyPropertyUpdate(frontmatter: Record<string, unknown>, update: PropertyUpdate): PropertyChange[] {
+  const changes = planPropertyUpdate(frontmatter, update);
+  for (const change of changes) {
+    if (change.action === "unset") {
+      delete frontmatter[change.key];
+    } else {
+      frontmatter[change.key] = change.after;
+    }
+  }
+  return changes;
+}
+
+// Compare a scalar property value with a filter value, loosely ("3" equals 3, "true" equals true).
+function scalarEquals(actual: unknown, expected: unknown): boolean {
+  if (actual === null || actual === undefined) return expected === null || expected === undefined;
+  return String(actual) === String(expected);
+}
+
+// Read a value as a number, a date (as a timestamp), or neither.
+function toComparable(value: unknown): { kind: "number" | "date" | "text"; value: number | string } {
+  if (typeof value === "number") return { kind: "number", value };
+  const text = String(value).trim();
+  if (text !== "" && !isNaN(Number(text))) return { kind: "number", value: Number(text) };
+  if (DATE_PATTERN.test(text) || DATETIME_PATTERN.test(text)) {
+    const time = Date.parse(text);
+    if (!isNaN(time)) return { kind: "date", value: time };
+  }
+  return { kind: "text", value: text };
+}
+
+/**
+ * Compare two property values for sorting and range filters.
+ * Numbers and dates compare by value; anything else compares as case-insensitive text.
+ */
+export function comparePropertyValues(a: unknown, b: unknown): number {
+  const left = toComparable(a);
+  const right = toComparable(b);
+  if (left.kind === right.kind && left.kind !== "text") {
+    return (left.value as number) - (right.value as number);
+  }
+  return String(left.value).localeCompare(String(right.value), undefined, { sensitivity: "base" });
+}
+
+// Check a single (non-list) value against a comparison operator.
+function compareMatches(actual: unknown, op: "gt" | "gte" | "lt" | "lte", expected: unknown): boolean {
+  if (actual === null || actual === undefined) return false;
+  const order = comparePropertyValues(actual, expected);
+  if (op === "gt") return order > 0;
+  if (op === "gte") return order >= 0;
+  if (op === "lt") return order < 0;
+  return order <= 0;
+}
+
+/**
+ * Check if a note's frontmatter matches a property filter.
+ * Conditions on a list property match if any item matches, except notEquals, which needs every item to differ.
+ */
+export function matchesPropertyFilter(
+  frontmatter: Record<string, unknown> | undefined,
+  filter: PropertyFilter
+): boolean {
+  const present = !!frontmatter && filter.key in frontmatter;
+  const value = frontmatter?.[filter.key];
+
+  switch (filter.op) {
+    case "exists":
+      return present;
+    case "missing":
+      return !present;
+    case "equals":
+      if (!present) return false;
+      if (Array.isArray(value)) return value.some((item) => scalarEquals(item, filter.value));
+      return scalarEquals(value, filter.value);
+    case "notEquals":
+      if (!present) return true;
+      if (Array.isArray(value)) return !value.some((item) => scalarEquals(item, filter.value));
+      return !scalarEquals(value, filter.value);
+    case "contains": {
+      if (!present || filter.value === undefined || filter.value === null) return false;
+      const needle = String(filter.value).toLowerCase();
+      if (Array.isArray(value)) return value.some((item) => String(item).toLowerCase() === needle);
+      return typeof value === "string" && value.toLowerCase().includes(needle);
+    }
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte": {
+      if (!present || filter.value === undefined || filter.value === null) return false;
+      const op = filter.op;
+      if (Array.isArray(value)) return value.some((item) => compareMatches(item, op, filter.value));
+      return compareMatches(value, op, filter.value);
+    }
+  }
+}
+
+/**
+ * Check if a note's frontmatter matches every filter.
+ */
+export function matchesPropertyFilters(
+  frontmatter: Record<string, unknown> | undefined,
+  filters: PropertyFilter[]
+): boolean {
+  return filters.every((filter) => matchesPropertyFilter(frontmatter, filter));
+}
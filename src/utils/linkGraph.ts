@@ -0,0 +1,149 @@
+// Pure utility functions for querying the vault's link graph.
+// Operate on metadataCache.resolvedLinks / unresolvedLinks (source path -> target -> link count).
+
+/**
+ * Link map in the shape of metadataCache.resolvedLinks and unresolvedLinks.
+ */
+export type LinkMap = Record<string, Record<string, number>>;
+
+/**
+ * A linked note and how many times the link appears.
+ */
+export interface LinkCount {
+  path: string;
+  count: number;
+}
+
+/**
+ * Which links to follow when walking the graph.
+ */
+export type LinkDirection = "outgoing" | "incoming" | "both";
+
+/**
+ * A note reached while walking the graph, with its distance from the start.
+ */
+export interface NeighborhoodNode {
+  path: string;
+  hops: number;
+}
+
+/**
+ * Notes within N hops of a starting note, and the links between them.
+ */
+export interface Neighborhood {
+  nodes: NeighborhoodNode[];
+  edges: { source: string; target: string; count: number }[];
+  // True if the node cap stopped the walk before every reachable note was visited.
+  truncated: boolean;
+}
+
+// Sort by count (descending), then path.
+function sortLinkCounts(links: LinkCount[]): LinkCount[] {
+  return links.sort((a, b) => b.count - a.count || a.path.localeCompare(b.path));
+}
+
+/**
+ * Get the links from a note, most frequent first.
+ */
+export function getOutgoingLinks(links: LinkMap, path: string): LinkCount[] {
+  const targets = links[path] ?? {};
+  return sortLinkCounts(Object.entries(targets).map(([target, count]) => ({ path: target, count })));
+}
+
+/**
+ * Get the notes that link to a note, most frequent first.
+ */
+export function getBacklinks(links: LinkMap, path: string): LinkCount[] {
+  const sources: LinkCount[] = [];
+  for (const [source, targets] of Object.entries(links)) {
+    const count = targets[path];
+    if (count && source !== path) sources.push({ path: source, count });
+  }
+  return sortLinkCounts(sources);
+}
+
+/**
+ * Get link targets that don't resolve to a file across the vault.
+ * Returns each missing target with the notes that reference it, most referenced first.
+ */
+export function getUnresolvedTargets(unresolved: LinkMap): { target: string; sources: string[] }[] {
+  const byTarget = new Map<string, string[]>();
+  for (const [source, targets] of Object.entries(unresolved)) {
+    for (const target of Object.keys(targets)) {
+      const sources = byTarget.get(target) ?? [];
+      sources.push(source);
+      byTarget.set(target, sources);
+    }
+  }
+
+  return Array.from(byTarget, ([target, sources]) => ({ target, sources: sources.sort() })).sort(
+    (a, b) => b.sources.length - a.sources.length || a.target.localeCompare(b.target)
+  );
+}
+
+/**
+ * Walk the graph breadth-first from a note, up to a number of hops and a node cap.
+ * Edges are the resolved links between visited notes.
+ */
+export function getNeighborhood(
+  links: LinkMap,
+  start: string,
+  options: { depth: number; maxNodes: number; direction?: LinkDirection }
+): Neighborhood {
+  const direction = options.direction ?? "both";
+  const maxNodes = Math.max(1, options.maxNodes);
+
+  // Build the reverse index once for incoming links.
+  const incoming = new Map<string, string[]>();
+  if (direction !== "outgoing") {
+    for (const [source, targets] of Object.entries(links)) {
+      for (const target of Object.keys(targets)) {
+        if (target === source) continue;
+        const sources = incoming.get(target) ?? [];
+        sources.push(source);
+        incoming.set(target, sources);
+      }
+    }
+  }
+
+  const neighbors = (path: string): string[] => {
+    const result: string[] = [];
+    if (direction !== "incoming") result.push(...Object.keys(links[path] ?? {}));
+    if (direction !== "outgoing") result.push(...(incoming.get(path) ?? []));
+    return result.sort();
+  };
+
+  const hops = new Map<string, number>([[start, 0]]);
+  let frontier = [start];
+  let truncated = false;
+
+  for (let depth = 1; depth <= options.depth && frontier.length > 0 && !truncated; depth++) {
+    const next: string[] = [];
+    for (const path of frontier) {
+      for (const neighbor of neighbors(path)) {
+        if (hops.has(neighbor)) continue;
+        if (hops.size >= maxNodes) {
+          truncated = true;
+          break;
+        }
+        hops.set(neighbor, depth);
+        next.push(neighbor);
+      }
+      if (truncated) break;
+    }
+    frontier = next;
+  }
+
+  const edges: Neighborhood["edges"] = [];
+  for (const source of hops.keys()) {
+    for (const [target, count] of Object.entries(links[source] ?? {})) {
+      if (target !== source && hops.has(target)) edges.push({ source, target, count });
+    }
+  }
+
+  return {
+    nodes: Array.from(hops, ([path, distance]) => ({ path, hops: distance })),
+    edges,
+    truncated,
+  };
+}
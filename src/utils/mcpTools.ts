@@ -0,0 +1,88 @@
+// Pure utility functions for tools from user-configured MCP servers.
+// The SDK names these tools mcp__<server>__<tool>; settings classify them per server and per tool.
+
+import type { McpRiskLevel, McpServerConfig, PermissionEffect } from "../types";
+
+/**
+ * Approval and risk that apply to an MCP tool call.
+ */
+export interface McpToolPolicy {
+  server: McpServerConfig;
+  // Tool name without the mcp__<server>__ prefix.
+  tool: string;
+  effect: PermissionEffect;
+  risk: McpRiskLevel;
+}
+
+// Defaults for external servers: ask before every call.
+export const DEFAULT_MCP_APPROVAL: PermissionEffect = "ask";
+export const DEFAULT_MCP_RISK: McpRiskLevel = "medium";
+
+/**
+ * Normalize a server name the way the SDK does when building tool names.
+ */
+export function normalizeMcpServerName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+/**
+ * Get the tool name prefix for a server (e.g. "mcp__github__").
+ */
+export function getMcpToolPrefix(serverName: string): string {
+  return `mcp__${normalizeMcpServerName(serverName)}__`;
+}
+
+/**
+ * Find the configured server a tool belongs to and the tool's short name.
+ * The longest matching prefix wins so "mcp__a__b__x" goes to server "a__b" if both exist.
+ */
+export function findMcpServerForTool(
+  toolName: string,
+  servers: McpServerConfig[]
+): { server: McpServerConfig; tool: string } | undefined {
+  let best: { server: McpServerConfig; tool: string; prefixLength: number } | undefined;
+  for (const server of servers) {
+    const prefix = getMcpToolPrefix(server.name);
+    if (toolName.startsWith(prefix) && toolName.length > prefix.length) {
+      if (!best || prefix.length > best.prefixLength) {
+        best = { server, tool: toolName.slice(prefix.length), prefixLength: prefix.length };
+      }
+    }
+  }
+  return best ? { server: best.server, tool: best.tool } : undefined;
+}
+
+/**
+ * Resolve the approval and risk for a tool from a user-configured MCP server.
+ * Per-tool settings override the server's; returns undefined for other tools.
+ */
+export function resolveMcpToolPolicy(toolName: string, servers: McpServerConfig[]): McpToolPolicy | undefined {
+  const match = findMcpServerForTool(toolName, servers);
+  if (!match) return undefined;
+
+  const { server, tool } = match;
+  const overrides = server.tools?.[tool];
+  return {
+    server,
+    tool,
+    effect: overrides?.approval ?? server.approval ?? DEFAULT_MCP_APPROVAL,
+    risk: overrides?.risk ?? server.risk ?? DEFAULT_MCP_RISK,
+  };
+}
+
+/**
+ * Group the tool names reported by the SDK by configured server.
+ * Returns short tool names, sorted, keyed by server ID. Servers with no tools are omitted.
+ */
+export function groupMcpToolsByServer(toolNames: string[], servers: McpServerConfig[]): Map<string, string[]> {
+  const groups = new Map<string, string[]>();
+  for (const toolName of toolNames) {
+    const match = findMcpServerForTool(toolName, servers);
+    if (!match) continue;
+    const tools = groups.get(match.server.id) ?? [];
+    if (!tools.includes(match.tool)) tools.push(match.tool);
+    groups.set(match.server.id, tools);
+  }
+  for (const tools of groups.values()) tools.sort();
+  return groups;
+}
@@ -0,0 +1,193 @@
+// Pure utility functions for structured note queries (a Dataview-style table over the metadata cache).
+// The query_notes tool builds a NoteRecord per note from metadataCache and runs the query here.
+
+import { comparePropertyValues, matchesPropertyFilters, type PropertyFilter } from "./frontmatter";
+import { isPathInFolder } from "./pathUtils";
+
+/**
+ * What a query knows about a note.
+ */
+export interface NoteRecord {
+  path: string;
+  name: string;
+  folder: string;
+  // Tags without the leading #, from properties and the note body.
+  tags: string[];
+  properties: Record<string, unknown>;
+  created: number;
+  modified: number;
+}
+
+/**
+ * A structured note query. Every condition given must match.
+ */
+export interface NoteQuery {
+  // Only notes in this folder or its subfolders.
+  folder?: string;
+  // Notes with all of these tags; "project" also matches "project/alpha".
+  tags?: string[];
+  where?: PropertyFilter[];
+  // Date bounds as parsed by parseQueryDate(). "After" is inclusive, "before" exclusive.
+  createdAfter?: number;
+  createdBefore?: number;
+  modifiedAfter?: number;
+  modifiedBefore?: number;
+  sortBy?: string;
+  sortDirection?: "asc" | "desc";
+  limit?: number;
+  // Columns to return besides path. Defaults to the properties the query filters or sorts on.
+  fields?: string[];
+}
+
+/**
+ * Query results as a table.
+ */
+export interface NoteQueryResult {
+  columns: string[];
+  rows: unknown[][];
+  // Number of matching notes before the limit.
+  total: number;
+}
+
+/**
+ * Fields every note has, which can be used as columns and sort keys alongside its properties.
+ */
+export const NOTE_FIELDS = ["path", "name", "folder", "tags", "created", "modified"] as const;
+
+const DEFAULT_QUERY_LIMIT = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a date bound: an ISO date or datetime, "today", or a number of days ago such as "7d".
+ * Returns a timestamp, or null if the value can't be parsed.
+ */
+export function parseQueryDate(value: string, now = Date.now()): number | null {
+  const text = value.trim().toLowerCase();
+  if (text === "today") {
+    const date = new Date(now);
+    date.setHours(0, 0, 0, 0);
+    return date.getTime();
+  }
+
+  const daysAgo = text.match(/^(\d+)d$/);
+  if (daysAgo) return now - Number(daysAgo[1]) * DAY_MS;
+
+  // Date-only values are read as local midnight, like Obsidian's date properties.
+  const time = /^\d{4}-\d{2}-\d{2}$/.test(text) ? new Date(`${text}T00:00`).getTime() : Date.parse(value);
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Check if a note has a tag or one of its subtags, ignoring case and a leading #.
+ */
+export function hasTag(tags: string[], tag: string): boolean {
+  const wanted = tag.replace(/^#/, "").toLowerCase();
+  return tags.some((candidate) => {
+    const lower = candidate.toLowerCase();
+    return lower === wanted || lower.startsWith(`${wanted}/`);
+  });
+}
+
+/**
+ * Get a field of a note: a built-in field (path, name, folder, tags, created, modified) or a property.
+ * Properties win over built-in fields of the same name, except path and tags.
+ */
+export function getNoteField(note: NoteRecord, field: string): unknown {
+  if (field === "path") return note.path;
+  if (field === "tags") return note.tags;
+  if (field in note.properties) return note.properties[field];
+  switch (field) {
+    case "name":
+      return note.name;
+    case "folder":
+      return note.folder;
+    case "created":
+      return new Date(note.created).toISOString();
+    case "modified":
+      return new Date(note.modified).toISOString();
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Check if a note matches every condition of a query.
+ */
+export function matchesNoteQuery(note: NoteRecord, query: NoteQuery): boolean {
+  if (query.folder && !isPathInFolder(note.path, query.folder)) return false;
+  if (query.tags && !query.tags.every((tag) => hasTag(note.tags, tag))) return false;
+  if (query.where && !matchesPropertyFilters(note.properties, query.where)) return false;
+  if (query.createdAfter !== undefined && note.created < query.createdAfter) return false;
+  if (query.createdBefore !== undefined && note.created >= query.createdBefore) return false;
+  if (query.modifiedAfter !== undefined && note.modified < query.modifiedAfter) return false;
+  if (query.modifiedBefore !== undefined && note.modified >= query.modifiedBefore) return false;
+  return true;
+}
+
+// Sort key for a note; created and modified sort by timestamp.
+function getSortValue(note: NoteRecord, field: string): unknown {
+  if (!(field in note.properties)) {
+    if (field === "created") return note.created;
+    if (field === "modified") return note.modified;
+  }
+  return getNoteField(note, field);
+}
+
+/**
+ * Run a query over notes and return the matching rows.
+ * Notes without a value for the sort field come last in either direction.
+ */
+export function runNoteQuery(notes: NoteRecord[], query: NoteQuery): NoteQueryResult {
+  const matches = notes.filter((note) => matchesNoteQuery(note, query));
+
+  const sortBy = query.sortBy ?? "path";
+  const direction = query.sortDirection === "desc" ? -1 : 1;
+  const isEmpty = (value: unknown) => value === undefined || value === null || value === "";
+  matches.sort((a, b) => {
+    const left = getSortValue(a, sortBy);
+    const right = getSortValue(b, sortBy);
+    if (isEmpty(left) || isEmpty(right)) {
+      if (isEmpty(left) && isEmpty(right)) return a.path.localeCompare(b.path);
+      return isEmpty(left) ? 1 : -1;
+    }
+    return direction * comparePropertyValues(left, right) || a.path.localeCompare(b.path);
+  });
+
+  const fields = query.fields ?? [...(query.where ?? []).map((filter) => filter.key), sortBy];
+  const columns = ["path", ...new Set(fields.filter((field) => field !== "path"))];
+  const limit = Math.max(1, query.limit ?? DEFAULT_QUERY_LIMIT);
+
+  return {
+    columns,
+    rows: matches.slice(0, limit).map((note) => columns.map((column) => getNoteField(note, column))),
+    total: matches.length,
+  };
+}
+
+// Format a cell value for a markdown table.
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = Array.isArray(value)
+    ? value.map((item) => String(item)).join(", ")
+    : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+/**
+ * Format query results as a markdown table.
+ */
+export function formatNoteQueryTable(result: NoteQueryResult): string {
+  if (result.rows.length === 0) return "No notes match the query.";
+
+  const header = `| ${result.columns.map(formatCell).join(" | ")} |`;
+  const separator = `| ${result.columns.map(() => "---").join(" | ")} |`;
+  const rows = result.rows.map((row) => `| ${row.map(formatCell).join(" | ")} |`);
+  const summary =
+    result.total > result.rows.length
+      ? `${result.total} notes match (showing first ${result.rows.length}).`
+      : `${result.total} ${result.total === 1 ? "note matches" : "notes match"}.`;
+
+  return [summary, "", header, separator, ...rows].join("\n");
+}
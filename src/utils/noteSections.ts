@@ -0,0 +1,270 @@
+// Pure utility functions for addressing and editing note sections by heading path or block id.
+// Sections are located in the text being edited, so edits inside vault.process() never use stale positions.
+
+/**
+ * A heading found in a note.
+ */
+export interface NoteHeading {
+  text: string;
+  level: number;
+  // Zero-based line number.
+  line: number;
+}
+
+/**
+ * A section of a note as a range of lines.
+ */
+export interface NoteSection {
+  // First line of the section (the heading line for heading sections).
+  start: number;
+  // First line after the section's last non-blank line.
+  contentEnd: number;
+  // First line after the section, including trailing blank lines and a standalone block id line.
+  end: number;
+  // Set for heading sections.
+  heading?: NoteHeading;
+  // Set for block sections.
+  blockId?: string;
+  // Whether the block id is on its own line after the block, rather than at the end of its last line.
+  standaloneBlockId?: boolean;
+}
+
+/**
+ * How to find a section: a heading path such as "## Tasks > ### Today", or a block id such as "^abc".
+ */
+export type SectionAddress = { heading: string } | { block: string };
+
+/**
+ * Section edit operations.
+ * For headings, prepend inserts right below the heading line, append at the end of the section's content,
+ * and insertAfter after its trailing blank lines (just before the next heading). For blocks, prepend is
+ * insertBefore and append is insertAfter.
+ */
+export const SECTION_EDIT_OPERATIONS = ["replace", "prepend", "append", "insertBefore", "insertAfter"] as const;
+
+export type SectionEditOperation = (typeof SECTION_EDIT_OPERATIONS)[number];
+
+const HEADING_PATTERN = /^(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const BLOCK_ID_PATTERN = /(?:^|\s)\^([A-Za-z0-9-]+)\s*$/;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s/;
+
+// Split text into lines, ignoring a carriage return before each newline.
+function splitLines(content: string): string[] {
+  return content.split("\n").map((line) => line.replace(/\r$/, ""));
+}
+
+/**
+ * Find the lines that are prose (not frontmatter or fenced code), so markers inside code are ignored.
+ * Lines are expected without carriage returns.
+ */
+export function getProseLines(lines: string[]): boolean[] {
+  const prose = lines.map(() => true);
+  let index = 0;
+
+  if (lines[0] === "---") {
+    const close = lines.findIndex((line, i) => i > 0 && (line === "---" || line === "..."));
+    if (close > 0) {
+      for (; index <= close; index++) prose[index] = false;
+    }
+  }
+
+  let fence: string | null = null;
+  for (; index < lines.length; index++) {
+    const match = lines[index].match(FENCE_PATTERN);
+    if (fence) {
+      prose[index] = false;
+      if (match && match[1] === fence) fence = null;
+    } else if (match) {
+      prose[index] = false;
+      fence = match[1];
+    }
+  }
+  return prose;
+}
+
+/**
+ * Find the ATX headings in a note, skipping frontmatter and fenced code.
+ */
+export function findHeadings(content: string): NoteHeading[] {
+  const lines = splitLines(content);
+  const prose = getProseLines(lines);
+  const headings: NoteHeading[] = [];
+  lines.forEach((line, index) => {
+    if (!prose[index]) return;
+    const match = line.match(HEADING_PATTERN);
+    if (match) headings.push({ text: match[2].trim(), level: match[1].length, line: index });
+  });
+  return headings;
+}
+
+/**
+ * Parse a heading path such as "## Tasks > ### Today" or "Tasks > Today" into segments.
+ * A segment's level is only checked when it is written with #s.
+ */
+export function parseHeadingPath(path: string): { text: string; level?: number }[] {
+  return path
+    .split(">")
+    .map((segment) => segment.trim())
+    .filter((segment) => segment.length > 0)
+    .map((segment) => {
+      const match = segment.match(/^(#{1,6})\s+(.*)$/);
+      return match ? { text: match[2].trim(), level: match[1].length } : { text: segment };
+    });
+}
+
+/**
+ * Build the full heading path ("## Tasks > ### Today") of each heading in an outline.
+ */
+export function buildHeadingPaths(headings: { text: string; level: number }[]): string[] {
+  const stack: { text: string; level: number }[] = [];
+  return headings.map((heading) => {
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) stack.pop();
+    stack.push(heading);
+    return stack.map((entry) => `${"#".repeat(entry.level)} ${entry.text}`).join(" > ");
+  });
+}
+
+// Move an end line back past trailing blank lines, but not before a minimum line.
+function trimBlankLines(lines: string[], end: number, min: number): number {
+  while (end > min && lines[end - 1].trim() === "") end--;
+  return end;
+}
+
+// Find the section under a heading path.
+function findHeadingSection(lines: string[], content: string, path: string): NoteSection | string {
+  const segments = parseHeadingPath(path);
+  if (segments.length === 0) return "Heading path is empty";
+
+  const headings = findHeadings(content);
+  const sectionEnd = (index: number) => {
+    const next = headings.findIndex((h, i) => i > index && h.level <= headings[index].level);
+    return next === -1 ? lines.length : headings[next].line;
+  };
+
+  // Each segment must match a heading inside the previous segment's section.
+  let candidates = headings.map((_, index) => index);
+  for (let depth = 0; depth < segments.length; depth++) {
+    const segment = segments[depth];
+    const matches = candidates.filter((index) => {
+      const heading = headings[index];
+      if (heading.text.toLowerCase() !== segment.text.toLowerCase()) return false;
+      return segment.level === undefined || heading.level === segment.level;
+    });
+
+    if (depth === segments.length - 1) {
+      if (matches.length === 0) return `Heading not found: ${path}`;
+      if (matches.length > 1) {
+        return `Heading path "${path}" matches ${matches.length} headings; add parent headings to disambiguate`;
+      }
+      const index = matches[0];
+      const end = sectionEnd(index);
+      const heading = headings[index];
+      return { start: heading.line, contentEnd: trimBlankLines(lines, end, heading.line + 1), end, heading };
+    }
+
+    candidates = matches.flatMap((match) => {
+      const end = sectionEnd(match);
+      const isInside = (index: number) =>
+        index > match && headings[index].line < end && headings[index].level > headings[match].level;
+      return headings.map((_, index) => index).filter(isInside);
+    });
+  }
+  return `Heading not found: ${path}`;
+}
+
+// Find the block with an id: a list item, or the paragraph ending at the id.
+function findBlockSection(lines: string[], id: string): NoteSection | string {
+  const blockId = id.replace(/^\^/, "");
+  const prose = getProseLines(lines);
+  const line = lines.findIndex((text, index) => prose[index] && text.match(BLOCK_ID_PATTERN)?.[1] === blockId);
+  if (line === -1) return `Block not found: ^${blockId}`;
+
+  // An id on its own line refers to the block above it (e.g. a table or blockquote).
+  const standalone = lines[line].trim() === `^${blockId}`;
+  const last = standalone ? trimBlankLines(lines, line, 0) - 1 : line;
+  if (last < 0) return `Block not found: ^${blockId}`;
+
+  let start = last;
+  if (!LIST_ITEM_PATTERN.test(lines[last])) {
+    const isParagraphLine = (index: number) =>
+      prose[index] && lines[index].trim() !== "" && !HEADING_PATTERN.test(lines[index]);
+    while (start > 0 && isParagraphLine(start - 1) && !LIST_ITEM_PATTERN.test(lines[start - 1])) start--;
+  }
+
+  return {
+    start,
+    contentEnd: last + 1,
+    end: line + 1,
+    blockId,
+    standaloneBlockId: standalone,
+  };
+}
+
+/**
+ * Find a section in a note by heading path or block id.
+ * Returns an error message if the section doesn't exist or the heading path is ambiguous.
+ */
+export function findSection(content: string, address: SectionAddress): NoteSection | string {
+  const lines = splitLines(content);
+  return "heading" in address
+    ? findHeadingSection(lines, content, address.heading)
+    : findBlockSection(lines, address.block);
+}
+
+/**
+ * Read a section's text, including its heading line and subsections but not trailing blank lines.
+ */
+export function readSection(content: string, address: SectionAddress): { text: string; section: NoteSection } | string {
+  const section = findSection(content, address);
+  if (typeof section === "string") return section;
+  const lines = splitLines(content);
+  const end = section.standaloneBlockId ? section.end : section.contentEnd;
+  return { text: lines.slice(section.start, end).join("\n"), section };
+}
+
+/**
+ * Edit a section and return the note's new content, or an error message.
+ * Replacing a heading section replaces its content below the heading line. Replacing a block keeps its id.
+ */
+export function editSection(
+  content: string,
+  address: SectionAddress,
+  operation: SectionEditOperation,
+  text: string
+): string | { content: string; section: NoteSection } {
+  const section = findSection(content, address);
+  if (typeof section === "string") return section;
+
+  const lines = content.split("\n");
+  const newLines = text.replace(/\r?\n$/, "").split("\n");
+  const isBlock = section.blockId !== undefined;
+
+  if (operation === "replace") {
+    if (isBlock && !section.standaloneBlockId && !newLines.some((line) => BLOCK_ID_PATTERN.test(line))) {
+      newLines[newLines.length - 1] += ` ^${section.blockId}`;
+    }
+    const start = isBlock ? section.start : section.start + 1;
+    lines.splice(start, section.contentEnd - start, ...newLines);
+    return { content: lines.join("\n"), section };
+  }
+
+  let at: number;
+  switch (operation) {
+    case "insertBefore":
+      at = section.start;
+      break;
+    case "prepend":
+      at = isBlock ? section.start : section.start + 1;
+      break;
+    case "append":
+      at = isBlock ? section.end : section.contentEnd;
+      break;
+    case "insertAfter":
+      at = section.end;
+      break;
+  }
+
+  lines.splice(at, 0, ...newLines);
+  return { content: lines.join("\n"), section };
+}
@@ -109,3 +109,52 @@ export function pathMatchesQuery(path: string, query: string): boolean {
   const fileName = getFileName(path).toLowerCase();
   return fileName.includes(lowerQuery);
 }
+
+/**
+ * Resolve a tool path against the vault root.
+ * Accepts absolute paths inside the vault and relative paths (including `.` and `..` segments).
+ * Returns the vault-relative path with forward slashes, or null if the path escapes the vault.
+ * Home directory (`~`) and Windows drive-relative (`C:notes`) paths are rejected, since tools resolve them
+ * outside the vault root, as are UNC paths (`//host/share`) unless the vault itself is on that share.
+ */
+export function resolveVaultPath(path: string, vaultPath: string): string | null {
+  let target = path.trim().replace(/\\/g, "/");
+  const base = vaultPath.replace(/\\/g, "/").replace(/\/+$/, "");
+  if (target.startsWith("~") || /^[a-zA-Z]:(?!\/)/.test(target)) return null;
+
+  const isAbsolute = target.startsWith("/") || /^[a-zA-Z]:\//.test(target);
+  if (isAbsolute) {
+    // Windows paths are case-insensitive.
+    const isWindows = /^[a-zA-Z]:/.test(base);
+    const compareTarget = isWindows ? target.toLowerCase() : target;
+    const compareBase = isWindows ? base.toLowerCase() : base;
+
+    if (!base || !(compareTarget === compareBase || compareTarget.startsWith(compareBase + "/"))) {
+      return null;
+    }
+    target = target.slice(base.length);
+  }
+
+  const segments: string[] = [];
+  for (const segment of target.split("/")) {
+    if (!segment || segment === ".") continue;
+    if (segment === "..") {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  return segments.join("/");
+}
+
+/**
+ * Check if a vault-relative path is inside a folder (or is the folder itself).
+ * An empty folder (or "/") contains the whole vault.
+ */
+export function isPathInFolder(path: string, folder: string): boolean {
+  const normalizedFolder = normalizeVaultPath(folder);
+  if (!normalizedFolder) return true;
+  return path === normalizedFolder || path.startsWith(normalizedFolder + "/");
+}
@@ -0,0 +1,144 @@
+// Pure utility functions for daily and periodic notes.
+// Settings come from the core Daily notes plugin or the Periodic Notes community plugin; dates are formatted by moment.
+
+import { isPathInFolder, normalizeVaultPath } from "./pathUtils";
+
+/**
+ * Periods a periodic note can cover.
+ */
+export const NOTE_PERIODS = ["day", "week", "month", "quarter", "year"] as const;
+
+export type NotePeriod = (typeof NOTE_PERIODS)[number];
+
+/**
+ * Where and how the notes of a period are created.
+ */
+export interface PeriodicNoteConfig {
+  folder: string;
+  // moment.js format of the note's path within the folder, e.g. "YYYY-MM-DD" or "YYYY/MM/YYYY-MM-DD".
+  format: string;
+  // Template note path, or "" for none.
+  template: string;
+  source: "periodic-notes" | "daily-notes" | "default";
+}
+
+/**
+ * Default name formats, matching the Periodic Notes plugin.
+ */
+export const DEFAULT_PERIOD_FORMATS: Record<NotePeriod, string> = {
+  day: "YYYY-MM-DD",
+  week: "gggg-[W]ww",
+  month: "YYYY-MM",
+  quarter: "YYYY-[Q]Q",
+  year: "YYYY",
+};
+
+// Keys of each period in the Periodic Notes plugin's settings.
+const PERIODIC_NOTES_KEYS: Record<NotePeriod, string> = {
+  day: "daily",
+  week: "weekly",
+  month: "monthly",
+  quarter: "quarterly",
+  year: "yearly",
+};
+
+// Read a string setting, treating anything else as empty.
+function stringSetting(settings: Record<string, unknown> | undefined, key: string): string {
+  const value = settings?.[key];
+  return typeof value === "string" ? value.trim() : "";
+}
+
+/**
+ * Work out the settings for a period's notes. The Periodic Notes plugin wins when it has the period enabled;
+ * daily notes otherwise follow the core Daily notes plugin. Anything unset falls back to the defaults.
+ */
+export function resolvePeriodicNoteConfig(
+  period: NotePeriod,
+  dailyNotesOptions: Record<string, unknown> | undefined,
+  periodicNotesSettings: Record<string, unknown> | undefined
+): PeriodicNoteConfig {
+  const periodic = periodicNotesSettings?.[PERIODIC_NOTES_KEYS[period]] as Record<string, unknown> | undefined;
+  const settings =
+    periodic?.enabled === true
+      ? { options: periodic, source: "periodic-notes" as const }
+      : period === "day" && dailyNotesOptions
+        ? { options: dailyNotesOptions, source: "daily-notes" as const }
+        : { options: undefined, source: "default" as const };
+
+  return {
+    folder: normalizeVaultPath(stringSetting(settings.options, "folder")),
+    format: stringSetting(settings.options, "format") || DEFAULT_PERIOD_FORMATS[period],
+    template: stringSetting(settings.options, "template"),
+    source: settings.source,
+  };
+}
+
+/**
+ * Build the path of a periodic note from its formatted name, which may contain subfolders.
+ */
+export function getPeriodicNotePath(config: PeriodicNoteConfig, formattedName: string): string {
+  const name = formattedName.replace(/\.md$/i, "");
+  return config.folder ? `${config.folder}/${name}.md` : `${name}.md`;
+}
+
+/**
+ * Parse the date argument of the periodic note tools: "today", "yesterday", "tomorrow", or an ISO date.
+ * Returns a day offset from today, an ISO date, or null if the value isn't recognized.
+ */
+export function parseDateArgument(value: string): { offsetDays: number } | { date: string } | null {
+  const text = value.trim().toLowerCase();
+  if (text === "" || text === "today") return { offsetDays: 0 };
+  if (text === "yesterday") return { offsetDays: -1 };
+  if (text === "tomorrow") return { offsetDays: 1 };
+  return /^\d{4}-\d{2}-\d{2}$/.test(text) ? { date: text } : null;
+}
+
+/**
+ * A periodic note found in the vault.
+ */
+export interface DatedNote {
+  path: string;
+  // Timestamp of the period the note covers.
+  date: number;
+}
+
+/**
+ * Find the notes in a periodic note folder whose path matches the name format, newest first.
+ * parseName turns a path relative to the folder (without .md) into a timestamp, or null if it doesn't match.
+ */
+export function findDatedNotes(
+  paths: string[],
+  config: PeriodicNoteConfig,
+  parseName: (name: string) => number | null
+): DatedNote[] {
+  const notes: DatedNote[] = [];
+  for (const path of paths) {
+    if (!path.toLowerCase().endsWith(".md")) continue;
+    if (config.folder && !isPathInFolder(path, config.folder)) continue;
+    const relative = config.folder ? path.slice(config.folder.length + 1) : path;
+    const date = parseName(relative.slice(0, -3));
+    if (date !== null) notes.push({ path, date });
+  }
+  return notes.sort((a, b) => b.date - a.date || a.path.localeCompare(b.path));
+}
+
+/**
+ * Format notes as one markdown document for context, each under a heading with its date and path.
+ * Each note is cut to a maximum length.
+ */
+export function formatNotesContext(
+  notes: { path: string; label: string; content: string }[],
+  maxChars: number
+): string {
+  if (notes.length === 0) return "No daily notes found.";
+  return notes
+    .map((note) => {
+      const content = note.content.trim();
+      const body =
+        content.length > maxChars
+          ? `${content.slice(0, maxChars)}\n\n[Truncated: ${content.length - maxChars} more characters]`
+          : content || "(empty)";
+      return `## ${note.label} (${note.path})\n\n${body}`;
+    })
+    .join("\n\n");
+}
@@ -0,0 +1,66 @@
+// Pure utility functions for per-conversation permission modes.
+// evaluatePermission() enforces the modes; these helpers describe them and map them to the SDK.
+
+import type { PermissionMode } from "../types";
+
+/**
+ * Display information for a permission mode.
+ */
+export interface PermissionModeInfo {
+  mode: PermissionMode;
+  label: string;
+  description: string;
+}
+
+/**
+ * All permission modes, in the order shown in the mode selector.
+ */
+export const PERMISSION_MODES: readonly PermissionModeInfo[] = [
+  { mode: "default", label: "Default", description: "Ask before edits and commands as configured in settings" },
+  { mode: "acceptEdits", label: "Accept edits", description: "Approve file edits automatically" },
+  { mode: "plan", label: "Plan", description: "Read and propose changes without making them" },
+  { mode: "readOnly", label: "Read-only", description: "Deny every tool that could change the vault" },
+];
+
+/**
+ * Check if a value is a known permission mode.
+ */
+export function isPermissionMode(value: unknown): value is PermissionMode {
+  return PERMISSION_MODES.some((info) => info.mode === value);
+}
+
+/**
+ * Get display information for a mode, falling back to the default mode.
+ */
+export function getPermissionModeInfo(mode: PermissionMode | undefined): PermissionModeInfo {
+  return PERMISSION_MODES.find((info) => info.mode === mode) ?? PERMISSION_MODES[0];
+}
+
+/**
+ * Check if a mode denies every tool that could change the vault.
+ */
+export function isRestrictedMode(mode: PermissionMode | undefined): boolean {
+  return mode === "plan" || mode === "readOnly";
+}
+
+/**
+ * Map a mode to the SDK's permissionMode option.
+ * Only plan mode is passed through. The SDK's acceptEdits mode approves edits without calling
+ * canUseTool, which would skip deny rules and protected folders, so edits are approved by our policy.
+ */
+export function toSdkPermissionMode(mode: PermissionMode | undefined): "default" | "plan" {
+  return mode === "plan" ? "plan" : "default";
+}
+
+/**
+ * Build the message returned to Claude when a mode denies a tool call.
+ */
+export function buildModeDenialMessage(toolName: string, mode: PermissionMode): string {
+  if (mode === "plan") {
+    if (toolName === "ExitPlanMode") {
+      return "Plan mode is on. The user will review the plan and switch modes to carry it out";
+    }
+    return `Denied: ${toolName} is not available in plan mode. Describe the change instead of making it`;
+  }
+  return `Denied: ${toolName} is not available in read-only mode`;
+}
@@ -0,0 +1,404 @@
+// Pure functions for evaluating tool permissions against user-defined rules.
+// AgentController.handlePermission() delegates every allow/ask/deny decision here.
+
+import type { McpServerConfig, PermissionEffect, PermissionMode, PermissionRule } from "../types";
+import {
+  isNonMutatingTool,
+  isReadOnlyTool,
+  isObsidianUiTool,
+  isWriteTool,
+  isDeleteTool,
+  isSystemTool,
+  isSubagentTool,
+} from "./permissions";
+import { resolveVaultPath, isPathInFolder, normalizeVaultPath } from "./pathUtils";
+import {
+  splitCompoundCommand,
+  commandMatchesPatterns,
+  commandStartsWith,
+  isPatternApprovable,
+} from "./bashCommands";
+import { getPermissionModeInfo, isRestrictedMode } from "./permissionModes";
+import { resolveMcpToolPolicy } from "./mcpTools";
+import { getFileMoves } from "./fileMoves";
+
+/**
+ * Where a permission decision came from.
+ */
+export type PermissionDecisionSource =
+  | "rule"
+  | "scope"
+  | "vault-boundary"
+  | "read-only"
+  | "obsidian-ui"
+  | "always-allowed"
+  | "command-allowlist"
+  | "session"
+  | "setting"
+  | "mode"
+  | "mcp-server"
+  | "default";
+
+/**
+ * Kind of write scope a folder belongs to.
+ * Protected folders always prompt; scratch folders never prompt.
+ */
+export type WriteScopeKind = "protected" | "scratch";
+
+/**
+ * The write scope that applies to a path.
+ */
+export interface WriteScopeMatch {
+  kind: WriteScopeKind;
+  folder: string;
+}
+
+/**
+ * Result of evaluating a tool call against the permission policy.
+ */
+export interface PermissionDecision {
+  effect: PermissionEffect;
+  source: PermissionDecisionSource;
+  // The rule that produced the decision, when source is "rule".
+  rule?: PermissionRule;
+  // The write scope that produced the decision, when source is "scope".
+  scope?: WriteScopeMatch;
+  // The permission mode that produced the decision, when source is "mode".
+  mode?: PermissionMode;
+  // The MCP server whose settings produced the decision, when source is "mcp-server".
+  mcpServer?: string;
+}
+
+/**
+ * Everything the policy needs to decide on a tool call.
+ */
+export interface PermissionContext {
+  rules: PermissionRule[];
+  autoApproveVaultWrites: boolean;
+  requireBashApproval: boolean;
+  alwaysAllowedTools: string[];
+  // Bash command patterns (e.g. "git *") allowed by settings and for this session.
+  allowedCommands: string[];
+  sessionApprovedCommands: string[];
+  protectedFolders: string[];
+  scratchFolders: string[];
+  sessionApprovedTools: ReadonlySet<string>;
+  vaultPath: string;
+  // Permission mode of the conversation (treated as "default" when omitted).
+  mode?: PermissionMode;
+  // User-configured MCP servers, whose tools follow per-server and per-tool approvals.
+  mcpServers?: McpServerConfig[];
+}
+
+/**
+ * Convert a glob pattern to an anchored regular expression.
+ * Supports `**` (any characters, including `/`), `*` (any characters except `/`) and `?`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" also matches zero directories.
+        if (glob[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check if a value matches a glob pattern.
+ */
+export function matchGlob(glob: string, value: string): boolean {
+  return globToRegExp(glob).test(value);
+}
+
+/**
+ * Get the file path a tool call operates on, if any.
+ */
+export function getToolInputPath(input: Record<string, unknown>): string | undefined {
+  const path = input.file_path ?? input.notebook_path ?? input.path;
+  return typeof path === "string" && path ? path : undefined;
+}
+
+/**
+ * Get every file path a tool call operates on.
+ * Bulk tools pass a `paths` list; other tools pass a single path.
+ */
+export function getToolInputPaths(input: Record<string, unknown>): string[] {
+  if (Array.isArray(input.paths)) {
+    return input.paths.filter((path): path is string => typeof path === "string" && path.length > 0);
+  }
+  const path = getToolInputPath(input);
+  return path ? [path] : [];
+}
+
+// Tools that change a tag in every note of a folder, or of the whole vault when no folder is given.
+const TAG_RENAME_TOOLS = ["mcp__obsidian__rename_tag", "mcp__obsidian__merge_tags"];
+
+/**
+ * Get every path a tool call touches: its input paths, both ends of each rename and move,
+ * or the folder a tag rename works in ("" for the whole vault).
+ */
+export function getToolPaths(toolName: string, input: Record<string, unknown>): string[] {
+  if (TAG_RENAME_TOOLS.includes(toolName)) return [typeof input.folder === "string" ? input.folder : ""];
+  const moves = getFileMoves(toolName, input);
+  if (moves) return moves.flatMap((move) => (move.to === move.from ? [move.from] : [move.from, move.to]));
+  return getToolInputPaths(input);
+}
+
+/**
+ * Get the shell command of a tool call, if any.
+ */
+export function getToolInputCommand(input: Record<string, unknown>): string {
+  return typeof input.command === "string" ? input.command.trim() : "";
+}
+
+/**
+ * Check if a single rule matches a tool call.
+ * A rule matches when its tool glob matches and every matcher it defines matches the input.
+ *
+ * Compound commands are split into segments. An allow rule's command prefix must match every
+ * segment, while ask and deny rules match if any segment starts with the prefix. Paths of bulk
+ * tools are treated the same way: an allow rule must match every path, others any path.
+ */
+export function ruleMatches(
+  rule: PermissionRule,
+  toolName: string,
+  input: Record<string, unknown>,
+  vaultPath: string
+): boolean {
+  if (!rule.enabled) return false;
+  if (!matchGlob(rule.tool || "*", toolName)) return false;
+
+  if (rule.path) {
+    const pathGlob = rule.path;
+    const paths = getToolPaths(toolName, input);
+    if (paths.length === 0) return false;
+    const pathMatches = (path: string) => {
+      const relative = resolveVaultPath(path, vaultPath);
+      return relative !== null && matchGlob(pathGlob, relative);
+    };
+    const matches = rule.effect === "allow" ? paths.every(pathMatches) : paths.some(pathMatches);
+    if (!matches) return false;
+  }
+
+  if (rule.commandPrefix) {
+    const prefix = rule.commandPrefix;
+    const command = getToolInputCommand(input);
+    // Nested commands and file redirections don't show in the leading arguments, so allow rules never match them.
+    if (rule.effect === "allow" && !isPatternApprovable(command)) return false;
+    const segments = splitCompoundCommand(command);
+    if (segments.length === 0) return false;
+    // Ask and deny rules also see through sudo, env and program paths; allow rules never allow more than they name.
+    const startsWithPrefix = (segment: string) => commandStartsWith(segment, prefix, rule.effect !== "allow");
+    const matches = rule.effect === "allow" ? segments.every(startsWithPrefix) : segments.some(startsWithPrefix);
+    if (!matches) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Find the first enabled rule that matches a tool call.
+ */
+export function findMatchingRule(
+  rules: PermissionRule[],
+  toolName: string,
+  input: Record<string, unknown>,
+  vaultPath: string
+): PermissionRule | undefined {
+  return rules.find((rule) => ruleMatches(rule, toolName, input, vaultPath));
+}
+
+/**
+ * Find the write scope that applies to a vault-relative path.
+ * The most specific folder wins; protected wins a tie with scratch.
+ */
+export function findWriteScope(
+  path: string,
+  protectedFolders: string[],
+  scratchFolders: string[]
+): WriteScopeMatch | undefined {
+  let best: WriteScopeMatch | undefined;
+
+  const consider = (folder: string, kind: WriteScopeKind) => {
+    if (!isPathInFolder(path, folder)) return;
+    const normalized = normalizeVaultPath(folder);
+    if (!best || normalized.length > best.folder.length) {
+      best = { kind, folder: normalized };
+    }
+  };
+
+  protectedFolders.forEach((folder) => consider(folder, "protected"));
+  scratchFolders.forEach((folder) => consider(folder, "scratch"));
+
+  return best;
+}
+
+/**
+ * Find a protected folder inside a folder a write changes notes in, such as the whole vault ("") for a
+ * vault-wide property query. Such writes may touch the protected folder even though it isn't above them.
+ */
+export function findProtectedFolderWithin(folder: string, protectedFolders: string[]): WriteScopeMatch | undefined {
+  const inside = protectedFolders.map(normalizeVaultPath).find((candidate) => isPathInFolder(candidate, folder));
+  return inside === undefined ? undefined : { kind: "protected", folder: inside };
+}
+
+/**
+ * Check if a tool call was approved for the session.
+ * Bash approvals are remembered per command pattern rather than for the whole tool.
+ */
+function isSessionApproved(toolName: string, input: Record<string, unknown>, context: PermissionContext): boolean {
+  if (context.sessionApprovedTools.has(toolName)) return true;
+  return isSystemTool(toolName) && commandMatchesPatterns(getToolInputCommand(input), context.sessionApprovedCommands);
+}
+
+/**
+ * Decide whether a tool call is allowed, needs approval, or is denied.
+ *
+ * Order of precedence:
+ * 1. Plan and read-only modes (deny every tool that could change the vault).
+ * 2. Deny rules.
+ * 3. File writes and deletions that resolve outside the vault (denied).
+ * 4. Protected folders (always ask).
+ * 5. Other user rules, in order.
+ * 6. Scratch folders (always allow writes, but not deletions).
+ * 7. Built-in defaults, including MCP server settings, accept-edits mode and the Bash command allowlist.
+ */
+export function evaluatePermission(
+  toolName: string,
+  input: Record<string, unknown>,
+  context: PermissionContext
+): PermissionDecision {
+  // Restricted modes win over allow rules and approvals so nothing can write.
+  if (isRestrictedMode(context.mode) && !isNonMutatingTool(toolName)) {
+    return { effect: "deny", source: "mode", mode: context.mode };
+  }
+
+  const rule = findMatchingRule(context.rules, toolName, input, context.vaultPath);
+  if (rule?.effect === "deny") {
+    return { effect: "deny", source: "rule", rule };
+  }
+
+  // Bulk writes, renames and moves are only in a scratch folder if every path is.
+  // Deletions get the vault boundary and protected folder checks, but scratch folders don't allow them.
+  // Writes with no explicit paths, such as a property query, may change any note: their scope is the whole vault.
+  let scope: WriteScopeMatch | undefined;
+  if (isWriteTool(toolName) || isDeleteTool(toolName)) {
+    const toolPaths = getToolPaths(toolName, input);
+    const paths = toolPaths.length === 0 && isWriteTool(toolName) ? [""] : toolPaths;
+    const scopes: (WriteScopeMatch | undefined)[] = [];
+    for (const path of paths) {
+      const relative = resolveVaultPath(path, context.vaultPath);
+      if (relative === null) return { effect: "deny", source: "vault-boundary" };
+      const match = findWriteScope(relative, context.protectedFolders, context.scratchFolders);
+      const within = match?.kind !== "protected" && findProtectedFolderWithin(relative, context.protectedFolders);
+      scopes.push(within || match);
+    }
+
+    const protectedScope = scopes.find((match) => match?.kind === "protected");
+    if (protectedScope) return { effect: "ask", source: "scope", scope: protectedScope };
+    if (isWriteTool(toolName) && scopes.length > 0 && scopes.every((match) => match?.kind === "scratch")) {
+      scope = scopes[0];
+    }
+  }
+
+  if (rule) {
+    // A session approval satisfies an "ask" rule.
+    if (rule.effect === "ask" && isSessionApproved(toolName, input, context)) {
+      return { effect: "allow", source: "session" };
+    }
+    return { effect: rule.effect, source: "rule", rule };
+  }
+
+  if (scope?.kind === "scratch") return { effect: "allow", source: "scope", scope };
+
+  if (isReadOnlyTool(toolName)) return { effect: "allow", source: "read-only" };
+  if (isObsidianUiTool(toolName)) return { effect: "allow", source: "obsidian-ui" };
+
+  // A denied MCP tool stays denied even if it was approved before.
+  const mcpPolicy = resolveMcpToolPolicy(toolName, context.mcpServers ?? []);
+  if (mcpPolicy?.effect === "deny") {
+    return { effect: "deny", source: "mcp-server", mcpServer: mcpPolicy.server.name };
+  }
+
+  if (context.alwaysAllowedTools.includes(toolName)) {
+    return { effect: "allow", source: "always-allowed" };
+  }
+
+  if (mcpPolicy) {
+    if (mcpPolicy.effect === "ask" && context.sessionApprovedTools.has(toolName)) {
+      return { effect: "allow", source: "session" };
+    }
+    return { effect: mcpPolicy.effect, source: "mcp-server", mcpServer: mcpPolicy.server.name };
+  }
+
+  if (isWriteTool(toolName)) {
+    if (context.autoApproveVaultWrites) return { effect: "allow", source: "setting" };
+    if (context.mode === "acceptEdits") return { effect: "allow", source: "mode", mode: context.mode };
+    if (context.sessionApprovedTools.has(toolName)) return { effect: "allow", source: "session" };
+    return { effect: "ask", source: "default" };
+  }
+
+  // Deletions ignore auto-approved writes and accept-edits mode.
+  if (isDeleteTool(toolName)) {
+    if (context.sessionApprovedTools.has(toolName)) return { effect: "allow", source: "session" };
+    return { effect: "ask", source: "default" };
+  }
+
+  if (isSystemTool(toolName)) {
+    if (!context.requireBashApproval) return { effect: "allow", source: "setting" };
+    if (isSessionApproved(toolName, input, context)) return { effect: "allow", source: "session" };
+    if (commandMatchesPatterns(getToolInputCommand(input), context.allowedCommands)) {
+      return { effect: "allow", source: "command-allowlist" };
+    }
+    return { effect: "ask", source: "default" };
+  }
+
+  // Subagents request their own permissions.
+  if (isSubagentTool(toolName)) return { effect: "allow", source: "default" };
+
+  // Default: allow other tools (web search, etc.).
+  return { effect: "allow", source: "default" };
+}
+
+/**
+ * Build a short human-readable summary of a rule.
+ */
+export function describeRule(rule: PermissionRule): string {
+  let summary = `${rule.effect} ${rule.tool || "*"}`;
+  if (rule.path) summary += ` in ${rule.path}`;
+  if (rule.commandPrefix) summary += ` for commands starting with "${rule.commandPrefix}"`;
+  return summary;
+}
+
+/**
+ * Explain why a decision was made, for display in the permission modal.
+ * Returns undefined for the built-in defaults.
+ */
+export function describeDecisionReason(decision: PermissionDecision): string | undefined {
+  if (decision.rule) return `Permission rule: ${describeRule(decision.rule)}`;
+  if (decision.scope) {
+    const label = decision.scope.kind === "protected" ? "Protected folder" : "Scratch folder";
+    return `${label}: ${decision.scope.folder || "/"}`;
+  }
+  if (decision.source === "vault-boundary") return "Path resolves outside the vault";
+  if (decision.mode) return `${getPermissionModeInfo(decision.mode).label} mode`;
+  if (decision.mcpServer) return `MCP server: ${decision.mcpServer}`;
+  return undefined;
+}
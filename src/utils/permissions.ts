@@ -1,6 +1,10 @@
 // Pure utility functions for tool permission classification.
 // Extracted from AgentController.ts for testability.
 
+import type { McpServerConfig } from "../types";
+import { resolveMcpToolPolicy } from "./mcpTools";
+import { getFileMoves } from "./fileMoves";
+
 /**
  * Read-only tools that are always auto-approved.
  * These tools don't modify the vault or system.
@@ -14,12 +18,59 @@ export const READ_ONLY_TOOLS = [
   "mcp__obsidian__get_vault_stats",
   "mcp__obsidian__get_recent_files",
   "mcp__obsidian__list_commands",
+  "mcp__obsidian__get_backlinks",
+  "mcp__obsidian__get_outgoing_links",
+  "mcp__obsidian__get_unresolved_links",
+  "mcp__obsidian__get_link_neighborhood",
+  "mcp__obsidian__read_note_metadata",
+  "mcp__obsidian__query_notes",
+  "mcp__obsidian__get_note_outline",
+  "mcp__obsidian__read_section",
+  "mcp__obsidian__read_canvas",
+  "mcp__obsidian__get_periodic_note",
+  "mcp__obsidian__get_recent_daily_notes",
+  "mcp__obsidian__list_templates",
+  "mcp__obsidian__get_editor_selection",
+  "mcp__obsidian__list_open_tabs",
+  "mcp__obsidian__search_notes",
+  "mcp__obsidian__semantic_search",
+  "mcp__obsidian__find_similar_notes",
+  "mcp__obsidian__list_tags",
+  "mcp__obsidian__find_notes_by_tag",
+  "mcp__obsidian__vault_health",
+  "mcp__obsidian__read_note_images",
+  "mcp__obsidian__read_pdf_text",
 ] as const;
 
 /**
  * File write tools that may require user approval.
  */
-export const WRITE_TOOLS = ["Write", "Edit", "MultiEdit"] as const;
+export const WRITE_TOOLS = [
+  "Write",
+  "Edit",
+  "MultiEdit",
+  "NotebookEdit",
+  "mcp__obsidian__update_properties",
+  "mcp__obsidian__edit_section",
+  "mcp__obsidian__rename_file",
+  "mcp__obsidian__rename_files",
+  "mcp__obsidian__move_file",
+  "mcp__obsidian__move_files",
+  "mcp__obsidian__add_canvas_nodes",
+  "mcp__obsidian__create_canvas",
+  "mcp__obsidian__create_periodic_note",
+  "mcp__obsidian__replace_selection",
+  "mcp__obsidian__insert_at_cursor",
+  "mcp__obsidian__rename_tag",
+  "mcp__obsidian__merge_tags",
+  "mcp__obsidian__create_note",
+] as const;
+
+/**
+ * Tools that delete files. They are high risk: paths are checked like writes, but deletions always need
+ * approval unless a rule, the always-allowed list or a session approval allows them.
+ */
+export const DELETE_TOOLS = ["mcp__obsidian__delete_file"] as const;
 
 /**
  * Obsidian UI tools that are safe to auto-approve.
@@ -30,7 +81,6 @@ export const OBSIDIAN_UI_TOOLS = [
   "mcp__obsidian__show_notice",
   "mcp__obsidian__reveal_in_explorer",
   "mcp__obsidian__execute_command",
-  "mcp__obsidian__create_note",
 ] as const;
 
 /**
@@ -43,9 +93,23 @@ export const SUBAGENT_TOOLS = ["Task"] as const;
  */
 export const SYSTEM_TOOLS = ["Bash"] as const;
 
+/**
+ * Tools besides the read-only tools that never change the vault or system.
+ * These stay available in plan and read-only permission modes.
+ */
+export const NON_MUTATING_TOOLS = [
+  "WebSearch",
+  "WebFetch",
+  "TodoWrite",
+  "mcp__obsidian__open_file",
+  "mcp__obsidian__show_notice",
+  "mcp__obsidian__reveal_in_explorer",
+] as const;
+
 // Type aliases for tool categories.
 export type ReadOnlyTool = (typeof READ_ONLY_TOOLS)[number];
 export type WriteTool = (typeof WRITE_TOOLS)[number];
+export type DeleteTool = (typeof DELETE_TOOLS)[number];
 export type ObsidianUiTool = (typeof OBSIDIAN_UI_TOOLS)[number];
 export type SubagentTool = (typeof SUBAGENT_TOOLS)[number];
 export type SystemTool = (typeof SYSTEM_TOOLS)[number];
@@ -64,6 +128,13 @@ export function isWriteTool(toolName: string): boolean {
   return (WRITE_TOOLS as readonly string[]).includes(toolName);
 }
 
+/**
+ * Check if a tool deletes files.
+ */
+export function isDeleteTool(toolName: string): boolean {
+  return (DELETE_TOOLS as readonly string[]).includes(toolName);
+}
+
 /**
  * Check if a tool is an Obsidian UI tool (safe to auto-approve).
  */
@@ -85,6 +156,18 @@ export function isSystemTool(toolName: string): boolean {
   return (SYSTEM_TOOLS as readonly string[]).includes(toolName);
 }
 
+/**
+ * Check if a tool cannot change the vault or system.
+ * Subagents count as non-mutating because their own tool calls are checked.
+ */
+export function isNonMutatingTool(toolName: string): boolean {
+  return (
+    isReadOnlyTool(toolName) ||
+    isSubagentTool(toolName) ||
+    (NON_MUTATING_TOOLS as readonly string[]).includes(toolName)
+  );
+}
+
 /**
  * Permission risk level for a tool.
  */
@@ -92,11 +175,15 @@ export type RiskLevel = "none" | "low" | "medium" | "high";
 
 /**
  * Determine the risk level of a tool.
+ * Tools from user-configured MCP servers use the server's or tool's configured risk.
  */
-export function getToolRiskLevel(toolName: string): RiskLevel {
+export function getToolRiskLevel(toolName: string, mcpServers: McpServerConfig[] = []): RiskLevel {
   if (isReadOnlyTool(toolName)) return "none";
+  const mcpPolicy = resolveMcpToolPolicy(toolName, mcpServers);
+  if (mcpPolicy) return mcpPolicy.risk;
   if (isObsidianUiTool(toolName)) return "low";
   if (isWriteTool(toolName)) return "medium";
+  if (isDeleteTool(toolName)) return "high";
   if (isSystemTool(toolName)) return "high";
   if (isSubagentTool(toolName)) return "low";  // Subagents request their own permissions.
   return "low";  // Default for unknown tools.
@@ -111,6 +198,7 @@ export function shouldAutoApprove(
     autoApproveVaultWrites: boolean;
     requireBashApproval: boolean;
     alwaysAllowedTools: string[];
+    mcpServers?: McpServerConfig[];
   }
 ): boolean {
   // Always auto-approve read-only tools.
@@ -127,11 +215,18 @@ export function shouldAutoApprove(
     return settings.autoApproveVaultWrites;
   }
 
+  // Deletions always need approval, even when vault writes are auto-approved.
+  if (isDeleteTool(toolName)) return false;
+
   // Check Bash settings.
   if (isSystemTool(toolName)) {
     return !settings.requireBashApproval;
   }
 
+  // Tools from user-configured MCP servers follow their approval setting (ask by default).
+  const mcpPolicy = resolveMcpToolPolicy(toolName, settings.mcpServers ?? []);
+  if (mcpPolicy) return mcpPolicy.effect === "allow";
+
   // Auto-approve subagent tools.
   if (isSubagentTool(toolName)) return true;
 
@@ -139,15 +234,98 @@ export function shouldAutoApprove(
   return true;
 }
 
+// Names of periodic notes by period, for create_periodic_note descriptions.
+const PERIODIC_NOTE_NAMES: Record<string, string> = {
+  day: "daily",
+  week: "weekly",
+  month: "monthly",
+  quarter: "quarterly",
+  year: "yearly",
+};
+
 /**
  * Build a user-friendly description of a tool's action.
  */
 export function buildToolDescription(toolName: string, input: Record<string, unknown>): string {
+  if (toolName === "mcp__obsidian__update_properties") {
+    const paths = Array.isArray(input.paths) ? input.paths.filter((path) => typeof path === "string") : [];
+    const target =
+      paths.join(", ") || (input.file_path as string) || (input.path as string) || "notes matching a property query";
+    return `Claude wants to update properties in: ${target}`;
+  }
+
+  const moves = getFileMoves(toolName, input);
+  if (moves) {
+    const verb = toolName.includes("rename") ? "rename" : "move";
+    if (moves.length === 0) {
+      return `Claude wants to ${verb} ${(input.path as string) || (input.file_path as string) || "files"}`;
+    }
+    const listed = moves.slice(0, 5).map((move) => `${move.from} → ${move.to}`);
+    if (moves.length > 5) listed.push(`and ${moves.length - 5} more`);
+    return `Claude wants to ${verb} ${moves.length === 1 ? "a file" : `${moves.length} files`}: ${listed.join(", ")}`;
+  }
+
+  if (toolName === "mcp__obsidian__edit_section") {
+    const section = (input.heading as string) || (input.block as string) || "a section";
+    const filePath = (input.path as string) || (input.file_path as string) || "a file";
+    return `Claude wants to edit ${section} in the file: ${filePath}`;
+  }
+
+  if (toolName === "mcp__obsidian__add_canvas_nodes" || toolName === "mcp__obsidian__create_canvas") {
+    const filePath = (input.path as string) || (input.file_path as string) || "a canvas";
+    const verb = toolName === "mcp__obsidian__create_canvas" ? "create" : "add to";
+    return `Claude wants to ${verb} the canvas: ${filePath}`;
+  }
+
+  if (toolName === "NotebookEdit") {
+    const filePath = (input.notebook_path as string) || (input.file_path as string) || "a notebook";
+    return `Claude wants to edit the notebook: ${filePath}`;
+  }
+
+  if (toolName === "mcp__obsidian__create_note") {
+    const filePath = (input.path as string) || (input.file_path as string) || "a note";
+    const template = input.template ? ` from the template ${input.template}` : "";
+    return `Claude wants to create the note: ${filePath}${template}`;
+  }
+
+  if (toolName === "mcp__obsidian__create_periodic_note") {
+    const period = String(input.period ?? "day");
+    const name = Object.prototype.hasOwnProperty.call(PERIODIC_NOTE_NAMES, period)
+      ? PERIODIC_NOTE_NAMES[period]
+      : "periodic";
+    const note = `the ${name} note for ${(input.date as string) || "today"}`;
+    const offset = typeof input.offset === "number" && input.offset !== 0 ? ` (offset ${input.offset})` : "";
+    const filePath = (input.file_path as string) || (input.path as string);
+    return `Claude wants to create ${note}${offset}${filePath ? `: ${filePath}` : ""}`;
+  }
+
+  if (toolName === "mcp__obsidian__replace_selection" || toolName === "mcp__obsidian__insert_at_cursor") {
+    const filePath = (input.path as string) || (input.file_path as string) || "the open note";
+    const action = toolName === "mcp__obsidian__replace_selection" ? "replace the selected text" : "insert text at the cursor";
+    return `Claude wants to ${action} in the editor: ${filePath}`;
+  }
+
+  if (toolName === "mcp__obsidian__rename_tag" || toolName === "mcp__obsidian__merge_tags") {
+    const scope = (input.folder as string) || (input.file_path as string) || (input.path as string) || "every note";
+    const tag = (value: unknown) => `#${String(value ?? "").replace(/^#/, "")}`;
+    const merged = (Array.isArray(input.tags) ? input.tags : []).map(tag).join(", ") || "tags";
+    const change =
+      toolName === "mcp__obsidian__rename_tag"
+        ? `rename the tag ${tag(input.from)} to ${tag(input.to)}`
+        : `merge ${merged} into ${tag(input.into)}`;
+    return `Claude wants to ${change} in: ${scope}`;
+  }
+
   if (isWriteTool(toolName)) {
     const filePath = (input.file_path as string) || (input.path as string) || "a file";
     return `Claude wants to ${toolName.toLowerCase()} the file: ${filePath}`;
   }
 
+  if (isDeleteTool(toolName)) {
+    const filePath = (input.path as string) || (input.file_path as string) || "a file";
+    return `Claude wants to move the file to the trash: ${filePath}`;
+  }
+
   if (toolName === "Bash") {
     const command = (input.command as string) || "";
     const truncated = command.length > 100 ? command.slice(0, 100) + "..." : command;
@@ -156,3 +334,23 @@ export function buildToolDescription(toolName: string, input: Record<string, unk
 
   return `Claude wants to use the ${toolName} tool.`;
 }
+
+/**
+ * Build the message returned to Claude when the user denies a tool call.
+ * Feedback typed by the user is appended so Claude can adjust course in the same turn.
+ */
+export function buildDenialMessage(toolName: string, feedback?: string): string {
+  let message: string;
+  if (isWriteTool(toolName)) {
+    message = "User denied file write permission";
+  } else if (isDeleteTool(toolName)) {
+    message = "User denied file delete permission";
+  } else if (isSystemTool(toolName)) {
+    message = "User denied bash command permission";
+  } else {
+    message = `User denied ${toolName} permission`;
+  }
+
+  const trimmed = feedback?.trim();
+  return trimmed ? `${message}. User feedback: ${trimmed}` : message;
+}
@@ -0,0 +1,280 @@
+// Pure utility functions for exploring and renaming tags.
+// Renames rewrite inline #tags in a note's text and the tags property, which is updated through processFrontMatter.
+
+import type { PropertyChange } from "./frontmatter";
+import { getProseLines } from "./noteSections";
+import { hasTag } from "./noteQuery";
+
+/**
+ * A tag in the tag tree, with the tags nested under it.
+ */
+export interface TagNode {
+  // Full tag without the leading #, e.g. "project/alpha".
+  tag: string;
+  // Uses of exactly this tag, and of it and its subtags.
+  count: number;
+  total: number;
+  // Other spellings of the tag, when it is written in more than one case.
+  variants?: string[];
+  children: TagNode[];
+}
+
+/**
+ * Tag conditions of a note search: every tag in all, at least one in any, none of none. Subtags match.
+ */
+export interface TagQuery {
+  all?: string[];
+  any?: string[];
+  none?: string[];
+}
+
+/**
+ * A tag to rename, and its new name. Subtags move with it.
+ */
+export interface TagRename {
+  from: string;
+  to: string;
+}
+
+/**
+ * A line changed by renaming inline tags.
+ */
+export interface TagLineChange {
+  // One-based line number.
+  line: number;
+  before: string;
+  after: string;
+}
+
+// Characters allowed in a tag, and an inline #tag in text.
+// A tag may follow punctuation such as `(` or `,`, but not a word, `&` (entities), `/` (URL fragments),
+// `[` (heading links), an escape, or `](` (markdown link anchors).
+const TAG_CHARS = /^[\p{L}\p{N}_\-/]+$/u;
+const INLINE_TAG_PATTERN = /(^|(?<!\])[^\p{L}\p{N}_#&/[\]`\\])#([\p{L}\p{N}_\-/]+)/gu;
+
+// Inline code spans, whose text isn't tags.
+const CODE_SPAN_PATTERN = /(`+)[^`]*?\1/g;
+
+/**
+ * Strip the leading # and surrounding space from a tag.
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, "");
+}
+
+/**
+ * Check that a tag is one Obsidian recognizes. Returns an error message, or null if it is valid.
+ */
+export function validateTag(tag: string): string | null {
+  const name = normalizeTag(tag);
+  if (!name) return "Tag is empty";
+  if (!TAG_CHARS.test(name)) return `Tags can only contain letters, numbers, _, - and /: #${name}`;
+  if (name.split("/").some((part) => part === "")) return `Tag has an empty nesting level: #${name}`;
+  if (/^[\d/]+$/.test(name)) return `Tags need at least one non-numeric character: #${name}`;
+  return null;
+}
+
+/**
+ * Build the tag tree from tag counts, such as those of metadataCache.getTags().
+ * Spellings that differ only in case are merged under the most used one, as in Obsidian's tag pane.
+ * Parents that are only used through their subtags are included with a count of 0.
+ */
+export function buildTagTree(counts: Record<string, number>, sortBy: "name" | "count" = "name"): TagNode[] {
+  const spellings = new Map<string, Map<string, number>>();
+  for (const [raw, count] of Object.entries(counts)) {
+    const tag = normalizeTag(raw);
+    if (!tag) continue;
+    const key = tag.toLowerCase();
+    const variants = spellings.get(key) ?? new Map<string, number>();
+    variants.set(tag, (variants.get(tag) ?? 0) + count);
+    spellings.set(key, variants);
+  }
+
+  const nodes = new Map<string, TagNode>();
+  const getNode = (key: string, tag: string): TagNode => {
+    let node = nodes.get(key);
+    if (!node) {
+      node = { tag, count: 0, total: 0, children: [] };
+      nodes.set(key, node);
+    }
+    return node;
+  };
+
+  for (const [key, variants] of spellings) {
+    const ranked = Array.from(variants.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    const node = getNode(key, ranked[0][0]);
+    node.tag = ranked[0][0];
+    node.count = ranked.reduce((sum, [, count]) => sum + count, 0);
+    if (ranked.length > 1) node.variants = ranked.slice(1).map(([tag]) => tag);
+  }
+
+  // Link each tag to its parent, creating parents that are never used on their own.
+  const roots: TagNode[] = [];
+  const linked = new Set<string>();
+  const link = (key: string) => {
+    if (linked.has(key)) return;
+    linked.add(key);
+    const node = nodes.get(key) as TagNode;
+    const slash = key.lastIndexOf("/");
+    if (slash === -1) {
+      roots.push(node);
+      return;
+    }
+    const parentKey = key.slice(0, slash);
+    getNode(parentKey, node.tag.slice(0, slash)).children.push(node);
+    link(parentKey);
+  };
+  Array.from(nodes.keys()).forEach(link);
+
+  const finish = (list: TagNode[]): number => {
+    let sum = 0;
+    for (const node of list) {
+      node.total = node.count + finish(node.children);
+      sum += node.total;
+    }
+    list.sort((a, b) => (sortBy === "count" ? b.total - a.total : 0) || a.tag.localeCompare(b.tag));
+    return sum;
+  };
+  finish(roots);
+  return roots;
+}
+
+/**
+ * Find a tag in the tag tree, ignoring case and a leading #.
+ */
+export function findTagNode(nodes: TagNode[], tag: string): TagNode | null {
+  const wanted = normalizeTag(tag).toLowerCase();
+  for (const node of nodes) {
+    const key = node.tag.toLowerCase();
+    if (key === wanted) return node;
+    if (wanted.startsWith(`${key}/`)) return findTagNode(node.children, wanted);
+  }
+  return null;
+}
+
+/**
+ * Check a note's tags against a tag query. An empty query matches every note.
+ */
+export function matchesTagQuery(tags: string[], query: TagQuery): boolean {
+  if (query.all && !query.all.every((tag) => hasTag(tags, tag))) return false;
+  if (query.any?.length && !query.any.some((tag) => hasTag(tags, tag))) return false;
+  if (query.none && query.none.some((tag) => hasTag(tags, tag))) return false;
+  return true;
+}
+
+/**
+ * Rename a tag if it or one of its parents is renamed, keeping the case of the subtag part.
+ * The first matching rename applies. Returns the new tag without #, or null if no rename applies.
+ */
+export function renameTag(tag: string, renames: TagRename[]): string | null {
+  const name = normalizeTag(tag);
+  const lower = name.toLowerCase();
+  for (const rename of renames) {
+    const from = normalizeTag(rename.from).toLowerCase();
+    if (lower !== from && !lower.startsWith(`${from}/`)) continue;
+
+    // When a tag moves under itself (#a to #a/b), tags already in the new place stay there.
+    const to = normalizeTag(rename.to);
+    const target = to.toLowerCase();
+    if (target.startsWith(`${from}/`) && (lower === target || lower.startsWith(`${target}/`))) return null;
+    return to + name.slice(from.length);
+  }
+  return null;
+}
+
+/**
+ * Rename inline #tags in a note's text. Frontmatter, fenced code and inline code are left alone.
+ */
+export function renameInlineTags(
+  content: string,
+  renames: TagRename[]
+): { content: string; changes: TagLineChange[] } {
+  const lines = content.split("\n");
+  const prose = getProseLines(lines.map((line) => line.replace(/\r$/, "")));
+  const changes: TagLineChange[] = [];
+
+  lines.forEach((line, index) => {
+    if (!prose[index] || !line.includes("#")) return;
+    const code: [number, number][] = [];
+    for (const match of line.matchAll(CODE_SPAN_PATTERN)) {
+      code.push([match.index ?? 0, (match.index ?? 0) + match[0].length]);
+    }
+
+    const after = line.replace(INLINE_TAG_PATTERN, (match, lead: string, tag: string, offset: number) => {
+      if (code.some(([start, end]) => offset >= start && offset < end)) return match;
+      // Numbers such as #123 are not tags.
+      if (/^[\d/]+$/.test(tag)) return match;
+      const renamed = renameTag(tag, renames);
+      return renamed === null ? match : `${lead}#${renamed}`;
+    });
+    if (after !== line) {
+      changes.push({ line: index + 1, before: line.replace(/\r$/, ""), after: after.replace(/\r$/, "") });
+      lines[index] = after;
+    }
+  });
+
+  return { content: lines.join("\n"), changes };
+}
+
+// Rename the tags in a tags property value, merging duplicates. Returns null if nothing changes.
+function renamePropertyTags(value: unknown, renames: TagRename[]): unknown {
+  if (Array.isArray(value)) {
+    let changed = false;
+    const seen = new Set<string>();
+    const result: unknown[] = [];
+    for (const item of value) {
+      if (typeof item !== "string") {
+        result.push(item);
+        continue;
+      }
+      const renamed = renameTag(item, renames);
+      if (renamed !== null) changed = true;
+      const tag = renamed === null ? item : `${item.trim().startsWith("#") ? "#" : ""}${renamed}`;
+      // Drop a tag that duplicates one already listed, such as after a merge.
+      const key = normalizeTag(tag).toLowerCase();
+      if (seen.has(key)) {
+        changed = true;
+        continue;
+      }
+      seen.add(key);
+      result.push(tag);
+    }
+    return changed ? result : null;
+  }
+
+  if (typeof value === "string") {
+    const tokens = value.split(/[,\s]+/).filter((token) => token.length > 0);
+    const renamed = renamePropertyTags(tokens, renames) as string[] | null;
+    return renamed === null ? null : renamed.join(value.includes(",") ? ", " : " ");
+  }
+  return null;
+}
+
+/**
+ * Work out how renaming tags would change the `tags` (or legacy `tag`) property, without modifying it.
+ */
+export function planFrontmatterTagRename(
+  frontmatter: Record<string, unknown> | undefined,
+  renames: TagRename[]
+): PropertyChange[] {
+  const changes: PropertyChange[] = [];
+  for (const key of ["tags", "tag"]) {
+    if (!frontmatter || !(key in frontmatter)) continue;
+    const after = renamePropertyTags(frontmatter[key], renames);
+    if (after !== null) changes.push({ key, action: "set", before: frontmatter[key], after });
+  }
+  return changes;
+}
+
+/**
+ * Rename tags in a frontmatter object in place and return the changes made.
+ * Intended to run inside fileManager.processFrontMatter().
+ */
+export function applyFrontmatterTagRename(
+  frontmatter: Record<string, unknown>,
+  renames: TagRename[]
+): PropertyChange[] {
+  const changes = planFrontmatterTagRename(frontmatter, renames);
+  for (const change of changes) frontmatter[change.key] = change.after;
+  return changes;
+}
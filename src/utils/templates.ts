@@ -0,0 +1,126 @@
+// Pure utility functions for finding templates and filling in template variables.
+// Dates are formatted by a callback (moment in the plugin) so the substitution rules can be tested without Obsidian.
+
+import { isPathInFolder, normalizeVaultPath } from "./pathUtils";
+
+/**
+ * Format the note's date with a moment.js format string, optionally shifted by an amount of a moment unit.
+ */
+export type DateFormatter = (format: string, offset?: { amount: number; unit: string }) => string;
+
+/**
+ * Values for the core template variables.
+ */
+export interface TemplateVariables {
+  // The new note's name, for {{title}}.
+  title: string;
+  formatDate: DateFormatter;
+  // Formats for {{date}} and {{time}} without an explicit format.
+  dateFormat: string;
+  timeFormat: string;
+}
+
+// {{date}}, {{time:HH:mm}}, {{date+1d:YYYY-MM-DD}}, {{title}}, {{yesterday}}, {{tomorrow}}.
+const VARIABLE_PATTERN =
+  /{{\s*(date|time|title|yesterday|tomorrow)\s*(?:([+-]\d+)\s*([yqmwdhs]))?\s*(?::(.*?))?\s*}}/gi;
+
+/**
+ * Fill in the variables supported by Obsidian's core Templates and Daily notes plugins:
+ * {{title}}, {{date}}, {{time}}, {{yesterday}} and {{tomorrow}}. Dates and times take an optional offset and
+ * moment.js format, e.g. {{date-7d:YYYY-MM-DD}}. Other text, including unknown variables, is left as is.
+ */
+export function renderTemplateVariables(content: string, variables: TemplateVariables): string {
+  return content.replace(VARIABLE_PATTERN, (_match, name: string, amount?: string, unit?: string, format?: string) => {
+    const offset = amount && unit ? { amount: Number(amount), unit } : undefined;
+    switch (name.toLowerCase()) {
+      case "title":
+        return variables.title;
+      case "date":
+        return variables.formatDate(format?.trim() || variables.dateFormat, offset);
+      case "time":
+        return variables.formatDate(format?.trim() || variables.timeFormat, offset);
+      case "yesterday":
+        return variables.formatDate(variables.dateFormat, { amount: -1, unit: "d" });
+      default:
+        return variables.formatDate(variables.dateFormat, { amount: 1, unit: "d" });
+    }
+  });
+}
+
+/**
+ * Get the template folders configured in the core Templates plugin and Templater, without duplicates.
+ */
+export function getTemplateFolders(
+  coreOptions: Record<string, unknown> | undefined,
+  templaterSettings: Record<string, unknown> | undefined
+): string[] {
+  const folders = [coreOptions?.folder, templaterSettings?.templates_folder]
+    .filter((folder): folder is string => typeof folder === "string")
+    .map((folder) => normalizeVaultPath(folder))
+    .filter((folder) => folder.length > 0);
+  return Array.from(new Set(folders));
+}
+
+/**
+ * A template note, named by its path within its template folder.
+ */
+export interface TemplateEntry {
+  name: string;
+  path: string;
+}
+
+/**
+ * List the markdown notes in the template folders, sorted by name.
+ */
+export function listTemplates(paths: string[], folders: string[]): TemplateEntry[] {
+  const templates: TemplateEntry[] = [];
+  for (const path of paths) {
+    if (!path.toLowerCase().endsWith(".md")) continue;
+    const folder = folders.find((candidate) => isPathInFolder(path, candidate));
+    if (folder === undefined) continue;
+    templates.push({ name: path.slice(folder.length + 1, -3), path });
+  }
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Find a template by vault path, by path within a template folder, or by name ("Meeting" for
+ * "Templates/Work/Meeting.md"). Returns an error message if no template or more than one matches.
+ */
+export function findTemplate(paths: string[], folders: string[], template: string): { path: string } | string {
+  const wanted = normalizeVaultPath(template).replace(/\.md$/i, "");
+  if (!wanted) return "Template name is empty";
+
+  const existing = new Set(paths);
+  const candidates = [wanted, ...folders.map((folder) => `${folder}/${wanted}`)];
+  for (const candidate of candidates) {
+    if (existing.has(`${candidate}.md`)) return { path: `${candidate}.md` };
+  }
+
+  const lower = wanted.toLowerCase();
+  const matches = listTemplates(paths, folders).filter((entry) => {
+    const name = entry.name.toLowerCase();
+    return name === lower || name.endsWith(`/${lower}`);
+  });
+  if (matches.length === 1) return { path: matches[0].path };
+  if (matches.length > 1) {
+    return `"${template}" matches ${matches.length} templates (${matches.map((m) => m.path).join(", ")}); use its path`;
+  }
+  return folders.length > 0
+    ? `Template not found: ${template} (looked in ${folders.join(", ")})`
+    : `Template not found: ${template} (no templates folder is configured)`;
+}
+
+/**
+ * Check if a template uses Templater commands (<% ... %>).
+ */
+export function hasTemplaterSyntax(content: string): boolean {
+  return /<%[\s\S]*?%>/.test(content);
+}
+
+/**
+ * Check if text contains core template variables, so rendering it would change something.
+ */
+export function hasTemplateVariables(content: string): boolean {
+  return new RegExp(VARIABLE_PATTERN.source, "i").test(content);
+}
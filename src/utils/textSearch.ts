@@ -0,0 +1,488 @@
+// Pure utility functions for full-text search: query parsing, an incremental BM25 index and snippets.
+// The index keeps term counts only, so phrases are checked against note text by the caller.
+
+/**
+ * Fields of a note that are indexed separately, so a match in the title counts for more than one in the body.
+ */
+export const SEARCH_FIELDS = ["title", "headings", "tags", "body"] as const;
+
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+// How much an occurrence in each field counts relative to one in the body.
+const FIELD_WEIGHTS: Record<SearchField, number> = { title: 4, headings: 2, tags: 2, body: 1 };
+
+// BM25 term frequency saturation and length normalization.
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// A prefix term (plan*) matches at most this many indexed terms, the most common first.
+const MAX_PREFIX_TERMS = 50;
+
+// Longest snippet, in characters, and how much text to keep before the first match in a long line.
+const SNIPPET_CHARS = 200;
+const SNIPPET_LEAD_CHARS = 60;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Split text into lowercase search terms (runs of letters and digits).
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+}
+
+/**
+ * A parsed search query.
+ */
+export type SearchQuery =
+  | { type: "term"; term: string; prefix: boolean }
+  | { type: "phrase"; terms: string[] }
+  | { type: "and"; children: SearchQuery[] }
+  | { type: "or"; children: SearchQuery[] }
+  | { type: "not"; child: SearchQuery };
+
+type QueryToken =
+  | { kind: "open" | "close" | "or" | "and" | "not" }
+  | { kind: "phrase"; text: string }
+  | { kind: "word"; text: string };
+
+// Split a query into parentheses, quoted phrases, exclusions (-word) and words.
+function lexQuery(query: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  const pattern = /\s*(?:(\()|(\))|"([^"]*)"?|(-)(?=\S)|([^\s()"]+))/y;
+  let match: RegExpExecArray | null;
+  while (pattern.lastIndex < query.length && (match = pattern.exec(query))) {
+    if (match[1]) tokens.push({ kind: "open" });
+    else if (match[2]) tokens.push({ kind: "close" });
+    else if (match[3] !== undefined) tokens.push({ kind: "phrase", text: match[3] });
+    else if (match[4]) tokens.push({ kind: "not" });
+    else if (match[5] === "OR" || match[5] === "|") tokens.push({ kind: "or" });
+    else if (match[5] === "AND") tokens.push({ kind: "and" });
+    else if (match[5] === "NOT") tokens.push({ kind: "not" });
+    else if (match[5]) tokens.push({ kind: "word", text: match[5] });
+    if (match[0].length === 0) break;
+  }
+  return tokens;
+}
+
+// Turn a quoted phrase or a word into a query node, or null if it has no searchable characters.
+// Words that split into several terms, such as "e-mail", are searched as phrases.
+function toTextNode(text: string, quoted: boolean): SearchQuery | null {
+  const prefix = !quoted && text.endsWith("*");
+  const terms = tokenize(prefix ? text.slice(0, -1) : text);
+  if (terms.length === 0) return null;
+  if (terms.length === 1) return { type: "term", term: terms[0], prefix };
+  return { type: "phrase", terms };
+}
+
+// Whether a query has anything to look for outside an exclusion.
+function hasPositiveTerm(node: SearchQuery, negated = false): boolean {
+  switch (node.type) {
+    case "term":
+    case "phrase":
+      return !negated;
+    case "not":
+      return hasPositiveTerm(node.child, !negated);
+    default:
+      return node.children.some((child) => hasPositiveTerm(child, negated));
+  }
+}
+
+/**
+ * Parse a search query. Words must all match; `OR` (or `|`) matches either side; `-word` or `NOT word` excludes;
+ * `"quoted text"` matches a phrase; `plan*` matches words starting with "plan"; parentheses group.
+ * Returns an error message if the query can't be parsed or only excludes.
+ */
+export function parseSearchQuery(query: string): SearchQuery | string {
+  const tokens = lexQuery(query.trim());
+  let index = 0;
+
+  const parseOr = (): SearchQuery | null | string => {
+    const children: SearchQuery[] = [];
+    for (;;) {
+      const child = parseAnd();
+      if (typeof child === "string") return child;
+      if (child) children.push(child);
+      if (tokens[index]?.kind !== "or") break;
+      index++;
+      if (!child) return "OR needs a search term on both sides";
+    }
+    if (tokens[index - 1]?.kind === "or") return "OR needs a search term on both sides";
+    if (children.length <= 1) return children[0] ?? null;
+    return { type: "or", children };
+  };
+
+  const parseAnd = (): SearchQuery | null | string => {
+    const children: SearchQuery[] = [];
+    while (index < tokens.length && tokens[index].kind !== "or" && tokens[index].kind !== "close") {
+      if (tokens[index].kind === "and") {
+        index++;
+        continue;
+      }
+      const child = parseUnary();
+      if (typeof child === "string") return child;
+      if (child) children.push(child);
+    }
+    if (children.length <= 1) return children[0] ?? null;
+    return { type: "and", children };
+  };
+
+  const parseUnary = (): SearchQuery | null | string => {
+    const token = tokens[index++];
+    switch (token.kind) {
+      case "not": {
+        if (index >= tokens.length) return "Exclusion needs a search term after it";
+        const child = parseUnary();
+        if (typeof child === "string" || !child) return child;
+        return { type: "not", child };
+      }
+      case "open": {
+        const inner = parseOr();
+        if (typeof inner === "string") return inner;
+        if (tokens[index]?.kind !== "close") return "Unmatched parenthesis in query";
+        index++;
+        return inner;
+      }
+      case "phrase":
+        return toTextNode(token.text, true);
+      case "word":
+        return toTextNode(token.text, false);
+      default:
+        // Reached for an operator with nothing before it, such as "NOT OR".
+        return `Misplaced ${token.kind === "close" ? ")" : token.kind.toUpperCase()} in query`;
+    }
+  };
+
+  const root = parseOr();
+  if (typeof root === "string") return root;
+  if (index < tokens.length) return "Unmatched parenthesis in query";
+  if (!root) return "Query is empty";
+  if (!hasPositiveTerm(root)) return "Query only excludes terms; add a word or phrase to search for";
+  return root;
+}
+
+/**
+ * Check if a query contains phrases, which the index can only approximate (it checks each word is present).
+ */
+export function queryHasPhrases(node: SearchQuery): boolean {
+  switch (node.type) {
+    case "term":
+      return false;
+    case "phrase":
+      return true;
+    case "not":
+      return queryHasPhrases(node.child);
+    default:
+      return node.children.some(queryHasPhrases);
+  }
+}
+
+// Collect the words and phrases a query looks for, leaving out excluded ones.
+function collectPositive(node: SearchQuery, negated = false, found: SearchQuery[] = []): SearchQuery[] {
+  switch (node.type) {
+    case "term":
+    case "phrase":
+      if (!negated) found.push(node);
+      break;
+    case "not":
+      collectPositive(node.child, !negated, found);
+      break;
+    default:
+      for (const child of node.children) collectPositive(child, negated, found);
+  }
+  return found;
+}
+
+// Check if a term sequence occurs in a list of tokens.
+function containsSequence(tokens: string[], terms: string[]): boolean {
+  for (let start = 0; start + terms.length <= tokens.length; start++) {
+    if (terms.every((term, offset) => tokens[start + offset] === term)) return true;
+  }
+  return false;
+}
+
+/**
+ * Check exactly whether a note matches a query, given the text of each of its fields.
+ * Phrases must occur within one field.
+ */
+export function matchesQuery(node: SearchQuery, fieldTexts: string[]): boolean {
+  const fieldTokens = fieldTexts.map(tokenize);
+  const matches = (current: SearchQuery): boolean => {
+    switch (current.type) {
+      case "term":
+        return fieldTokens.some((tokens) =>
+          tokens.some((token) => (current.prefix ? token.startsWith(current.term) : token === current.term))
+        );
+      case "phrase":
+        return fieldTokens.some((tokens) => containsSequence(tokens, current.terms));
+      case "not":
+        return !matches(current.child);
+      case "and":
+        return current.children.every(matches);
+      default:
+        return current.children.some(matches);
+    }
+  };
+  return matches(node);
+}
+
+/**
+ * A note to index, with the text of each field.
+ */
+export type SearchDocument = { path: string } & Record<SearchField, string>;
+
+/**
+ * A note matching a query.
+ */
+export interface SearchMatch {
+  path: string;
+  score: number;
+  // Fields where a searched word occurs.
+  fields: SearchField[];
+}
+
+interface IndexedNote {
+  // Number of terms in each field, in SEARCH_FIELDS order.
+  lengths: number[];
+  // Occurrences of each term in each field.
+  counts: Map<string, number[]>;
+}
+
+/**
+ * In-memory inverted index of notes, ranked with BM25 across weighted fields.
+ * Notes can be added, replaced and removed one at a time as the vault changes.
+ */
+export class SearchIndex {
+  private notes = new Map<string, IndexedNote>();
+  private postings = new Map<string, Set<string>>();
+  private totalLengths = SEARCH_FIELDS.map(() => 0);
+
+  /**
+   * Number of indexed notes.
+   */
+  get size(): number {
+    return this.notes.size;
+  }
+
+  /**
+   * Check if a note is indexed.
+   */
+  has(path: string): boolean {
+    return this.notes.has(path);
+  }
+
+  /**
+   * Paths of the indexed notes.
+   */
+  paths(): string[] {
+    return Array.from(this.notes.keys());
+  }
+
+  /**
+   * Add a note, replacing any earlier version of it.
+   */
+  set(document: SearchDocument): void {
+    this.remove(document.path);
+
+    const counts = new Map<string, number[]>();
+    const lengths = SEARCH_FIELDS.map((field, fieldIndex) => {
+      const terms = tokenize(document[field]);
+      for (const term of terms) {
+        let termCounts = counts.get(term);
+        if (!termCounts) {
+          termCounts = SEARCH_FIELDS.map(() => 0);
+          counts.set(term, termCounts);
+        }
+        termCounts[fieldIndex]++;
+      }
+      this.totalLengths[fieldIndex] += terms.length;
+      return terms.length;
+    });
+
+    for (const term of counts.keys()) {
+      let paths = this.postings.get(term);
+      if (!paths) {
+        paths = new Set();
+        this.postings.set(term, paths);
+      }
+      paths.add(document.path);
+    }
+    this.notes.set(document.path, { lengths, counts });
+  }
+
+  /**
+   * Remove a note. Does nothing if it isn't indexed.
+   */
+  remove(path: string): void {
+    const note = this.notes.get(path);
+    if (!note) return;
+
+    for (const term of note.counts.keys()) {
+      const paths = this.postings.get(term);
+      paths?.delete(path);
+      if (paths?.size === 0) this.postings.delete(term);
+    }
+    note.lengths.forEach((length, fieldIndex) => (this.totalLengths[fieldIndex] -= length));
+    this.notes.delete(path);
+  }
+
+  /**
+   * Find the notes matching a query, best first. Phrases match notes containing all their words,
+   * so callers should check them with matchesQuery(). include limits the notes searched.
+   */
+  search(query: SearchQuery, include?: (path: string) => boolean): SearchMatch[] {
+    const candidates = this.match(query) ?? new Set(this.notes.keys());
+    const terms = this.expandTerms(collectPositive(query));
+
+    const matches: SearchMatch[] = [];
+    for (const path of candidates) {
+      if (include && !include(path)) continue;
+      const note = this.notes.get(path);
+      if (!note) continue;
+      const fields = new Set<SearchField>();
+      let score = 0;
+      for (const term of terms) {
+        const counts = note.counts.get(term);
+        if (counts) score += this.scoreTerm(term, counts, note, fields);
+      }
+      matches.push({ path, score, fields: SEARCH_FIELDS.filter((field) => fields.has(field)) });
+    }
+    return matches.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+  }
+
+  // BM25 score of one term in a note, with each field's term frequency weighted and normalized by its length.
+  private scoreTerm(term: string, counts: number[], note: IndexedNote, fields: Set<SearchField>): number {
+    let frequency = 0;
+    SEARCH_FIELDS.forEach((field, fieldIndex) => {
+      if (counts[fieldIndex] === 0) return;
+      fields.add(field);
+      const averageLength = this.totalLengths[fieldIndex] / this.notes.size || 1;
+      const normalization = 1 - BM25_B + (BM25_B * note.lengths[fieldIndex]) / averageLength;
+      frequency += (FIELD_WEIGHTS[field] * counts[fieldIndex]) / normalization;
+    });
+    const documentFrequency = this.postings.get(term)?.size ?? 0;
+    const idf = Math.log(1 + (this.notes.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+    return (idf * frequency * (BM25_K1 + 1)) / (frequency + BM25_K1);
+  }
+
+  // The indexed terms a list of words and phrases stands for, expanding prefixes.
+  private expandTerms(nodes: SearchQuery[]): string[] {
+    const terms = new Set<string>();
+    for (const node of nodes) {
+      if (node.type === "phrase") node.terms.forEach((term) => terms.add(term));
+      else if (node.type === "term" && node.prefix) this.getPrefixTerms(node.term).forEach((term) => terms.add(term));
+      else if (node.type === "term") terms.add(node.term);
+    }
+    return Array.from(terms);
+  }
+
+  private getPrefixTerms(prefix: string): string[] {
+    return Array.from(this.postings.keys())
+      .filter((term) => term.startsWith(prefix))
+      .sort((a, b) => (this.postings.get(b)?.size ?? 0) - (this.postings.get(a)?.size ?? 0))
+      .slice(0, MAX_PREFIX_TERMS);
+  }
+
+  // The notes that may match a query node, or null for every note.
+  private match(node: SearchQuery): Set<string> | null {
+    switch (node.type) {
+      case "term": {
+        const terms = node.prefix ? this.getPrefixTerms(node.term) : [node.term];
+        const paths = new Set<string>();
+        for (const term of terms) this.postings.get(term)?.forEach((path) => paths.add(path));
+        return paths;
+      }
+      case "phrase":
+        return intersect(node.terms.map((term) => this.postings.get(term) ?? new Set<string>()));
+      case "not": {
+        // A note missing one word of a phrase can't contain it, but one with every word might not either,
+        // so excluded phrases are left to the exact check.
+        if (queryHasPhrases(node.child)) return null;
+        const excluded = this.match(node.child);
+        if (!excluded) return new Set();
+        return new Set(Array.from(this.notes.keys()).filter((path) => !excluded.has(path)));
+      }
+      case "and": {
+        const sets = node.children
+          .map((child) => this.match(child))
+          .filter((set): set is Set<string> => set !== null);
+        return sets.length > 0 ? intersect(sets) : null;
+      }
+      default: {
+        const paths = new Set<string>();
+        for (const child of node.children) {
+          const set = this.match(child);
+          if (!set) return null;
+          set.forEach((path) => paths.add(path));
+        }
+        return paths;
+      }
+    }
+  }
+}
+
+// Intersect sets, starting from the smallest.
+function intersect(sets: Set<string>[]): Set<string> {
+  const [smallest, ...rest] = [...sets].sort((a, b) => a.size - b.size);
+  return new Set(Array.from(smallest).filter((path) => rest.every((set) => set.has(path))));
+}
+
+/**
+ * A line of a note that matches a query, with matches in **bold**.
+ */
+export interface SearchSnippet {
+  // One-based line number.
+  line: number;
+  text: string;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Build a pattern matching the words and phrases a query looks for, as whole words.
+function buildHighlightPattern(query: SearchQuery): RegExp | null {
+  const sources = collectPositive(query)
+    .map((node) => {
+      if (node.type === "phrase") return node.terms.map(escapeRegExp).join("[^\\p{L}\\p{N}]+") + "(?![\\p{L}\\p{N}])";
+      if (node.type !== "term") return "";
+      return escapeRegExp(node.term) + (node.prefix ? "[\\p{L}\\p{N}]*" : "(?![\\p{L}\\p{N}])");
+    })
+    .filter((source) => source.length > 0)
+    // Longer alternatives first, so a phrase is highlighted as a whole rather than word by word.
+    .sort((a, b) => b.length - a.length);
+  if (sources.length === 0) return null;
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${sources.join("|")})`, "giu");
+}
+
+/**
+ * Get the lines of a note that best match a query: those matching the most different words, in note order.
+ * Long lines are cut around their first match.
+ */
+export function buildSnippets(content: string, query: SearchQuery, maxSnippets: number): SearchSnippet[] {
+  const pattern = buildHighlightPattern(query);
+  if (!pattern || maxSnippets <= 0) return [];
+
+  const candidates: { index: number; distinct: number; first: number }[] = [];
+  content.split("\n").forEach((line, index) => {
+    const found = Array.from(line.matchAll(pattern));
+    if (found.length === 0) return;
+    const distinct = new Set(found.map((match) => match[0].toLowerCase())).size;
+    candidates.push({ index, distinct, first: found[0].index ?? 0 });
+  });
+
+  const lines = content.split("\n");
+  return candidates
+    .sort((a, b) => b.distinct - a.distinct || a.index - b.index)
+    .slice(0, maxSnippets)
+    .sort((a, b) => a.index - b.index)
+    .map(({ index, first }) => {
+      const line = lines[index].replace(/\r$/, "");
+      let text = line.trim();
+      if (line.length > SNIPPET_CHARS) {
+        const start = Math.max(0, Math.min(first - SNIPPET_LEAD_CHARS, line.length - SNIPPET_CHARS));
+        text = line.slice(start, start + SNIPPET_CHARS).trim();
+        if (start > 0) text = `…${text}`;
+        if (start + SNIPPET_CHARS < line.length) text = `${text}…`;
+      }
+      return { line: index + 1, text: text.replace(pattern, (match) => `**${match}**`) };
+    });
+}
@@ -54,6 +54,9 @@ export function getToolInputSummary(name: string, input: Record<string, unknown>
   if (input.path) {
     return String(input.path).split("/").pop() || "";
   }
+  if (Array.isArray(input.paths)) {
+    return `${input.paths.length} files`;
+  }
   if (input.pattern) {
     return String(input.pattern);
   }
@@ -0,0 +1,370 @@
+// Pure utility functions for the vault health report: orphans, broken links, duplicates, stubs and unused files.
+// The agent layer gathers links from metadataCache and note text from the vault; everything here works on plain data.
+
+import type { LinkMap } from "./linkGraph";
+import { hashText } from "./embeddings";
+import { tokenize } from "./textSearch";
+
+/**
+ * Checks the health report can run.
+ */
+export const HEALTH_CHECKS = ["orphans", "brokenLinks", "duplicates", "emptyNotes", "unusedAttachments"] as const;
+
+export type HealthCheck = (typeof HEALTH_CHECKS)[number];
+
+/**
+ * Where a link that doesn't resolve appears.
+ */
+export interface BrokenLinkSource {
+  path: string;
+  // One-based line of a link in the note's text, or the property holding a frontmatter link.
+  line?: number;
+  property?: string;
+  link: string;
+}
+
+/**
+ * A link target that doesn't exist, and everywhere it is linked from.
+ */
+export interface BrokenLink {
+  target: string;
+  sources: BrokenLinkSource[];
+}
+
+/**
+ * Notes whose names differ only in case, punctuation or a copy suffix.
+ */
+export interface DuplicateTitles {
+  title: string;
+  paths: string[];
+}
+
+/**
+ * Two notes with mostly the same text, and an estimate of how much (0 to 1).
+ */
+export interface SimilarNotes {
+  paths: [string, string];
+  similarity: number;
+}
+
+/**
+ * A note with almost no text.
+ */
+export interface StubNote {
+  path: string;
+  words: number;
+}
+
+/**
+ * An attachment nothing links to or embeds.
+ */
+export interface UnusedAttachment {
+  path: string;
+  size: number;
+}
+
+/**
+ * The health report. Each list is sorted and cut to the report's limit; summary has the full counts.
+ */
+export interface VaultHealthReport {
+  generated: string;
+  // Folder the report covers, or "" for the whole vault.
+  folder: string;
+  summary: {
+    notes: number;
+    attachments: number;
+    orphans?: number;
+    brokenLinks?: number;
+    duplicateTitles?: number;
+    similarNotes?: number;
+    emptyNotes?: number;
+    stubNotes?: number;
+    unusedAttachments?: number;
+  };
+  orphans?: string[];
+  brokenLinks?: BrokenLink[];
+  duplicateTitles?: DuplicateTitles[];
+  similarNotes?: SimilarNotes[];
+  emptyNotes?: string[];
+  stubNotes?: StubNote[];
+  unusedAttachments?: UnusedAttachment[];
+}
+
+// Number of hashes in a MinHash signature, and the bands they are split into to find candidate pairs.
+const MINHASH_SIZE = 32;
+const MINHASH_BANDS = 8;
+
+// Words per shingle when comparing note text.
+const SHINGLE_WORDS = 3;
+
+// Multipliers and offsets of the hash functions in a signature, from a fixed seed so reports are repeatable.
+const MINHASH_SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => ({
+  a: (hashText(`a${i}`) | 1) >>> 0,
+  b: hashText(`b${i}`),
+}));
+
+/**
+ * Find notes with no links to other notes or files and no links from them.
+ * referenced holds paths linked from outside resolvedLinks, such as canvas file nodes.
+ */
+export function findOrphans(paths: string[], resolved: LinkMap, referenced: Set<string> = new Set()): string[] {
+  const linked = new Set<string>(referenced);
+  for (const [source, targets] of Object.entries(resolved)) {
+    for (const target of Object.keys(targets)) {
+      if (target === source) continue;
+      linked.add(source);
+      linked.add(target);
+    }
+  }
+  return paths.filter((path) => !linked.has(path)).sort();
+}
+
+/**
+ * Find files no note links to or embeds, and that aren't in referenced.
+ */
+export function findUnreferencedFiles(
+  paths: string[],
+  resolved: LinkMap,
+  referenced: Set<string> = new Set()
+): string[] {
+  const targets = new Set<string>(referenced);
+  for (const links of Object.values(resolved)) {
+    for (const target of Object.keys(links)) targets.add(target);
+  }
+  return paths.filter((path) => !targets.has(path)).sort();
+}
+
+/**
+ * Group broken link locations by target, most linked first.
+ */
+export function groupBrokenLinks(links: (BrokenLinkSource & { target: string })[]): BrokenLink[] {
+  const groups = new Map<string, BrokenLinkSource[]>();
+  for (const { target, ...source } of links) {
+    const sources = groups.get(target) ?? [];
+    sources.push(source);
+    groups.set(target, sources);
+  }
+  return Array.from(groups.entries())
+    .map(([target, sources]) => ({ target, sources }))
+    .sort((a, b) => b.sources.length - a.sources.length || a.target.localeCompare(b.target));
+}
+
+/**
+ * Reduce a note name to what identifies it: lowercased, without punctuation or a copy suffix
+ * such as "copy" or "(2)". Numbers are kept, so "Chapter 1" and "Chapter 2" stay apart.
+ */
+export function normalizeTitle(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\s*(?:\(\d+\)|[-_ ]copy(?:\s*\d+)?)$/, "")
+    .replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+/**
+ * Find notes whose names normalize to the same title.
+ */
+export function findDuplicateTitles(paths: string[]): DuplicateTitles[] {
+  const groups = new Map<string, string[]>();
+  for (const path of paths) {
+    const name = path.slice(path.lastIndexOf("/") + 1).replace(/\.md$/, "");
+    const title = normalizeTitle(name);
+    if (!title) continue;
+    const group = groups.get(title) ?? [];
+    group.push(path);
+    groups.set(title, group);
+  }
+  return Array.from(groups.entries())
+    .filter(([, group]) => group.length > 1)
+    .map(([title, group]) => ({ title, paths: group.sort() }))
+    .sort((a, b) => b.paths.length - a.paths.length || a.title.localeCompare(b.title));
+}
+
+/**
+ * Get a note's text after any frontmatter.
+ */
+export function getNoteBody(content: string): string {
+  const match = content.match(/^---\r?\n[\s\S]*?\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/);
+  return match ? content.slice(match[0].length) : content;
+}
+
+/**
+ * Count the words of a note's body. Frontmatter and markdown syntax don't count.
+ */
+export function countWords(content: string): number {
+  return tokenize(getNoteBody(content)).length;
+}
+
+/**
+ * Compute a MinHash signature of a note's body from its word shingles, for estimating how similar
+ * two notes are without comparing their text. Returns null for notes with fewer than minWords words.
+ */
+export function minHashSignature(content: string, minWords: number): Uint32Array | null {
+  const words = tokenize(getNoteBody(content));
+  if (words.length < Math.max(minWords, SHINGLE_WORDS)) return null;
+
+  const signature = new Uint32Array(MINHASH_SIZE).fill(0xffffffff);
+  for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) {
+    const shingle = hashText(words.slice(i, i + SHINGLE_WORDS).join(" "));
+    for (let h = 0; h < MINHASH_SIZE; h++) {
+      const value = (Math.imul(shingle, MINHASH_SEEDS[h].a) + MINHASH_SEEDS[h].b) >>> 0;
+      if (value < signature[h]) signature[h] = value;
+    }
+  }
+  return signature;
+}
+
+// Share of positions where two signatures agree, which estimates the Jaccard similarity of the shingles.
+function estimateSimilarity(a: Uint32Array, b: Uint32Array): number {
+  let same = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i]) same++;
+  return same / a.length;
+}
+
+/**
+ * Find pairs of notes whose estimated similarity is at least threshold, most similar first.
+ * Candidates are notes sharing a band of their signatures, so not every pair is compared.
+ */
+export function findSimilarNotes(
+  notes: { path: string; signature: Uint32Array }[],
+  threshold: number
+): SimilarNotes[] {
+  const rows = MINHASH_SIZE / MINHASH_BANDS;
+  const buckets = new Map<string, number[]>();
+  notes.forEach((note, index) => {
+    for (let band = 0; band < MINHASH_BANDS; band++) {
+      const key = `${band}:${Array.from(note.signature.subarray(band * rows, (band + 1) * rows)).join(",")}`;
+      const bucket = buckets.get(key) ?? [];
+      bucket.push(index);
+      buckets.set(key, bucket);
+    }
+  });
+
+  const seen = new Set<string>();
+  const pairs: SimilarNotes[] = [];
+  for (const members of buckets.values()) {
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const key = `${members[i]}:${members[j]}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const a = notes[members[i]];
+        const b = notes[members[j]];
+        const similarity = estimateSimilarity(a.signature, b.signature);
+        if (similarity < threshold) continue;
+        const paths = [a.path, b.path].sort() as [string, string];
+        pairs.push({ paths, similarity: Math.round(similarity * 100) / 100 });
+      }
+    }
+  }
+  return pairs.sort((a, b) => b.similarity - a.similarity || a.paths[0].localeCompare(b.paths[0]));
+}
+
+// Link to a vault file, without the .md of notes.
+function wikilink(path: string): string {
+  return `[[${path.replace(/\.md$/, "")}]]`;
+}
+
+// Describe how many items a section lists when the limit cut it short.
+function listedOf(listed: number, total: number | undefined): string {
+  return total !== undefined && total > listed ? ` (showing ${listed} of ${total})` : "";
+}
+
+/**
+ * Format a health report as a markdown note, linking every note and attachment so they can be opened from it.
+ */
+export function formatVaultHealthMarkdown(report: VaultHealthReport): string {
+  const { summary } = report;
+  const lines = [
+    "# Vault health",
+    "",
+    `Generated ${report.generated} for ${report.folder ? `\`${report.folder}\`` : "the whole vault"}: ` +
+      `${summary.notes} notes and ${summary.attachments} attachments.`,
+    "",
+  ];
+  const section = (title: string, listed: number, total: number | undefined, items: string[], empty: string) => {
+    lines.push(`## ${title}${listedOf(listed, total)}`, "");
+    lines.push(...(items.length > 0 ? items : [empty]), "");
+  };
+
+  if (report.orphans) {
+    section(
+      "Orphan notes",
+      report.orphans.length,
+      summary.orphans,
+      report.orphans.map((path) => `- ${wikilink(path)}`),
+      "No orphan notes."
+    );
+  }
+  if (report.brokenLinks) {
+    section(
+      "Broken links",
+      report.brokenLinks.length,
+      summary.brokenLinks,
+      report.brokenLinks.flatMap((broken) => [
+        `- \`${broken.target}\``,
+        ...broken.sources.map((source) => {
+          const where = source.property ? `property \`${source.property}\`` : source.line ? `line ${source.line}` : "";
+          return `  - ${wikilink(source.path)}${where ? ` (${where})` : ""}`;
+        }),
+      ]),
+      "No broken links."
+    );
+  }
+  if (report.duplicateTitles) {
+    section(
+      "Duplicate titles",
+      report.duplicateTitles.length,
+      summary.duplicateTitles,
+      report.duplicateTitles.map((group) => `- ${group.paths.map(wikilink).join(", ")}`),
+      "No duplicate titles."
+    );
+  }
+  if (report.similarNotes) {
+    section(
+      "Similar content",
+      report.similarNotes.length,
+      summary.similarNotes,
+      report.similarNotes.map((pair) => {
+        const [first, second] = pair.paths.map(wikilink);
+        return `- ${first} and ${second}: ${Math.round(pair.similarity * 100)}% alike`;
+      }),
+      "No notes with similar content."
+    );
+  }
+  if (report.emptyNotes) {
+    section(
+      "Empty notes",
+      report.emptyNotes.length,
+      summary.emptyNotes,
+      report.emptyNotes.map((path) => `- ${wikilink(path)}`),
+      "No empty notes."
+    );
+  }
+  if (report.stubNotes) {
+    section(
+      "Stub notes",
+      report.stubNotes.length,
+      summary.stubNotes,
+      report.stubNotes.map((stub) => `- ${wikilink(stub.path)} (${stub.words} ${stub.words === 1 ? "word" : "words"})`),
+      "No stub notes."
+    );
+  }
+  if (report.unusedAttachments) {
+    section(
+      "Unused attachments",
+      report.unusedAttachments.length,
+      summary.unusedAttachments,
+      report.unusedAttachments.map((file) => `- ${wikilink(file.path)} (${formatSize(file.size)})`),
+      "No unused attachments."
+    );
+  }
+
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+// Format a file size for people.
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
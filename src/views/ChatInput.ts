@@ -172,7 +172,7 @@ export class ChatInput {
         this.textareaEl.value = "";
         break;
       case "/search":
-        this.textareaEl.value = "Search the vault for: ";
+        this.textareaEl.value = "Search the vault with search_notes for: ";
         break;
       case "/context":
         this.textareaEl.value = "Show me the current context and files being used.";
@@ -1,16 +1,27 @@
 import { ItemView, WorkspaceLeaf, setIcon, Menu, ViewStateResult } from "obsidian";
-import { CHAT_VIEW_TYPE, ChatMessage, ToolCall, Conversation, ErrorType } from "../types";
+import { CHAT_VIEW_TYPE, ChatMessage, ToolCall, Conversation, ErrorType, PermissionMode } from "../types";
 import type ClaudeCodePlugin from "../main";
 import { ChatInput } from "./ChatInput";
 import { MessageList } from "./MessageList";
 import { AgentController, classifyError } from "../agent/AgentController";
 import { ConversationManager } from "../agent/ConversationManager";
 import { ConversationHistoryModal } from "./ConversationHistoryModal";
+import { SessionApprovalsModal } from "./SessionApprovalsModal";
 import { logger } from "../utils/Logger";
+import { PERMISSION_MODES, getPermissionModeInfo } from "../utils/permissionModes";
+
+// Header icon for each permission mode.
+const PERMISSION_MODE_ICONS: Record<PermissionMode, string> = {
+  default: "shield",
+  acceptEdits: "file-check",
+  plan: "list-checks",
+  readOnly: "lock",
+};
 
 export class ChatView extends ItemView {
   plugin: ClaudeCodePlugin;
   private headerEl!: HTMLElement;
+  private modeButtonEl: HTMLElement | null = null;
   private messagesContainerEl!: HTMLElement;
   private inputContainerEl!: HTMLElement;
   private messageList!: MessageList;
@@ -52,9 +63,31 @@ export class ChatView extends ItemView {
         this.handleSubagentStart(toolCallId, subagentType, subagentId),
       onSubagentStop: (toolCallId, success, error) =>
         this.handleSubagentStop(toolCallId, success, error),
+
+      // Record permission decisions against the conversation that owns the stream.
+      onPermissionDecision: (entry) => {
+        const conversationId =
+          this.activeStreamConversationId || this.conversationManager.getCurrentConversation()?.id || "unassigned";
+        this.plugin.auditLog?.record({ ...entry, conversationId });
+      },
+      onFileDeleted: (file) => {
+        const conversationId =
+          this.activeStreamConversationId || this.conversationManager.getCurrentConversation()?.id || "unassigned";
+        this.plugin.deletionLog?.record({ ...file, conversationId });
+      },
     });
   }
 
+  // Show and revoke the permissions approved for this view's session.
+  showSessionApprovals() {
+    new SessionApprovalsModal(this.app, this.agentController).open();
+  }
+
+  // Get the conversation shown in this view.
+  getCurrentConversation(): Conversation | null {
+    return this.conversationManager.getCurrentConversation();
+  }
+
   getViewType(): string {
     return CHAT_VIEW_TYPE;
   }
@@ -121,6 +154,7 @@ export class ChatView extends ItemView {
     }
 
     this.renderView();
+    this.syncPermissionMode();
   }
 
   async onClose() {
@@ -177,6 +211,11 @@ export class ChatView extends ItemView {
     // Actions section.
     const actionsEl = this.headerEl.createDiv({ cls: "claude-code-header-actions" });
 
+    // Permission mode selector.
+    this.modeButtonEl = actionsEl.createEl("button", { cls: "claude-code-mode-button" });
+    this.modeButtonEl.addEventListener("click", (e) => this.showPermissionModeMenu(e));
+    this.renderModeButton();
+
     // New conversation button.
     const newButton = actionsEl.createEl("button", { attr: { "aria-label": "New Conversation" } });
     setIcon(newButton, "plus");
@@ -192,6 +231,11 @@ export class ChatView extends ItemView {
     setIcon(historyButton, "history");
     historyButton.addEventListener("click", () => this.showHistory());
 
+    // Session approvals button.
+    const approvalsButton = actionsEl.createEl("button", { attr: { "aria-label": "Session Approvals" } });
+    setIcon(approvalsButton, "shield-check");
+    approvalsButton.addEventListener("click", () => this.showSessionApprovals());
+
     // Settings button.
     const settingsButton = actionsEl.createEl("button", { attr: { "aria-label": "Settings" } });
     setIcon(settingsButton, "settings");
@@ -212,6 +256,60 @@ export class ChatView extends ItemView {
     }
   }
 
+  // Get the permission mode of the conversation shown in this view.
+  private getConversationPermissionMode(): PermissionMode {
+    return this.conversationManager.getCurrentConversation()?.permissionMode ?? "default";
+  }
+
+  // Show the current conversation's mode in the header and apply it to the agent.
+  private syncPermissionMode() {
+    this.renderModeButton();
+
+    // A stream running for another conversation keeps its mode until it ends.
+    const currentId = this.conversationManager.getCurrentConversation()?.id;
+    if (this.activeStreamConversationId && this.activeStreamConversationId !== currentId) return;
+
+    this.agentController.setPermissionMode(this.getConversationPermissionMode());
+  }
+
+  private renderModeButton() {
+    if (!this.modeButtonEl) return;
+    const info = getPermissionModeInfo(this.getConversationPermissionMode());
+
+    this.modeButtonEl.empty();
+    this.modeButtonEl.className = `claude-code-mode-button mode-${info.mode}`;
+    this.modeButtonEl.setAttribute("aria-label", `Permission mode: ${info.label}`);
+    setIcon(this.modeButtonEl.createSpan({ cls: "claude-code-mode-icon" }), PERMISSION_MODE_ICONS[info.mode]);
+    this.modeButtonEl.createSpan({ cls: "claude-code-mode-label", text: info.label });
+  }
+
+  private showPermissionModeMenu(e: MouseEvent) {
+    const menu = new Menu();
+    const currentMode = this.getConversationPermissionMode();
+
+    for (const info of PERMISSION_MODES) {
+      menu.addItem((item) => {
+        item.setTitle(`${info.label}: ${info.description}`)
+          .setIcon(info.mode === currentMode ? "check" : PERMISSION_MODE_ICONS[info.mode])
+          .onClick(() => this.setPermissionMode(info.mode));
+      });
+    }
+
+    menu.showAtMouseEvent(e);
+  }
+
+  // Save a new permission mode with the current conversation.
+  private async setPermissionMode(mode: PermissionMode) {
+    // The mode is stored on the conversation, so make sure there is one.
+    if (!this.conversationManager.getCurrentConversation()) {
+      await this.conversationManager.createConversation();
+      this.updateConversationDisplay();
+    }
+
+    await this.conversationManager.updatePermissionMode(mode);
+    this.syncPermissionMode();
+  }
+
   private closeThisWindow() {
     // Detach this leaf to close the window.
     this.leaf.detach();
@@ -321,6 +419,7 @@ export class ChatView extends ItemView {
       // Update tab title and header.
       (this.leaf as any).updateHeader?.();
       this.updateConversationDisplay();
+      this.syncPermissionMode();
       logger.info("ChatView", "loadConversation rendered", { messageCount: this.messages.length });
     } else {
       logger.error("ChatView", "loadConversation failed - conversation not found", { id });
@@ -435,6 +534,7 @@ export class ChatView extends ItemView {
     const currentConv = this.conversationManager.getCurrentConversation();
     this.activeStreamConversationId = currentConv?.id || null;
     const streamConvId = this.activeStreamConversationId;
+    this.syncPermissionMode();
     const streamMsgId = this.streamingMessageId;
 
     logger.info("ChatView", "Calling agentController.sendMessage", { streamConvId });
@@ -493,6 +593,7 @@ export class ChatView extends ItemView {
       this.streamingMessageId = null;
       this.activeStreamConversationId = null;
       this.chatInput.updateState();
+      this.syncPermissionMode();
     }
   }
 
@@ -826,6 +927,7 @@ export class ChatView extends ItemView {
     // Update tab title and header.
     (this.leaf as any).updateHeader?.();
     this.updateConversationDisplay();
+    this.syncPermissionMode();
   }
 
   private async showHistory() {
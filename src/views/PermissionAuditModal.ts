@@ -0,0 +1,129 @@
+import { Modal, App } from "obsidian";
+import type { PermissionAuditLog } from "../agent/PermissionAuditLog";
+import {
+  filterAuditEntries,
+  formatAuditSource,
+  type AuditLogFilter,
+  type PermissionAuditEntry,
+  type PermissionAuditSource,
+} from "../utils/auditLog";
+
+export class PermissionAuditModal extends Modal {
+  private auditLog: PermissionAuditLog;
+  private conversationId: string;
+  private conversationTitle: string;
+  private onExport: () => void;
+  private entries: PermissionAuditEntry[] = [];
+  private filter: AuditLogFilter = {};
+  private listEl: HTMLElement | null = null;
+
+  constructor(
+    app: App,
+    auditLog: PermissionAuditLog,
+    conversationId: string,
+    conversationTitle: string,
+    onExport: () => void
+  ) {
+    super(app);
+    this.auditLog = auditLog;
+    this.conversationId = conversationId;
+    this.conversationTitle = conversationTitle;
+    this.onExport = onExport;
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("claude-code-audit-modal");
+
+    // Header.
+    const headerEl = contentEl.createDiv({ cls: "claude-code-audit-header" });
+    headerEl.createEl("h2", { text: "Permission Audit Log" });
+    headerEl.createDiv({ cls: "claude-code-audit-subtitle", text: this.conversationTitle });
+
+    this.entries = await this.auditLog.getEntries(this.conversationId);
+
+    // Filters.
+    const filtersEl = contentEl.createDiv({ cls: "claude-code-audit-filters" });
+
+    const searchInput = filtersEl.createEl("input", {
+      type: "text",
+      attr: { placeholder: "Filter by tool, input or detail" },
+    });
+    searchInput.addEventListener("input", () => {
+      this.filter.text = searchInput.value;
+      this.renderEntries();
+    });
+
+    const decisionSelect = filtersEl.createEl("select", { cls: "dropdown" });
+    for (const [value, label] of [["", "All decisions"], ["allow", "Allowed"], ["deny", "Denied"]]) {
+      decisionSelect.createEl("option", { value, text: label });
+    }
+    decisionSelect.addEventListener("change", () => {
+      this.filter.decision = (decisionSelect.value || undefined) as AuditLogFilter["decision"];
+      this.renderEntries();
+    });
+
+    // Only offer sources that appear in this log.
+    const sources = Array.from(new Set(this.entries.map((entry) => entry.source)));
+    const sourceSelect = filtersEl.createEl("select", { cls: "dropdown" });
+    sourceSelect.createEl("option", { value: "", text: "All sources" });
+    for (const source of sources) {
+      sourceSelect.createEl("option", { value: source, text: formatAuditSource(source) });
+    }
+    sourceSelect.addEventListener("change", () => {
+      this.filter.source = (sourceSelect.value || undefined) as PermissionAuditSource | undefined;
+      this.renderEntries();
+    });
+
+    const exportBtn = filtersEl.createEl("button", { text: "Export to note" });
+    exportBtn.addEventListener("click", () => {
+      this.onExport();
+      this.close();
+    });
+
+    this.listEl = contentEl.createDiv({ cls: "claude-code-audit-list" });
+    this.renderEntries();
+  }
+
+  private renderEntries() {
+    if (!this.listEl) return;
+    this.listEl.empty();
+
+    if (this.entries.length === 0) {
+      this.listEl.createDiv({ cls: "claude-code-audit-empty", text: "No permission decisions recorded yet." });
+      return;
+    }
+
+    // Newest first.
+    const entries = filterAuditEntries(this.entries, this.filter).reverse();
+    if (entries.length === 0) {
+      this.listEl.createDiv({ cls: "claude-code-audit-empty", text: "No entries match the filters." });
+      return;
+    }
+
+    for (const entry of entries) {
+      const itemEl = this.listEl.createDiv({ cls: `claude-code-audit-item decision-${entry.decision}` });
+
+      const topEl = itemEl.createDiv({ cls: "claude-code-audit-item-top" });
+      topEl.createSpan({ cls: "claude-code-audit-decision", text: entry.decision });
+      topEl.createSpan({ cls: "claude-code-audit-tool", text: entry.toolName });
+      topEl.createSpan({ cls: "claude-code-audit-source", text: formatAuditSource(entry.source) });
+      topEl.createSpan({ cls: "claude-code-audit-time", text: new Date(entry.timestamp).toLocaleString() });
+
+      if (entry.input) {
+        itemEl.createEl("code", { cls: "claude-code-audit-input", text: entry.input });
+      }
+
+      const detail = [entry.detail, entry.edited ? "input edited" : undefined].filter(Boolean).join("; ");
+      if (detail) {
+        itemEl.createDiv({ cls: "claude-code-audit-detail", text: detail });
+      }
+    }
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -1,19 +1,35 @@
 import { Modal, App, setIcon } from "obsidian";
 import { PermissionRequest } from "../types";
+import { buildEditPreview, formatHunkHeader, type DiffPreview } from "../utils/diff";
+import { getEditableFields, applyFieldEdits, hasFieldEdits } from "../utils/editableInput";
+import { suggestCommandPatterns, isPatternApprovable } from "../utils/bashCommands";
 
 export type PermissionChoice = "once" | "session" | "always";
 
+// What the user approved, including any changes they made to the input.
+export interface PermissionApproval {
+  choice: PermissionChoice;
+  commandPatterns?: string[];
+  updatedInput?: Record<string, unknown>;
+}
+
 export class PermissionModal extends Modal {
   private request: PermissionRequest;
-  private onApprove: (choice: PermissionChoice) => void;
-  private onDeny: () => void;
+  private onApprove: (approval: PermissionApproval) => void;
+  private onDeny: (feedback?: string) => void;
   private selectedChoice: PermissionChoice = "once";
+  private patternsInput: HTMLTextAreaElement | null = null;
+  private patternsLabel: HTMLElement | null = null;
+  private onceRadio: HTMLInputElement | null = null;
+  private rememberRadios: HTMLInputElement[] = [];
+  private fieldValues: Record<string, string> = {};
+  private diffEl: HTMLElement | null = null;
 
   constructor(
     app: App,
     request: PermissionRequest,
-    onApprove: (choice: PermissionChoice) => void,
-    onDeny: () => void
+    onApprove: (approval: PermissionApproval) => void,
+    onDeny: (feedback?: string) => void
   ) {
     super(app);
     this.request = request;
@@ -37,6 +53,12 @@ export class PermissionModal extends Modal {
     const descEl = contentEl.createDiv({ cls: "claude-code-permission-desc" });
     descEl.setText(this.request.description);
 
+    // Why approval is needed (matching rule or write scope).
+    if (this.request.reason) {
+      const reasonEl = contentEl.createDiv({ cls: "claude-code-permission-reason" });
+      reasonEl.setText(this.request.reason);
+    }
+
     // Risk level badge.
     const riskEl = contentEl.createDiv({ cls: "claude-code-permission-risk" });
     const riskBadge = riskEl.createSpan({
@@ -49,16 +71,24 @@ export class PermissionModal extends Modal {
     detailsEl.createEl("strong", { text: "Tool: " });
     detailsEl.createSpan({ text: this.request.toolName });
 
-    // Input preview.
-    if (Object.keys(this.request.toolInput).length > 0) {
+    // Diff preview for file writes, otherwise the raw input.
+    if (this.request.fileContent !== undefined) {
+      this.modalEl.addClass("claude-code-permission-modal-wide");
+      this.diffEl = contentEl.createDiv({ cls: "claude-code-permission-diff" });
+      this.renderDiffPreviews();
+    } else if (Object.keys(this.request.toolInput).length > 0) {
       const inputEl = contentEl.createDiv({ cls: "claude-code-permission-input" });
       inputEl.createEl("strong", { text: "Input:" });
       const preEl = inputEl.createEl("pre");
       preEl.setText(JSON.stringify(this.request.toolInput, null, 2));
     }
 
-    // Remember options as radio buttons.
+    // Editable fields (command, content, replacement strings).
+    this.renderEditableFields(contentEl);
+
+    // Remember options as radio buttons. Bash approvals are remembered as command patterns, never for the whole tool.
     const rememberEl = contentEl.createDiv({ cls: "claude-code-permission-remember" });
+    const remembersCommands = this.request.commandPatterns !== undefined;
 
     // Option 1: Just this once.
     const onceLabel = rememberEl.createEl("label", { cls: "claude-code-permission-option" });
@@ -66,27 +96,63 @@ export class PermissionModal extends Modal {
     onceRadio.checked = true;
     onceLabel.createSpan({ text: " Just this once" });
     onceRadio.addEventListener("change", () => { this.selectedChoice = "once"; });
+    this.onceRadio = onceRadio;
 
     // Option 2: Remember for session.
     const sessionLabel = rememberEl.createEl("label", { cls: "claude-code-permission-option" });
     const sessionRadio = sessionLabel.createEl("input", { type: "radio", attr: { name: "remember", value: "session" } });
-    sessionLabel.createSpan({ text: " Remember for this session" });
+    sessionLabel.createSpan({
+      text: remembersCommands ? " Allow matching commands for this session" : " Remember for this session",
+    });
     sessionRadio.addEventListener("change", () => { this.selectedChoice = "session"; });
 
     // Option 3: Always allow.
     const alwaysLabel = rememberEl.createEl("label", { cls: "claude-code-permission-option" });
     const alwaysRadio = alwaysLabel.createEl("input", { type: "radio", attr: { name: "remember", value: "always" } });
-    alwaysLabel.createSpan({ text: " Always allow (saved to settings)" });
+    alwaysLabel.createSpan({
+      text: remembersCommands ? " Always allow matching commands (saved to settings)" : " Always allow (saved to settings)",
+    });
     alwaysRadio.addEventListener("change", () => { this.selectedChoice = "always"; });
+    this.rememberRadios = [sessionRadio, alwaysRadio];
+
+    // Editable command patterns for Bash, one per line (e.g. "git *").
+    if (remembersCommands) {
+      const patterns = this.request.commandPatterns ?? [];
+      const patternsEl = rememberEl.createDiv({ cls: "claude-code-permission-patterns" });
+      this.patternsLabel = patternsEl.createEl("span", { cls: "setting-item-description" });
+      this.patternsInput = patternsEl.createEl("textarea", {
+        attr: { rows: String(Math.min(Math.max(patterns.length, 1), 4)) },
+      });
+      this.patternsInput.value = patterns.join("\n");
+      this.patternsInput.addEventListener("input", () => this.updateRememberOptions());
+      this.updateRememberOptions();
+    }
+
+    // Optional feedback sent back to Claude on deny.
+    const feedbackEl = contentEl.createDiv({ cls: "claude-code-permission-feedback" });
+    const feedbackInput = feedbackEl.createEl("textarea", {
+      attr: { rows: "2", placeholder: "Why deny? Tell Claude what to do instead (optional)" },
+    });
 
     // Buttons.
     const buttonsEl = contentEl.createDiv({ cls: "claude-code-permission-buttons" });
 
     const denyBtn = buttonsEl.createEl("button", { cls: "claude-code-permission-deny" });
     denyBtn.setText("Deny");
-    denyBtn.addEventListener("click", () => {
-      this.onDeny();
+    const deny = () => {
+      this.onDeny(feedbackInput.value.trim() || undefined);
       this.close();
+    };
+    denyBtn.addEventListener("click", deny);
+    feedbackInput.addEventListener("input", () => {
+      denyBtn.setText(feedbackInput.value.trim() ? "Deny with feedback" : "Deny");
+    });
+    feedbackInput.addEventListener("keydown", (e) => {
+      // Ctrl/Cmd+Enter denies with the typed feedback.
+      if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        deny();
+      }
     });
 
     const approveBtn = buttonsEl.createEl("button", {
@@ -94,7 +160,14 @@ export class PermissionModal extends Modal {
     });
     approveBtn.setText("Approve");
     approveBtn.addEventListener("click", () => {
-      this.onApprove(this.selectedChoice);
+      const { toolName, toolInput } = this.request;
+      this.onApprove({
+        choice: this.selectedChoice,
+        commandPatterns: this.getCommandPatterns(),
+        updatedInput: hasFieldEdits(toolName, toolInput, this.fieldValues)
+          ? applyFieldEdits(toolName, toolInput, this.fieldValues)
+          : undefined,
+      });
       this.close();
     });
 
@@ -102,6 +175,114 @@ export class PermissionModal extends Modal {
     denyBtn.focus();
   }
 
+  private renderEditableFields(containerEl: HTMLElement) {
+    const fields = getEditableFields(this.request.toolName, this.request.toolInput);
+    if (fields.length === 0) return;
+
+    const detailsEl = containerEl.createEl("details", { cls: "claude-code-permission-edit" });
+    detailsEl.createEl("summary", { text: "Edit before approving" });
+
+    for (const field of fields) {
+      const fieldEl = detailsEl.createDiv({ cls: "claude-code-permission-edit-field" });
+      fieldEl.createEl("label", { text: field.label });
+      const inputEl = field.multiline
+        ? fieldEl.createEl("textarea", { attr: { rows: "6" } })
+        : fieldEl.createEl("input", { type: "text" });
+      inputEl.value = field.value;
+      inputEl.addEventListener("input", () => {
+        this.fieldValues[field.key] = inputEl.value;
+        if (field.key === "command") this.suggestPatterns();
+        this.renderDiffPreviews();
+      });
+    }
+  }
+
+  // Render the diff for the current (possibly edited) input.
+  private renderDiffPreviews() {
+    if (!this.diffEl || this.request.fileContent === undefined) return;
+    this.diffEl.empty();
+
+    const { toolName, toolInput, fileContent, fileUnreadable } = this.request;
+    const input = hasFieldEdits(toolName, toolInput, this.fieldValues)
+      ? applyFieldEdits(toolName, toolInput, this.fieldValues)
+      : toolInput;
+    const previews: DiffPreview[] = buildEditPreview(toolName, input, fileContent, fileUnreadable);
+
+    for (const preview of previews) {
+      const previewEl = this.diffEl.createDiv({ cls: "claude-code-diff-preview" });
+      previewEl.createDiv({ cls: "claude-code-diff-title", text: preview.title });
+      if (preview.warning) {
+        previewEl.createDiv({ cls: "claude-code-diff-warning", text: preview.warning });
+      }
+
+      if (preview.hunks.length === 0) {
+        previewEl.createDiv({ cls: "claude-code-diff-empty", text: "No changes" });
+        continue;
+      }
+
+      const tableEl = previewEl.createEl("table", { cls: "claude-code-diff-table" });
+      for (const hunk of preview.hunks) {
+        const headerRow = tableEl.createEl("tr", { cls: "claude-code-diff-hunk-header" });
+        headerRow.createEl("td", { text: formatHunkHeader(hunk), attr: { colspan: "4" } });
+
+        for (const line of hunk.lines) {
+          const row = tableEl.createEl("tr", { cls: `claude-code-diff-line diff-${line.type}` });
+          row.createEl("td", { cls: "claude-code-diff-gutter", text: line.oldLine?.toString() ?? "" });
+          row.createEl("td", { cls: "claude-code-diff-gutter", text: line.newLine?.toString() ?? "" });
+          row.createEl("td", {
+            cls: "claude-code-diff-sign",
+            text: line.type === "add" ? "+" : line.type === "remove" ? "-" : " ",
+          });
+          row.createEl("td", { cls: "claude-code-diff-text", text: line.text });
+        }
+      }
+    }
+  }
+
+  // Suggest patterns for the edited command, so saved patterns describe the command that runs.
+  private suggestPatterns() {
+    if (!this.patternsInput) return;
+    const patterns = suggestCommandPatterns(this.getCommand());
+    this.patternsInput.value = patterns.join("\n");
+    this.patternsInput.rows = Math.min(Math.max(patterns.length, 1), 4);
+    this.updateRememberOptions();
+  }
+
+  // Allow remembering a Bash approval only with at least one pattern, and never for command substitution
+  // or redirection to a file.
+  private updateRememberOptions() {
+    if (!this.patternsInput) return;
+    const approvable = isPatternApprovable(this.getCommand());
+    this.patternsInput.disabled = !approvable;
+    this.patternsLabel?.setText(
+      approvable
+        ? "Commands starting with:"
+        : "Commands using $(...), backticks or redirection to a file can only be approved once."
+    );
+
+    const enabled = approvable && (this.getCommandPatterns() ?? []).length > 0;
+    for (const radio of this.rememberRadios) {
+      radio.disabled = !enabled;
+      if (!enabled && radio.checked && this.onceRadio) {
+        this.onceRadio.checked = true;
+        this.selectedChoice = "once";
+      }
+    }
+  }
+
+  // The command that will run, including edits.
+  private getCommand(): string {
+    return this.fieldValues.command ?? String(this.request.toolInput.command ?? "");
+  }
+
+  private getCommandPatterns(): string[] | undefined {
+    if (!this.patternsInput) return undefined;
+    return this.patternsInput.value
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+  }
+
   private getRiskIcon(): string {
     switch (this.request.risk) {
       case "high":
@@ -0,0 +1,66 @@
+import { Modal, App } from "obsidian";
+import type { AgentController } from "../agent/AgentController";
+
+// Lists the tools and command patterns approved for this chat view's session.
+export class SessionApprovalsModal extends Modal {
+  private agentController: AgentController;
+  private listEl: HTMLElement | null = null;
+
+  constructor(app: App, agentController: AgentController) {
+    super(app);
+    this.agentController = agentController;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("claude-code-session-approvals-modal");
+
+    contentEl.createEl("h2", { text: "Session Approvals" });
+    contentEl.createEl("p", {
+      text: "Tools and commands approved for this chat window until Obsidian restarts.",
+      cls: "setting-item-description",
+    });
+
+    this.listEl = contentEl.createDiv({ cls: "claude-code-session-approvals-list" });
+    this.renderApprovals();
+  }
+
+  private renderApprovals() {
+    if (!this.listEl) return;
+    this.listEl.empty();
+
+    const { tools, commands } = this.agentController.getSessionApprovals();
+    if (tools.length === 0 && commands.length === 0) {
+      this.listEl.createDiv({ cls: "claude-code-session-approvals-empty", text: "No session approvals." });
+      return;
+    }
+
+    const items: { kind: "tool" | "command"; value: string; label: string }[] = [
+      ...tools.map((value) => ({ kind: "tool" as const, value, label: "Tool" })),
+      ...commands.map((value) => ({ kind: "command" as const, value, label: "Command" })),
+    ];
+
+    for (const item of items) {
+      const itemEl = this.listEl.createDiv({ cls: "claude-code-approval-item" });
+      itemEl.createSpan({ cls: "claude-code-approval-kind", text: item.label });
+      itemEl.createEl("code", { cls: "claude-code-approval-value", text: item.value });
+      const revokeBtn = itemEl.createEl("button", { text: "Revoke" });
+      revokeBtn.addEventListener("click", () => {
+        this.agentController.revokeSessionApproval(item.kind, item.value);
+        this.renderApprovals();
+      });
+    }
+
+    const clearBtn = this.listEl.createEl("button", { text: "Clear all", cls: "mod-warning" });
+    clearBtn.addEventListener("click", () => {
+      this.agentController.clearSessionApprovals();
+      this.renderApprovals();
+    });
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
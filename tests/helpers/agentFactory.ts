@@ -25,6 +25,7 @@ export interface TestAgentControllerOptions {
     onError?: Mock;
     onSubagentStart?: Mock;
     onSubagentStop?: Mock;
+    onPermissionDecision?: Mock;
   };
 }
 
@@ -61,6 +62,7 @@ export async function createTestAgentController(
     onError: options?.eventSpies?.onError ?? vi.fn(),
     onSubagentStart: options?.eventSpies?.onSubagentStart ?? vi.fn(),
     onSubagentStop: options?.eventSpies?.onSubagentStop ?? vi.fn(),
+    onPermissionDecision: options?.eventSpies?.onPermissionDecision ?? vi.fn(),
   };
 
   // Setup initial query messages if provided.
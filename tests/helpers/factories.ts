@@ -2,6 +2,7 @@ import { vi } from "vitest";
 
 import { createMockApp } from "../mocks/obsidian/App.mock";
 import { createMockVault } from "../mocks/obsidian/Vault.mock";
+import type { McpServerConfig, PermissionRule } from "../../src/types";
 
 // Create a mock plugin instance.
 export function createMockPlugin(overrides?: Partial<MockPlugin>): MockPlugin {
@@ -19,6 +20,14 @@ export function createMockPlugin(overrides?: Partial<MockPlugin>): MockPlugin {
     autoApproveVaultWrites: true,
     requireBashApproval: false,
     alwaysAllowedTools: [],
+    allowedBashCommands: [],
+    alwaysAllowedToolsGrantedAt: {},
+    allowedBashCommandsGrantedAt: {},
+    approvalExpiryDays: 0,
+    permissionRules: [],
+    protectedFolders: [],
+    scratchFolders: [],
+    mcpServers: [],
   };
 
   // Extract settings from overrides to merge separately.
@@ -56,6 +65,14 @@ export interface MockPluginSettings {
   autoApproveVaultWrites: boolean;
   requireBashApproval: boolean;
   alwaysAllowedTools: string[];
+  allowedBashCommands: string[];
+  alwaysAllowedToolsGrantedAt: Record<string, number>;
+  allowedBashCommandsGrantedAt: Record<string, number>;
+  approvalExpiryDays: number;
+  permissionRules: PermissionRule[];
+  protectedFolders: string[];
+  scratchFolders: string[];
+  mcpServers: McpServerConfig[];
 }
 
 export interface MockPlugin {
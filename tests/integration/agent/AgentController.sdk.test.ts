@@ -411,5 +411,219 @@ describe("AgentController SDK Integration", () => {
       const queryCall = (mockQuery as Mock).mock.calls[0];
       expect(queryCall[0].options.maxBudgetUsd).toBe(10.0);
     });
+
+    it("should pass plan mode to the SDK but enforce other modes itself", async () => {
+      testHarness = await createTestAgentController({ queryMessages: createSDKConversationSequence("Response") });
+
+      testHarness.controller.setPermissionMode("plan");
+      await testHarness.controller.sendMessage("Test");
+      expect((mockQuery as Mock).mock.calls[0][0].options.permissionMode).toBe("plan");
+
+      testHarness.controller.setPermissionMode("acceptEdits");
+      await testHarness.controller.sendMessage("Test");
+      expect((mockQuery as Mock).mock.calls[1][0].options.permissionMode).toBe("default");
+    });
+  });
+
+  describe("permission handling", () => {
+    it("should deny Bash commands matching a deny rule", async () => {
+      testHarness = await createTestAgentController({
+        queryMessages: createSDKConversationSequence("Response"),
+        settings: {
+          requireBashApproval: false,
+          permissionRules: [
+            { id: "no-rm", tool: "Bash", commandPrefix: "rm -rf", effect: "deny", enabled: true },
+          ],
+        },
+      });
+
+      await testHarness.controller.sendMessage("Test");
+      const canUseTool = testHarness.getCanUseToolCallback()!;
+
+      const denied = await canUseTool("Bash", { command: "rm -rf notes" });
+      expect(denied.behavior).toBe("deny");
+      expect(denied.message).toContain("rm -rf");
+
+      const allowed = await canUseTool("Bash", { command: "git status" });
+      expect(allowed).toEqual({ behavior: "allow", updatedInput: { command: "git status" } });
+    });
+
+    it("should allow rule-matched paths without prompting", async () => {
+      testHarness = await createTestAgentController({
+        queryMessages: createSDKConversationSequence("Response"),
+        settings: {
+          autoApproveVaultWrites: false,
+          permissionRules: [
+            { id: "projects", tool: "Edit", path: "Projects/**", effect: "allow", enabled: true },
+          ],
+        },
+      });
+
+      await testHarness.controller.sendMessage("Test");
+      const canUseTool = testHarness.getCanUseToolCallback()!;
+
+      const result = await canUseTool("Edit", { file_path: "Projects/plan.md" });
+      expect(result.behavior).toBe("allow");
+    });
+
+    it("should deny writes that resolve outside the vault", async () => {
+      testHarness = await createTestAgentController({
+        queryMessages: createSDKConversationSequence("Response"),
+        settings: { autoApproveVaultWrites: true },
+      });
+
+      await testHarness.controller.sendMessage("Test");
+      const canUseTool = testHarness.getCanUseToolCallback()!;
+
+      const result = await canUseTool("Write", { file_path: "../../.bashrc", content: "" });
+      expect(result.behavior).toBe("deny");
+      expect(result.message).toContain("outside the vault");
+    });
+
+    it("should deny writes in read-only mode without prompting", async () => {
+      testHarness = await createTestAgentController({
+        queryMessages: createSDKConversationSequence("Response"),
+        settings: { autoApproveVaultWrites: true, requireBashApproval: false },
+      });
+
+      testHarness.controller.setPermissionMode("readOnly");
+      await testHarness.controller.sendMessage("Test");
+      const canUseTool = testHarness.getCanUseToolCallback()!;
+
+      const write = await canUseTool("Write", { file_path: "notes/a.md", content: "x" });
+      expect(write.behavior).toBe("deny");
+      expect(write.message).toContain("read-only mode");
+
+      const bash = await canUseTool("Bash", { command: "ls" });
+      expect(bash.behavior).toBe("deny");
+
+      const read = await canUseTool("Read", { file_path: "notes/a.md" });
+      expect(read.behavior).toBe("allow");
+    });
+
+    it("should deny MCP tools disabled in server settings", async () => {
+      testHarness = await createTestAgentController({
+        queryMessages: createSDKConversationSequence("Response"),
+        settings: {
+          mcpServers: [
+            {
+              id: "gh",
+              name: "github",
+              command: "npx",
+              args: [],
+              enabled: true,
+              tools: { delete_repo: { approval: "deny" } },
+            },
+          ],
+        },
+      });
+
+      await testHarness.controller.sendMessage("Test");
+      const canUseTool = testHarness.getCanUseToolCallback()!;
+
+      const result = await canUseTool("mcp__github__delete_repo", {});
+      expect(result.behavior).toBe("deny");
+      expect(result.message).toContain("github MCP server settings");
+    });
+
+    it("should record tools discovered for user MCP servers", async () => {
+      const server = { id: "gh", name: "github", command: "npx", args: [], enabled: true };
+      testHarness = await createTestAgentController({
+        queryMessages: createSDKConversationSequence("Response", {
+          tools: ["Read", "mcp__github__search", "mcp__github__create_issue", "mcp__obsidian__open_file"],
+        }),
+        settings: { mcpServers: [server] },
+      });
+
+      await testHarness.controller.sendMessage("Test");
+
+      expect(testHarness.mockPlugin.settings.mcpServers[0].discoveredTools).toEqual(["create_issue", "search"]);
+      expect(testHarness.mockPlugin.saveSettings).toHaveBeenCalled();
+    });
+
+    it("should report permission decisions for the audit log", async () => {
+      testHarness = await createTestAgentController({
+        queryMessages: createSDKConversationSequence("Response"),
+        settings: {
+          permissionRules: [
+            { id: "no-rm", tool: "Bash", commandPrefix: "rm -rf", effect: "deny", enabled: true },
+          ],
+        },
+      });
+
+      await testHarness.controller.sendMessage("Test");
+      const canUseTool = testHarness.getCanUseToolCallback()!;
+
+      await canUseTool("Read", { file_path: "notes/a.md" });
+      await canUseTool("Bash", { command: "rm -rf notes" });
+
+      const entries = testHarness.eventSpies.onPermissionDecision!.mock.calls.map((call) => call[0]);
+      expect(entries[0]).toMatchObject({ toolName: "Read", input: "notes/a.md", decision: "allow", source: "read-only" });
+      expect(entries[1]).toMatchObject({
+        toolName: "Bash",
+        input: "rm -rf notes",
+        decision: "deny",
+        source: "rule",
+        detail: expect.stringContaining("rm -rf"),
+      });
+      expect(typeof entries[1].timestamp).toBe("number");
+    });
+
+    it("should approve Bash once when the user clears the command patterns", async () => {
+      testHarness = await createTestAgentController({
+        queryMessages: createSDKConversationSequence("Response"),
+        settings: { requireBashApproval: true },
+      });
+
+      await testHarness.controller.sendMessage("Test");
+      const canUseTool = testHarness.getCanUseToolCallback()!;
+      const prompt = vi
+        .spyOn(testHarness.controller, "showPermissionModal")
+        .mockResolvedValueOnce({ approved: true, choice: "session", commandPatterns: [] })
+        .mockResolvedValueOnce({ approved: true, choice: "always", commandPatterns: [] })
+        .mockResolvedValue({ approved: false });
+
+      expect((await canUseTool("Bash", { command: "ls" })).behavior).toBe("allow");
+      expect((await canUseTool("Bash", { command: "ls" })).behavior).toBe("allow");
+      expect((await canUseTool("Bash", { command: "rm notes.md" })).behavior).toBe("deny");
+
+      expect(prompt).toHaveBeenCalledTimes(3);
+      expect(testHarness.controller.getSessionApprovals()).toEqual({ tools: [], commands: [] });
+      expect(testHarness.mockPlugin.settings.alwaysAllowedTools).not.toContain("Bash");
+    });
+
+    it("should not remember patterns for commands using command substitution", async () => {
+      testHarness = await createTestAgentController({
+        queryMessages: createSDKConversationSequence("Response"),
+        settings: { requireBashApproval: true },
+      });
+
+      await testHarness.controller.sendMessage("Test");
+      const canUseTool = testHarness.getCanUseToolCallback()!;
+      vi.spyOn(testHarness.controller, "showPermissionModal").mockResolvedValue({
+        approved: true,
+        choice: "session",
+        commandPatterns: ["echo *"],
+      });
+
+      await canUseTool("Bash", { command: "echo $(cat secrets.txt)" });
+      expect(testHarness.controller.getSessionApprovals().commands).toEqual([]);
+
+      await canUseTool("Bash", { command: "echo hi" });
+      expect(testHarness.controller.getSessionApprovals().commands).toEqual(["echo *"]);
+    });
+
+    it("should write to scratch folders without prompting", async () => {
+      testHarness = await createTestAgentController({
+        queryMessages: createSDKConversationSequence("Response"),
+        settings: { autoApproveVaultWrites: false, scratchFolders: ["Scratch"] },
+      });
+
+      await testHarness.controller.sendMessage("Test");
+      const canUseTool = testHarness.getCanUseToolCallback()!;
+
+      const result = await canUseTool("Write", { file_path: "Scratch/tmp.md", content: "" });
+      expect(result.behavior).toBe("allow");
+    });
   });
 });
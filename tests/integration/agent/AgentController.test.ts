@@ -22,10 +22,9 @@ const obsidianUiTools = [
   "mcp__obsidian__show_notice",
   "mcp__obsidian__reveal_in_explorer",
   "mcp__obsidian__execute_command",
-  "mcp__obsidian__create_note",
 ];
 
-const writeTools = ["Write", "Edit", "MultiEdit"];
+const writeTools = ["Write", "Edit", "MultiEdit", "NotebookEdit"];
 
 describe("AgentController", () => {
   let mockPlugin: MockPlugin;
@@ -142,8 +141,8 @@ describe("AgentController", () => {
       expect(obsidianUiTools).toContain("mcp__obsidian__show_notice");
     });
 
-    it("should include create_note in UI tools", () => {
-      expect(obsidianUiTools).toContain("mcp__obsidian__create_note");
+    it("should not auto-approve create_note as a UI tool", () => {
+      expect(obsidianUiTools).not.toContain("mcp__obsidian__create_note");
     });
   });
 
@@ -269,6 +269,19 @@ describe("ConversationManager (real)", () => {
     });
   });
 
+  describe("updatePermissionMode", () => {
+    it("should save the mode with the conversation and restore it on load", async () => {
+      const conv = await manager.createConversation();
+      await manager.updatePermissionMode("readOnly");
+
+      await manager.createConversation();
+      expect(manager.getCurrentConversation()?.permissionMode).toBeUndefined();
+
+      const loaded = await manager.loadConversation(conv.id);
+      expect(loaded?.permissionMode).toBe("readOnly");
+    });
+  });
+
   describe("setHistory", () => {
     it("should replace conversation history", async () => {
       await manager.createConversation();
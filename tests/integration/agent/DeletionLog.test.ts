@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from "vitest";
+
+import { createMockPlugin } from "../../helpers/factories";
+import { DeletionLog } from "../../../src/agent/DeletionLog";
+import { serializeDeletionEvent, type DeletedFile } from "../../../src/utils/deletions";
+
+const LOG_DIR = ".obsidian-claude-code/deletions";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function deleted(overrides: Partial<DeletedFile>): DeletedFile {
+  return {
+    id: "del-1",
+    conversationId: "conv-1",
+    path: "Inbox/old.md",
+    deletedAt: Date.now(),
+    trash: "local",
+    backupPath: `${LOG_DIR}/backups/${overrides.id ?? "del-1"}`,
+    ...overrides,
+  };
+}
+
+function log(...files: DeletedFile[]): string {
+  return files.map((file) => serializeDeletionEvent({ type: "deleted", ...file })).join("");
+}
+
+describe("DeletionLog", () => {
+  let mockPlugin: ReturnType<typeof createMockPlugin>;
+  let deletionLog: DeletionLog;
+
+  beforeEach(() => {
+    mockPlugin = createMockPlugin();
+    deletionLog = new DeletionLog(mockPlugin as any);
+  });
+
+  it("should remove expired entries and their backups", async () => {
+    const files = mockPlugin.app.vault._files;
+    const expired = deleted({ id: "expired", deletedAt: Date.now() - 31 * DAY_MS });
+    const recent = deleted({ id: "recent" });
+    // The mock adapter only reports paths it holds as existing.
+    files.set(LOG_DIR, "");
+    files.set(`${LOG_DIR}/conv-1.jsonl`, log(expired, recent));
+    files.set(`${LOG_DIR}/conv-2.jsonl`, log(deleted({ id: "gone", deletedAt: 0 })));
+    files.set(`${LOG_DIR}/backups/expired`, "old");
+    files.set(`${LOG_DIR}/backups/recent`, "new");
+    files.set(`${LOG_DIR}/backups/gone`, "old");
+    mockPlugin.app.vault.adapter.list.mockResolvedValue({
+      files: [`${LOG_DIR}/conv-1.jsonl`, `${LOG_DIR}/conv-2.jsonl`],
+      folders: [`${LOG_DIR}/backups`],
+    });
+
+    await deletionLog.prune();
+
+    expect((await deletionLog.getDeletedFiles("conv-1")).map((file) => file.id)).toEqual(["recent"]);
+    expect(files.has(`${LOG_DIR}/backups/expired`)).toBe(false);
+    expect(files.has(`${LOG_DIR}/backups/recent`)).toBe(true);
+    expect(files.has(`${LOG_DIR}/conv-2.jsonl`)).toBe(false);
+    expect(files.has(`${LOG_DIR}/backups/gone`)).toBe(false);
+  });
+
+  it("should trim a log past its limit when recording, removing the oldest backups", async () => {
+    const files = mockPlugin.app.vault._files;
+    for (let i = 0; i < 201; i++) {
+      files.set(`${LOG_DIR}/backups/del-${i}`, "data");
+      await deletionLog.record(deleted({ id: `del-${i}`, deletedAt: Date.now() + i }));
+    }
+
+    const kept = await deletionLog.getDeletedFiles("conv-1");
+    expect(kept).toHaveLength(200);
+    expect(kept[0].id).toBe("del-1");
+    expect(files.has(`${LOG_DIR}/backups/del-0`)).toBe(false);
+    expect(files.has(`${LOG_DIR}/backups/del-1`)).toBe(true);
+  });
+});
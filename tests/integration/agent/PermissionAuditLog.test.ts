@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from "vitest";
+
+import { createMockPlugin } from "../../helpers/factories";
+import { PermissionAuditLog } from "../../../src/agent/PermissionAuditLog";
+import type { PermissionAuditEntry } from "../../../src/utils/auditLog";
+
+function entry(overrides: Partial<PermissionAuditEntry>): PermissionAuditEntry {
+  return {
+    timestamp: Date.now(),
+    conversationId: "conv-1",
+    toolName: "Edit",
+    input: "notes/a.md",
+    decision: "allow",
+    source: "modal",
+    ...overrides,
+  };
+}
+
+describe("PermissionAuditLog", () => {
+  let mockPlugin: ReturnType<typeof createMockPlugin>;
+  let auditLog: PermissionAuditLog;
+
+  beforeEach(() => {
+    mockPlugin = createMockPlugin();
+    auditLog = new PermissionAuditLog(mockPlugin as any);
+  });
+
+  it("should append entries to a per-conversation JSON Lines file", async () => {
+    await auditLog.record(entry({ toolName: "Edit" }));
+    await auditLog.record(entry({ toolName: "Bash", decision: "deny" }));
+    await auditLog.record(entry({ conversationId: "conv-2", toolName: "Write" }));
+
+    const files = mockPlugin.app.vault._files;
+    const content = files.get(".obsidian-claude-code/audit/conv-1.jsonl")!;
+    expect(content.trim().split("\n")).toHaveLength(2);
+    expect(files.has(".obsidian-claude-code/audit/conv-2.jsonl")).toBe(true);
+    expect(mockPlugin.app.vault.adapter.append).toHaveBeenCalledTimes(1);
+  });
+
+  it("should read back entries in order", async () => {
+    auditLog.record(entry({ toolName: "Read" }));
+    auditLog.record(entry({ toolName: "Edit" }));
+    auditLog.record(entry({ toolName: "Bash" }));
+
+    // getEntries waits for queued writes.
+    const entries = await auditLog.getEntries("conv-1");
+    expect(entries.map((e) => e.toolName)).toEqual(["Read", "Edit", "Bash"]);
+  });
+
+  it("should return no entries for an unknown conversation", async () => {
+    expect(await auditLog.getEntries("missing")).toEqual([]);
+  });
+
+  it("should keep recording after a write failure", async () => {
+    mockPlugin.app.vault.adapter.write.mockRejectedValueOnce(new Error("disk full"));
+    await auditLog.record(entry({ toolName: "Lost" }));
+    await auditLog.record(entry({ toolName: "Kept" }));
+
+    const entries = await auditLog.getEntries("conv-1");
+    expect(entries.map((e) => e.toolName)).toEqual(["Kept"]);
+  });
+
+  it("should export entries as a markdown note without overwriting", async () => {
+    await auditLog.record(entry({ toolName: "Edit" }));
+
+    const first = await auditLog.exportToNote("conv-1", "Refactor: notes/plan");
+    const second = await auditLog.exportToNote("conv-1", "Refactor: notes/plan");
+
+    expect(first).toMatch(/^Permission audit - Refactor notesplan - \d{4}-\d{2}-\d{2}\.md$/);
+    expect(second).toMatch(/ 2\.md$/);
+    expect(mockPlugin.app.vault._files.get(first)).toContain("| Edit |");
+  });
+});
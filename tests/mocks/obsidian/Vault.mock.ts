@@ -5,6 +5,7 @@ export interface MockAdapter {
   exists: ReturnType<typeof vi.fn>;
   read: ReturnType<typeof vi.fn>;
   write: ReturnType<typeof vi.fn>;
+  append: ReturnType<typeof vi.fn>;
   remove: ReturnType<typeof vi.fn>;
   mkdir: ReturnType<typeof vi.fn>;
   stat: ReturnType<typeof vi.fn>;
@@ -46,6 +47,9 @@ export function createMockVault(basePath = "/test/vault"): MockVault {
     write: vi.fn().mockImplementation(async (path: string, content: string) => {
       files.set(path, content);
     }),
+    append: vi.fn().mockImplementation(async (path: string, content: string) => {
+      files.set(path, (files.get(path) ?? "") + content);
+    }),
     remove: vi.fn().mockImplementation(async (path: string) => {
       files.delete(path);
     }),
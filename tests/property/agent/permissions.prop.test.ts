@@ -18,10 +18,9 @@ const obsidianUiTools = [
   "mcp__obsidian__show_notice",
   "mcp__obsidian__reveal_in_explorer",
   "mcp__obsidian__execute_command",
-  "mcp__obsidian__create_note",
 ];
 
-const writeTools = ["Write", "Edit", "MultiEdit"];
+const writeTools = ["Write", "Edit", "MultiEdit", "NotebookEdit"];
 
 // Simulate permission decision logic.
 function shouldAutoApprove(
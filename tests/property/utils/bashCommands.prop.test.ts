@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import fc from "fast-check";
+import {
+  splitCompoundCommand,
+  tokenizeCommand,
+  matchCommandPattern,
+  commandMatchesPatterns,
+  suggestCommandPatterns,
+} from "../../../src/utils/bashCommands";
+
+// Plain shell word without quotes, separators or wildcards.
+const wordArb = fc.stringMatching(/^[a-zA-Z0-9_./=-]{1,10}$/);
+const segmentArb = fc.array(wordArb, { minLength: 1, maxLength: 5 }).map((words) => words.join(" "));
+const separatorArb = fc.constantFrom(" && ", " || ", "; ", " | ", "\n");
+
+describe("bashCommands property tests", () => {
+  describe("splitCompoundCommand", () => {
+    it("should recover the segments joined by separators", () => {
+      fc.assert(
+        fc.property(fc.array(segmentArb, { minLength: 1, maxLength: 5 }), separatorArb, (segments, separator) => {
+          expect(splitCompoundCommand(segments.join(separator))).toEqual(segments);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it("should never split inside single quotes", () => {
+      fc.assert(
+        fc.property(fc.string({ maxLength: 30 }).filter((s) => !s.includes("'")), (text) => {
+          expect(splitCompoundCommand(`echo '${text}'`)).toEqual([`echo '${text}'`]);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe("tokenizeCommand", () => {
+    it("should split plain words on whitespace", () => {
+      fc.assert(
+        fc.property(fc.array(wordArb, { minLength: 1, maxLength: 6 }), (words) => {
+          expect(tokenizeCommand(words.join("  "))).toEqual(words);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it("should keep double-quoted text as one argument", () => {
+      fc.assert(
+        fc.property(fc.string({ maxLength: 20 }).filter((s) => !/["\\]/.test(s)), (text) => {
+          expect(tokenizeCommand(`echo "${text}"`)).toEqual(["echo", text]);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe("matchCommandPattern", () => {
+    it("a command should match itself as a pattern", () => {
+      fc.assert(
+        fc.property(segmentArb, (segment) => {
+          expect(matchCommandPattern(segment, segment)).toBe(true);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it("program * should match any arguments to that program only", () => {
+      fc.assert(
+        fc.property(wordArb, wordArb, fc.array(wordArb, { maxLength: 4 }), (program, other, args) => {
+          expect(matchCommandPattern(`${program} *`, [program, ...args].join(" "))).toBe(true);
+          expect(matchCommandPattern(`${program} *`, [other, ...args].join(" "))).toBe(program === other);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe("commandMatchesPatterns", () => {
+    it("suggested patterns should allow the command they came from", () => {
+      fc.assert(
+        fc.property(fc.array(segmentArb, { minLength: 1, maxLength: 4 }), separatorArb, (segments, separator) => {
+          const command = segments.join(separator);
+          expect(commandMatchesPatterns(command, suggestCommandPatterns(command))).toBe(true);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it("appending an unmatched segment should never be allowed", () => {
+      fc.assert(
+        fc.property(segmentArb, separatorArb, (segment, separator) => {
+          const patterns = suggestCommandPatterns(segment);
+          const program = tokenizeCommand(segment)[0];
+          fc.pre(program !== "rm");
+          expect(commandMatchesPatterns(`${segment}${separator}rm -rf x`, patterns)).toBe(false);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import fc from "fast-check";
+import { computeLineDiff, buildHunks, splitLines } from "../../../src/utils/diff";
+
+// Small alphabet so generated files share lines.
+const lineArb = fc.constantFrom("a", "b", "c", "d", "", "# heading", "- item");
+const textArb = fc.array(lineArb, { maxLength: 30 }).map((lines) => lines.join("\n"));
+
+describe("diff property tests", () => {
+  describe("computeLineDiff", () => {
+    it("context and removed lines should rebuild the old text", () => {
+      fc.assert(
+        fc.property(textArb, textArb, (oldText, newText) => {
+          const rebuilt = computeLineDiff(oldText, newText)
+            .filter((line) => line.type !== "add")
+            .map((line) => line.text);
+          expect(rebuilt).toEqual(splitLines(oldText));
+        }),
+        { numRuns: 200 }
+      );
+    });
+
+    it("context and added lines should rebuild the new text", () => {
+      fc.assert(
+        fc.property(textArb, textArb, (oldText, newText) => {
+          const rebuilt = computeLineDiff(oldText, newText)
+            .filter((line) => line.type !== "remove")
+            .map((line) => line.text);
+          expect(rebuilt).toEqual(splitLines(newText));
+        }),
+        { numRuns: 200 }
+      );
+    });
+
+    it("line numbers should be sequential on each side", () => {
+      fc.assert(
+        fc.property(textArb, textArb, (oldText, newText) => {
+          const diff = computeLineDiff(oldText, newText);
+          const oldNumbers = diff.filter((l) => l.oldLine !== undefined).map((l) => l.oldLine);
+          const newNumbers = diff.filter((l) => l.newLine !== undefined).map((l) => l.newLine);
+          expect(oldNumbers).toEqual(oldNumbers.map((_, i) => i + 1));
+          expect(newNumbers).toEqual(newNumbers.map((_, i) => i + 1));
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe("buildHunks", () => {
+    it("hunks should contain every changed line exactly once", () => {
+      fc.assert(
+        fc.property(textArb, textArb, (oldText, newText) => {
+          const diff = computeLineDiff(oldText, newText);
+          const changes = diff.filter((line) => line.type !== "context");
+          const hunkChanges = buildHunks(diff).flatMap((hunk) => hunk.lines.filter((line) => line.type !== "context"));
+          expect(hunkChanges).toEqual(changes);
+        }),
+        { numRuns: 200 }
+      );
+    });
+
+    it("hunk line counts should match their headers", () => {
+      fc.assert(
+        fc.property(textArb, textArb, fc.integer({ min: 0, max: 5 }), (oldText, newText, context) => {
+          for (const hunk of buildHunks(computeLineDiff(oldText, newText), context)) {
+            expect(hunk.lines.filter((line) => line.type !== "add")).toHaveLength(hunk.oldLines);
+            expect(hunk.lines.filter((line) => line.type !== "remove")).toHaveLength(hunk.newLines);
+          }
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+});
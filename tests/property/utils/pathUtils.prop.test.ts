@@ -9,6 +9,8 @@ import {
   getFileName,
   getParentPath,
   pathMatchesQuery,
+  resolveVaultPath,
+  isPathInFolder,
   VAULT_EXTENSIONS,
 } from "../../../src/utils/pathUtils";
 
@@ -302,4 +304,65 @@ describe("pathUtils property tests", () => {
       );
     });
   });
+
+  describe("resolveVaultPath", () => {
+    const segmentArb = fc.stringMatching(/^[a-zA-Z0-9_-]{1,10}$/);
+    const vault = "/vault";
+
+    it("absolute and relative forms should resolve to the same path", () => {
+      fc.assert(
+        fc.property(fc.array(segmentArb, { minLength: 1, maxLength: 5 }), (segments) => {
+          const relative = segments.join("/");
+          expect(resolveVaultPath(relative, vault)).toBe(relative);
+          expect(resolveVaultPath(`${vault}/${relative}`, vault)).toBe(relative);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it("more .. segments than depth should always escape", () => {
+      fc.assert(
+        fc.property(fc.array(segmentArb, { maxLength: 5 }), segmentArb, (segments, file) => {
+          const ups = Array(segments.length + 1).fill("..");
+          expect(resolveVaultPath([...segments, ...ups, file].join("/"), vault)).toBeNull();
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it("resolved paths should never contain . or .. segments", () => {
+      fc.assert(
+        fc.property(fc.array(fc.oneof(segmentArb, fc.constant("."), fc.constant("..")), { maxLength: 8 }), (segments) => {
+          const resolved = resolveVaultPath(segments.join("/"), vault);
+          if (resolved !== null && resolved !== "") {
+            expect(resolved.split("/")).not.toContain("..");
+            expect(resolved.split("/")).not.toContain(".");
+          }
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe("isPathInFolder", () => {
+    const segmentArb = fc.stringMatching(/^[a-zA-Z0-9_-]{1,10}$/);
+
+    it("should match every path under the folder", () => {
+      fc.assert(
+        fc.property(segmentArb, fc.array(segmentArb, { minLength: 1, maxLength: 4 }), (folder, rest) => {
+          expect(isPathInFolder(`${folder}/${rest.join("/")}`, folder)).toBe(true);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it("should not match a sibling that only shares a prefix", () => {
+      fc.assert(
+        fc.property(segmentArb, segmentArb, (folder, suffix) => {
+          expect(isPathInFolder(`${folder}${suffix}/note.md`, folder)).toBe(false);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
 });
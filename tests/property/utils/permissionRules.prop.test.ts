@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import fc from "fast-check";
+import { matchGlob, evaluatePermission, type PermissionContext } from "../../../src/utils/permissionRules";
+import { shouldAutoApprove } from "../../../src/utils/permissions";
+import type { PermissionEffect, PermissionRule } from "../../../src/types";
+
+// Path segment without glob metacharacters.
+const segmentArb = fc.stringMatching(/^[a-zA-Z0-9_-]{1,10}$/);
+const toolArb = fc.constantFrom("Read", "Write", "Edit", "MultiEdit", "Bash", "Task", "WebSearch", "mcp__obsidian__open_file");
+const effectArb = fc.constantFrom<PermissionEffect>("allow", "ask", "deny");
+
+function baseContext(rules: PermissionRule[] = []): PermissionContext {
+  return {
+    rules,
+    autoApproveVaultWrites: false,
+    requireBashApproval: true,
+    alwaysAllowedTools: [],
+    allowedCommands: [],
+    sessionApprovedCommands: [],
+    protectedFolders: [],
+    scratchFolders: [],
+    sessionApprovedTools: new Set(),
+    vaultPath: "/vault",
+  };
+}
+
+describe("permissionRules property tests", () => {
+  describe("matchGlob", () => {
+    it("a glob without metacharacters should only match itself", () => {
+      fc.assert(
+        fc.property(segmentArb, segmentArb, (a, b) => {
+          expect(matchGlob(a, b)).toBe(a === b);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it("folder/** should match any path under the folder", () => {
+      fc.assert(
+        fc.property(segmentArb, fc.array(segmentArb, { minLength: 1, maxLength: 5 }), (folder, rest) => {
+          expect(matchGlob(`${folder}/**`, `${folder}/${rest.join("/")}`)).toBe(true);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it("* should never cross a path separator", () => {
+      fc.assert(
+        fc.property(segmentArb, segmentArb, segmentArb, (folder, a, b) => {
+          expect(matchGlob(`${folder}/*`, `${folder}/${a}/${b}`)).toBe(false);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it("* should match any tool name", () => {
+      fc.assert(
+        fc.property(fc.stringMatching(/^[a-zA-Z_]{1,30}$/), (name) => {
+          expect(matchGlob("*", name)).toBe(true);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe("evaluatePermission", () => {
+    it("without rules should agree with shouldAutoApprove", () => {
+      fc.assert(
+        fc.property(toolArb, fc.boolean(), fc.boolean(), (tool, autoWrites, requireBash) => {
+          const ctx = { ...baseContext(), autoApproveVaultWrites: autoWrites, requireBashApproval: requireBash };
+          const decision = evaluatePermission(tool, {}, ctx);
+          expect(decision.effect === "allow").toBe(shouldAutoApprove(tool, ctx));
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it("a catch-all rule should always decide", () => {
+      fc.assert(
+        fc.property(toolArb, effectArb, (tool, effect) => {
+          const rule: PermissionRule = { id: "r", tool: "*", effect, enabled: true };
+          const decision = evaluatePermission(tool, {}, baseContext([rule]));
+          expect(decision.effect).toBe(effect);
+          expect(decision.source).toBe("rule");
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it("the first matching rule should win", () => {
+      fc.assert(
+        fc.property(toolArb, effectArb, effectArb, (tool, first, second) => {
+          const rules: PermissionRule[] = [
+            { id: "a", tool, effect: first, enabled: true },
+            { id: "b", tool: "*", effect: second, enabled: true },
+          ];
+          expect(evaluatePermission(tool, {}, baseContext(rules)).rule?.id).toBe("a");
+        }),
+        { numRuns: 50 }
+      );
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  getApprovalExpiry,
+  isApprovalExpired,
+  getActiveApprovals,
+  pruneExpiredApprovals,
+  stampApprovals,
+  describeApprovalAge,
+} from "../../../src/utils/approvals";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 5, 1);
+
+describe("approvals utilities", () => {
+  describe("getApprovalExpiry / isApprovalExpired", () => {
+    it("should expire approvals after the configured number of days", () => {
+      expect(getApprovalExpiry(NOW, 30)).toBe(NOW + 30 * DAY);
+      expect(isApprovalExpired(NOW - 31 * DAY, 30, NOW)).toBe(true);
+      expect(isApprovalExpired(NOW - 29 * DAY, 30, NOW)).toBe(false);
+    });
+
+    it("should never expire with 0 days or without a grant time", () => {
+      expect(getApprovalExpiry(NOW, 0)).toBeNull();
+      expect(isApprovalExpired(undefined, 30, NOW)).toBe(false);
+      expect(isApprovalExpired(NOW - 1000 * DAY, 0, NOW)).toBe(false);
+    });
+  });
+
+  describe("getActiveApprovals", () => {
+    it("should drop expired approvals and keep untimed ones", () => {
+      const grantedAt = { Bash: NOW - 10 * DAY, Write: NOW - DAY };
+      expect(getActiveApprovals(["Bash", "Write", "Edit"], grantedAt, 7, NOW)).toEqual(["Write", "Edit"]);
+    });
+  });
+
+  describe("pruneExpiredApprovals", () => {
+    it("should split kept and expired approvals and clean up grant times", () => {
+      const result = pruneExpiredApprovals(
+        ["git *", "npm *", "ls *"],
+        { "git *": NOW - 10 * DAY, "npm *": NOW, removed: NOW },
+        7,
+        NOW
+      );
+
+      expect(result.kept).toEqual(["npm *", "ls *"]);
+      expect(result.expired).toEqual(["git *"]);
+      expect(result.grantedAt).toEqual({ "npm *": NOW });
+    });
+  });
+
+  describe("stampApprovals", () => {
+    it("should add grant times without overwriting existing ones", () => {
+      const original = { Bash: 1 };
+      const stamped = stampApprovals(["Bash", "Write"], original, NOW);
+
+      expect(stamped).toEqual({ Bash: 1, Write: NOW });
+      expect(original).toEqual({ Bash: 1 });
+    });
+  });
+
+  describe("describeApprovalAge", () => {
+    it("should describe age and remaining time", () => {
+      expect(describeApprovalAge(NOW - 3 * DAY, 30, NOW)).toBe("Approved 3 days ago, expires in 27 days");
+      expect(describeApprovalAge(NOW - 2 * 60 * 60 * 1000, 1, NOW)).toBe("Approved 2 hours ago, expires in 22 hours");
+    });
+
+    it("should describe approvals that never expire", () => {
+      expect(describeApprovalAge(NOW, 0, NOW)).toBe("Approved just now, never expires");
+      expect(describeApprovalAge(undefined, 30, NOW)).toBe("Never expires");
+    });
+
+    it("should describe expired approvals", () => {
+      expect(describeApprovalAge(NOW - 8 * DAY, 7, NOW)).toBe("Approved 8 days ago, expired");
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import {
+  getImageMimeType,
+  fitImageSize,
+  parsePageRanges,
+  joinPdfTextItems,
+  formatPdfText,
+} from "../../../src/utils/attachments";
+
+describe("attachments utilities", () => {
+  describe("getImageMimeType", () => {
+    it("should map image extensions in any case", () => {
+      expect(getImageMimeType("PNG")).toBe("image/png");
+      expect(getImageMimeType("jpg")).toBe("image/jpeg");
+      expect(getImageMimeType("webp")).toBe("image/webp");
+    });
+
+    it("should return null for files Claude can't view as images", () => {
+      expect(getImageMimeType("svg")).toBeNull();
+      expect(getImageMimeType("pdf")).toBeNull();
+    });
+  });
+
+  describe("fitImageSize", () => {
+    it("should scale the longest side down and keep the aspect ratio", () => {
+      expect(fitImageSize(4000, 3000, 1568)).toEqual({ width: 1568, height: 1176 });
+      expect(fitImageSize(1000, 5000, 1000)).toEqual({ width: 200, height: 1000 });
+    });
+
+    it("should leave images that fit unchanged", () => {
+      expect(fitImageSize(800, 600, 1568)).toEqual({ width: 800, height: 600 });
+    });
+  });
+
+  describe("parsePageRanges", () => {
+    it("should parse pages and ranges, including open-ended ones", () => {
+      expect(parsePageRanges("5, 1-3", 10)).toEqual([1, 2, 3, 5]);
+      expect(parsePageRanges("8-", 10)).toEqual([8, 9, 10]);
+      expect(parsePageRanges("-2", 10)).toEqual([1, 2]);
+      expect(parsePageRanges("9-20", 10)).toEqual([9, 10]);
+    });
+
+    it("should reject invalid ranges and pages past the end", () => {
+      expect(parsePageRanges("a", 10)).toBe("Invalid page range: a");
+      expect(parsePageRanges("3-1", 10)).toBe("Invalid page range: 3-1");
+      expect(parsePageRanges("0", 10)).toBe("Invalid page range: 0");
+      expect(parsePageRanges("12", 10)).toBe("Page 12 is past the end of the document (10 pages)");
+      expect(parsePageRanges(" , ", 10)).toBe("No pages selected");
+    });
+  });
+
+  describe("joinPdfTextItems", () => {
+    it("should join items into lines and collapse blank lines", () => {
+      const items = [
+        { str: "Quarterly ", hasEOL: false },
+        { str: "report  ", hasEOL: true },
+        { str: "", hasEOL: true },
+        { str: "", hasEOL: true },
+        { str: "", hasEOL: true },
+        { str: "Revenue grew", hasEOL: true },
+        {},
+      ];
+      expect(joinPdfTextItems(items)).toBe("Quarterly report\n\nRevenue grew");
+    });
+  });
+
+  describe("formatPdfText", () => {
+    const pages = [
+      { page: 1, text: "First page" },
+      { page: 2, text: "" },
+      { page: 3, text: "Third page text" },
+    ];
+
+    it("should add a header per page", () => {
+      expect(formatPdfText("Docs/report.pdf", 3, pages, 1000)).toBe(
+        "Docs/report.pdf (3 pages)\n\n--- Page 1 ---\nFirst page\n\n--- Page 2 ---\n(no text)\n\n" +
+          "--- Page 3 ---\nThird page text"
+      );
+    });
+
+    it("should cut the text at maxChars and say where to continue", () => {
+      const text = formatPdfText("report.pdf", 3, pages, 70);
+      expect(text).toContain("--- Page 2 ---\n(no text)");
+      expect(text).toContain("--- Page 3 ---\nThird");
+      expect(text.endsWith('[Truncated at 70 characters. Continue with pages: "3-"]')).toBe(true);
+    });
+  });
+});
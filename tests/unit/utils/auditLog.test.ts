@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import {
+  summarizeToolInput,
+  parseAuditLog,
+  serializeAuditEntry,
+  filterAuditEntries,
+  formatAuditSource,
+  formatAuditLogMarkdown,
+  type PermissionAuditEntry,
+} from "../../../src/utils/auditLog";
+
+function entry(overrides: Partial<PermissionAuditEntry>): PermissionAuditEntry {
+  return {
+    timestamp: Date.UTC(2025, 0, 15, 10, 30),
+    conversationId: "conv-1",
+    toolName: "Edit",
+    input: "notes/a.md",
+    decision: "allow",
+    source: "modal",
+    ...overrides,
+  };
+}
+
+describe("auditLog utilities", () => {
+  describe("summarizeToolInput", () => {
+    it("should prefer the command", () => {
+      expect(summarizeToolInput({ command: "git  status\n", description: "Check" })).toBe("git status");
+    });
+
+    it("should fall back to the file path", () => {
+      expect(summarizeToolInput({ file_path: "notes/a.md", content: "long" })).toBe("notes/a.md");
+    });
+
+    it("should fall back to truncated JSON", () => {
+      expect(summarizeToolInput({ query: "tags" })).toBe('{"query":"tags"}');
+      expect(summarizeToolInput({ query: "x".repeat(500) })).toHaveLength(200);
+    });
+
+    it("should return an empty string for empty input", () => {
+      expect(summarizeToolInput({})).toBe("");
+    });
+  });
+
+  describe("parseAuditLog / serializeAuditEntry", () => {
+    it("should round-trip entries", () => {
+      const entries = [entry({}), entry({ toolName: "Bash", decision: "deny", source: "rule" })];
+      const content = entries.map(serializeAuditEntry).join("");
+      expect(parseAuditLog(content)).toEqual(entries);
+    });
+
+    it("should skip malformed and partial lines", () => {
+      const content = serializeAuditEntry(entry({})) + '{"toolName": "Wri\n' + "[1,2]\n\n";
+      expect(parseAuditLog(content)).toHaveLength(1);
+    });
+  });
+
+  describe("filterAuditEntries", () => {
+    const entries = [
+      entry({ toolName: "Edit", decision: "allow", source: "modal" }),
+      entry({ toolName: "Bash", input: "rm -rf x", decision: "deny", source: "rule", detail: "Permission rule: deny Bash" }),
+      entry({ toolName: "Read", decision: "allow", source: "read-only" }),
+    ];
+
+    it("should return everything with an empty filter", () => {
+      expect(filterAuditEntries(entries, {})).toHaveLength(3);
+    });
+
+    it("should filter by decision and source", () => {
+      expect(filterAuditEntries(entries, { decision: "deny" }).map((e) => e.toolName)).toEqual(["Bash"]);
+      expect(filterAuditEntries(entries, { source: "read-only" }).map((e) => e.toolName)).toEqual(["Read"]);
+      expect(filterAuditEntries(entries, { decision: "allow", source: "rule" })).toEqual([]);
+    });
+
+    it("should match text case-insensitively against tool, input and detail", () => {
+      expect(filterAuditEntries(entries, { text: "RM -RF" })).toHaveLength(1);
+      expect(filterAuditEntries(entries, { text: "permission rule" })).toHaveLength(1);
+      expect(filterAuditEntries(entries, { text: "read" }).map((e) => e.toolName)).toEqual(["Read"]);
+    });
+  });
+
+  describe("formatAuditSource", () => {
+    it("should label sources", () => {
+      expect(formatAuditSource("modal")).toBe("User (prompt)");
+      expect(formatAuditSource("always-allowed")).toBe("Always allowed");
+      expect(formatAuditSource("default")).toBe("Default");
+    });
+  });
+
+  describe("formatAuditLogMarkdown", () => {
+    it("should render a summary and one table row per entry", () => {
+      const markdown = formatAuditLogMarkdown(
+        [entry({}), entry({ toolName: "Bash", input: "ls", decision: "deny", detail: "Denied: use Glob", edited: true })],
+        "My chat"
+      );
+
+      expect(markdown).toContain("# Permission audit: My chat");
+      expect(markdown).toContain("2 decisions (1 allowed, 1 denied).");
+      expect(markdown).toContain("| 2025-01-15T10:30:00.000Z | Edit | `notes/a.md` | allow | User (prompt) |  |");
+      expect(markdown).toContain("| Denied: use Glob; input edited |");
+    });
+
+    it("should escape pipes and newlines in cells", () => {
+      const markdown = formatAuditLogMarkdown([entry({ toolName: "Bash", input: "cat a | grep b", detail: "a\nb" })], "t");
+      expect(markdown).toContain("`cat a \\| grep b`");
+      expect(markdown).toContain("| a b |");
+    });
+  });
+});
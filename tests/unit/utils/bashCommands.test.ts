@@ -0,0 +1,221 @@
+import { describe, it, expect } from "vitest";
+import {
+  splitCompoundCommand,
+  tokenizeCommand,
+  hasCommandSubstitution,
+  hasFileRedirection,
+  matchCommandPattern,
+  commandMatchesPatterns,
+  suggestCommandPatterns,
+  unwrapCommand,
+  commandStartsWith,
+} from "../../../src/utils/bashCommands";
+
+describe("bashCommands utilities", () => {
+  describe("splitCompoundCommand", () => {
+    it("should return a single segment for simple commands", () => {
+      expect(splitCompoundCommand("git status")).toEqual(["git status"]);
+    });
+
+    it("should split on &&, ||, ;, | and &", () => {
+      expect(splitCompoundCommand("cd x && ls || echo no; cat a | grep b & wait")).toEqual([
+        "cd x",
+        "ls",
+        "echo no",
+        "cat a",
+        "grep b",
+        "wait",
+      ]);
+    });
+
+    it("should keep redirections that use & or | in their segment", () => {
+      expect(splitCompoundCommand("npm test 2>&1")).toEqual(["npm test 2>&1"]);
+      expect(splitCompoundCommand("echo hi >&2")).toEqual(["echo hi >&2"]);
+      expect(splitCompoundCommand("make &> log && ls")).toEqual(["make &> log", "ls"]);
+      expect(splitCompoundCommand("read x <&3 | cat")).toEqual(["read x <&3", "cat"]);
+      expect(splitCompoundCommand("echo x >| out")).toEqual(["echo x >| out"]);
+      expect(splitCompoundCommand("npm test 2>&1 | tail")).toEqual(["npm test 2>&1", "tail"]);
+    });
+
+    it("should split on newlines", () => {
+      expect(splitCompoundCommand("ls\ngit status\n")).toEqual(["ls", "git status"]);
+    });
+
+    it("should not split inside quotes", () => {
+      expect(splitCompoundCommand(`echo "a && b" 'c; d'`)).toEqual([`echo "a && b" 'c; d'`]);
+    });
+
+    it("should not split on escaped separators", () => {
+      expect(splitCompoundCommand("echo a \\; b")).toEqual(["echo a \\; b"]);
+    });
+
+    it("should drop empty segments", () => {
+      expect(splitCompoundCommand(" ; ;; ")).toEqual([]);
+      expect(splitCompoundCommand("")).toEqual([]);
+    });
+  });
+
+  describe("tokenizeCommand", () => {
+    it("should split on whitespace", () => {
+      expect(tokenizeCommand("git  log\t-n 3")).toEqual(["git", "log", "-n", "3"]);
+    });
+
+    it("should remove quotes and keep quoted whitespace", () => {
+      expect(tokenizeCommand(`git commit -m "fix bug" 'a b'`)).toEqual(["git", "commit", "-m", "fix bug", "a b"]);
+    });
+
+    it("should resolve backslash escapes", () => {
+      expect(tokenizeCommand("cat My\\ Note.md")).toEqual(["cat", "My Note.md"]);
+      expect(tokenizeCommand(`echo "say \\"hi\\""`)).toEqual(["echo", `say "hi"`]);
+    });
+
+    it("should keep empty quoted arguments", () => {
+      expect(tokenizeCommand(`grep "" a.md`)).toEqual(["grep", "", "a.md"]);
+    });
+  });
+
+  describe("unwrapCommand", () => {
+    it("should skip assignments, wrappers and their options", () => {
+      expect(unwrapCommand(tokenizeCommand("sudo env X=1 /bin/rm -rf tmp"))).toEqual(["rm", "-rf", "tmp"]);
+      expect(unwrapCommand(tokenizeCommand("sudo -u admin -- git push"))).toEqual(["git", "push"]);
+      expect(unwrapCommand(tokenizeCommand("LANG=C nice -n 10 make"))).toEqual(["make"]);
+      expect(unwrapCommand(tokenizeCommand("ls -la"))).toEqual(["ls", "-la"]);
+      expect(unwrapCommand(tokenizeCommand("sudo"))).toEqual([]);
+    });
+  });
+
+  describe("commandStartsWith", () => {
+    it("should compare arguments, letting the last one be cut short", () => {
+      expect(commandStartsWith("rm   -rf x", "rm -rf")).toBe(true);
+      expect(commandStartsWith("rm -rf x", "rm -r")).toBe(true);
+      expect(commandStartsWith("rm -r -f x", "rm -rf")).toBe(false);
+      expect(commandStartsWith("'rm' -rf x", "rm -rf")).toBe(true);
+      expect(commandStartsWith("rm -rf x", "  ")).toBe(false);
+    });
+
+    it("should look through wrappers only when asked", () => {
+      expect(commandStartsWith("sudo /bin/rm -rf x", "rm -rf")).toBe(false);
+      expect(commandStartsWith("sudo /bin/rm -rf x", "rm -rf", true)).toBe(true);
+      expect(commandStartsWith("sudo rm -rf x", "sudo", true)).toBe(true);
+    });
+  });
+
+  describe("hasCommandSubstitution", () => {
+    it("should detect $(...) and backticks", () => {
+      expect(hasCommandSubstitution("git log $(rm -rf x)")).toBe(true);
+      expect(hasCommandSubstitution("echo `whoami`")).toBe(true);
+      expect(hasCommandSubstitution(`echo "$(date)"`)).toBe(true);
+    });
+
+    it("should detect process substitution", () => {
+      expect(hasCommandSubstitution("diff <(ls a) <(ls b)")).toBe(true);
+    });
+
+    it("should ignore single-quoted and escaped text", () => {
+      expect(hasCommandSubstitution("echo '$(date)'")).toBe(false);
+      expect(hasCommandSubstitution("echo \\$(date)")).toBe(false);
+      expect(hasCommandSubstitution("echo $HOME")).toBe(false);
+    });
+  });
+
+  describe("hasFileRedirection", () => {
+    it("should detect output written to files", () => {
+      expect(hasFileRedirection("echo x > out.txt")).toBe(true);
+      expect(hasFileRedirection("echo x>>~/.bashrc")).toBe(true);
+      expect(hasFileRedirection("make &> log")).toBe(true);
+      expect(hasFileRedirection("echo x >| out")).toBe(true);
+      expect(hasFileRedirection("echo x >&out")).toBe(true);
+      expect(hasFileRedirection("ls 2> errors.log")).toBe(true);
+    });
+
+    it("should ignore /dev/null, descriptor copies and quoted text", () => {
+      expect(hasFileRedirection("npm test 2>&1")).toBe(false);
+      expect(hasFileRedirection("echo hi >&2")).toBe(false);
+      expect(hasFileRedirection("ls > /dev/null 2>&1")).toBe(false);
+      expect(hasFileRedirection(`echo "a > b" 'c >> d' e \\> f`)).toBe(false);
+      expect(hasFileRedirection("diff <(ls a) >(cat)")).toBe(false);
+    });
+  });
+
+  describe("matchCommandPattern", () => {
+    it("should match a program with any arguments", () => {
+      expect(matchCommandPattern("git *", "git status")).toBe(true);
+      expect(matchCommandPattern("git *", "git log -n 3")).toBe(true);
+      expect(matchCommandPattern("git *", "git")).toBe(true);
+    });
+
+    it("should compare whole arguments", () => {
+      expect(matchCommandPattern("git *", "gitk")).toBe(false);
+      expect(matchCommandPattern("git status", "git status")).toBe(true);
+      expect(matchCommandPattern("git status", "git status -s")).toBe(false);
+      expect(matchCommandPattern("git status", "git")).toBe(false);
+    });
+
+    it("should support wildcards inside arguments", () => {
+      const pattern = "python .claude/skills/*";
+      expect(matchCommandPattern(pattern, "python .claude/skills/search/run.py --query x")).toBe(true);
+      expect(matchCommandPattern(pattern, "python scripts/run.py")).toBe(false);
+      expect(matchCommandPattern("npm run test:*", "npm run test:unit")).toBe(true);
+    });
+
+    it("should compare quoted arguments by value", () => {
+      expect(matchCommandPattern("echo hello", `echo "hello"`)).toBe(true);
+      expect(matchCommandPattern(`cat "My Note.md"`, "cat My\\ Note.md")).toBe(true);
+    });
+
+    it("should not match empty input", () => {
+      expect(matchCommandPattern("", "git status")).toBe(false);
+      expect(matchCommandPattern("git *", "")).toBe(false);
+    });
+  });
+
+  describe("commandMatchesPatterns", () => {
+    const patterns = ["git *", "ls *"];
+
+    it("should require every segment to match", () => {
+      expect(commandMatchesPatterns("ls && git status", patterns)).toBe(true);
+      expect(commandMatchesPatterns("git status && rm -rf x", patterns)).toBe(false);
+      expect(commandMatchesPatterns("git log | sh", patterns)).toBe(false);
+    });
+
+    it("should never match commands with substitution", () => {
+      expect(commandMatchesPatterns("git log $(rm -rf x)", patterns)).toBe(false);
+    });
+
+    it("should never match commands that redirect output to a file", () => {
+      expect(commandMatchesPatterns("echo x > ~/.ssh/authorized_keys", ["echo *"])).toBe(false);
+      expect(commandMatchesPatterns("git log >> ~/.bashrc", patterns)).toBe(false);
+      expect(commandMatchesPatterns("git log 2>&1 > /dev/null", patterns)).toBe(true);
+    });
+
+    it("should not match empty commands or empty pattern lists", () => {
+      expect(commandMatchesPatterns("", patterns)).toBe(false);
+      expect(commandMatchesPatterns("git status", [])).toBe(false);
+    });
+  });
+
+  describe("suggestCommandPatterns", () => {
+    it("should not suggest patterns for redirection targets", () => {
+      expect(suggestCommandPatterns("npm test 2>&1")).toEqual(["npm *"]);
+      expect(suggestCommandPatterns("echo x > notes.txt")).toEqual([]);
+    });
+
+    it("should suggest one pattern per program", () => {
+      expect(suggestCommandPatterns("git status")).toEqual(["git *"]);
+      expect(suggestCommandPatterns("git add . && git commit -m x | cat")).toEqual(["git *", "cat *"]);
+    });
+
+    it("should quote programs containing whitespace", () => {
+      expect(suggestCommandPatterns(`"my tool" --flag`)).toEqual([`"my tool" *`]);
+    });
+
+    it("should return an empty list for empty commands", () => {
+      expect(suggestCommandPatterns("  ")).toEqual([]);
+    });
+
+    it("should suggest nothing for commands using command substitution", () => {
+      expect(suggestCommandPatterns("echo $(whoami)")).toEqual([]);
+      expect(suggestCommandPatterns("cat `ls`")).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,263 @@
+import { describe, it, expect } from "vitest";
+import {
+  validateCanvas,
+  parseCanvas,
+  serializeCanvas,
+  createCanvasId,
+  findFreePosition,
+  pickEdgeSides,
+  addToCanvas,
+  assignLayers,
+  layoutCanvas,
+  summarizeCanvas,
+  type CanvasData,
+  type CanvasNode,
+} from "../../../src/utils/canvas";
+
+// Deterministic random source (a linear congruential generator) so generated ids are stable.
+function sequence(): () => number {
+  let state = 1;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+function node(id: string, x: number, y: number, overrides?: Partial<CanvasNode>): CanvasNode {
+  return { id, type: "text", text: id, x, y, width: 200, height: 100, ...overrides };
+}
+
+const overlapping = (a: CanvasNode, b: CanvasNode) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+describe("canvas utilities", () => {
+  describe("validateCanvas", () => {
+    it("should accept a valid canvas with every node type", () => {
+      const canvas = {
+        nodes: [
+          node("a", 0, 0, { color: "1" }),
+          { id: "b", type: "file", file: "Notes/b.md", subpath: "#Summary", x: 300, y: 0, width: 400, height: 300 },
+          { id: "c", type: "link", url: "https://example.com", x: 0, y: 400, width: 400, height: 300 },
+          { id: "g", type: "group", label: "Sources", backgroundStyle: "cover", x: -5, y: -5, width: 900, height: 90 },
+        ],
+        edges: [{ id: "e", fromNode: "a", fromSide: "right", toNode: "b", toEnd: "arrow", color: "#ff0000" }],
+      };
+      expect(validateCanvas(canvas)).toEqual([]);
+      expect(validateCanvas({})).toEqual([]);
+    });
+
+    it("should report spec violations", () => {
+      const errors = validateCanvas({
+        nodes: [
+          node("a", 0.5, 0),
+          node("a", 0, 0, { color: "red" }),
+          { id: "f", type: "file", x: 0, y: 0, width: 10, height: 10 },
+          { id: "s", type: "shape", x: 0, y: 0, width: 10, height: 10 },
+        ],
+        edges: [{ id: "e", fromNode: "a", toNode: "missing", fromSide: "middle" }],
+      });
+      expect(errors).toEqual([
+        "Node a: x must be an integer",
+        "Duplicate id: a",
+        'Node a: color must be a preset from "1" to "6" or a hex color',
+        "Node f: file nodes need file",
+        "Node s: type must be one of text, file, link, group",
+        "Edge e: toNode missing doesn't exist",
+        "Edge e: fromSide must be one of top, right, bottom, left",
+      ]);
+      expect(validateCanvas([])).toEqual(["Canvas must be a JSON object"]);
+    });
+  });
+
+  describe("parseCanvas / serializeCanvas", () => {
+    it("should round-trip a canvas and keep unknown top-level fields", () => {
+      const canvas = { nodes: [node("a", 0, 0)], edges: [], version: "1.0" } as CanvasData;
+      expect(parseCanvas(serializeCanvas(canvas))).toEqual(canvas);
+      expect(serializeCanvas(canvas)).toContain('\n\t"nodes"');
+    });
+
+    it("should read an empty file as an empty canvas", () => {
+      expect(parseCanvas("  ")).toEqual({ nodes: [], edges: [] });
+      expect(parseCanvas("{}")).toEqual({ nodes: [], edges: [] });
+    });
+
+    it("should return errors for invalid JSON and invalid canvases", () => {
+      expect(parseCanvas("{")).toMatch(/^Canvas is not valid JSON/);
+      expect(parseCanvas('{"nodes": {}}')).toBe("Invalid canvas: nodes must be an array");
+    });
+  });
+
+  describe("createCanvasId", () => {
+    it("should create 16-character hex ids that aren't taken", () => {
+      const first = createCanvasId(new Set(), sequence());
+      expect(first).toMatch(/^[0-9a-f]{16}$/);
+      const second = createCanvasId(new Set([first]), sequence());
+      expect(second).not.toBe(first);
+    });
+  });
+
+  describe("findFreePosition", () => {
+    it("should start at the origin of an empty canvas", () => {
+      expect(findFreePosition([], { width: 100, height: 100 })).toEqual({ x: 0, y: 0 });
+    });
+
+    it("should place nodes below the canvas without an anchor", () => {
+      const nodes = [node("a", 0, 0), node("b", 300, 200)];
+      expect(findFreePosition(nodes, { width: 100, height: 100 })).toEqual({ x: 0, y: 380 });
+    });
+
+    it("should place nodes right of the anchor, below nodes in the way", () => {
+      const anchor = node("a", 0, 0);
+      const blocker = node("b", 280, 0);
+      const position = findFreePosition([anchor, blocker], { width: 200, height: 100 }, anchor);
+      expect(position).toEqual({ x: 280, y: 140 });
+      const placed = node("new", position.x, position.y);
+      expect(overlapping(placed, anchor) || overlapping(placed, blocker)).toBe(false);
+    });
+  });
+
+  describe("pickEdgeSides", () => {
+    it("should connect facing sides along the main axis", () => {
+      expect(pickEdgeSides(node("a", 0, 0), node("b", 500, 50))).toEqual({ fromSide: "right", toSide: "left" });
+      expect(pickEdgeSides(node("a", 0, 0), node("b", 0, -400))).toEqual({ fromSide: "top", toSide: "bottom" });
+    });
+  });
+
+  describe("addToCanvas", () => {
+    const canvas: CanvasData = { nodes: [node("a", 0, 0)], edges: [] };
+
+    it("should add placed nodes and edges between new and existing nodes", () => {
+      const result = addToCanvas(
+        canvas,
+        [
+          { id: "b", type: "text", text: "Idea", near: "a" },
+          { id: "c", type: "file", file: "Notes/c.md", near: "a" },
+        ],
+        [
+          { from: "a", to: "b", label: "leads to" },
+          { from: "a", to: "c" },
+        ],
+        sequence()
+      );
+      if (typeof result === "string") throw new Error(result);
+
+      expect(result.nodeIds).toEqual(["b", "c"]);
+      expect(result.edgeIds).toHaveLength(2);
+      const [a, b, c] = result.canvas.nodes;
+      expect(b).toMatchObject({ type: "text", text: "Idea", x: 280, y: 0, width: 260, height: 120 });
+      expect(c).toMatchObject({ type: "file", file: "Notes/c.md", x: 280, width: 400 });
+      expect(overlapping(b, c) || overlapping(a, c)).toBe(false);
+      expect(result.canvas.edges[0]).toMatchObject({
+        fromNode: "a",
+        fromSide: "right",
+        toNode: "b",
+        toSide: "left",
+        label: "leads to",
+      });
+      expect(validateCanvas(result.canvas)).toEqual([]);
+      expect(canvas.nodes).toHaveLength(1);
+    });
+
+    it("should keep explicit positions and round them", () => {
+      const result = addToCanvas(canvas, [{ type: "group", label: "G", x: 10.4, y: -20, width: 99.6 }], []);
+      if (typeof result === "string") throw new Error(result);
+      expect(result.canvas.nodes[1]).toMatchObject({ type: "group", label: "G", x: 10, y: -20, width: 100 });
+    });
+
+    it("should reject taken ids, unknown nodes and invalid nodes", () => {
+      expect(addToCanvas(canvas, [{ id: "a", type: "text", text: "x" }], [])).toBe("Id already in use: a");
+      expect(addToCanvas(canvas, [{ type: "text", text: "x", near: "zz" }], [])).toBe(
+        "Node to place near not found: zz"
+      );
+      expect(addToCanvas(canvas, [], [{ from: "a", to: "zz" }])).toBe("Edge target not found: zz");
+      expect(addToCanvas(canvas, [{ id: "l", type: "link" }], [])).toBe("Invalid canvas: Node l: link nodes need url");
+      expect(addToCanvas(canvas, [{ id: "t", type: "text", text: "x", color: "blue" }], [])).toMatch(/color must/);
+    });
+  });
+
+  describe("assignLayers", () => {
+    it("should place each node one layer after its furthest parent", () => {
+      const layers = assignLayers(
+        ["a", "b", "c", "d"],
+        [
+          { from: "a", to: "b" },
+          { from: "b", to: "c" },
+          { from: "a", to: "c" },
+        ]
+      );
+      expect(Object.fromEntries(layers)).toEqual({ a: 0, b: 1, c: 2, d: 0 });
+    });
+
+    it("should terminate on cycles", () => {
+      const layers = assignLayers(
+        ["a", "b", "c"],
+        [
+          { from: "a", to: "b" },
+          { from: "b", to: "a" },
+          { from: "b", to: "c" },
+        ]
+      );
+      expect(layers.size).toBe(3);
+      expect(layers.get("b")).toBeGreaterThan(layers.get("a")!);
+    });
+  });
+
+  describe("layoutCanvas", () => {
+    const notes = ["a", "b", "c"].map((id) => ({ id, type: "file" as const, file: `${id}.md` }));
+    const links = [
+      { from: "a", to: "b", label: "supports" },
+      { from: "a", to: "c" },
+    ];
+
+    it("should lay out layers left to right without overlaps", () => {
+      const canvas = layoutCanvas(notes, links, "right", sequence());
+      if (typeof canvas === "string") throw new Error(canvas);
+
+      const [a, b, c] = canvas.nodes;
+      expect(a.x).toBe(0);
+      expect(b.x).toBe(c.x);
+      expect(b.x).toBeGreaterThan(a.x + a.width);
+      expect(overlapping(b, c)).toBe(false);
+      // The single-node layer is centered against the two-node layer.
+      expect(a.y + a.height / 2).toBe((b.y + c.y + c.height) / 2);
+      expect(canvas.edges[0]).toMatchObject({ fromNode: "a", toNode: "b", label: "supports", fromSide: "right" });
+      expect(validateCanvas(canvas)).toEqual([]);
+    });
+
+    it("should lay out top to bottom", () => {
+      const canvas = layoutCanvas(notes, links, "down", sequence());
+      if (typeof canvas === "string") throw new Error(canvas);
+      const [a, b] = canvas.nodes;
+      expect(b.y).toBeGreaterThan(a.y + a.height);
+      expect(canvas.edges[0]).toMatchObject({ fromSide: "bottom", toSide: "top" });
+    });
+
+    it("should reject relationships to unknown nodes", () => {
+      expect(layoutCanvas(notes, [{ from: "a", to: "x" }])).toBe("Relationship refers to an unknown node: x");
+    });
+  });
+
+  describe("summarizeCanvas", () => {
+    it("should list node content, innermost groups and edges", () => {
+      const canvas: CanvasData = {
+        nodes: [
+          { id: "outer", type: "group", label: "Outer", x: 0, y: 0, width: 1000, height: 1000 },
+          { id: "inner", type: "group", x: 10, y: 10, width: 500, height: 500 },
+          node("t", 20, 20),
+          { id: "f", type: "file", file: "a.md", subpath: "#Intro", x: 600, y: 600, width: 100, height: 100 },
+          { id: "l", type: "link", url: "https://example.com", x: 2000, y: 0, width: 100, height: 100 },
+        ],
+        edges: [{ id: "e", fromNode: "t", toNode: "f", label: "cites" }],
+      };
+      const summary = summarizeCanvas(canvas);
+      expect(summary.nodes.map((n) => [n.id, n.content, n.group])).toEqual([
+        ["outer", "Outer", undefined],
+        ["inner", undefined, "outer"],
+        ["t", "t", "inner"],
+        ["f", "a.md#Intro", "outer"],
+        ["l", "https://example.com", undefined],
+      ]);
+      expect(summary.edges).toEqual([{ id: "e", from: "t", to: "f", label: "cites" }]);
+    });
+  });
+});
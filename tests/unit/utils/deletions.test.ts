@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import {
+  getTrashLocation,
+  serializeDeletionEvent,
+  parseDeletionLog,
+  serializeDeletionLog,
+  planDeletionLogPrune,
+  getRestorableFiles,
+  getRestorePath,
+  type DeletedFile,
+} from "../../../src/utils/deletions";
+
+function deleted(overrides?: Partial<DeletedFile>): DeletedFile {
+  return {
+    id: "del-1",
+    conversationId: "conv-1",
+    path: "Inbox/old.md",
+    deletedAt: 1000,
+    trash: "local",
+    backupPath: ".obsidian-claude-code/deletions/backups/del-1",
+    ...overrides,
+  };
+}
+
+describe("deletions utilities", () => {
+  describe("getTrashLocation", () => {
+    it("should use the system trash only when Obsidian is set to it", () => {
+      expect(getTrashLocation("system")).toBe("system");
+      expect(getTrashLocation("local")).toBe("local");
+      expect(getTrashLocation("none")).toBe("local");
+      expect(getTrashLocation(undefined)).toBe("local");
+    });
+  });
+
+  describe("parseDeletionLog", () => {
+    it("should round-trip deletions and apply restores", () => {
+      const log =
+        serializeDeletionEvent({ type: "deleted", ...deleted() }) +
+        serializeDeletionEvent({ type: "deleted", ...deleted({ id: "del-2", path: "b.md" }) }) +
+        serializeDeletionEvent({ type: "restored", id: "del-1", restoredAt: 2000, restoredTo: "Inbox/old.md" });
+
+      expect(parseDeletionLog(log)).toEqual([
+        deleted({ restoredAt: 2000, restoredTo: "Inbox/old.md" }),
+        deleted({ id: "del-2", path: "b.md" }),
+      ]);
+    });
+
+    it("should skip malformed lines and restores of unknown deletions", () => {
+      const log =
+        "not json\n" +
+        serializeDeletionEvent({ type: "restored", id: "missing", restoredAt: 1, restoredTo: "x.md" }) +
+        serializeDeletionEvent({ type: "deleted", ...deleted() }) +
+        '{"type":"deleted","id":';
+      expect(parseDeletionLog(log)).toEqual([deleted()]);
+    });
+  });
+
+  describe("serializeDeletionLog", () => {
+    it("should write a log that parses back to the same files", () => {
+      const files = [deleted({ restoredAt: 2000, restoredTo: "Inbox/old.md" }), deleted({ id: "del-2", path: "b.md" })];
+      expect(parseDeletionLog(serializeDeletionLog(files))).toEqual(files);
+      expect(serializeDeletionLog([])).toBe("");
+    });
+  });
+
+  describe("planDeletionLogPrune", () => {
+    it("should drop expired files and all but the newest entries", () => {
+      const files = [
+        deleted({ id: "old", deletedAt: 100 }),
+        deleted({ id: "a", deletedAt: 900 }),
+        deleted({ id: "b", deletedAt: 950 }),
+        deleted({ id: "c", deletedAt: 1000 }),
+      ];
+      const { kept, dropped } = planDeletionLogPrune(files, 1000, 500, 2);
+      expect(kept.map((file) => file.id)).toEqual(["b", "c"]);
+      expect(dropped.map((file) => file.id)).toEqual(["old", "a"]);
+    });
+
+    it("should keep everything within the limits", () => {
+      const files = [deleted(), deleted({ id: "del-2" })];
+      expect(planDeletionLogPrune(files, 1000, 500, 10)).toEqual({ kept: files, dropped: [] });
+    });
+  });
+
+  describe("getRestorableFiles", () => {
+    it("should keep backed-up files that haven't been restored", () => {
+      const files = [
+        deleted(),
+        deleted({ id: "del-2", backupPath: null }),
+        deleted({ id: "del-3", restoredAt: 2000, restoredTo: "Inbox/old.md" }),
+      ];
+      expect(getRestorableFiles(files).map((file) => file.id)).toEqual(["del-1"]);
+    });
+  });
+
+  describe("getRestorePath", () => {
+    it("should use the original path when it is free", () => {
+      expect(getRestorePath("Inbox/old.md", () => false)).toBe("Inbox/old.md");
+    });
+
+    it("should add a numbered suffix before the extension when the path is taken", () => {
+      const taken = new Set(["Inbox/old.md", "Inbox/old (restored).md"]);
+      expect(getRestorePath("Inbox/old.md", (path) => taken.has(path))).toBe("Inbox/old (restored 2).md");
+      expect(getRestorePath("v1.2/README", (path) => path === "v1.2/README")).toBe("v1.2/README (restored)");
+      expect(getRestorePath(".env", (path) => path === ".env")).toBe(".env (restored)");
+    });
+  });
+});
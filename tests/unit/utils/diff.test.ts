@@ -0,0 +1,225 @@
+import { describe, it, expect } from "vitest";
+import {
+  splitLines,
+  computeLineDiff,
+  buildHunks,
+  formatHunkHeader,
+  applyEdit,
+  buildEditPreview,
+  hasEditPreview,
+} from "../../../src/utils/diff";
+
+const lines = (count: number, prefix = "line") => Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`);
+
+describe("diff utilities", () => {
+  describe("splitLines", () => {
+    it("should split on LF and CRLF", () => {
+      expect(splitLines("a\nb\r\nc")).toEqual(["a", "b", "c"]);
+    });
+
+    it("should ignore a trailing newline", () => {
+      expect(splitLines("a\nb\n")).toEqual(["a", "b"]);
+    });
+
+    it("should return no lines for an empty string", () => {
+      expect(splitLines("")).toEqual([]);
+    });
+  });
+
+  describe("computeLineDiff", () => {
+    it("should mark identical text as context", () => {
+      const diff = computeLineDiff("a\nb", "a\nb");
+      expect(diff.every((line) => line.type === "context")).toBe(true);
+    });
+
+    it("should detect a changed line", () => {
+      expect(computeLineDiff("a\nb\nc", "a\nB\nc")).toEqual([
+        { type: "context", text: "a", oldLine: 1, newLine: 1 },
+        { type: "remove", text: "b", oldLine: 2 },
+        { type: "add", text: "B", newLine: 2 },
+        { type: "context", text: "c", oldLine: 3, newLine: 3 },
+      ]);
+    });
+
+    it("should detect insertions and deletions", () => {
+      const diff = computeLineDiff("a\nc\nd", "a\nb\nc");
+      expect(diff.map((line) => `${line.type}:${line.text}`)).toEqual([
+        "context:a",
+        "add:b",
+        "context:c",
+        "remove:d",
+      ]);
+    });
+
+    it("should treat a new file as all additions", () => {
+      expect(computeLineDiff("", "a\nb").map((line) => line.type)).toEqual(["add", "add"]);
+    });
+  });
+
+  describe("buildHunks", () => {
+    it("should return no hunks when nothing changed", () => {
+      expect(buildHunks(computeLineDiff("a\nb", "a\nb"))).toEqual([]);
+    });
+
+    it("should include three lines of context by default", () => {
+      const before = lines(20);
+      const after = [...before];
+      after[9] = "changed";
+      const [hunk] = buildHunks(computeLineDiff(before.join("\n"), after.join("\n")));
+
+      expect(hunk.oldStart).toBe(7);
+      expect(hunk.oldLines).toBe(7);
+      expect(hunk.newStart).toBe(7);
+      expect(hunk.newLines).toBe(7);
+      expect(hunk.lines.filter((line) => line.type === "context")).toHaveLength(6);
+    });
+
+    it("should split distant changes into separate hunks", () => {
+      const before = lines(40);
+      const after = [...before];
+      after[2] = "first";
+      after[35] = "second";
+      const hunks = buildHunks(computeLineDiff(before.join("\n"), after.join("\n")));
+
+      expect(hunks).toHaveLength(2);
+      expect(formatHunkHeader(hunks[0])).toBe("@@ -1,6 +1,6 @@");
+      expect(formatHunkHeader(hunks[1])).toBe("@@ -33,7 +33,7 @@");
+    });
+
+    it("should merge nearby changes into one hunk", () => {
+      const before = lines(20);
+      const after = [...before];
+      after[5] = "first";
+      after[10] = "second";
+      expect(buildHunks(computeLineDiff(before.join("\n"), after.join("\n")))).toHaveLength(1);
+    });
+
+    it("should use the unified convention for an empty old side", () => {
+      const [hunk] = buildHunks(computeLineDiff("", "a\nb"));
+      expect(formatHunkHeader(hunk)).toBe("@@ -0,0 +1,2 @@");
+    });
+  });
+
+  describe("applyEdit", () => {
+    it("should replace the first occurrence", () => {
+      expect(applyEdit("a b a", "a", "c")).toBe("c b a");
+    });
+
+    it("should replace all occurrences when asked", () => {
+      expect(applyEdit("a b a", "a", "c", true)).toBe("c b c");
+    });
+
+    it("should not interpret replacement patterns", () => {
+      expect(applyEdit("price", "price", "$& $1")).toBe("$& $1");
+    });
+
+    it("should return null when the text isn't found", () => {
+      expect(applyEdit("abc", "x", "y")).toBeNull();
+      expect(applyEdit("abc", "", "y")).toBeNull();
+    });
+  });
+
+  describe("hasEditPreview", () => {
+    it("should only preview tools that rewrite a file's text", () => {
+      expect(hasEditPreview("Write")).toBe(true);
+      expect(hasEditPreview("MultiEdit")).toBe(true);
+      expect(hasEditPreview("mcp__obsidian__update_properties")).toBe(false);
+    });
+  });
+
+  describe("buildEditPreview", () => {
+    const file = "# Title\n\nFirst paragraph.\n\nSecond paragraph.\n";
+
+    it("should diff an Edit against the current file", () => {
+      const [preview] = buildEditPreview(
+        "Edit",
+        { file_path: "a.md", old_string: "First paragraph.", new_string: "Updated paragraph." },
+        file
+      );
+
+      expect(preview.title).toBe("Edit");
+      expect(preview.warning).toBeUndefined();
+      const changed = preview.hunks[0].lines.filter((line) => line.type !== "context");
+      expect(changed).toEqual([
+        { type: "remove", text: "First paragraph.", oldLine: 3 },
+        { type: "add", text: "Updated paragraph.", newLine: 3 },
+      ]);
+    });
+
+    it("should show MultiEdit edits one by one against the evolving file", () => {
+      const previews = buildEditPreview(
+        "MultiEdit",
+        {
+          file_path: "a.md",
+          edits: [
+            { old_string: "First", new_string: "1st" },
+            { old_string: "1st paragraph.", new_string: "1st paragraph, again." },
+          ],
+        },
+        file
+      );
+
+      expect(previews.map((p) => p.title)).toEqual(["Edit 1 of 2", "Edit 2 of 2"]);
+      expect(previews[1].warning).toBeUndefined();
+      expect(previews[1].hunks[0].lines.find((line) => line.type === "add")?.text).toBe("1st paragraph, again.");
+    });
+
+    it("should mark the edits after a failing MultiEdit edit as not applied", () => {
+      const previews = buildEditPreview(
+        "MultiEdit",
+        {
+          file_path: "a.md",
+          edits: [
+            { old_string: "First", new_string: "1st" },
+            { old_string: "missing", new_string: "new" },
+            { old_string: "1st paragraph.", new_string: "1st paragraph, again." },
+          ],
+        },
+        file
+      );
+
+      expect(previews[0].warning).toBeUndefined();
+      expect(previews[1].warning).toBe("Text to replace was not found in the file, so none of the edits would be applied");
+      expect(previews[2].warning).toBe("Not applied: edit 2 would fail");
+      expect(previews[2].hunks[0].lines.map((line) => line.type)).toEqual(["remove", "add"]);
+    });
+
+    it("should fall back to the edit strings when the text isn't found", () => {
+      const [preview] = buildEditPreview("Edit", { old_string: "missing", new_string: "new" }, file);
+      expect(preview.warning).toContain("not found");
+      expect(preview.hunks[0].lines.map((line) => line.type)).toEqual(["remove", "add"]);
+    });
+
+    it("should fall back to the edit strings when the file can't be read", () => {
+      const [preview] = buildEditPreview("Edit", { old_string: "a", new_string: "b" }, null, true);
+      expect(preview.warning).toContain("could not be read");
+      const [write] = buildEditPreview("Write", { file_path: "a.md", content: "a" }, null, true);
+      expect(write.warning).toContain("could not be read");
+    });
+
+    it("should show edits to a file that doesn't exist yet against an empty original", () => {
+      const [created] = buildEditPreview("Edit", { old_string: "", new_string: "a\nb" }, null);
+      expect(created.warning).toBeUndefined();
+      expect(created.hunks[0].lines.every((line) => line.type === "add")).toBe(true);
+
+      const [missing] = buildEditPreview("Edit", { old_string: "a", new_string: "b" }, null);
+      expect(missing.warning).toBe("Text to replace was not found in the file");
+    });
+
+    it("should show a Write to a new file as additions", () => {
+      const [preview] = buildEditPreview("Write", { file_path: "new.md", content: "a\nb" }, null);
+      expect(preview.title).toBe("New file");
+      expect(preview.hunks[0].lines.every((line) => line.type === "add")).toBe(true);
+    });
+
+    it("should diff a Write against the existing file", () => {
+      const [preview] = buildEditPreview("Write", { file_path: "a.md", content: file.replace("Second", "2nd") }, file);
+      expect(preview.title).toBe("Overwrite file");
+      expect(preview.hunks).toHaveLength(1);
+    });
+
+    it("should return no previews for other tools", () => {
+      expect(buildEditPreview("Bash", { command: "ls" }, null)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { getEditableFields, applyFieldEdits, hasFieldEdits } from "../../../src/utils/editableInput";
+
+describe("editableInput utilities", () => {
+  describe("getEditableFields", () => {
+    it("should expose the Bash command as a single-line field", () => {
+      expect(getEditableFields("Bash", { command: "ls -la", description: "List" })).toEqual([
+        { key: "command", label: "Command", value: "ls -la", multiline: false },
+      ]);
+    });
+
+    it("should expose a multi-line Bash command as a multi-line field", () => {
+      const command = "cat <<'EOF' > notes.md\n# Notes\nEOF";
+      expect(getEditableFields("Bash", { command })).toEqual([
+        { key: "command", label: "Command", value: command, multiline: true },
+      ]);
+    });
+
+    it("should expose Write content", () => {
+      expect(getEditableFields("Write", { file_path: "a.md", content: "Hello" })).toEqual([
+        { key: "content", label: "Content", value: "Hello", multiline: true },
+      ]);
+    });
+
+    it("should expose the Edit replacement but not the text to replace", () => {
+      const fields = getEditableFields("Edit", { file_path: "a.md", old_string: "a", new_string: "b" });
+      expect(fields.map((f) => f.key)).toEqual(["new_string"]);
+      expect(fields[0].value).toBe("b");
+    });
+
+    it("should expose one field per MultiEdit edit", () => {
+      const fields = getEditableFields("MultiEdit", {
+        edits: [
+          { old_string: "a", new_string: "b" },
+          { old_string: "c", new_string: "d" },
+        ],
+      });
+      expect(fields.map((f) => f.key)).toEqual(["edits.0.new_string", "edits.1.new_string"]);
+      expect(fields.map((f) => f.label)).toEqual(["Replacement 1 of 2", "Replacement 2 of 2"]);
+    });
+
+    it("should return no fields for other tools", () => {
+      expect(getEditableFields("Read", { file_path: "a.md" })).toEqual([]);
+      expect(getEditableFields("mcp__obsidian__create_note", { content: "x" })).toEqual([]);
+    });
+  });
+
+  describe("applyFieldEdits", () => {
+    it("should update top-level fields", () => {
+      const input = { command: "git push", description: "Push" };
+      expect(applyFieldEdits("Bash", input, { command: "git push --dry-run" })).toEqual({
+        command: "git push --dry-run",
+        description: "Push",
+      });
+    });
+
+    it("should keep the newlines of an edited multi-line command", () => {
+      const input = { command: "cat <<'EOF' > notes.md\n# Notes\nEOF" };
+      const edited = "cat <<'EOF' > notes.md\n# Notes\n- item\nEOF";
+      expect(applyFieldEdits("Bash", input, { command: edited })).toEqual({ command: edited });
+    });
+
+    it("should update MultiEdit edits without touching the original", () => {
+      const input = {
+        file_path: "a.md",
+        edits: [
+          { old_string: "a", new_string: "b" },
+          { old_string: "c", new_string: "d" },
+        ],
+      };
+      const updated = applyFieldEdits("MultiEdit", input, { "edits.1.new_string": "D" });
+
+      expect((updated.edits as any[])[1]).toEqual({ old_string: "c", new_string: "D" });
+      expect(input.edits[1].new_string).toBe("d");
+    });
+
+    it("should ignore fields that aren't editable", () => {
+      const input = { file_path: "a.md", old_string: "a", new_string: "b" };
+      const updated = applyFieldEdits("Edit", input, { file_path: "../../etc/passwd", old_string: "x" });
+      expect(updated).toEqual(input);
+    });
+  });
+
+  describe("hasFieldEdits", () => {
+    const input = { command: "ls" };
+
+    it("should be false when nothing was edited", () => {
+      expect(hasFieldEdits("Bash", input, {})).toBe(false);
+      expect(hasFieldEdits("Bash", input, { command: "ls" })).toBe(false);
+    });
+
+    it("should be true when a value changed", () => {
+      expect(hasFieldEdits("Bash", input, { command: "ls -la" })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { comparePoints, orderSelection, getPointAfter, getSurroundingLines } from "../../../src/utils/editor";
+
+describe("editor utilities", () => {
+  describe("orderSelection", () => {
+    it("should order backwards selections", () => {
+      const a = { line: 2, ch: 4 };
+      const b = { line: 1, ch: 9 };
+      expect(orderSelection(a, b)).toEqual({ from: b, to: a });
+      expect(orderSelection(b, a)).toEqual({ from: b, to: a });
+      expect(comparePoints({ line: 1, ch: 2 }, { line: 1, ch: 5 })).toBeLessThan(0);
+      expect(comparePoints(a, { ...a })).toBe(0);
+    });
+  });
+
+  describe("getPointAfter", () => {
+    it("should move along the line for single-line text", () => {
+      expect(getPointAfter({ line: 3, ch: 5 }, "abc")).toEqual({ line: 3, ch: 8 });
+      expect(getPointAfter({ line: 3, ch: 5 }, "")).toEqual({ line: 3, ch: 5 });
+    });
+
+    it("should end on the last inserted line for multi-line text", () => {
+      expect(getPointAfter({ line: 3, ch: 5 }, "ab\ncd\nefg")).toEqual({ line: 5, ch: 3 });
+      expect(getPointAfter({ line: 0, ch: 2 }, "x\n")).toEqual({ line: 1, ch: 0 });
+    });
+  });
+
+  describe("getSurroundingLines", () => {
+    const content = ["l1", "l2", "l3", "l4", "l5", "l6", "l7"].join("\n");
+
+    it("should return the covered lines and context on both sides", () => {
+      expect(getSurroundingLines(content, { line: 3, ch: 1 }, { line: 4, ch: 0 }, 2)).toEqual({
+        startLine: 2,
+        before: "l2\nl3",
+        after: "l6\nl7",
+        lines: "l4\nl5",
+      });
+    });
+
+    it("should stop at the start and end of the document", () => {
+      expect(getSurroundingLines(content, { line: 0, ch: 0 }, { line: 0, ch: 0 }, 3)).toEqual({
+        startLine: 1,
+        before: "",
+        after: "l2\nl3\nl4",
+        lines: "l1",
+      });
+      expect(getSurroundingLines(content, { line: 6, ch: 2 }, { line: 9, ch: 0 }, 0)).toMatchObject({
+        startLine: 7,
+        after: "",
+        lines: "l7",
+      });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import {
+  chunkNote,
+  hashEmbedding,
+  normalizeVector,
+  cosineSimilarity,
+  averageVectors,
+  encodeVector,
+  decodeVector,
+  parseEmbeddingResponse,
+  parseStoredIndex,
+  HASH_EMBEDDING_DIMENSIONS,
+} from "../../../src/utils/embeddings";
+
+describe("embeddings utilities", () => {
+  describe("chunkNote", () => {
+    it("should chunk by heading path, skipping frontmatter and empty sections", () => {
+      const content = [
+        "---",
+        "tags: [a]",
+        "---",
+        "Intro text.",
+        "# Project",
+        "## Goals",
+        "Ship it.",
+        "# Empty",
+        "",
+      ].join("\n");
+      expect(chunkNote(content, 1000)).toEqual([
+        { heading: "", line: 3, lineCount: 1, text: "Intro text." },
+        { heading: "# Project", line: 4, lineCount: 1, text: "# Project" },
+        { heading: "# Project > ## Goals", line: 5, lineCount: 2, text: "## Goals\nShip it." },
+        { heading: "# Empty", line: 7, lineCount: 2, text: "# Empty" },
+      ]);
+    });
+
+    it("should split long sections at blank lines", () => {
+      const paragraph = "word ".repeat(30).trim();
+      const content = ["# Long", paragraph, "", paragraph, "", paragraph].join("\n");
+      const chunks = chunkNote(content, 200);
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.every((chunk) => chunk.heading === "# Long")).toBe(true);
+      expect(chunks.every((chunk) => chunk.text.length <= 300)).toBe(true);
+      expect(chunks.reduce((sum, chunk) => sum + chunk.lineCount, 0)).toBe(6);
+    });
+  });
+
+  describe("hashEmbedding", () => {
+    it("should return deterministic unit vectors", () => {
+      const vector = hashEmbedding("project budget review");
+      expect(vector).toHaveLength(HASH_EMBEDDING_DIMENSIONS);
+      expect(vector).toEqual(hashEmbedding("Project budget, review!"));
+      expect(cosineSimilarity(vector, vector)).toBeCloseTo(1, 5);
+    });
+
+    it("should score texts sharing words above unrelated ones", () => {
+      const query = hashEmbedding("budget planning for next year");
+      const related = hashEmbedding("The yearly budget and planning meeting");
+      const unrelated = hashEmbedding("Recipe for banana bread with walnuts");
+      expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+    });
+
+    it("should return a zero vector for text without words", () => {
+      expect(Array.from(hashEmbedding("...", 8))).toEqual(new Array(8).fill(0));
+    });
+  });
+
+  describe("vector math", () => {
+    it("should normalize and average vectors", () => {
+      expect(Array.from(normalizeVector([3, 4]))).toEqual([0.6000000238418579, 0.800000011920929]);
+      const average = averageVectors([normalizeVector([1, 0]), normalizeVector([0, 1])]);
+      expect(Array.from(average).map((value) => value.toFixed(3))).toEqual(["0.707", "0.707"]);
+      expect(averageVectors([])).toHaveLength(0);
+    });
+
+    it("should score vectors of different lengths as unrelated", () => {
+      expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    });
+
+    it("should round-trip vectors through base64", () => {
+      const vector = hashEmbedding("round trip");
+      expect(decodeVector(encodeVector(vector))).toEqual(vector);
+      const slice = new Float32Array([1, 2, 3, 4]).subarray(1, 3);
+      expect(Array.from(decodeVector(encodeVector(slice)))).toEqual([2, 3]);
+    });
+  });
+
+  describe("parseEmbeddingResponse", () => {
+    it("should return vectors in input order", () => {
+      const response = {
+        data: [
+          { index: 1, embedding: [0, 1] },
+          { index: 0, embedding: [1, 0] },
+        ],
+      };
+      expect(parseEmbeddingResponse(response, 2)).toEqual([
+        [1, 0],
+        [0, 1],
+      ]);
+    });
+
+    it("should reject malformed responses", () => {
+      expect(parseEmbeddingResponse({ error: "bad" }, 1)).toBe("Embedding response has no data array");
+      expect(parseEmbeddingResponse({ data: [{ embedding: "x" }] }, 1)).toBe("Embedding 0 is not a list of numbers");
+      expect(parseEmbeddingResponse({ data: [{ embedding: [1] }] }, 2)).toBe("Expected 2 embeddings, got 1");
+      expect(parseEmbeddingResponse({ data: [{ index: 1, embedding: [1] }, { index: 1, embedding: [2] }] }, 2)).toBe(
+        "Expected 2 embeddings, got 2"
+      );
+    });
+  });
+
+  describe("parseStoredIndex", () => {
+    const stored = { version: 1, provider: "local-hash-512", notes: {} };
+
+    it("should accept an index from the same provider", () => {
+      expect(parseStoredIndex(JSON.stringify(stored), "local-hash-512")).toEqual(stored);
+    });
+
+    it("should discard indexes that can't be reused", () => {
+      expect(parseStoredIndex(JSON.stringify(stored), "http:x#model")).toBeNull();
+      expect(parseStoredIndex(JSON.stringify({ ...stored, version: 2 }), "local-hash-512")).toBeNull();
+      expect(parseStoredIndex("{not json", "local-hash-512")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { planRename, planMove, getFileMoves } from "../../../src/utils/fileMoves";
+
+describe("fileMoves utilities", () => {
+  describe("planRename", () => {
+    it("should rename within the folder and keep the extension", () => {
+      expect(planRename("Inbox/draft.md", "Meeting notes")).toEqual({ to: "Inbox/Meeting notes.md" });
+      expect(planRename("Inbox/draft.md", "Final.md")).toEqual({ to: "Inbox/Final.md" });
+      expect(planRename("image.png", "diagram")).toEqual({ to: "diagram.png" });
+    });
+
+    it("should reject empty names and names Obsidian doesn't allow", () => {
+      expect(planRename("a.md", "  ")).toBe("New name is empty");
+      expect(planRename("a.md", "../b")).toBe("Invalid file name: ../b");
+      expect(planRename("a.md", "What?")).toBe("Invalid file name: What?");
+    });
+  });
+
+  describe("planMove", () => {
+    it("should move into a folder or the vault root", () => {
+      expect(planMove("Inbox/a.md", "Projects/Alpha/")).toBe("Projects/Alpha/a.md");
+      expect(planMove("Inbox/a.md", "/")).toBe("a.md");
+      expect(planMove("a.md", "Archive\\2024")).toBe("Archive/2024/a.md");
+    });
+  });
+
+  describe("getFileMoves", () => {
+    it("should plan single renames and moves", () => {
+      expect(getFileMoves("mcp__obsidian__rename_file", { path: "Inbox/a.md", newName: "b" })).toEqual([
+        { from: "Inbox/a.md", to: "Inbox/b.md" },
+      ]);
+      expect(getFileMoves("mcp__obsidian__move_file", { path: "Inbox/a.md", folder: "Archive" })).toEqual([
+        { from: "Inbox/a.md", to: "Archive/a.md" },
+      ]);
+    });
+
+    it("should plan bulk mappings", () => {
+      const mapping = { "Inbox/a.md": "Archive", "Inbox/b.md": "Projects" };
+      expect(getFileMoves("mcp__obsidian__move_files", { mapping })).toEqual([
+        { from: "Inbox/a.md", to: "Archive/a.md" },
+        { from: "Inbox/b.md", to: "Projects/b.md" },
+      ]);
+    });
+
+    it("should keep the source as the destination of invalid renames", () => {
+      expect(getFileMoves("mcp__obsidian__rename_files", { mapping: { "a.md": "x/y" } })).toEqual([
+        { from: "a.md", to: "a.md" },
+      ]);
+    });
+
+    it("should return null for other tools", () => {
+      expect(getFileMoves("Write", { path: "a.md" })).toBeNull();
+      expect(getFileMoves("constructor", { path: "a.md" })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import {
+  inferPropertyType,
+  getTypedProperties,
+  collectTags,
+  collectAliases,
+  planPropertyUpdate,
+  applyPropertyUpdate,
+  matchesPropertyFilter,
+  matchesPropertyFilters,
+  comparePropertyValues,
+} from "../../../src/utils/frontmatter";
+
+describe("frontmatter utilities", () => {
+  describe("inferPropertyType", () => {
+    it("should infer Obsidian property types", () => {
+      expect(inferPropertyType("hello")).toBe("text");
+      expect(inferPropertyType(3)).toBe("number");
+      expect(inferPropertyType(false)).toBe("checkbox");
+      expect(inferPropertyType("2025-06-01")).toBe("date");
+      expect(inferPropertyType("2025-06-01T09:30")).toBe("datetime");
+      expect(inferPropertyType(["a"])).toBe("list");
+      expect(inferPropertyType({ a: 1 })).toBe("object");
+      expect(inferPropertyType(null)).toBe("empty");
+    });
+  });
+
+  describe("getTypedProperties", () => {
+    it("should list properties in order and skip cache-only keys", () => {
+      expect(getTypedProperties({ status: "done", rating: 4, position: { start: 0 } })).toEqual([
+        { name: "status", type: "text", value: "done" },
+        { name: "rating", type: "number", value: 4 },
+      ]);
+      expect(getTypedProperties(undefined)).toEqual([]);
+    });
+  });
+
+  describe("collectTags", () => {
+    it("should merge property and inline tags without duplicates", () => {
+      expect(collectTags({ tags: ["project", "#Work"] }, ["#work", "#idea"])).toEqual(["project", "Work", "idea"]);
+    });
+
+    it("should accept comma- and space-separated tag strings", () => {
+      expect(collectTags({ tags: "a, b c" })).toEqual(["a", "b", "c"]);
+      expect(collectTags({ tag: "legacy" })).toEqual(["legacy"]);
+    });
+  });
+
+  describe("collectAliases", () => {
+    it("should read aliases as a list or a string", () => {
+      expect(collectAliases({ aliases: ["One", "Two"] })).toEqual(["One", "Two"]);
+      expect(collectAliases({ alias: "Only" })).toEqual(["Only"]);
+      expect(collectAliases(undefined)).toEqual([]);
+    });
+  });
+
+  describe("planPropertyUpdate", () => {
+    it("should report sets and unsets that change the note", () => {
+      const frontmatter = { status: "draft", rating: 3, old: true };
+      const update = { set: { status: "done", rating: 3, due: "2025-06-01" }, unset: ["old", "x"] };
+      expect(planPropertyUpdate(frontmatter, update)).toEqual([
+        { key: "status", action: "set", before: "draft", after: "done" },
+        { key: "due", action: "set", after: "2025-06-01" },
+        { key: "old", action: "unset", before: true },
+      ]);
+      expect(frontmatter).toEqual({ status: "draft", rating: 3, old: true });
+    });
+
+    it("should compare lists by value", () => {
+      expect(planPropertyUpdate({ tags: ["a", "b"] }, { set: { tags: ["a", "b"] } })).toEqual([]);
+    });
+
+    it("should unset a key that is also set", () => {
+      expect(planPropertyUpdate({ a: 1 }, { set: { a: 2 }, unset: ["a"] })).toEqual([
+        { key: "a", action: "unset", before: 1 },
+      ]);
+    });
+  });
+
+  describe("applyPropertyUpdate", () => {
+    it("should modify the frontmatter in place", () => {
+      const frontmatter: Record<string, unknown> = { status: "draft", old: 1 };
+      const changes = applyPropertyUpdate(frontmatter, { set: { status: "done" }, unset: ["old"] });
+
+      expect(frontmatter).toEqual({ status: "done" });
+      expect(changes).toHaveLength(2);
+    });
+  });
+
+  describe("comparePropertyValues", () => {
+    it("should order numbers, dates and text", () => {
+      expect(comparePropertyValues(9, "10")).toBeLessThan(0);
+      expect(comparePropertyValues("2025-06-01", "2025-05-31T23:00")).toBeGreaterThan(0);
+      expect(comparePropertyValues("apple", "Banana")).toBeLessThan(0);
+    });
+  });
+
+  describe("matchesPropertyFilter", () => {
+    const frontmatter = { status: "In Progress", tags: ["project", "work"], rating: 4, done: false };
+
+    it("should check presence", () => {
+      expect(matchesPropertyFilter(frontmatter, { key: "status", op: "exists" })).toBe(true);
+      expect(matchesPropertyFilter(frontmatter, { key: "due", op: "missing" })).toBe(true);
+      expect(matchesPropertyFilter(undefined, { key: "due", op: "missing" })).toBe(true);
+    });
+
+    it("should match equal scalars and list items", () => {
+      expect(matchesPropertyFilter(frontmatter, { key: "rating", op: "equals", value: "4" })).toBe(true);
+      expect(matchesPropertyFilter(frontmatter, { key: "done", op: "equals", value: false })).toBe(true);
+      expect(matchesPropertyFilter(frontmatter, { key: "tags", op: "equals", value: "work" })).toBe(true);
+      expect(matchesPropertyFilter(frontmatter, { key: "status", op: "equals", value: "in progress" })).toBe(false);
+    });
+
+    it("should match substrings and list items case-insensitively", () => {
+      expect(matchesPropertyFilter(frontmatter, { key: "status", op: "contains", value: "progress" })).toBe(true);
+      expect(matchesPropertyFilter(frontmatter, { key: "tags", op: "contains", value: "Project" })).toBe(true);
+      expect(matchesPropertyFilter(frontmatter, { key: "tags", op: "contains", value: "proj" })).toBe(false);
+    });
+
+    it("should exclude values with notEquals", () => {
+      expect(matchesPropertyFilter(frontmatter, { key: "tags", op: "notEquals", value: "work" })).toBe(false);
+      expect(matchesPropertyFilter(frontmatter, { key: "status", op: "notEquals", value: "Done" })).toBe(true);
+      expect(matchesPropertyFilter(frontmatter, { key: "due", op: "notEquals", value: "x" })).toBe(true);
+    });
+
+    it("should compare numbers and dates by value", () => {
+      expect(matchesPropertyFilter(frontmatter, { key: "rating", op: "gt", value: 3 })).toBe(true);
+      expect(matchesPropertyFilter(frontmatter, { key: "rating", op: "lt", value: "10" })).toBe(true);
+      expect(matchesPropertyFilter({ due: "2025-06-01" }, { key: "due", op: "lte", value: "2025-06-01" })).toBe(true);
+      expect(matchesPropertyFilter({ due: "2025-06-01" }, { key: "due", op: "gt", value: "2025-06-01" })).toBe(false);
+      expect(matchesPropertyFilter({}, { key: "due", op: "lt", value: "2025-06-01" })).toBe(false);
+    });
+
+    it("should require every filter to match", () => {
+      const filters = [
+        { key: "tags", op: "contains" as const, value: "work" },
+        { key: "due", op: "missing" as const },
+      ];
+      expect(matchesPropertyFilters(frontmatter, filters)).toBe(true);
+      expect(matchesPropertyFilters({ ...frontmatter, due: "2025-01-01" }, filters)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  getOutgoingLinks,
+  getBacklinks,
+  getUnresolvedTargets,
+  getNeighborhood,
+  type LinkMap,
+} from "../../../src/utils/linkGraph";
+
+// A -> B (2), A -> C, B -> C, C -> D, D -> E, E -> A, F -> A.
+const links: LinkMap = {
+  "A.md": { "B.md": 2, "C.md": 1 },
+  "B.md": { "C.md": 1 },
+  "C.md": { "D.md": 1, "C.md": 1 },
+  "D.md": { "E.md": 1 },
+  "E.md": { "A.md": 1 },
+  "F.md": { "A.md": 3 },
+};
+
+describe("linkGraph utilities", () => {
+  describe("getOutgoingLinks", () => {
+    it("should list targets, most frequent first", () => {
+      expect(getOutgoingLinks(links, "A.md")).toEqual([
+        { path: "B.md", count: 2 },
+        { path: "C.md", count: 1 },
+      ]);
+    });
+
+    it("should return nothing for unknown notes", () => {
+      expect(getOutgoingLinks(links, "missing.md")).toEqual([]);
+    });
+  });
+
+  describe("getBacklinks", () => {
+    it("should list sources, most frequent first", () => {
+      expect(getBacklinks(links, "A.md")).toEqual([
+        { path: "F.md", count: 3 },
+        { path: "E.md", count: 1 },
+      ]);
+    });
+
+    it("should ignore self-links", () => {
+      expect(getBacklinks(links, "C.md").map((l) => l.path)).toEqual(["A.md", "B.md"]);
+    });
+  });
+
+  describe("getUnresolvedTargets", () => {
+    it("should group missing targets by the notes that reference them", () => {
+      const unresolved: LinkMap = {
+        "A.md": { Ideas: 1, Todo: 2 },
+        "B.md": { Ideas: 1 },
+      };
+      expect(getUnresolvedTargets(unresolved)).toEqual([
+        { target: "Ideas", sources: ["A.md", "B.md"] },
+        { target: "Todo", sources: ["A.md"] },
+      ]);
+    });
+  });
+
+  describe("getNeighborhood", () => {
+    it("should follow outgoing links up to the depth", () => {
+      const result = getNeighborhood(links, "A.md", { depth: 2, maxNodes: 50, direction: "outgoing" });
+      expect(result.nodes).toEqual([
+        { path: "A.md", hops: 0 },
+        { path: "B.md", hops: 1 },
+        { path: "C.md", hops: 1 },
+        { path: "D.md", hops: 2 },
+      ]);
+      expect(result.truncated).toBe(false);
+    });
+
+    it("should follow both directions by default", () => {
+      const result = getNeighborhood(links, "A.md", { depth: 1, maxNodes: 50 });
+      expect(result.nodes.map((n) => n.path).sort()).toEqual(["A.md", "B.md", "C.md", "E.md", "F.md"]);
+    });
+
+    it("should only include edges between visited notes", () => {
+      const result = getNeighborhood(links, "A.md", { depth: 1, maxNodes: 50, direction: "outgoing" });
+      expect(result.edges).toEqual([
+        { source: "A.md", target: "B.md", count: 2 },
+        { source: "A.md", target: "C.md", count: 1 },
+        { source: "B.md", target: "C.md", count: 1 },
+      ]);
+    });
+
+    it("should stop at the node cap and report truncation", () => {
+      const result = getNeighborhood(links, "A.md", { depth: 5, maxNodes: 3 });
+      expect(result.nodes).toHaveLength(3);
+      expect(result.truncated).toBe(true);
+    });
+
+    it("should return just the start note for isolated notes", () => {
+      expect(getNeighborhood(links, "Z.md", { depth: 3, maxNodes: 10 })).toEqual({
+        nodes: [{ path: "Z.md", hops: 0 }],
+        edges: [],
+        truncated: false,
+      });
+    });
+  });
+});
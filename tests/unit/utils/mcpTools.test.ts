@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizeMcpServerName,
+  getMcpToolPrefix,
+  findMcpServerForTool,
+  resolveMcpToolPolicy,
+  groupMcpToolsByServer,
+} from "../../../src/utils/mcpTools";
+import type { McpServerConfig } from "../../../src/types";
+
+function server(overrides: Partial<McpServerConfig>): McpServerConfig {
+  return {
+    id: "srv-1",
+    name: "github",
+    command: "npx",
+    args: [],
+    enabled: true,
+    ...overrides,
+  };
+}
+
+describe("mcpTools utilities", () => {
+  describe("normalizeMcpServerName / getMcpToolPrefix", () => {
+    it("should replace characters the SDK doesn't allow in tool names", () => {
+      expect(normalizeMcpServerName("brave search")).toBe("brave_search");
+      expect(normalizeMcpServerName("my-server_1")).toBe("my-server_1");
+      expect(getMcpToolPrefix("brave search")).toBe("mcp__brave_search__");
+    });
+  });
+
+  describe("findMcpServerForTool", () => {
+    const servers = [server({ id: "a", name: "a" }), server({ id: "ab", name: "a__b" })];
+
+    it("should return the server and short tool name", () => {
+      expect(findMcpServerForTool("mcp__a__list", servers)).toEqual({ server: servers[0], tool: "list" });
+    });
+
+    it("should prefer the longest matching server name", () => {
+      expect(findMcpServerForTool("mcp__a__b__list", servers)?.server.id).toBe("ab");
+    });
+
+    it("should ignore built-in and unknown tools", () => {
+      expect(findMcpServerForTool("mcp__obsidian__open_file", servers)).toBeUndefined();
+      expect(findMcpServerForTool("Read", servers)).toBeUndefined();
+      expect(findMcpServerForTool("mcp__a__", servers)).toBeUndefined();
+    });
+  });
+
+  describe("resolveMcpToolPolicy", () => {
+    it("should default to ask and medium risk", () => {
+      const policy = resolveMcpToolPolicy("mcp__github__create_issue", [server({})]);
+      expect(policy).toMatchObject({ tool: "create_issue", effect: "ask", risk: "medium" });
+    });
+
+    it("should apply server settings and per-tool overrides", () => {
+      const servers = [
+        server({
+          approval: "allow",
+          risk: "low",
+          tools: { delete_repo: { approval: "deny", risk: "high" }, create_issue: { risk: "medium" } },
+        }),
+      ];
+
+      expect(resolveMcpToolPolicy("mcp__github__search", servers)).toMatchObject({ effect: "allow", risk: "low" });
+      expect(resolveMcpToolPolicy("mcp__github__delete_repo", servers)).toMatchObject({ effect: "deny", risk: "high" });
+      expect(resolveMcpToolPolicy("mcp__github__create_issue", servers)).toMatchObject({
+        effect: "allow",
+        risk: "medium",
+      });
+    });
+  });
+
+  describe("groupMcpToolsByServer", () => {
+    it("should group sorted short tool names by server ID", () => {
+      const servers = [server({ id: "gh", name: "github" }), server({ id: "fs", name: "files" })];
+      const groups = groupMcpToolsByServer(
+        ["Read", "mcp__github__search", "mcp__github__create_issue", "mcp__obsidian__open_file"],
+        servers
+      );
+
+      expect(groups.get("gh")).toEqual(["create_issue", "search"]);
+      expect(groups.has("fs")).toBe(false);
+    });
+  });
+});
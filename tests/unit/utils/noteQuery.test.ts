@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseQueryDate,
+  hasTag,
+  getNoteField,
+  matchesNoteQuery,
+  runNoteQuery,
+  formatNoteQueryTable,
+  type NoteRecord,
+} from "../../../src/utils/noteQuery";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 5, 15);
+
+function note(path: string, overrides?: Partial<NoteRecord>): NoteRecord {
+  return {
+    path,
+    name: path.split("/").pop()!.replace(/\.md$/, ""),
+    folder: path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "",
+    tags: [],
+    properties: {},
+    created: NOW - 30 * DAY,
+    modified: NOW - DAY,
+    ...overrides,
+  };
+}
+
+const notes = [
+  note("Projects/Alpha.md", {
+    tags: ["project/active"],
+    properties: { status: "open", priority: 2, due: "2025-07-01" },
+  }),
+  note("Projects/Beta.md", {
+    tags: ["project"],
+    properties: { status: "done", priority: 1 },
+    modified: NOW - 20 * DAY,
+  }),
+  note("Projects/Archive/Gamma.md", { tags: ["project"], properties: { status: "open", priority: 10 } }),
+  note("Journal/2025-06-14.md", { tags: ["daily"], created: NOW - DAY }),
+];
+
+describe("noteQuery utilities", () => {
+  describe("parseQueryDate", () => {
+    it("should parse ISO dates and datetimes", () => {
+      expect(parseQueryDate("2025-06-01")).toBe(new Date("2025-06-01T00:00").getTime());
+      expect(parseQueryDate("2025-06-01T12:00:00Z")).toBe(Date.UTC(2025, 5, 1, 12));
+    });
+
+    it("should parse relative dates", () => {
+      expect(parseQueryDate("7d", NOW)).toBe(NOW - 7 * DAY);
+      const today = new Date(NOW);
+      today.setHours(0, 0, 0, 0);
+      expect(parseQueryDate("today", NOW)).toBe(today.getTime());
+    });
+
+    it("should reject unparseable values", () => {
+      expect(parseQueryDate("last week")).toBeNull();
+    });
+  });
+
+  describe("hasTag", () => {
+    it("should match tags and subtags case-insensitively", () => {
+      expect(hasTag(["Project/Active"], "#project")).toBe(true);
+      expect(hasTag(["project/active"], "project/active")).toBe(true);
+      expect(hasTag(["projects"], "project")).toBe(false);
+    });
+  });
+
+  describe("getNoteField", () => {
+    it("should read properties and built-in fields", () => {
+      const alpha = notes[0];
+      expect(getNoteField(alpha, "status")).toBe("open");
+      expect(getNoteField(alpha, "folder")).toBe("Projects");
+      expect(getNoteField(alpha, "modified")).toBe(new Date(NOW - DAY).toISOString());
+      expect(getNoteField(alpha, "missing")).toBeUndefined();
+    });
+
+    it("should let properties override built-in fields except path and tags", () => {
+      const custom = note("a.md", { tags: ["x"], properties: { name: "Custom", tags: "raw", path: "other" } });
+      expect(getNoteField(custom, "name")).toBe("Custom");
+      expect(getNoteField(custom, "path")).toBe("a.md");
+      expect(getNoteField(custom, "tags")).toEqual(["x"]);
+    });
+  });
+
+  describe("matchesNoteQuery", () => {
+    it("should filter by folder, tags and properties", () => {
+      const query = {
+        folder: "Projects",
+        tags: ["project"],
+        where: [{ key: "status", op: "equals" as const, value: "open" }],
+      };
+      expect(notes.filter((n) => matchesNoteQuery(n, query)).map((n) => n.name)).toEqual(["Alpha", "Gamma"]);
+    });
+
+    it("should filter by date ranges", () => {
+      expect(notes.filter((n) => matchesNoteQuery(n, { modifiedBefore: NOW - 10 * DAY })).map((n) => n.name)).toEqual([
+        "Beta",
+      ]);
+      expect(notes.filter((n) => matchesNoteQuery(n, { createdAfter: NOW - 2 * DAY })).map((n) => n.name)).toEqual([
+        "2025-06-14",
+      ]);
+    });
+  });
+
+  describe("runNoteQuery", () => {
+    it("should sort numerically and put missing values last", () => {
+      const result = runNoteQuery(notes, { sortBy: "priority", sortDirection: "desc" });
+      expect(result.rows.map((row) => row[0])).toEqual([
+        "Projects/Archive/Gamma.md",
+        "Projects/Alpha.md",
+        "Projects/Beta.md",
+        "Journal/2025-06-14.md",
+      ]);
+    });
+
+    it("should default columns to the fields used in the query", () => {
+      const result = runNoteQuery(notes, {
+        where: [{ key: "priority", op: "gte", value: 2 }],
+        sortBy: "due",
+      });
+      expect(result.columns).toEqual(["path", "priority", "due"]);
+      expect(result.rows).toEqual([
+        ["Projects/Alpha.md", 2, "2025-07-01"],
+        ["Projects/Archive/Gamma.md", 10, undefined],
+      ]);
+    });
+
+    it("should limit rows and report the total", () => {
+      const result = runNoteQuery(notes, { limit: 2, fields: ["name"] });
+      expect(result.columns).toEqual(["path", "name"]);
+      expect(result.rows).toHaveLength(2);
+      expect(result.total).toBe(4);
+    });
+  });
+
+  describe("formatNoteQueryTable", () => {
+    it("should format a markdown table", () => {
+      const table = formatNoteQueryTable({
+        columns: ["path", "tags"],
+        rows: [["a.md", ["x", "y"]], ["b|c.md", undefined]],
+        total: 3,
+      });
+      expect(table.split("\n")).toEqual([
+        "3 notes match (showing first 2).",
+        "",
+        "| path | tags |",
+        "| --- | --- |",
+        "| a.md | x, y |",
+        "| b\\|c.md |  |",
+      ]);
+    });
+
+    it("should report empty results", () => {
+      expect(formatNoteQueryTable({ columns: ["path"], rows: [], total: 0 })).toBe("No notes match the query.");
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import {
+  findHeadings,
+  parseHeadingPath,
+  buildHeadingPaths,
+  findSection,
+  readSection,
+  editSection,
+} from "../../../src/utils/noteSections";
+
+const note = [
+  "---",
+  "title: Daily",
+  "# not a heading",
+  "---",
+  "# Daily",
+  "",
+  "Intro paragraph.",
+  "",
+  "## Tasks",
+  "",
+  "- [ ] Write report ^task1",
+  "- [ ] Call Bob",
+  "",
+  "### Today",
+  "",
+  "- [ ] Review PR",
+  "",
+  "## Notes",
+  "",
+  "```",
+  "## not a heading either",
+  "```",
+  "First line",
+  "second line ^para",
+  "",
+  "| a | b |",
+  "| - | - |",
+  "^table",
+  "",
+].join("\n");
+
+// Expect a successful edit and return the new content.
+function edited(result: ReturnType<typeof editSection>): string {
+  if (typeof result === "string") throw new Error(result);
+  return result.content;
+}
+
+describe("noteSections utilities", () => {
+  describe("findHeadings", () => {
+    it("should skip frontmatter and code blocks", () => {
+      expect(findHeadings(note)).toEqual([
+        { text: "Daily", level: 1, line: 4 },
+        { text: "Tasks", level: 2, line: 8 },
+        { text: "Today", level: 3, line: 13 },
+        { text: "Notes", level: 2, line: 17 },
+      ]);
+    });
+
+    it("should strip closing #s", () => {
+      expect(findHeadings("## Title ##")).toEqual([{ text: "Title", level: 2, line: 0 }]);
+    });
+  });
+
+  describe("parseHeadingPath / buildHeadingPaths", () => {
+    it("should parse segments with and without levels", () => {
+      expect(parseHeadingPath("## Tasks > Today")).toEqual([{ text: "Tasks", level: 2 }, { text: "Today" }]);
+    });
+
+    it("should build full heading paths", () => {
+      expect(buildHeadingPaths(findHeadings(note))).toEqual([
+        "# Daily",
+        "# Daily > ## Tasks",
+        "# Daily > ## Tasks > ### Today",
+        "# Daily > ## Notes",
+      ]);
+    });
+  });
+
+  describe("findSection", () => {
+    it("should include subsections in a heading section", () => {
+      expect(findSection(note, { heading: "Tasks" })).toMatchObject({ start: 8, contentEnd: 16, end: 17 });
+    });
+
+    it("should resolve nested heading paths", () => {
+      expect(findSection(note, { heading: "## Tasks > ### Today" })).toMatchObject({ start: 13, end: 17 });
+      expect(findSection(note, { heading: "Notes > Today" })).toBe("Heading not found: Notes > Today");
+      expect(findSection(note, { heading: "### Tasks" })).toBe("Heading not found: ### Tasks");
+    });
+
+    it("should report ambiguous headings", () => {
+      const content = "# A\n## Log\nx\n# B\n## Log\ny";
+      expect(findSection(content, { heading: "Log" })).toContain("matches 2 headings");
+      expect(findSection(content, { heading: "B > Log" })).toMatchObject({ start: 4 });
+    });
+
+    it("should find list item, paragraph and standalone blocks", () => {
+      expect(findSection(note, { block: "^task1" })).toMatchObject({ start: 10, contentEnd: 11 });
+      expect(findSection(note, { block: "para" })).toMatchObject({ start: 22, contentEnd: 24 });
+      expect(findSection(note, { block: "table" })).toMatchObject({
+        start: 25,
+        contentEnd: 27,
+        end: 28,
+        standaloneBlockId: true,
+      });
+      expect(findSection(note, { block: "missing" })).toBe("Block not found: ^missing");
+    });
+  });
+
+  describe("readSection", () => {
+    it("should read a section without trailing blank lines", () => {
+      const result = readSection(note, { heading: "Tasks > Today" });
+      expect(typeof result === "string" ? result : result.text).toBe("### Today\n\n- [ ] Review PR");
+    });
+  });
+
+  describe("editSection", () => {
+    const content = "# Doc\n\n## Tasks\n\n- one ^a\n- two\n\n## Notes\n\ntext\n";
+
+    it("should replace the content below a heading", () => {
+      expect(edited(editSection(content, { heading: "Tasks" }, "replace", "- new\n"))).toBe(
+        "# Doc\n\n## Tasks\n- new\n\n## Notes\n\ntext\n"
+      );
+    });
+
+    it("should prepend and append within a heading section", () => {
+      expect(edited(editSection(content, { heading: "Tasks" }, "prepend", "Top"))).toBe(
+        "# Doc\n\n## Tasks\nTop\n\n- one ^a\n- two\n\n## Notes\n\ntext\n"
+      );
+      expect(edited(editSection(content, { heading: "Tasks" }, "append", "- three"))).toBe(
+        "# Doc\n\n## Tasks\n\n- one ^a\n- two\n- three\n\n## Notes\n\ntext\n"
+      );
+      expect(edited(editSection(content, { heading: "Notes" }, "append", "more"))).toBe(
+        "# Doc\n\n## Tasks\n\n- one ^a\n- two\n\n## Notes\n\ntext\nmore\n"
+      );
+    });
+
+    it("should insert before and after a heading section", () => {
+      expect(edited(editSection(content, { heading: "Notes" }, "insertBefore", "## Ideas\n"))).toBe(
+        "# Doc\n\n## Tasks\n\n- one ^a\n- two\n\n## Ideas\n## Notes\n\ntext\n"
+      );
+      expect(edited(editSection(content, { heading: "Tasks" }, "insertAfter", "## Ideas\n"))).toBe(
+        "# Doc\n\n## Tasks\n\n- one ^a\n- two\n\n## Ideas\n## Notes\n\ntext\n"
+      );
+    });
+
+    it("should keep the block id when replacing a block", () => {
+      expect(edited(editSection(content, { block: "^a" }, "replace", "- uno"))).toBe(
+        "# Doc\n\n## Tasks\n\n- uno ^a\n- two\n\n## Notes\n\ntext\n"
+      );
+    });
+
+    it("should insert around a block", () => {
+      expect(edited(editSection(content, { block: "a" }, "insertAfter", "- one and a half"))).toContain(
+        "- one ^a\n- one and a half\n- two"
+      );
+      expect(edited(editSection(content, { block: "a" }, "insertBefore", "- zero"))).toContain("- zero\n- one ^a");
+    });
+
+    it("should return an error for missing sections", () => {
+      expect(editSection(content, { heading: "Missing" }, "append", "x")).toBe("Heading not found: Missing");
+    });
+  });
+});
@@ -10,6 +10,8 @@ import {
   getFileName,
   getParentPath,
   pathMatchesQuery,
+  resolveVaultPath,
+  isPathInFolder,
 } from "../../../src/utils/pathUtils";
 
 describe("pathUtils utilities", () => {
@@ -231,4 +233,66 @@ describe("pathUtils utilities", () => {
       expect(pathMatchesQuery("folder/my-notes-2024.md", "notes")).toBe(true);
     });
   });
+
+  describe("resolveVaultPath", () => {
+    const vault = "/Users/test/vault";
+
+    it("should strip the vault prefix from absolute paths", () => {
+      expect(resolveVaultPath(`${vault}/Projects/a.md`, vault)).toBe("Projects/a.md");
+      expect(resolveVaultPath(vault, vault)).toBe("");
+    });
+
+    it("should leave relative paths relative", () => {
+      expect(resolveVaultPath("Projects/a.md", vault)).toBe("Projects/a.md");
+      expect(resolveVaultPath("./Projects/a.md", vault)).toBe("Projects/a.md");
+    });
+
+    it("should resolve . and .. segments inside the vault", () => {
+      expect(resolveVaultPath("Projects/../Journal/./a.md", vault)).toBe("Journal/a.md");
+      expect(resolveVaultPath(`${vault}/a/b/../c.md`, vault)).toBe("a/c.md");
+    });
+
+    it("should reject paths that escape the vault", () => {
+      expect(resolveVaultPath("../outside.md", vault)).toBeNull();
+      expect(resolveVaultPath("Projects/../../outside.md", vault)).toBeNull();
+      expect(resolveVaultPath(`${vault}/../other/a.md`, vault)).toBeNull();
+    });
+
+    it("should reject absolute paths outside the vault", () => {
+      expect(resolveVaultPath("/etc/passwd", vault)).toBeNull();
+      expect(resolveVaultPath("/Users/test/vault-other/a.md", vault)).toBeNull();
+    });
+
+    it("should reject home directory, drive-relative and UNC paths", () => {
+      expect(resolveVaultPath("~/.bashrc", vault)).toBeNull();
+      expect(resolveVaultPath("~", vault)).toBeNull();
+      expect(resolveVaultPath("~root/.ssh/authorized_keys", vault)).toBeNull();
+      expect(resolveVaultPath("C:notes.md", "C:\\vault")).toBeNull();
+      expect(resolveVaultPath("\\\\host\\share\\a.md", "C:\\vault")).toBeNull();
+      expect(resolveVaultPath("//host/share/a.md", vault)).toBeNull();
+      expect(resolveVaultPath("Notes/~draft.md", vault)).toBe("Notes/~draft.md");
+    });
+
+    it("should handle Windows paths case-insensitively", () => {
+      expect(resolveVaultPath("C:\\Vault\\Journal\\a.md", "c:\\vault")).toBe("Journal/a.md");
+      expect(resolveVaultPath("D:\\other\\a.md", "C:\\vault")).toBeNull();
+    });
+  });
+
+  describe("isPathInFolder", () => {
+    it("should match the folder and its descendants", () => {
+      expect(isPathInFolder("Templates", "Templates")).toBe(true);
+      expect(isPathInFolder("Templates/a.md", "Templates/")).toBe(true);
+      expect(isPathInFolder("Templates/sub/a.md", "/Templates")).toBe(true);
+    });
+
+    it("should not match siblings with a common prefix", () => {
+      expect(isPathInFolder("Templates-old/a.md", "Templates")).toBe(false);
+    });
+
+    it("should treat an empty folder as the whole vault", () => {
+      expect(isPathInFolder("any/path.md", "")).toBe(true);
+      expect(isPathInFolder("any/path.md", "/")).toBe(true);
+    });
+  });
 });
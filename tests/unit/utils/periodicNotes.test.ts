@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  resolvePeriodicNoteConfig,
+  getPeriodicNotePath,
+  parseDateArgument,
+  findDatedNotes,
+  formatNotesContext,
+  type PeriodicNoteConfig,
+} from "../../../src/utils/periodicNotes";
+
+describe("periodicNotes utilities", () => {
+  describe("resolvePeriodicNoteConfig", () => {
+    const daily = { folder: "/Journal/", format: "YYYY/MM/YYYY-MM-DD", template: "Templates/Daily" };
+    const periodic = {
+      daily: { enabled: true, folder: "Periodic", format: "DD-MM-YYYY", template: "" },
+      weekly: { enabled: false, folder: "Weeks", format: "gggg-ww" },
+      monthly: { enabled: true, folder: "Months" },
+    };
+
+    it("should prefer Periodic Notes when it has the period enabled", () => {
+      expect(resolvePeriodicNoteConfig("day", daily, periodic)).toEqual({
+        folder: "Periodic",
+        format: "DD-MM-YYYY",
+        template: "",
+        source: "periodic-notes",
+      });
+      expect(resolvePeriodicNoteConfig("month", daily, periodic)).toEqual({
+        folder: "Months",
+        format: "YYYY-MM",
+        template: "",
+        source: "periodic-notes",
+      });
+    });
+
+    it("should use the core Daily notes settings for daily notes", () => {
+      expect(resolvePeriodicNoteConfig("day", daily, undefined)).toEqual({
+        folder: "Journal",
+        format: "YYYY/MM/YYYY-MM-DD",
+        template: "Templates/Daily",
+        source: "daily-notes",
+      });
+      expect(resolvePeriodicNoteConfig("day", { format: "" }, undefined).format).toBe("YYYY-MM-DD");
+    });
+
+    it("should fall back to defaults for disabled periods", () => {
+      expect(resolvePeriodicNoteConfig("week", daily, periodic)).toEqual({
+        folder: "",
+        format: "gggg-[W]ww",
+        template: "",
+        source: "default",
+      });
+      expect(resolvePeriodicNoteConfig("year", undefined, undefined).format).toBe("YYYY");
+    });
+  });
+
+  describe("getPeriodicNotePath", () => {
+    const config: PeriodicNoteConfig = { folder: "Journal", format: "YYYY-MM-DD", template: "", source: "default" };
+
+    it("should join the folder and formatted name", () => {
+      expect(getPeriodicNotePath(config, "2025/01/2025-01-02")).toBe("Journal/2025/01/2025-01-02.md");
+      expect(getPeriodicNotePath({ ...config, folder: "" }, "2025-W01.md")).toBe("2025-W01.md");
+    });
+  });
+
+  describe("parseDateArgument", () => {
+    it("should parse relative days and ISO dates", () => {
+      expect(parseDateArgument("Today")).toEqual({ offsetDays: 0 });
+      expect(parseDateArgument("yesterday")).toEqual({ offsetDays: -1 });
+      expect(parseDateArgument(" tomorrow ")).toEqual({ offsetDays: 1 });
+      expect(parseDateArgument("2025-03-04")).toEqual({ date: "2025-03-04" });
+      expect(parseDateArgument("next friday")).toBeNull();
+    });
+  });
+
+  describe("findDatedNotes", () => {
+    const config: PeriodicNoteConfig = { folder: "Journal", format: "YYYY-MM-DD", template: "", source: "daily-notes" };
+    const parse = (name: string) => (/^\d{4}-\d{2}-\d{2}$/.test(name) ? Date.parse(name) : null);
+
+    it("should find notes in the folder whose names match, newest first", () => {
+      const paths = [
+        "Journal/2025-01-01.md",
+        "Journal/2025-01-03.md",
+        "Journal/notes.md",
+        "Journal/2025-01-02.canvas",
+        "Other/2025-01-05.md",
+        "Journal/2025-01-02.md",
+      ];
+      expect(findDatedNotes(paths, config, parse).map((note) => note.path)).toEqual([
+        "Journal/2025-01-03.md",
+        "Journal/2025-01-02.md",
+        "Journal/2025-01-01.md",
+      ]);
+    });
+
+    it("should match names relative to the folder", () => {
+      const nested = { ...config, format: "YYYY/YYYY-MM-DD" };
+      const parseNested = (name: string) =>
+        /^\d{4}\/\d{4}-\d{2}-\d{2}$/.test(name) ? Date.parse(name.slice(5)) : null;
+      expect(findDatedNotes(["Journal/2025/2025-01-01.md"], nested, parseNested)).toEqual([
+        { path: "Journal/2025/2025-01-01.md", date: Date.parse("2025-01-01") },
+      ]);
+    });
+  });
+
+  describe("formatNotesContext", () => {
+    it("should put each note under a heading and truncate long notes", () => {
+      const text = formatNotesContext(
+        [
+          { path: "a.md", label: "2025-01-02 Thursday", content: "Shipped the release.\n" },
+          { path: "b.md", label: "2025-01-01 Wednesday", content: "x".repeat(15) },
+          { path: "c.md", label: "2024-12-31 Tuesday", content: "  " },
+        ],
+        10
+      );
+      expect(text).toBe(
+        [
+          "## 2025-01-02 Thursday (a.md)\n\nShipped th\n\n[Truncated: 10 more characters]",
+          "## 2025-01-01 Wednesday (b.md)\n\nxxxxxxxxxx\n\n[Truncated: 5 more characters]",
+          "## 2024-12-31 Tuesday (c.md)\n\n(empty)",
+        ].join("\n\n")
+      );
+    });
+
+    it("should say when there are no notes", () => {
+      expect(formatNotesContext([], 100)).toBe("No daily notes found.");
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import {
+  PERMISSION_MODES,
+  isPermissionMode,
+  getPermissionModeInfo,
+  isRestrictedMode,
+  toSdkPermissionMode,
+  buildModeDenialMessage,
+} from "../../../src/utils/permissionModes";
+
+describe("permissionModes utilities", () => {
+  it("should list every mode once", () => {
+    expect(PERMISSION_MODES.map((info) => info.mode)).toEqual(["default", "acceptEdits", "plan", "readOnly"]);
+  });
+
+  describe("isPermissionMode", () => {
+    it("should accept known modes only", () => {
+      expect(isPermissionMode("plan")).toBe(true);
+      expect(isPermissionMode("bypassPermissions")).toBe(false);
+      expect(isPermissionMode(undefined)).toBe(false);
+    });
+  });
+
+  describe("getPermissionModeInfo", () => {
+    it("should fall back to the default mode", () => {
+      expect(getPermissionModeInfo("readOnly").label).toBe("Read-only");
+      expect(getPermissionModeInfo(undefined).mode).toBe("default");
+    });
+  });
+
+  describe("isRestrictedMode", () => {
+    it("should be true for plan and read-only", () => {
+      expect(isRestrictedMode("plan")).toBe(true);
+      expect(isRestrictedMode("readOnly")).toBe(true);
+      expect(isRestrictedMode("acceptEdits")).toBe(false);
+      expect(isRestrictedMode(undefined)).toBe(false);
+    });
+  });
+
+  describe("toSdkPermissionMode", () => {
+    it("should only pass plan mode through", () => {
+      expect(toSdkPermissionMode("plan")).toBe("plan");
+      expect(toSdkPermissionMode("acceptEdits")).toBe("default");
+      expect(toSdkPermissionMode("readOnly")).toBe("default");
+      expect(toSdkPermissionMode(undefined)).toBe("default");
+    });
+  });
+
+  describe("buildModeDenialMessage", () => {
+    it("should explain the denial", () => {
+      expect(buildModeDenialMessage("Write", "readOnly")).toBe("Denied: Write is not available in read-only mode");
+      expect(buildModeDenialMessage("Edit", "plan")).toContain("Describe the change instead");
+      expect(buildModeDenialMessage("ExitPlanMode", "plan")).toContain("The user will review the plan");
+    });
+  });
+});
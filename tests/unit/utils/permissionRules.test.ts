@@ -0,0 +1,658 @@
+import { describe, it, expect } from "vitest";
+import {
+  globToRegExp,
+  matchGlob,
+  getToolInputPath,
+  getToolInputPaths,
+  getToolPaths,
+  ruleMatches,
+  findMatchingRule,
+  evaluatePermission,
+  describeRule,
+  findWriteScope,
+  findProtectedFolderWithin,
+  describeDecisionReason,
+  type PermissionContext,
+} from "../../../src/utils/permissionRules";
+import type { PermissionRule } from "../../../src/types";
+
+const VAULT = "/Users/test/vault";
+
+function rule(overrides: Partial<PermissionRule>): PermissionRule {
+  return {
+    id: "rule-1",
+    tool: "*",
+    effect: "allow",
+    enabled: true,
+    ...overrides,
+  };
+}
+
+function context(overrides?: Partial<PermissionContext>): PermissionContext {
+  return {
+    rules: [],
+    autoApproveVaultWrites: false,
+    requireBashApproval: true,
+    alwaysAllowedTools: [],
+    allowedCommands: [],
+    sessionApprovedCommands: [],
+    protectedFolders: [],
+    scratchFolders: [],
+    sessionApprovedTools: new Set(),
+    vaultPath: VAULT,
+    ...overrides,
+  };
+}
+
+describe("permissionRules utilities", () => {
+  describe("globToRegExp / matchGlob", () => {
+    it("should match exact names", () => {
+      expect(matchGlob("Edit", "Edit")).toBe(true);
+      expect(matchGlob("Edit", "MultiEdit")).toBe(false);
+    });
+
+    it("should match * within a segment", () => {
+      expect(matchGlob("mcp__obsidian__*", "mcp__obsidian__open_file")).toBe(true);
+      expect(matchGlob("Journal/*.md", "Journal/2025-01-01.md")).toBe(true);
+      expect(matchGlob("Journal/*.md", "Journal/2025/01.md")).toBe(false);
+    });
+
+    it("should match ** across segments", () => {
+      expect(matchGlob("Projects/**", "Projects/a.md")).toBe(true);
+      expect(matchGlob("Projects/**", "Projects/deep/nested/a.md")).toBe(true);
+      expect(matchGlob("Projects/**", "Archive/Projects/a.md")).toBe(false);
+    });
+
+    it("should let **/ match zero directories", () => {
+      expect(matchGlob("**/*.md", "note.md")).toBe(true);
+      expect(matchGlob("**/*.md", "a/b/note.md")).toBe(true);
+    });
+
+    it("should match ? as a single character", () => {
+      expect(matchGlob("LS?", "LSX")).toBe(true);
+      expect(matchGlob("LS?", "LS")).toBe(false);
+    });
+
+    it("should escape regex special characters", () => {
+      expect(matchGlob("notes (old)/a.md", "notes (old)/a.md")).toBe(true);
+      expect(matchGlob("a.md", "aXmd")).toBe(false);
+      expect(globToRegExp("a+b").test("a+b")).toBe(true);
+    });
+  });
+
+  describe("getToolInputPath", () => {
+    it("should prefer file_path", () => {
+      expect(getToolInputPath({ file_path: "a.md", path: "b.md" })).toBe("a.md");
+    });
+
+    it("should fall back to notebook_path and path", () => {
+      expect(getToolInputPath({ notebook_path: "n.ipynb" })).toBe("n.ipynb");
+      expect(getToolInputPath({ path: "dir" })).toBe("dir");
+    });
+
+    it("should return undefined when there is no path", () => {
+      expect(getToolInputPath({ command: "ls" })).toBeUndefined();
+      expect(getToolInputPath({ file_path: "" })).toBeUndefined();
+    });
+  });
+
+  describe("getToolInputPaths", () => {
+    it("should return the paths of bulk tools", () => {
+      expect(getToolInputPaths({ paths: ["a.md", "", 3, "b.md"] })).toEqual(["a.md", "b.md"]);
+    });
+
+    it("should wrap a single path", () => {
+      expect(getToolInputPaths({ file_path: "a.md" })).toEqual(["a.md"]);
+      expect(getToolInputPaths({ command: "ls" })).toEqual([]);
+    });
+  });
+
+  describe("getToolPaths", () => {
+    it("should include both ends of renames and moves", () => {
+      expect(getToolPaths("mcp__obsidian__move_file", { path: "Inbox/a.md", folder: "Archive" })).toEqual([
+        "Inbox/a.md",
+        "Archive/a.md",
+      ]);
+      expect(getToolPaths("Edit", { file_path: "a.md" })).toEqual(["a.md"]);
+    });
+
+    it("should use the folder of tag renames, or the vault root", () => {
+      expect(getToolPaths("mcp__obsidian__rename_tag", { from: "a", to: "b", folder: "Projects" })).toEqual([
+        "Projects",
+      ]);
+      expect(getToolPaths("mcp__obsidian__merge_tags", { tags: ["a"], into: "b" })).toEqual([""]);
+    });
+  });
+
+  describe("ruleMatches", () => {
+    it("should ignore disabled rules", () => {
+      expect(ruleMatches(rule({ enabled: false }), "Edit", {}, VAULT)).toBe(false);
+    });
+
+    it("should match by tool glob", () => {
+      expect(ruleMatches(rule({ tool: "Edit" }), "Edit", {}, VAULT)).toBe(true);
+      expect(ruleMatches(rule({ tool: "Edit" }), "Write", {}, VAULT)).toBe(false);
+    });
+
+    it("should require a path when the rule has a path matcher", () => {
+      const r = rule({ tool: "Edit", path: "Projects/**" });
+      expect(ruleMatches(r, "Edit", { file_path: `${VAULT}/Projects/x.md` }, VAULT)).toBe(true);
+      expect(ruleMatches(r, "Edit", { file_path: `${VAULT}/Journal/x.md` }, VAULT)).toBe(false);
+      expect(ruleMatches(r, "Edit", {}, VAULT)).toBe(false);
+    });
+
+    it("should not match paths that escape the vault", () => {
+      const r = rule({ tool: "Edit", path: "**" });
+      expect(ruleMatches(r, "Edit", { file_path: "../outside.md" }, VAULT)).toBe(false);
+      expect(ruleMatches(r, "Edit", { file_path: "/etc/passwd" }, VAULT)).toBe(false);
+    });
+
+    it("should require allow paths to match every path of a bulk tool", () => {
+      const tool = "mcp__obsidian__update_properties";
+      const allow = rule({ tool, path: "Projects/**", effect: "allow" });
+      const deny = rule({ tool, path: "Projects/**", effect: "deny" });
+      const input = { paths: ["Projects/a.md", "Journal/b.md"] };
+      expect(ruleMatches(allow, tool, input, VAULT)).toBe(false);
+      expect(ruleMatches(deny, tool, input, VAULT)).toBe(true);
+      expect(ruleMatches(allow, tool, { paths: ["Projects/a.md", "Projects/b.md"] }, VAULT)).toBe(true);
+    });
+
+    it("should match Bash commands by prefix", () => {
+      const r = rule({ tool: "Bash", commandPrefix: "rm -rf" });
+      expect(ruleMatches(r, "Bash", { command: "rm -rf /tmp/x" }, VAULT)).toBe(true);
+      expect(ruleMatches(r, "Bash", { command: "  rm -rf x" }, VAULT)).toBe(true);
+      expect(ruleMatches(r, "Bash", { command: "ls -la" }, VAULT)).toBe(false);
+      expect(ruleMatches(r, "Bash", {}, VAULT)).toBe(false);
+    });
+
+    it("should match deny prefixes in any segment of a compound command", () => {
+      const r = rule({ tool: "Bash", commandPrefix: "rm -rf", effect: "deny" });
+      expect(ruleMatches(r, "Bash", { command: "cd notes && rm -rf x" }, VAULT)).toBe(true);
+      expect(ruleMatches(r, "Bash", { command: "ls | rm -rf x" }, VAULT)).toBe(true);
+      expect(ruleMatches(r, "Bash", { command: "echo 'a && rm -rf x'" }, VAULT)).toBe(false);
+    });
+
+    it("should not let wrappers, program paths or spacing sidestep deny prefixes", () => {
+      const r = rule({ tool: "Bash", commandPrefix: "rm -rf", effect: "deny" });
+      expect(ruleMatches(r, "Bash", { command: "sudo rm -rf /" }, VAULT)).toBe(true);
+      expect(ruleMatches(r, "Bash", { command: "sudo -u root rm -rf /" }, VAULT)).toBe(true);
+      expect(ruleMatches(r, "Bash", { command: "env X=1 rm -rf x" }, VAULT)).toBe(true);
+      expect(ruleMatches(r, "Bash", { command: "X=1 rm -rf x" }, VAULT)).toBe(true);
+      expect(ruleMatches(r, "Bash", { command: "rm  -rf x" }, VAULT)).toBe(true);
+      expect(ruleMatches(r, "Bash", { command: "rm\t-rf x" }, VAULT)).toBe(true);
+      expect(ruleMatches(r, "Bash", { command: "/bin/rm -rf x" }, VAULT)).toBe(true);
+      expect(ruleMatches(r, "Bash", { command: "rm -r x" }, VAULT)).toBe(false);
+      const sudo = rule({ tool: "Bash", commandPrefix: "sudo", effect: "deny" });
+      expect(ruleMatches(sudo, "Bash", { command: "sudo ls" }, VAULT)).toBe(true);
+    });
+
+    it("should not widen allow prefixes through wrappers", () => {
+      const r = rule({ tool: "Bash", commandPrefix: "git", effect: "allow" });
+      expect(ruleMatches(r, "Bash", { command: "git  status" }, VAULT)).toBe(true);
+      expect(ruleMatches(r, "Bash", { command: "sudo git status" }, VAULT)).toBe(false);
+      expect(ruleMatches(r, "Bash", { command: "./bin/git status" }, VAULT)).toBe(false);
+    });
+
+    it("should never match allow prefixes on commands with command substitution", () => {
+      const allow = rule({ tool: "Bash", commandPrefix: "git", effect: "allow" });
+      expect(ruleMatches(allow, "Bash", { command: "git status $(rm -rf ~)" }, VAULT)).toBe(false);
+      expect(ruleMatches(allow, "Bash", { command: "git log `whoami`" }, VAULT)).toBe(false);
+      const ctx = context({ rules: [allow] });
+      expect(evaluatePermission("Bash", { command: "git status $(rm -rf ~)" }, ctx).effect).toBe("ask");
+
+      const deny = rule({ tool: "Bash", commandPrefix: "git", effect: "deny" });
+      expect(ruleMatches(deny, "Bash", { command: "git status $(rm -rf ~)" }, VAULT)).toBe(true);
+    });
+
+    it("should never match allow prefixes on commands that redirect output to a file", () => {
+      const echo = rule({ tool: "Bash", commandPrefix: "echo", effect: "allow" });
+      expect(ruleMatches(echo, "Bash", { command: "echo x > ~/.ssh/authorized_keys" }, VAULT)).toBe(false);
+      expect(ruleMatches(echo, "Bash", { command: "echo x >/dev/null 2>&1" }, VAULT)).toBe(true);
+      const git = rule({ tool: "Bash", commandPrefix: "git", effect: "allow" });
+      expect(evaluatePermission("Bash", { command: "git log > ~/.bashrc" }, context({ rules: [git] })).effect).toBe("ask");
+    });
+
+    it("should require allow prefixes to match every segment", () => {
+      const r = rule({ tool: "Bash", commandPrefix: "git", effect: "allow" });
+      expect(ruleMatches(r, "Bash", { command: "git add . && git commit -m x" }, VAULT)).toBe(true);
+      expect(ruleMatches(r, "Bash", { command: "git status; rm -rf x" }, VAULT)).toBe(false);
+    });
+  });
+
+  describe("findMatchingRule", () => {
+    it("should return the first matching rule", () => {
+      const rules = [
+        rule({ id: "a", tool: "Edit", path: "Journal/**", effect: "ask" }),
+        rule({ id: "b", tool: "Edit", effect: "allow" }),
+      ];
+      expect(findMatchingRule(rules, "Edit", { file_path: "Journal/x.md" }, VAULT)?.id).toBe("a");
+      expect(findMatchingRule(rules, "Edit", { file_path: "Projects/x.md" }, VAULT)?.id).toBe("b");
+    });
+
+    it("should return undefined when nothing matches", () => {
+      expect(findMatchingRule([rule({ tool: "Bash" })], "Edit", {}, VAULT)).toBeUndefined();
+    });
+  });
+
+  describe("evaluatePermission", () => {
+    it("should allow Edit under Projects but ask under Journal", () => {
+      const rules = [
+        rule({ id: "projects", tool: "Edit", path: "Projects/**", effect: "allow" }),
+        rule({ id: "journal", tool: "Edit", path: "Journal/**", effect: "ask" }),
+      ];
+      const ctx = context({ rules });
+
+      expect(evaluatePermission("Edit", { file_path: `${VAULT}/Projects/a.md` }, ctx)).toMatchObject({
+        effect: "allow",
+        source: "rule",
+      });
+      expect(evaluatePermission("Edit", { file_path: `${VAULT}/Journal/a.md` }, ctx)).toMatchObject({
+        effect: "ask",
+        source: "rule",
+      });
+    });
+
+    it("should deny matching Bash commands even when Bash needs no approval", () => {
+      const ctx = context({
+        requireBashApproval: false,
+        rules: [rule({ tool: "Bash", commandPrefix: "rm -rf", effect: "deny" })],
+      });
+      expect(evaluatePermission("Bash", { command: "rm -rf notes" }, ctx).effect).toBe("deny");
+      expect(evaluatePermission("Bash", { command: "ls" }, ctx).effect).toBe("allow");
+    });
+
+    it("should let rules override read-only defaults", () => {
+      const ctx = context({ rules: [rule({ tool: "Read", path: "Private/**", effect: "deny" })] });
+      expect(evaluatePermission("Read", { file_path: "Private/secret.md" }, ctx).effect).toBe("deny");
+      expect(evaluatePermission("Read", { file_path: "Public/a.md" }, ctx)).toEqual({
+        effect: "allow",
+        source: "read-only",
+      });
+    });
+
+    it("should let a session approval satisfy an ask rule but not a deny rule", () => {
+      const sessionApprovedTools = new Set(["Edit"]);
+      const askCtx = context({ sessionApprovedTools, rules: [rule({ tool: "Edit", effect: "ask" })] });
+      const denyCtx = context({ sessionApprovedTools, rules: [rule({ tool: "Edit", effect: "deny" })] });
+
+      expect(evaluatePermission("Edit", {}, askCtx)).toEqual({ effect: "allow", source: "session" });
+      expect(evaluatePermission("Edit", {}, denyCtx).effect).toBe("deny");
+    });
+
+    it("should fall back to the built-in defaults", () => {
+      const ctx = context();
+      expect(evaluatePermission("mcp__obsidian__open_file", {}, ctx).source).toBe("obsidian-ui");
+      expect(evaluatePermission("Write", {}, ctx)).toEqual({ effect: "ask", source: "default" });
+      expect(evaluatePermission("Bash", {}, ctx)).toEqual({ effect: "ask", source: "default" });
+      expect(evaluatePermission("Task", {}, ctx).effect).toBe("allow");
+      expect(evaluatePermission("WebSearch", {}, ctx).effect).toBe("allow");
+    });
+
+    it("should honor settings, always-allowed tools and session approvals", () => {
+      expect(evaluatePermission("Write", {}, context({ autoApproveVaultWrites: true })).source).toBe("setting");
+      expect(evaluatePermission("Bash", {}, context({ requireBashApproval: false })).source).toBe("setting");
+      expect(evaluatePermission("Bash", {}, context({ alwaysAllowedTools: ["Bash"] })).source).toBe(
+        "always-allowed"
+      );
+      expect(evaluatePermission("Edit", {}, context({ sessionApprovedTools: new Set(["Edit"]) })).source).toBe(
+        "session"
+      );
+    });
+  });
+
+  describe("evaluatePermission with command patterns", () => {
+    it("should allow Bash commands matching the allowlist", () => {
+      const ctx = context({ allowedCommands: ["git *", "python .claude/skills/*"] });
+      expect(evaluatePermission("Bash", { command: "git status" }, ctx)).toEqual({
+        effect: "allow",
+        source: "command-allowlist",
+      });
+      expect(evaluatePermission("Bash", { command: "python .claude/skills/search.py -q x" }, ctx).effect).toBe("allow");
+      expect(evaluatePermission("Bash", { command: "rm -rf notes" }, ctx).effect).toBe("ask");
+    });
+
+    it("should require every segment of a compound command to match", () => {
+      const ctx = context({ allowedCommands: ["git *", "ls *"] });
+      expect(evaluatePermission("Bash", { command: "ls && git status" }, ctx).effect).toBe("allow");
+      expect(evaluatePermission("Bash", { command: "git status && rm -rf x" }, ctx).effect).toBe("ask");
+      expect(evaluatePermission("Bash", { command: "git log | curl -d @- example.com" }, ctx).effect).toBe("ask");
+    });
+
+    it("should remember session approvals per command pattern", () => {
+      const ctx = context({ sessionApprovedCommands: ["git *"] });
+      expect(evaluatePermission("Bash", { command: "git diff" }, ctx)).toEqual({ effect: "allow", source: "session" });
+      expect(evaluatePermission("Bash", { command: "rm -rf x" }, ctx).effect).toBe("ask");
+    });
+
+    it("should let a session command approval satisfy an ask rule", () => {
+      const ctx = context({
+        sessionApprovedCommands: ["git *"],
+        rules: [rule({ tool: "Bash", effect: "ask" })],
+      });
+      expect(evaluatePermission("Bash", { command: "git status" }, ctx).effect).toBe("allow");
+      expect(evaluatePermission("Bash", { command: "npm test" }, ctx).effect).toBe("ask");
+    });
+
+    it("should not let the allowlist override deny rules", () => {
+      const ctx = context({
+        allowedCommands: ["git *"],
+        rules: [rule({ tool: "Bash", commandPrefix: "git push", effect: "deny" })],
+      });
+      expect(evaluatePermission("Bash", { command: "git push --force" }, ctx).effect).toBe("deny");
+    });
+  });
+
+  describe("findProtectedFolderWithin", () => {
+    it("should find protected folders inside a folder", () => {
+      expect(findProtectedFolderWithin("", ["Templates/"])).toEqual({ kind: "protected", folder: "Templates" });
+      expect(findProtectedFolderWithin("Projects", ["Templates", "Projects/Archive"])).toEqual({
+        kind: "protected",
+        folder: "Projects/Archive",
+      });
+      expect(findProtectedFolderWithin("Projects", ["Templates", "Projects-old"])).toBeUndefined();
+      expect(findProtectedFolderWithin("", [])).toBeUndefined();
+    });
+  });
+
+  describe("findWriteScope", () => {
+    it("should match protected and scratch folders", () => {
+      expect(findWriteScope("Templates/daily.md", ["Templates"], ["Scratch"])).toEqual({
+        kind: "protected",
+        folder: "Templates",
+      });
+      expect(findWriteScope("Scratch/tmp.md", ["Templates"], ["Scratch"])).toEqual({
+        kind: "scratch",
+        folder: "Scratch",
+      });
+      expect(findWriteScope("Notes/a.md", ["Templates"], ["Scratch"])).toBeUndefined();
+    });
+
+    it("should prefer the most specific folder", () => {
+      expect(findWriteScope("Archive/tmp/a.md", ["Archive"], ["Archive/tmp"])?.kind).toBe("scratch");
+      expect(findWriteScope("Archive/old/a.md", ["Archive"], ["Archive/tmp"])?.kind).toBe("protected");
+    });
+
+    it("should prefer protected on a tie", () => {
+      expect(findWriteScope("Shared/a.md", ["Shared"], ["Shared/"])?.kind).toBe("protected");
+    });
+
+    it("should not match sibling folders with a common prefix", () => {
+      expect(findWriteScope("Templates-old/a.md", ["Templates"], [])).toBeUndefined();
+    });
+  });
+
+  describe("evaluatePermission with write scopes", () => {
+    const scoped = context({
+      autoApproveVaultWrites: true,
+      protectedFolders: ["Templates", "Archive"],
+      scratchFolders: ["Scratch"],
+    });
+
+    it("should deny writes that escape the vault", () => {
+      expect(evaluatePermission("Write", { file_path: "../../etc/hosts" }, scoped)).toEqual({
+        effect: "deny",
+        source: "vault-boundary",
+      });
+      expect(evaluatePermission("Edit", { file_path: "/tmp/x.md" }, scoped).effect).toBe("deny");
+      expect(evaluatePermission("Write", { file_path: "~/.bashrc" }, scoped).effect).toBe("deny");
+    });
+
+    it("should check where create_note writes like other writes", () => {
+      expect(evaluatePermission("mcp__obsidian__create_note", { path: "Templates/new.md" }, scoped)).toEqual({
+        effect: "ask",
+        source: "scope",
+        scope: { kind: "protected", folder: "Templates" },
+      });
+      expect(evaluatePermission("mcp__obsidian__create_note", { path: "../outside.md" }, scoped)).toEqual({
+        effect: "deny",
+        source: "vault-boundary",
+      });
+      expect(evaluatePermission("mcp__obsidian__create_note", { path: "Notes/new.md" }, scoped).effect).toBe("allow");
+    });
+
+    it("should treat a write with no paths as a write anywhere in the vault", () => {
+      const query = { where: [{ property: "status", op: "eq", value: "draft" }], set: { status: "done" } };
+      expect(evaluatePermission("mcp__obsidian__update_properties", query, scoped)).toEqual({
+        effect: "ask",
+        source: "scope",
+        scope: { kind: "protected", folder: "Templates" },
+      });
+      expect(evaluatePermission("mcp__obsidian__update_properties", query, context({ autoApproveVaultWrites: true })))
+        .toEqual({ effect: "allow", source: "setting" });
+      expect(evaluatePermission("mcp__obsidian__update_properties", { ...query, paths: ["Notes/a.md"] }, scoped).effect)
+        .toBe("allow");
+    });
+
+    it("should check the folder of tag renames against protected folders", () => {
+      const rename = { from: "todo", to: "task" };
+      expect(evaluatePermission("mcp__obsidian__rename_tag", { ...rename, folder: "Templates/Work" }, scoped)).toEqual({
+        effect: "ask",
+        source: "scope",
+        scope: { kind: "protected", folder: "Templates" },
+      });
+      const merge = { tags: ["todo"], into: "task" };
+      expect(evaluatePermission("mcp__obsidian__merge_tags", merge, scoped).effect).toBe("ask");
+      expect(evaluatePermission("mcp__obsidian__rename_tag", { ...rename, folder: "Projects" }, scoped).effect).toBe(
+        "allow"
+      );
+      expect(evaluatePermission("mcp__obsidian__rename_tag", { ...rename, folder: "Scratch" }, scoped)).toEqual({
+        effect: "allow",
+        source: "scope",
+        scope: { kind: "scratch", folder: "Scratch" },
+      });
+      expect(evaluatePermission("mcp__obsidian__rename_tag", { ...rename, folder: "../other" }, scoped).effect).toBe(
+        "deny"
+      );
+    });
+
+    it("should check where NotebookEdit writes like other writes", () => {
+      expect(evaluatePermission("NotebookEdit", { notebook_path: "/etc/x.ipynb" }, scoped)).toEqual({
+        effect: "deny",
+        source: "vault-boundary",
+      });
+      expect(evaluatePermission("NotebookEdit", { notebook_path: "Templates/a.ipynb" }, scoped)).toEqual({
+        effect: "ask",
+        source: "scope",
+        scope: { kind: "protected", folder: "Templates" },
+      });
+      expect(evaluatePermission("NotebookEdit", { notebook_path: "Notes/a.ipynb" }, context()).effect).toBe("ask");
+    });
+
+    it("should always ask for protected folders", () => {
+      const decision = evaluatePermission("Edit", { file_path: `${VAULT}/Templates/daily.md` }, scoped);
+      expect(decision).toEqual({ effect: "ask", source: "scope", scope: { kind: "protected", folder: "Templates" } });
+    });
+
+    it("should ask for protected folders even with session approvals and allow rules", () => {
+      const ctx = {
+        ...scoped,
+        sessionApprovedTools: new Set(["Edit"]),
+        alwaysAllowedTools: ["Edit"],
+        rules: [rule({ tool: "Edit", effect: "allow" })],
+      };
+      expect(evaluatePermission("Edit", { file_path: "Archive/a.md" }, ctx).effect).toBe("ask");
+    });
+
+    it("should let deny rules win over protected folders", () => {
+      const ctx = { ...scoped, rules: [rule({ tool: "Edit", path: "Templates/**", effect: "deny" })] };
+      expect(evaluatePermission("Edit", { file_path: "Templates/a.md" }, ctx).effect).toBe("deny");
+    });
+
+    it("should never ask for scratch folders", () => {
+      const ctx = { ...scoped, autoApproveVaultWrites: false };
+      expect(evaluatePermission("Write", { file_path: "Scratch/tmp.md" }, ctx)).toMatchObject({
+        effect: "allow",
+        source: "scope",
+      });
+      expect(evaluatePermission("Write", { file_path: "Notes/tmp.md" }, ctx).effect).toBe("ask");
+    });
+
+    it("should check every path of a bulk write", () => {
+      const tool = "mcp__obsidian__update_properties";
+      const ctx = { ...scoped, autoApproveVaultWrites: false };
+      expect(evaluatePermission(tool, { paths: ["Notes/a.md", "Templates/b.md"] }, ctx)).toEqual({
+        effect: "ask",
+        source: "scope",
+        scope: { kind: "protected", folder: "Templates" },
+      });
+      expect(evaluatePermission(tool, { paths: ["Notes/a.md", "../outside.md"] }, ctx).source).toBe("vault-boundary");
+      expect(evaluatePermission(tool, { paths: ["Scratch/a.md", "Scratch/b.md"] }, ctx)).toMatchObject({
+        effect: "allow",
+        source: "scope",
+      });
+      expect(evaluatePermission(tool, { paths: ["Scratch/a.md", "Notes/b.md"] }, ctx)).toEqual({
+        effect: "ask",
+        source: "default",
+      });
+    });
+
+    it("should check the destination of moves", () => {
+      const tool = "mcp__obsidian__move_file";
+      const ctx = { ...scoped, autoApproveVaultWrites: false };
+      expect(evaluatePermission(tool, { path: "Notes/a.md", folder: "Archive" }, ctx)).toMatchObject({
+        effect: "ask",
+        scope: { kind: "protected", folder: "Archive" },
+      });
+      expect(evaluatePermission(tool, { path: "Notes/a.md", folder: "../../tmp" }, ctx).source).toBe("vault-boundary");
+      expect(evaluatePermission(tool, { path: "Scratch/a.md", folder: "Scratch/old" }, ctx)).toMatchObject({
+        effect: "allow",
+        source: "scope",
+      });
+    });
+
+    it("should check deletions like writes but never allow them by default", () => {
+      const tool = "mcp__obsidian__delete_file";
+      expect(evaluatePermission(tool, { path: "../outside.md" }, scoped).source).toBe("vault-boundary");
+      expect(evaluatePermission(tool, { path: "Templates/daily.md" }, scoped)).toMatchObject({
+        effect: "ask",
+        source: "scope",
+      });
+      expect(evaluatePermission(tool, { path: "Scratch/tmp.md" }, scoped)).toEqual({ effect: "ask", source: "default" });
+      expect(evaluatePermission(tool, { path: "Notes/a.md" }, { ...scoped, mode: "acceptEdits" }).effect).toBe("ask");
+      const approved = { ...scoped, sessionApprovedTools: new Set([tool]) };
+      expect(evaluatePermission(tool, { path: "Notes/a.md" }, approved)).toEqual({ effect: "allow", source: "session" });
+    });
+
+    it("should not apply scopes to non-write tools", () => {
+      expect(evaluatePermission("Read", { file_path: "/etc/hosts" }, scoped).effect).toBe("allow");
+    });
+  });
+
+  describe("evaluatePermission with permission modes", () => {
+    it("should deny tools that could change the vault in read-only and plan modes", () => {
+      for (const mode of ["readOnly", "plan"] as const) {
+        const ctx = context({
+          mode,
+          autoApproveVaultWrites: true,
+          requireBashApproval: false,
+          alwaysAllowedTools: ["mcp__obsidian__create_note"],
+          rules: [rule({ tool: "Edit", effect: "allow" })],
+        });
+        expect(evaluatePermission("Edit", { file_path: "a.md" }, ctx)).toEqual({ effect: "deny", source: "mode", mode });
+        expect(evaluatePermission("Bash", { command: "ls" }, ctx).effect).toBe("deny");
+        expect(evaluatePermission("mcp__obsidian__create_note", {}, ctx).effect).toBe("deny");
+        expect(evaluatePermission("ExitPlanMode", {}, ctx).effect).toBe("deny");
+      }
+    });
+
+    it("should keep read-only tools available in restricted modes", () => {
+      const ctx = context({ mode: "readOnly" });
+      expect(evaluatePermission("Read", { file_path: "a.md" }, ctx).effect).toBe("allow");
+      expect(evaluatePermission("Grep", {}, ctx).effect).toBe("allow");
+      expect(evaluatePermission("Task", {}, ctx).effect).toBe("allow");
+    });
+
+    it("should approve file edits in accept-edits mode but respect rules and protected folders", () => {
+      const ctx = context({
+        mode: "acceptEdits",
+        protectedFolders: ["Templates"],
+        rules: [rule({ tool: "Edit", path: "Journal/**", effect: "ask" })],
+      });
+      expect(evaluatePermission("Edit", { file_path: "notes/a.md" }, ctx)).toEqual({
+        effect: "allow",
+        source: "mode",
+        mode: "acceptEdits",
+      });
+      expect(evaluatePermission("Edit", { file_path: "Templates/t.md" }, ctx).effect).toBe("ask");
+      expect(evaluatePermission("Edit", { file_path: "Journal/today.md" }, ctx).effect).toBe("ask");
+      expect(evaluatePermission("Bash", { command: "ls" }, ctx).effect).toBe("ask");
+    });
+  });
+
+  describe("evaluatePermission with MCP servers", () => {
+    const github = {
+      id: "gh",
+      name: "github",
+      command: "npx",
+      args: [],
+      enabled: true,
+      tools: { delete_repo: { approval: "deny" as const }, search: { approval: "allow" as const } },
+    };
+
+    it("should ask before tools from external servers by default", () => {
+      expect(evaluatePermission("mcp__github__create_issue", {}, context({ mcpServers: [github] }))).toEqual({
+        effect: "ask",
+        source: "mcp-server",
+        mcpServer: "github",
+      });
+      // Tools from servers that aren't configured keep the old default.
+      expect(evaluatePermission("mcp__other__tool", {}, context({ mcpServers: [github] })).effect).toBe("allow");
+    });
+
+    it("should apply per-tool approvals", () => {
+      const ctx = context({ mcpServers: [github] });
+      expect(evaluatePermission("mcp__github__search", {}, ctx).effect).toBe("allow");
+      expect(evaluatePermission("mcp__github__delete_repo", {}, ctx).effect).toBe("deny");
+    });
+
+    it("should let approvals satisfy ask but never deny", () => {
+      const ctx = context({
+        mcpServers: [github],
+        alwaysAllowedTools: ["mcp__github__delete_repo"],
+        sessionApprovedTools: new Set(["mcp__github__create_issue"]),
+      });
+      expect(evaluatePermission("mcp__github__create_issue", {}, ctx).source).toBe("session");
+      expect(evaluatePermission("mcp__github__delete_repo", {}, ctx).effect).toBe("deny");
+    });
+
+    it("should let rules override server settings", () => {
+      const ctx = context({ mcpServers: [github], rules: [rule({ tool: "mcp__github__*", effect: "allow" })] });
+      expect(evaluatePermission("mcp__github__delete_repo", {}, ctx).source).toBe("rule");
+    });
+  });
+
+  describe("describeDecisionReason", () => {
+    it("should describe MCP server settings", () => {
+      expect(describeDecisionReason({ effect: "ask", source: "mcp-server", mcpServer: "github" })).toBe(
+        "MCP server: github"
+      );
+    });
+
+    it("should describe permission modes", () => {
+      expect(describeDecisionReason({ effect: "deny", source: "mode", mode: "readOnly" })).toBe("Read-only mode");
+    });
+
+    it("should describe rules, scopes and the vault boundary", () => {
+      expect(describeDecisionReason({ effect: "ask", source: "rule", rule: rule({ tool: "Edit", effect: "ask" }) })).toBe(
+        "Permission rule: ask Edit"
+      );
+      expect(
+        describeDecisionReason({ effect: "ask", source: "scope", scope: { kind: "protected", folder: "Templates" } })
+      ).toBe("Protected folder: Templates");
+      expect(describeDecisionReason({ effect: "deny", source: "vault-boundary" })).toContain("outside the vault");
+    });
+
+    it("should return undefined for defaults", () => {
+      expect(describeDecisionReason({ effect: "ask", source: "default" })).toBeUndefined();
+    });
+  });
+
+  describe("describeRule", () => {
+    it("should summarize tool, path and command matchers", () => {
+      expect(describeRule(rule({ tool: "Edit", path: "Journal/**", effect: "ask" }))).toBe("ask Edit in Journal/**");
+      expect(describeRule(rule({ tool: "Bash", commandPrefix: "rm -rf", effect: "deny" }))).toBe(
+        'deny Bash for commands starting with "rm -rf"'
+      );
+    });
+  });
+});
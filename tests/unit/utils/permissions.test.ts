@@ -7,12 +7,15 @@ import {
   SYSTEM_TOOLS,
   isReadOnlyTool,
   isWriteTool,
+  isDeleteTool,
   isObsidianUiTool,
   isSubagentTool,
   isSystemTool,
+  isNonMutatingTool,
   getToolRiskLevel,
   shouldAutoApprove,
   buildToolDescription,
+  buildDenialMessage,
 } from "../../../src/utils/permissions";
 
 describe("permissions utilities", () => {
@@ -25,10 +28,54 @@ describe("permissions utilities", () => {
       expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__get_active_file");
     });
 
+    it("should treat link graph tools as read-only", () => {
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__get_backlinks");
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__get_outgoing_links");
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__get_unresolved_links");
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__get_link_neighborhood");
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__vault_health");
+    });
+
+    it("should treat reading and querying note metadata as read-only", () => {
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__read_note_metadata");
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__query_notes");
+    });
+
+    it("should treat reading note outlines and sections as read-only", () => {
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__get_note_outline");
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__read_section");
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__read_canvas");
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__read_note_images");
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__read_pdf_text");
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__get_periodic_note");
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__get_recent_daily_notes");
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__list_templates");
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__get_editor_selection");
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__list_open_tabs");
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__search_notes");
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__semantic_search");
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__find_similar_notes");
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__list_tags");
+      expect(READ_ONLY_TOOLS).toContain("mcp__obsidian__find_notes_by_tag");
+    });
+
     it("should have expected write tools", () => {
       expect(WRITE_TOOLS).toContain("Write");
       expect(WRITE_TOOLS).toContain("Edit");
       expect(WRITE_TOOLS).toContain("MultiEdit");
+      expect(WRITE_TOOLS).toContain("mcp__obsidian__update_properties");
+      expect(WRITE_TOOLS).toContain("mcp__obsidian__edit_section");
+      expect(WRITE_TOOLS).toContain("mcp__obsidian__rename_file");
+      expect(WRITE_TOOLS).toContain("mcp__obsidian__move_files");
+      expect(WRITE_TOOLS).toContain("mcp__obsidian__add_canvas_nodes");
+      expect(WRITE_TOOLS).toContain("mcp__obsidian__create_canvas");
+      expect(WRITE_TOOLS).toContain("mcp__obsidian__create_note");
+      expect(WRITE_TOOLS).toContain("NotebookEdit");
+      expect(WRITE_TOOLS).toContain("mcp__obsidian__create_periodic_note");
+      expect(WRITE_TOOLS).toContain("mcp__obsidian__replace_selection");
+      expect(WRITE_TOOLS).toContain("mcp__obsidian__insert_at_cursor");
+      expect(WRITE_TOOLS).toContain("mcp__obsidian__rename_tag");
+      expect(WRITE_TOOLS).toContain("mcp__obsidian__merge_tags");
     });
 
     it("should have expected UI tools", () => {
@@ -76,6 +123,14 @@ describe("permissions utilities", () => {
     });
   });
 
+  describe("isDeleteTool", () => {
+    it("should identify delete tools", () => {
+      expect(isDeleteTool("mcp__obsidian__delete_file")).toBe(true);
+      expect(isDeleteTool("Write")).toBe(false);
+      expect(isWriteTool("mcp__obsidian__delete_file")).toBe(false);
+    });
+  });
+
   describe("isObsidianUiTool", () => {
     it("should return true for UI tools", () => {
       expect(isObsidianUiTool("mcp__obsidian__open_file")).toBe(true);
@@ -100,6 +155,23 @@ describe("permissions utilities", () => {
     });
   });
 
+  describe("isNonMutatingTool", () => {
+    it("should include read-only, subagent and harmless UI tools", () => {
+      expect(isNonMutatingTool("Read")).toBe(true);
+      expect(isNonMutatingTool("Task")).toBe(true);
+      expect(isNonMutatingTool("WebSearch")).toBe(true);
+      expect(isNonMutatingTool("mcp__obsidian__open_file")).toBe(true);
+    });
+
+    it("should exclude tools that can change the vault", () => {
+      expect(isNonMutatingTool("Write")).toBe(false);
+      expect(isNonMutatingTool("Bash")).toBe(false);
+      expect(isNonMutatingTool("mcp__obsidian__create_note")).toBe(false);
+      expect(isNonMutatingTool("mcp__obsidian__execute_command")).toBe(false);
+      expect(isNonMutatingTool("mcp__github__create_issue")).toBe(false);
+    });
+  });
+
   describe("isSystemTool", () => {
     it("should return true for Bash", () => {
       expect(isSystemTool("Bash")).toBe(true);
@@ -130,6 +202,10 @@ describe("permissions utilities", () => {
       expect(getToolRiskLevel("Bash")).toBe("high");
     });
 
+    it("should return high for delete tools", () => {
+      expect(getToolRiskLevel("mcp__obsidian__delete_file")).toBe("high");
+    });
+
     it("should return low for subagent tools", () => {
       expect(getToolRiskLevel("Task")).toBe("low");
     });
@@ -137,6 +213,13 @@ describe("permissions utilities", () => {
     it("should return low for unknown tools", () => {
       expect(getToolRiskLevel("UnknownTool")).toBe("low");
     });
+
+    it("should use the configured risk for user MCP server tools", () => {
+      const github = { id: "gh", name: "github", command: "npx", args: [], enabled: true };
+      const servers = [{ ...github, tools: { delete_repo: { risk: "high" as const } } }];
+      expect(getToolRiskLevel("mcp__github__search", servers)).toBe("medium");
+      expect(getToolRiskLevel("mcp__github__delete_repo", servers)).toBe("high");
+    });
   });
 
   describe("shouldAutoApprove", () => {
@@ -165,6 +248,12 @@ describe("permissions utilities", () => {
       expect(shouldAutoApprove("Write", { ...defaultSettings, autoApproveVaultWrites: true })).toBe(true);
     });
 
+    it("should never auto-approve deletions unless always allowed", () => {
+      const tool = "mcp__obsidian__delete_file";
+      expect(shouldAutoApprove(tool, { ...defaultSettings, autoApproveVaultWrites: true })).toBe(false);
+      expect(shouldAutoApprove(tool, { ...defaultSettings, alwaysAllowedTools: [tool] })).toBe(true);
+    });
+
     it("should respect requireBashApproval setting", () => {
       expect(shouldAutoApprove("Bash", { ...defaultSettings, requireBashApproval: true })).toBe(false);
       expect(shouldAutoApprove("Bash", { ...defaultSettings, requireBashApproval: false })).toBe(true);
@@ -177,9 +266,95 @@ describe("permissions utilities", () => {
     it("should auto-approve unknown tools by default", () => {
       expect(shouldAutoApprove("WebSearch", defaultSettings)).toBe(true);
     });
+
+    it("should not auto-approve user MCP server tools unless allowed", () => {
+      const github = { id: "gh", name: "github", command: "npx", args: [], enabled: true };
+      expect(shouldAutoApprove("mcp__github__search", { ...defaultSettings, mcpServers: [github] })).toBe(false);
+      expect(
+        shouldAutoApprove("mcp__github__search", { ...defaultSettings, mcpServers: [{ ...github, approval: "allow" }] })
+      ).toBe(true);
+    });
   });
 
   describe("buildToolDescription", () => {
+    it("should describe canvas edits", () => {
+      expect(buildToolDescription("mcp__obsidian__create_canvas", { path: "Maps/Research.canvas" })).toBe(
+        "Claude wants to create the canvas: Maps/Research.canvas"
+      );
+      expect(buildToolDescription("mcp__obsidian__add_canvas_nodes", { path: "Maps/Research" })).toBe(
+        "Claude wants to add to the canvas: Maps/Research"
+      );
+    });
+
+    it("should describe notebook edits by notebook path", () => {
+      expect(buildToolDescription("NotebookEdit", { notebook_path: "Data/analysis.ipynb" })).toBe(
+        "Claude wants to edit the notebook: Data/analysis.ipynb"
+      );
+    });
+
+    it("should describe new notes and their template", () => {
+      const input = { path: "Meetings/Standup.md", template: "Meeting" };
+      expect(buildToolDescription("mcp__obsidian__create_note", input)).toBe(
+        "Claude wants to create the note: Meetings/Standup.md from the template Meeting"
+      );
+    });
+
+    it("should describe periodic notes by period and date", () => {
+      expect(buildToolDescription("mcp__obsidian__create_periodic_note", {})).toBe(
+        "Claude wants to create the daily note for today"
+      );
+      expect(buildToolDescription("mcp__obsidian__create_periodic_note", { period: "week", offset: -1 })).toBe(
+        "Claude wants to create the weekly note for today (offset -1)"
+      );
+    });
+
+    it("should describe editor edits with the note", () => {
+      expect(buildToolDescription("mcp__obsidian__replace_selection", { path: "Notes/a.md", text: "x" })).toBe(
+        "Claude wants to replace the selected text in the editor: Notes/a.md"
+      );
+      expect(buildToolDescription("mcp__obsidian__insert_at_cursor", { text: "x" })).toBe(
+        "Claude wants to insert text at the cursor in the editor: the open note"
+      );
+    });
+
+    it("should describe tag renames and merges with their scope", () => {
+      expect(buildToolDescription("mcp__obsidian__rename_tag", { from: "#todo", to: "task" })).toBe(
+        "Claude wants to rename the tag #todo to #task in: every note"
+      );
+      expect(
+        buildToolDescription("mcp__obsidian__merge_tags", { tags: ["to-do", "#tasks"], into: "task", folder: "Work" })
+      ).toBe("Claude wants to merge #to-do, #tasks into #task in: Work");
+    });
+
+    it("should describe deletions as moves to the trash", () => {
+      expect(buildToolDescription("mcp__obsidian__delete_file", { path: "Inbox/old.md" })).toBe(
+        "Claude wants to move the file to the trash: Inbox/old.md"
+      );
+    });
+
+    it("should describe renames and moves with their destinations", () => {
+      expect(buildToolDescription("mcp__obsidian__rename_file", { path: "a.md", newName: "b" })).toBe(
+        "Claude wants to rename a file: a.md → b.md"
+      );
+      expect(
+        buildToolDescription("mcp__obsidian__move_files", { mapping: { "a.md": "Archive", "b.md": "Archive" } })
+      ).toBe("Claude wants to move 2 files: a.md → Archive/a.md, b.md → Archive/b.md");
+    });
+
+    it("should describe section edits with the section and note", () => {
+      expect(buildToolDescription("mcp__obsidian__edit_section", { path: "Daily.md", heading: "## Tasks" })).toBe(
+        "Claude wants to edit ## Tasks in the file: Daily.md"
+      );
+    });
+
+    it("should describe property updates with their notes", () => {
+      const tool = "mcp__obsidian__update_properties";
+      expect(buildToolDescription(tool, { paths: ["a.md", "b.md"] })).toBe(
+        "Claude wants to update properties in: a.md, b.md"
+      );
+      expect(buildToolDescription(tool, { where: [] })).toContain("notes matching a property query");
+    });
+
     it("should describe write tool with file path", () => {
       const desc = buildToolDescription("Write", { file_path: "/path/to/file.md" });
       expect(desc).toContain("write");
@@ -216,4 +391,23 @@ describe("permissions utilities", () => {
       expect(desc).toContain("a file");
     });
   });
+
+  describe("buildDenialMessage", () => {
+    it("should use tool-specific messages", () => {
+      expect(buildDenialMessage("Write")).toBe("User denied file write permission");
+      expect(buildDenialMessage("Bash")).toBe("User denied bash command permission");
+      expect(buildDenialMessage("mcp__obsidian__delete_file")).toBe("User denied file delete permission");
+      expect(buildDenialMessage("WebFetch")).toBe("User denied WebFetch permission");
+    });
+
+    it("should append user feedback", () => {
+      expect(buildDenialMessage("Edit", "  Put it in Drafts/ instead. ")).toBe(
+        "User denied file write permission. User feedback: Put it in Drafts/ instead."
+      );
+    });
+
+    it("should ignore blank feedback", () => {
+      expect(buildDenialMessage("Bash", "   ")).toBe("User denied bash command permission");
+    });
+  });
 });
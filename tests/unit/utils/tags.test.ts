@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizeTag,
+  validateTag,
+  buildTagTree,
+  findTagNode,
+  matchesTagQuery,
+  renameTag,
+  renameInlineTags,
+  planFrontmatterTagRename,
+  applyFrontmatterTagRename,
+} from "../../../src/utils/tags";
+
+describe("tags utilities", () => {
+  describe("normalizeTag", () => {
+    it("should strip the leading # and spaces", () => {
+      expect(normalizeTag(" #project/alpha ")).toBe("project/alpha");
+      expect(normalizeTag("todo")).toBe("todo");
+    });
+  });
+
+  describe("validateTag", () => {
+    it("should accept nested and unicode tags", () => {
+      expect(validateTag("#project/alpha-2")).toBeNull();
+      expect(validateTag("café_notes")).toBeNull();
+      expect(validateTag("y2024")).toBeNull();
+    });
+
+    it("should reject tags Obsidian wouldn't recognize", () => {
+      expect(validateTag("#")).toBe("Tag is empty");
+      expect(validateTag("two words")).toBe("Tags can only contain letters, numbers, _, - and /: #two words");
+      expect(validateTag("a//b")).toBe("Tag has an empty nesting level: #a//b");
+      expect(validateTag("project/")).toBe("Tag has an empty nesting level: #project/");
+      expect(validateTag("2024")).toBe("Tags need at least one non-numeric character: #2024");
+    });
+  });
+
+  describe("buildTagTree", () => {
+    const counts = { "#project/alpha": 3, "#project/beta": 1, "#Todo": 2, "#todo": 5, "#area/work/meetings": 4 };
+
+    it("should nest subtags, add unused parents and total the counts", () => {
+      expect(buildTagTree(counts)).toEqual([
+        {
+          tag: "area",
+          count: 0,
+          total: 4,
+          children: [
+            {
+              tag: "area/work",
+              count: 0,
+              total: 4,
+              children: [{ tag: "area/work/meetings", count: 4, total: 4, children: [] }],
+            },
+          ],
+        },
+        {
+          tag: "project",
+          count: 0,
+          total: 4,
+          children: [
+            { tag: "project/alpha", count: 3, total: 3, children: [] },
+            { tag: "project/beta", count: 1, total: 1, children: [] },
+          ],
+        },
+        { tag: "todo", count: 7, total: 7, variants: ["Todo"], children: [] },
+      ]);
+    });
+
+    it("should sort by total uses", () => {
+      expect(buildTagTree(counts, "count").map((node) => node.tag)).toEqual(["todo", "area", "project"]);
+    });
+
+    it("should find a tag in the tree", () => {
+      const tree = buildTagTree(counts);
+      expect(findTagNode(tree, "#Project/Alpha")?.count).toBe(3);
+      expect(findTagNode(tree, "area/work")?.children).toHaveLength(1);
+      expect(findTagNode(tree, "missing")).toBeNull();
+    });
+  });
+
+  describe("matchesTagQuery", () => {
+    const tags = ["project/alpha", "todo"];
+
+    it("should combine all, any and none, matching subtags", () => {
+      expect(matchesTagQuery(tags, { all: ["project", "todo"] })).toBe(true);
+      expect(matchesTagQuery(tags, { all: ["project", "done"] })).toBe(false);
+      expect(matchesTagQuery(tags, { any: ["done", "#todo"] })).toBe(true);
+      expect(matchesTagQuery(tags, { any: ["done"] })).toBe(false);
+      expect(matchesTagQuery(tags, { any: ["project"], none: ["project/alpha"] })).toBe(false);
+      expect(matchesTagQuery(tags, {})).toBe(true);
+    });
+  });
+
+  describe("renameTag", () => {
+    const renames = [{ from: "#project", to: "work/project" }];
+
+    it("should rename a tag and its subtags, keeping the subtag's case", () => {
+      expect(renameTag("Project", renames)).toBe("work/project");
+      expect(renameTag("#project/Alpha", renames)).toBe("work/project/Alpha");
+      expect(renameTag("projects", renames)).toBeNull();
+    });
+
+    it("should fix the case of a tag", () => {
+      expect(renameTag("Todo/Later", [{ from: "Todo", to: "todo" }])).toBe("todo/Later");
+    });
+
+    it("should leave tags already under the new name when moving a tag under itself", () => {
+      const nested = [{ from: "project", to: "project/main" }];
+      expect(renameTag("project", nested)).toBe("project/main");
+      expect(renameTag("project/alpha", nested)).toBe("project/main/alpha");
+      expect(renameTag("project/main", nested)).toBeNull();
+      expect(renameTag("project/main/x", nested)).toBeNull();
+    });
+  });
+
+  describe("renameInlineTags", () => {
+    const renames = [{ from: "todo", to: "task" }];
+
+    it("should rename inline tags outside frontmatter and code and report changed lines", () => {
+      const content = [
+        "---",
+        "note: '#todo'",
+        "---",
+        "#todo first",
+        "Some #todo/later and #todos here",
+        "`#todo` in code, #Todo outside",
+        "```",
+        "#todo",
+        "```",
+        "See [[Note#todo]] and #123",
+      ].join("\n");
+      const result = renameInlineTags(content, renames);
+      expect(result.changes).toEqual([
+        { line: 4, before: "#todo first", after: "#task first" },
+        { line: 5, before: "Some #todo/later and #todos here", after: "Some #task/later and #todos here" },
+        { line: 6, before: "`#todo` in code, #Todo outside", after: "`#todo` in code, #task outside" },
+      ]);
+      expect(result.content.split("\n")[1]).toBe("note: '#todo'");
+      expect(result.content.split("\n")[7]).toBe("#todo");
+    });
+
+    it("should rename tags after punctuation, but not in links, entities or URLs", () => {
+      expect(renameInlineTags("Follow up (#todo), then;#todo,#todo", renames).content).toBe(
+        "Follow up (#task), then;#task,#task"
+      );
+      const kept = "[[#todo]] [a](#todo) &#todo; https://x.com/#todo page#todo \\#todo";
+      expect(renameInlineTags(kept, renames).changes).toEqual([]);
+    });
+
+    it("should keep carriage returns", () => {
+      expect(renameInlineTags("a #todo\r\nb", renames).content).toBe("a #task\r\nb");
+    });
+  });
+
+  describe("frontmatter tag renames", () => {
+    it("should rename list tags and merge duplicates", () => {
+      const frontmatter = { tags: ["#old", "keep", "new"], title: "x" };
+      expect(planFrontmatterTagRename(frontmatter, [{ from: "old", to: "new" }])).toEqual([
+        { key: "tags", action: "set", before: ["#old", "keep", "new"], after: ["#new", "keep"] },
+      ]);
+      expect(frontmatter.tags).toEqual(["#old", "keep", "new"]);
+    });
+
+    it("should rename tags in a string property, keeping its separator", () => {
+      const frontmatter: Record<string, unknown> = { tag: "old, keep" };
+      expect(applyFrontmatterTagRename(frontmatter, [{ from: "old", to: "new" }])).toHaveLength(1);
+      expect(frontmatter.tag).toBe("new, keep");
+    });
+
+    it("should report no changes when no tag matches", () => {
+      expect(planFrontmatterTagRename({ tags: ["keep", 3] }, [{ from: "old", to: "new" }])).toEqual([]);
+      expect(planFrontmatterTagRename(undefined, [{ from: "old", to: "new" }])).toEqual([]);
+    });
+  });
+});
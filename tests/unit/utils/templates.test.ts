@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import {
+  renderTemplateVariables,
+  getTemplateFolders,
+  listTemplates,
+  findTemplate,
+  hasTemplaterSyntax,
+  hasTemplateVariables,
+  type TemplateVariables,
+} from "../../../src/utils/templates";
+
+// Shows the format and offset of each call so tests can check them.
+const variables: TemplateVariables = {
+  title: "2025-01-02",
+  formatDate: (format, offset) => (offset ? `[${format} ${offset.amount}${offset.unit}]` : `[${format}]`),
+  dateFormat: "YYYY-MM-DD",
+  timeFormat: "HH:mm",
+};
+
+describe("templates utilities", () => {
+  describe("renderTemplateVariables", () => {
+    it("should fill in title, date and time with default formats", () => {
+      expect(renderTemplateVariables("# {{title}}\nCreated {{date}} at {{ time }}", variables)).toBe(
+        "# 2025-01-02\nCreated [YYYY-MM-DD] at [HH:mm]"
+      );
+    });
+
+    it("should apply explicit formats and offsets", () => {
+      expect(renderTemplateVariables("{{date:dddd, MMMM D}} {{time:HH:mm:ss}}", variables)).toBe(
+        "[dddd, MMMM D] [HH:mm:ss]"
+      );
+      expect(renderTemplateVariables("Last week: {{date-7d:YYYY-MM-DD}}", variables)).toBe(
+        "Last week: [YYYY-MM-DD -7d]"
+      );
+    });
+
+    it("should link to yesterday and tomorrow", () => {
+      expect(renderTemplateVariables("[[{{yesterday}}]] | [[{{Tomorrow}}]]", variables)).toBe(
+        "[[[YYYY-MM-DD -1d]]] | [[[YYYY-MM-DD 1d]]]"
+      );
+    });
+
+    it("should leave other text and unknown variables alone", () => {
+      expect(renderTemplateVariables("{{unknown}} <% tp.date.now() %> {date}", variables)).toBe(
+        "{{unknown}} <% tp.date.now() %> {date}"
+      );
+    });
+  });
+
+  describe("getTemplateFolders", () => {
+    it("should combine the core and Templater folders without duplicates", () => {
+      expect(getTemplateFolders({ folder: "/Templates/" }, { templates_folder: "Templates" })).toEqual(["Templates"]);
+      expect(getTemplateFolders({ folder: "Templates" }, { templates_folder: "Meta/Templater" })).toEqual([
+        "Templates",
+        "Meta/Templater",
+      ]);
+      expect(getTemplateFolders(undefined, { templates_folder: "" })).toEqual([]);
+    });
+  });
+
+  const paths = [
+    "Templates/Daily.md",
+    "Templates/Work/Meeting.md",
+    "Templates/Personal/Meeting.md",
+    "Templates/Work/Project.md",
+    "Templates/image.png",
+    "Notes/Meeting.md",
+  ];
+
+  describe("listTemplates", () => {
+    it("should list markdown notes in the template folders by name", () => {
+      expect(listTemplates(paths, ["Templates"])).toEqual([
+        { name: "Daily", path: "Templates/Daily.md" },
+        { name: "Personal/Meeting", path: "Templates/Personal/Meeting.md" },
+        { name: "Work/Meeting", path: "Templates/Work/Meeting.md" },
+        { name: "Work/Project", path: "Templates/Work/Project.md" },
+      ]);
+      expect(listTemplates(paths, [])).toEqual([]);
+    });
+  });
+
+  describe("findTemplate", () => {
+    it("should find templates by vault path, folder path or unique name", () => {
+      expect(findTemplate(paths, ["Templates"], "Templates/Daily.md")).toEqual({ path: "Templates/Daily.md" });
+      expect(findTemplate(paths, ["Templates"], "Work/Meeting")).toEqual({ path: "Templates/Work/Meeting.md" });
+      expect(findTemplate(paths, ["Templates"], "project")).toEqual({ path: "Templates/Work/Project.md" });
+      expect(findTemplate(paths, ["Templates"], "Notes/Meeting")).toEqual({ path: "Notes/Meeting.md" });
+    });
+
+    it("should report ambiguous and missing templates", () => {
+      expect(findTemplate(paths, ["Templates"], "Meeting")).toBe(
+        '"Meeting" matches 2 templates (Templates/Personal/Meeting.md, Templates/Work/Meeting.md); use its path'
+      );
+      expect(findTemplate(paths, ["Templates"], "Weekly")).toBe(
+        "Template not found: Weekly (looked in Templates)"
+      );
+      expect(findTemplate(paths, [], "Weekly")).toBe("Template not found: Weekly (no templates folder is configured)");
+    });
+  });
+
+  describe("hasTemplaterSyntax / hasTemplateVariables", () => {
+    it("should detect Templater commands and core variables", () => {
+      expect(hasTemplaterSyntax("Created <% tp.date.now() %>")).toBe(true);
+      expect(hasTemplaterSyntax("<%*\nconst x = 1;\n%>")).toBe(true);
+      expect(hasTemplaterSyntax("{{date}}")).toBe(false);
+      expect(hasTemplateVariables("# {{ title }}")).toBe(true);
+      expect(hasTemplateVariables("{{unknown}}")).toBe(false);
+    });
+  });
+});
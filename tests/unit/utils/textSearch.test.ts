@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest";
+import {
+  tokenize,
+  parseSearchQuery,
+  queryHasPhrases,
+  matchesQuery,
+  SearchIndex,
+  buildSnippets,
+  type SearchDocument,
+  type SearchQuery,
+} from "../../../src/utils/textSearch";
+
+function doc(path: string, fields: Partial<SearchDocument>): SearchDocument {
+  return { path, title: "", headings: "", tags: "", body: "", ...fields };
+}
+
+function parse(query: string): SearchQuery {
+  const parsed = parseSearchQuery(query);
+  if (typeof parsed === "string") throw new Error(parsed);
+  return parsed;
+}
+
+describe("textSearch utilities", () => {
+  describe("tokenize", () => {
+    it("should split on anything but letters and digits, lowercased", () => {
+      expect(tokenize("Café-Notes: #project/alpha 2024!")).toEqual(["café", "notes", "project", "alpha", "2024"]);
+      expect(tokenize("...")).toEqual([]);
+    });
+  });
+
+  describe("parseSearchQuery", () => {
+    it("should parse words, phrases, prefixes and exclusions", () => {
+      expect(parse('budget "Q3 review" plan* -draft')).toEqual({
+        type: "and",
+        children: [
+          { type: "term", term: "budget", prefix: false },
+          { type: "phrase", terms: ["q3", "review"] },
+          { type: "term", term: "plan", prefix: true },
+          { type: "not", child: { type: "term", term: "draft", prefix: false } },
+        ],
+      });
+    });
+
+    it("should bind AND tighter than OR and respect parentheses", () => {
+      expect(parse("a b OR c")).toEqual({
+        type: "or",
+        children: [
+          {
+            type: "and",
+            children: [
+              { type: "term", term: "a", prefix: false },
+              { type: "term", term: "b", prefix: false },
+            ],
+          },
+          { type: "term", term: "c", prefix: false },
+        ],
+      });
+      expect(parse("a AND (b | c) NOT d")).toMatchObject({
+        type: "and",
+        children: [{ type: "term" }, { type: "or" }, { type: "not" }],
+      });
+    });
+
+    it("should search hyphenated words as phrases", () => {
+      expect(parse("e-mail")).toEqual({ type: "phrase", terms: ["e", "mail"] });
+    });
+
+    it("should reject malformed queries", () => {
+      expect(parseSearchQuery("")).toBe("Query is empty");
+      expect(parseSearchQuery("(a OR b")).toBe("Unmatched parenthesis in query");
+      expect(parseSearchQuery("a)")).toBe("Unmatched parenthesis in query");
+      expect(parseSearchQuery("a OR")).toBe("OR needs a search term on both sides");
+      expect(parseSearchQuery("-draft")).toBe("Query only excludes terms; add a word or phrase to search for");
+    });
+  });
+
+  describe("matchesQuery", () => {
+    it("should check phrases within one field", () => {
+      const query = parse('"project alpha" -archived');
+      expect(queryHasPhrases(query)).toBe(true);
+      expect(matchesQuery(query, ["Project Alpha", "", "", "notes"])).toBe(true);
+      expect(matchesQuery(query, ["Project", "Alpha", "", ""])).toBe(false);
+      expect(matchesQuery(query, ["Project Alpha", "", "archived", ""])).toBe(false);
+    });
+  });
+
+  describe("SearchIndex", () => {
+    function buildIndex(): SearchIndex {
+      const index = new SearchIndex();
+      index.set(doc("Budget.md", { title: "Budget", body: "Spending plan for the year." }));
+      index.set(doc("Notes/Meeting.md", { title: "Meeting", body: "We discussed the budget and the planning." }));
+      index.set(doc("Notes/Trip.md", { title: "Trip", tags: "travel", body: "Packing list and plans." }));
+      index.set(doc("Drafts/Budget draft.md", { title: "Budget draft", body: "budget budget budget" }));
+      return index;
+    }
+
+    it("should rank title matches above body matches", () => {
+      const results = buildIndex().search(parse("budget"));
+      expect(results.map((result) => result.path)).toEqual([
+        "Drafts/Budget draft.md",
+        "Budget.md",
+        "Notes/Meeting.md",
+      ]);
+      expect(results[0].fields).toEqual(["title", "body"]);
+      expect(results[1].fields).toEqual(["title"]);
+      expect(results[2].fields).toEqual(["body"]);
+      expect(results[1].score).toBeGreaterThan(results[2].score);
+    });
+
+    it("should apply boolean operators, prefixes and filters", () => {
+      const index = buildIndex();
+      const paths = (query: string, include?: (path: string) => boolean) =>
+        index
+          .search(parse(query), include)
+          .map((result) => result.path)
+          .sort();
+
+      expect(paths("budget -draft")).toEqual(["Budget.md", "Notes/Meeting.md"]);
+      expect(paths("travel OR spending")).toEqual(["Budget.md", "Notes/Trip.md"]);
+      expect(paths("plan*")).toEqual(["Budget.md", "Notes/Meeting.md", "Notes/Trip.md"]);
+      expect(paths("budget", (path) => path.startsWith("Notes/"))).toEqual(["Notes/Meeting.md"]);
+      // Phrases are approximated by requiring every word; excluded phrases are left to matchesQuery.
+      expect(paths('"plan spending"')).toEqual(["Budget.md"]);
+      expect(paths('budget -"budget draft"')).toHaveLength(3);
+    });
+
+    it("should update and remove notes incrementally", () => {
+      const index = buildIndex();
+      index.set(doc("Notes/Trip.md", { title: "Trip", body: "Budget for flights" }));
+      expect(index.search(parse("travel"))).toEqual([]);
+      expect(index.search(parse("budget")).map((result) => result.path)).toContain("Notes/Trip.md");
+
+      index.remove("Budget.md");
+      index.remove("Missing.md");
+      expect(index.size).toBe(3);
+      expect(index.has("Budget.md")).toBe(false);
+      expect(index.search(parse("spending"))).toEqual([]);
+    });
+  });
+
+  describe("buildSnippets", () => {
+    const content = [
+      "---",
+      "tags: [budget]",
+      "---",
+      "# Budget review",
+      "Nothing here.",
+      "The budget review covered planning and the budget.",
+      "Plans for next year.",
+    ].join("\n");
+
+    it("should return the best matching lines in note order with matches in bold", () => {
+      expect(buildSnippets(content, parse('"budget review" plan*'), 2)).toEqual([
+        { line: 4, text: "# **Budget review**" },
+        { line: 6, text: "The **budget review** covered **planning** and the budget." },
+      ]);
+    });
+
+    it("should highlight whole words only", () => {
+      expect(buildSnippets("a plan, a planet", parse("plan"), 3)).toEqual([{ line: 1, text: "a **plan**, a planet" }]);
+      expect(buildSnippets("nothing", parse("plan"), 3)).toEqual([]);
+    });
+
+    it("should cut long lines around the first match", () => {
+      const line = `${"x ".repeat(100)}needle${" y".repeat(100)}`;
+      const [snippet] = buildSnippets(line, parse("needle"), 1);
+      expect(snippet.text).toMatch(/^….*\*\*needle\*\*.*…$/);
+      expect(snippet.text.length).toBeLessThan(220);
+    });
+  });
+});
@@ -57,6 +57,10 @@ describe("toolDisplay utilities", () => {
       expect(getToolInputSummary("Write", { file_path: "src/main.ts" })).toBe("main.ts");
     });
 
+    it("should count paths of bulk tools", () => {
+      expect(getToolInputSummary("mcp__obsidian__update_properties", { paths: ["a.md", "b.md"] })).toBe("2 files");
+    });
+
     it("should extract path", () => {
       expect(getToolInputSummary("Glob", { path: "/path/to/dir" })).toBe("dir");
     });
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import {
+  findOrphans,
+  findUnreferencedFiles,
+  groupBrokenLinks,
+  normalizeTitle,
+  findDuplicateTitles,
+  getNoteBody,
+  countWords,
+  minHashSignature,
+  findSimilarNotes,
+  formatVaultHealthMarkdown,
+  type VaultHealthReport,
+} from "../../../src/utils/vaultHealth";
+
+describe("vaultHealth utilities", () => {
+  const resolved = {
+    "a.md": { "b.md": 1, "img.png": 2 },
+    "b.md": {},
+    "self.md": { "self.md": 1 },
+  };
+
+  describe("findOrphans", () => {
+    it("should find notes with no links in or out, ignoring links to themselves", () => {
+      expect(findOrphans(["a.md", "b.md", "c.md", "self.md"], resolved)).toEqual(["c.md", "self.md"]);
+    });
+
+    it("should count extra references such as canvas file nodes", () => {
+      expect(findOrphans(["c.md", "d.md"], resolved, new Set(["d.md"]))).toEqual(["c.md"]);
+    });
+  });
+
+  describe("findUnreferencedFiles", () => {
+    it("should find files nothing links to", () => {
+      expect(findUnreferencedFiles(["img.png", "unused.pdf", "drawn.png"], resolved, new Set(["drawn.png"]))).toEqual([
+        "unused.pdf",
+      ]);
+    });
+  });
+
+  describe("groupBrokenLinks", () => {
+    it("should group sources by target, most linked first", () => {
+      const groups = groupBrokenLinks([
+        { target: "Missing", path: "a.md", line: 3, link: "[[Missing]]" },
+        { target: "Gone", path: "a.md", line: 5, link: "[[Gone]]" },
+        { target: "Gone", path: "b.md", property: "related", link: "Gone" },
+      ]);
+      expect(groups).toEqual([
+        {
+          target: "Gone",
+          sources: [
+            { path: "a.md", line: 5, link: "[[Gone]]" },
+            { path: "b.md", property: "related", link: "Gone" },
+          ],
+        },
+        { target: "Missing", sources: [{ path: "a.md", line: 3, link: "[[Missing]]" }] },
+      ]);
+    });
+  });
+
+  describe("duplicate titles", () => {
+    it("should drop case, punctuation and copy suffixes but keep numbers", () => {
+      expect(normalizeTitle("Meeting Notes (2)")).toBe("meetingnotes");
+      expect(normalizeTitle("meeting-notes copy")).toBe("meetingnotes");
+      expect(normalizeTitle("Chapter 1")).not.toBe(normalizeTitle("Chapter 2"));
+    });
+
+    it("should group notes whose titles match", () => {
+      expect(findDuplicateTitles(["Work/Meeting notes.md", "Meeting Notes (2).md", "Other.md"])).toEqual([
+        { title: "meetingnotes", paths: ["Meeting Notes (2).md", "Work/Meeting notes.md"] },
+      ]);
+    });
+  });
+
+  describe("word counts", () => {
+    it("should skip frontmatter", () => {
+      const content = "---\ntitle: Some long title here\n---\n# Heading\n\nTwo words";
+      expect(getNoteBody(content)).toBe("# Heading\n\nTwo words");
+      expect(countWords(content)).toBe(3);
+      expect(countWords("---\ntags: [x]\n---\n")).toBe(0);
+    });
+  });
+
+  describe("similar content", () => {
+    const words = (start: number, count: number) =>
+      Array.from({ length: count }, (_, i) => `word${start + i}`).join(" ");
+
+    it("should skip notes below the minimum word count", () => {
+      expect(minHashSignature(words(0, 10), 20)).toBeNull();
+    });
+
+    it("should pair notes with nearly the same text and not different ones", () => {
+      const original = words(0, 200);
+      const edited = `${original} and a short ending`;
+      const signature = (text: string) => minHashSignature(text, 20) as Uint32Array;
+      const pairs = findSimilarNotes(
+        [
+          { path: "b.md", signature: signature(edited) },
+          { path: "a.md", signature: signature(original) },
+          { path: "c.md", signature: signature(words(1000, 200)) },
+        ],
+        0.8
+      );
+      expect(pairs).toHaveLength(1);
+      expect(pairs[0].paths).toEqual(["a.md", "b.md"]);
+      expect(pairs[0].similarity).toBeGreaterThanOrEqual(0.8);
+    });
+  });
+
+  describe("formatVaultHealthMarkdown", () => {
+    it("should link every note and say when a section is cut short", () => {
+      const report: VaultHealthReport = {
+        generated: "2024-05-01 10:00",
+        folder: "",
+        summary: { notes: 10, attachments: 2, orphans: 3, brokenLinks: 1, unusedAttachments: 0 },
+        orphans: ["Ideas/Loose.md", "Old.md"],
+        brokenLinks: [{ target: "Missing", sources: [{ path: "a.md", line: 4, link: "[[Missing]]" }] }],
+        unusedAttachments: [],
+      };
+      expect(formatVaultHealthMarkdown(report)).toBe(
+        [
+          "# Vault health",
+          "",
+          "Generated 2024-05-01 10:00 for the whole vault: 10 notes and 2 attachments.",
+          "",
+          "## Orphan notes (showing 2 of 3)",
+          "",
+          "- [[Ideas/Loose]]",
+          "- [[Old]]",
+          "",
+          "## Broken links",
+          "",
+          "- `Missing`",
+          "  - [[a]] (line 4)",
+          "",
+          "## Unused attachments",
+          "",
+          "No unused attachments.",
+          "",
+        ].join("\n")
+      );
+    });
+  });
+});